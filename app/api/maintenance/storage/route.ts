@@ -0,0 +1,24 @@
+// app/api/maintenance/storage/route.ts
+// works バケットの孤児ファイル掃除（Vercel Cron などから定期的に呼ぶ）
+//   Authorization: Bearer ${CRON_SECRET} が必要。?dry_run=1 なら消さずに一覧だけ返す
+import { createServiceClient, errorResponse, isMaintenanceRequest } from '@/lib/maintenance';
+import { purgeOrphanedWorkFiles } from '@/lib/storageMaintenance';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: Request) {
+  if (!isMaintenanceRequest(request)) return errorResponse(401, 'unauthorized', 'unauthorized');
+
+  const supabase = createServiceClient();
+  if (!supabase) return errorResponse(500, 'backend', 'SUPABASE_SERVICE_ROLE_KEY is not set');
+
+  const dryRun = new URL(request.url).searchParams.get('dry_run') === '1';
+
+  try {
+    const report = await purgeOrphanedWorkFiles(supabase, { dryRun });
+    return Response.json({ data: { ...report, dry_run: dryRun } });
+  } catch (err) {
+    console.error('maintenance/storage: 棚卸しエラー', err);
+    return errorResponse(502, 'backend', 'storage reconciliation failed');
+  }
+}
@@ -0,0 +1,22 @@
+// app/api/maintenance/works/route.ts
+// 削除から WORK_DELETE_UNDO_DAYS を過ぎた作品の完全削除（Vercel Cron などから定期的に呼ぶ）
+//   Authorization: Bearer ${CRON_SECRET} が必要
+import { createServiceClient, errorResponse, isMaintenanceRequest } from '@/lib/maintenance';
+import { purgeDeletedWorks } from '@/lib/storageMaintenance';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: Request) {
+  if (!isMaintenanceRequest(request)) return errorResponse(401, 'unauthorized', 'unauthorized');
+
+  const supabase = createServiceClient();
+  if (!supabase) return errorResponse(500, 'backend', 'SUPABASE_SERVICE_ROLE_KEY is not set');
+
+  try {
+    const report = await purgeDeletedWorks(supabase);
+    return Response.json({ data: report });
+  } catch (err) {
+    console.error('maintenance/works: 完全削除エラー', err);
+    return errorResponse(502, 'backend', 'failed to purge deleted works');
+  }
+}
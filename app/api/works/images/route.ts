@@ -0,0 +1,104 @@
+// app/api/works/images/route.ts
+// 作品画像のアップロード：変換（lib/imagePipeline.ts）してから、ユーザーの権限で works バケットに置く
+import { createClient } from '@supabase/supabase-js';
+import type { DataErrorCode } from '@/lib/data/errors';
+import type { ImageMeta, ImageVariantSize, WorkImageInput } from '@/lib/data/types';
+import {
+  WORK_IMAGE_MAX_BYTES,
+  workImageDir,
+  workImageVariantPath,
+} from '@/lib/data/workImages';
+import { processImage } from '@/lib/imagePipeline';
+
+export const runtime = 'nodejs';
+
+const errorResponse = (status: number, code: DataErrorCode, message: string) =>
+  Response.json({ error: { code, message } }, { status });
+
+export async function POST(request: Request) {
+  const token = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) return errorResponse(401, 'unauthorized', 'ログインしていません');
+
+  // RLS・Storage のポリシーがそのまま効くよう、ユーザーのトークンで接続する
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      global: { headers: { Authorization: `Bearer ${token}` } },
+      auth: { persistSession: false, autoRefreshToken: false },
+    }
+  );
+
+  const { data: userData, error: userError } = await supabase.auth.getUser(token);
+  if (userError || !userData.user) {
+    return errorResponse(401, 'unauthorized', 'ログインしていません');
+  }
+
+  const form = await request.formData().catch(() => null);
+  const file = form?.get('file');
+  if (!(file instanceof Blob)) return errorResponse(400, 'invalid', 'file is required');
+  if (!file.type.startsWith('image/')) return errorResponse(415, 'invalid', 'not an image');
+  if (file.size > WORK_IMAGE_MAX_BYTES) return errorResponse(413, 'invalid', 'file too large');
+
+  let processed: Awaited<ReturnType<typeof processImage>>;
+  try {
+    processed = await processImage(Buffer.from(await file.arrayBuffer()));
+  } catch (err) {
+    console.error('works/images: 変換エラー', err);
+    return errorResponse(422, 'invalid', 'could not read the image');
+  }
+
+  // パスは 1 枚ごとにユニークなので、長くキャッシュさせる
+  const dir = workImageDir(userData.user.id);
+  const bucket = supabase.storage.from('works');
+  const uploadedPaths: string[] = [];
+
+  for (const variant of processed.files) {
+    const path = workImageVariantPath(dir, variant.size, variant.format);
+    const { error } = await bucket.upload(path, variant.buffer, {
+      contentType: variant.contentType,
+      cacheControl: '31536000',
+      upsert: false,
+    });
+
+    if (error) {
+      console.error('works/images: アップロードエラー', error.message);
+      if (uploadedPaths.length > 0) await bucket.remove(uploadedPaths);
+      return errorResponse(502, 'backend', 'failed to store the image');
+    }
+    uploadedPaths.push(path);
+  }
+
+  const variantOf = (size: ImageVariantSize) => {
+    const files = processed.files.filter((f) => f.size === size);
+    const urlOf = (format: 'avif' | 'webp') =>
+      bucket.getPublicUrl(workImageVariantPath(dir, size, format)).data.publicUrl;
+
+    return {
+      width: files[0].width,
+      height: files[0].height,
+      avif: urlOf('avif'),
+      webp: urlOf('webp'),
+    };
+  };
+
+  const meta: ImageMeta = {
+    width: processed.width,
+    height: processed.height,
+    placeholder: processed.placeholder,
+    variants: {
+      thumb: variantOf('thumb'),
+      medium: variantOf('medium'),
+      large: variantOf('large'),
+    },
+  };
+
+  // url（= カバーのときの works.image_url）は派生画像に対応していない画面向けに大きい WebP
+  const data: WorkImageInput = {
+    storage_path: dir,
+    url: meta.variants.large.webp,
+    meta,
+  };
+
+  return Response.json({ data });
+}
@@ -0,0 +1,107 @@
+// app/auth/callback/AuthCallbackPageClient.tsx
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { authHref, loginHref, safeNextPath } from '@/lib/authRoutes';
+import { db, hasRole } from '@/lib/data';
+
+const EXPIRED_MESSAGE =
+  'リンクの有効期限が切れているか、すでに使われています。もう一度メールを送ってください。';
+
+// 確認のリンクは Supabase がリダイレクトする前に確認を済ませている（プロフィールもトリガーが作る）。
+// ここでつまずくのは別の端末・ブラウザで開いたときがほとんどなので、パスワードでのログインに案内する
+const CONFIRMED_MESSAGE =
+  'メールアドレスの確認は済んでいます。このブラウザではログインできなかったので、パスワードでログインしてください。';
+
+export default function AuthCallbackPageClient() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const code = searchParams.get('code');
+  const type = searchParams.get('type');
+  const next = safeNextPath(searchParams.get('next'));
+  // 期限切れのリンクは Supabase が ?error_code=otp_expired などを付けて戻してくる
+  const linkError = searchParams.get('error_code') ?? searchParams.get('error');
+
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  // 登録の確認は済んでいて、ログインだけできなかった
+  const [confirmed, setConfirmed] = useState(false);
+  // コードは 1 回しか使えないので、開発モードで effect が 2 回走っても 1 回だけ送る
+  const startedRef = useRef(false);
+
+  useEffect(() => {
+    if (!code || linkError || startedRef.current) return;
+    startedRef.current = true;
+
+    const complete = async () => {
+      const { data: user, error } = await db.auth.exchangeCode(code);
+
+      if (error) {
+        console.error('AuthCallbackPage: セッション開始エラー', error.message);
+        if (type === 'signup' && error.code === 'invalid') {
+          setConfirmed(true);
+          setErrorMsg(CONFIRMED_MESSAGE);
+          return;
+        }
+        setErrorMsg(
+          error.code === 'invalid'
+            ? `${EXPIRED_MESSAGE}（登録・送信をしたのと同じブラウザで開いてください）`
+            : 'ログインに失敗しました。時間をおいて再度お試しください。'
+        );
+        return;
+      }
+
+      if (type === 'recovery') {
+        router.replace(authHref('/auth/reset-password', next));
+        return;
+      }
+
+      // 登録したばかりのクリエイターはまずプロフィールを埋めてもらう
+      if (type === 'signup') {
+        const { data: profile } = await db.profiles.getById(user.id);
+        if (hasRole(profile, 'creator')) {
+          router.replace('/profile/edit');
+          return;
+        }
+      }
+
+      router.replace(next);
+    };
+
+    void complete();
+  }, [code, linkError, type, next, router]);
+
+  const shownError = !code || linkError ? EXPIRED_MESSAGE : errorMsg;
+
+  if (!shownError) {
+    return (
+      <div className="min-h-[calc(100vh-56px)] flex items-center justify-center text-xs text-slate-400">
+        ログインしています…
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-[calc(100vh-56px)] flex items-center justify-center">
+      <div className="max-w-md space-y-3 rounded-2xl border border-slate-700 bg-slate-900/80 px-6 py-6 text-center">
+        <p className="text-sm font-semibold text-slate-100">
+          {confirmed ? 'メールアドレスを確認しました' : 'リンクを開けませんでした'}
+        </p>
+        <p className="text-xs text-slate-400">{shownError}</p>
+        <div className="flex flex-wrap justify-center gap-2">
+          <Link
+            href={type === 'recovery' ? authHref('/auth/forgot-password', next) : loginHref(next)}
+            className="inline-flex rounded-full border border-slate-600 bg-slate-900/70 px-3 py-1 text-xs text-slate-100 hover:bg-slate-800/80 transition"
+          >
+            {type === 'recovery'
+              ? '再設定のメールを送り直す'
+              : confirmed
+                ? 'パスワードでログイン'
+                : 'ログイン画面へ'}
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
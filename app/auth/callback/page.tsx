@@ -0,0 +1,18 @@
+// app/auth/callback/page.tsx
+// メールのリンク（登録の確認・ログイン用リンク・パスワード再設定）で戻ってくるページ
+import { Suspense } from 'react';
+import AuthCallbackPageClient from './AuthCallbackPageClient';
+
+export default function AuthCallbackPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-[calc(100vh-56px)] flex items-center justify-center text-xs text-slate-400">
+          ログインしています…
+        </div>
+      }
+    >
+      <AuthCallbackPageClient />
+    </Suspense>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,103 @@
+// app/auth/forgot-password/ForgotPasswordPageClient.tsx
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import CheckInboxNotice from '@/components/CheckInboxNotice';
+import { authCallbackUrl, loginHref, safeNextPath } from '@/lib/authRoutes';
+import { db } from '@/lib/data';
+
+export default function ForgotPasswordPageClient() {
+  const searchParams = useSearchParams();
+  // 再設定が済んだら戻るページ
+  const next = safeNextPath(searchParams.get('next'));
+
+  const [email, setEmail] = useState('');
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  const sendReset = (target: string) =>
+    db.auth.sendPasswordReset(target, authCallbackUrl('recovery', next));
+
+  const handleSubmit = async () => {
+    const target = email.trim();
+    if (!target) {
+      setErrorMsg('メールアドレスを入力してください。');
+      return;
+    }
+
+    setErrorMsg(null);
+    setLoading(true);
+
+    const { error } = await sendReset(target);
+
+    setLoading(false);
+    if (error) {
+      console.error('ForgotPassword: 送信エラー', error.message);
+      setErrorMsg('メールを送れませんでした。少し時間をおいて再度お試しください。');
+      return;
+    }
+
+    // 登録済みかどうかに関わらず同じ表示にする
+    setSentTo(target);
+  };
+
+  return (
+    <div className="min-h-[calc(100vh-56px)] flex items-center justify-center">
+      <div className="w-full max-w-md rounded-3xl border border-white/15 bg-slate-900/70 px-7 py-7 shadow-[0_18px_45px_rgba(15,23,42,0.7)] backdrop-blur space-y-4 text-xs">
+        <div className="text-center">
+          <h1 className="text-lg font-semibold">パスワードの再設定</h1>
+          <p className="mt-1 text-[11px] text-slate-400">
+            登録したメールアドレスに、新しいパスワードを決めるためのリンクを送ります。
+          </p>
+        </div>
+
+        {errorMsg && (
+          <div className="text-[11px] text-red-400 border border-red-500/40 bg-red-950/40 rounded-xl px-3 py-2">
+            {errorMsg}
+          </div>
+        )}
+
+        {sentTo ? (
+          <CheckInboxNotice
+            email={sentTo}
+            description="登録済みのアドレスであれば、メールのリンクから新しいパスワードを設定できます。"
+            onResend={() => sendReset(sentTo)}
+          />
+        ) : (
+          <>
+            <div>
+              <label className="mb-1.5 block font-medium text-slate-200">メールアドレス</label>
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="you@example.com"
+                className="w-full rounded-xl border border-slate-700 bg-slate-900/60 px-3 py-2 text-sm text-slate-50 outline-none ring-0 transition focus:border-pink-400 focus:ring-2 focus:ring-pink-500/50"
+              />
+            </div>
+            <button
+              type="button"
+              onClick={handleSubmit}
+              disabled={loading}
+              className="w-full rounded-full bg-gradient-to-r from-pink-500 to-sky-500 px-4 py-2 text-sm font-semibold text-white shadow-lg shadow-pink-500/30 transition hover:brightness-110 disabled:opacity-60 disabled:cursor-not-allowed"
+            >
+              {loading ? '送信中…' : '再設定のリンクを送る'}
+            </button>
+          </>
+        )}
+
+        <div className="text-center">
+          <Link
+            href={loginHref(next)}
+            className="text-[11px] text-sky-300 hover:text-sky-200 transition"
+          >
+            ログイン画面に戻る
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
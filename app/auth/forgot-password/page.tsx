@@ -0,0 +1,18 @@
+// app/auth/forgot-password/page.tsx
+// パスワード再設定のリンクを送るページ
+import { Suspense } from 'react';
+import ForgotPasswordPageClient from './ForgotPasswordPageClient';
+
+export default function ForgotPasswordPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-[calc(100vh-56px)] flex items-center justify-center text-xs text-slate-400">
+          読み込み中です…
+        </div>
+      }
+    >
+      <ForgotPasswordPageClient />
+    </Suspense>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,106 @@
+// app/auth/inbox/page.tsx
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { listMemoryOutbox, type MemoryMail } from '@/lib/data';
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString('ja-JP', {
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    timeZone: 'Asia/Tokyo',
+  });
+
+// メールのリンクは絶対 URL なので、ページを読み直さない（ストアを消さない）ようパスにして開く
+const toPath = (link: string) => {
+  const url = new URL(link, window.location.origin);
+  return `${url.pathname}${url.search}`;
+};
+
+// 開発用のメールボックス（インメモリバックエンドが送ったメール。ローカル Supabase の Inbucket の代わり）
+export default function InboxPage() {
+  // null は Supabase で動いているとき
+  const [mails, setMails] = useState<MemoryMail[] | null>([]);
+  const [loaded, setLoaded] = useState(false);
+
+  const load = async () => {
+    setMails(await listMemoryOutbox());
+    setLoaded(true);
+  };
+
+  // インメモリのストアはブラウザにしかないので、描画後に読む
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchMails = async () => {
+      const list = await listMemoryOutbox();
+      if (cancelled) return;
+      setMails(list);
+      setLoaded(true);
+    };
+
+    void fetchMails();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return (
+    <div className="mx-auto max-w-2xl space-y-4 py-6 text-xs">
+      <div className="flex items-center justify-between gap-2">
+        <h1 className="text-lg font-semibold text-slate-50">開発用メールボックス</h1>
+        <button
+          type="button"
+          onClick={() => void load()}
+          className="rounded-full border border-slate-600 bg-slate-900/70 px-3 py-1 text-slate-100 hover:bg-slate-800/80 transition"
+        >
+          更新
+        </button>
+      </div>
+
+      {mails === null ? (
+        <p className="text-slate-400">
+          Supabase で動いているときは実際にメールが送られます。ローカルの Supabase では Inbucket
+          （supabase status の Inbucket URL）で確認してください。
+        </p>
+      ) : !loaded ? (
+        <p className="text-slate-500">読み込み中です…</p>
+      ) : mails.length === 0 ? (
+        <p className="text-slate-500">
+          まだメールはありません。ページを読み直すとインメモリのデータごと消えます。
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {mails.map((mail) => (
+            <li
+              key={mail.id}
+              className="rounded-2xl border border-slate-800 bg-slate-900/70 px-4 py-3 space-y-1.5"
+            >
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="font-semibold text-slate-100">{mail.subject}</span>
+                <span className="text-[10px] text-slate-500">
+                  {mail.to}・{formatTime(mail.created_at)}
+                  {mail.used_at && '（使用済み）'}
+                </span>
+              </div>
+              {mail.otp && (
+                <p className="text-slate-300">
+                  コード：<span className="font-mono text-sm text-slate-50">{mail.otp}</span>
+                </p>
+              )}
+              <Link
+                href={toPath(mail.link)}
+                className="inline-flex text-sky-300 hover:text-sky-200 transition break-all"
+              >
+                {toPath(mail.link)}
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -2,23 +2,39 @@
 'use client';
 
 import { useState } from 'react';
+import Link from 'next/link';
 import { useRouter, useSearchParams } from 'next/navigation';
-import { supabase } from '@/lib/supabaseClient';
+import CheckInboxNotice from '@/components/CheckInboxNotice';
+import { authCallbackUrl, authHref, safeNextPath } from '@/lib/authRoutes';
+import { db, type Role } from '@/lib/data';
 
 type Tab = 'login' | 'signup';
-type Role = 'creator' | 'client';
+
+// パスワードか、メールのリンク・コード（マジックリンク）か
+type LoginMethod = 'password' | 'link';
+
+// メールを送ったあと（届いたメールを見てもらう）
+type Sent = {
+  email: string;
+  kind: 'signup' | 'magiclink';
+};
 
 export default function AuthPageClient() {
   const router = useRouter();
   const searchParams = useSearchParams();
-  const next = searchParams.get('next') || '/works';
+  // 外部サイトなどには戻さない
+  const next = safeNextPath(searchParams.get('next'));
   const tabFromQuery = searchParams.get('tab') === 'signup' ? 'signup' : 'login';
 
   const [tab, setTab] = useState<Tab>(tabFromQuery);
+  const [loginMethod, setLoginMethod] = useState<LoginMethod>('password');
+  const [sent, setSent] = useState<Sent | null>(null);
+  const [otp, setOtp] = useState('');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [displayName, setDisplayName] = useState('');
-  const [role, setRole] = useState<Role>('client');
+  // both はクリエイターと依頼者の両方（最初はクリエイターとして使う）
+  const [role, setRole] = useState<Role | 'both'>('client');
   const [loading, setLoading] = useState(false);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
 
@@ -26,13 +42,51 @@ export default function AuthPageClient() {
     setErrorMsg(null);
     setLoading(true);
 
-    const { error } = await supabase.auth.signInWithPassword({
-      email,
-      password,
-    });
+    const { error } = await db.auth.signInWithPassword(email, password);
+
+    if (error) {
+      // 確認メールのリンクをまだ開いていない
+      if (error.code === 'unconfirmed') {
+        setSent({ email, kind: 'signup' });
+      } else {
+        setErrorMsg(error.message);
+      }
+      setLoading(false);
+      return;
+    }
+
+    router.push(next);
+  };
+
+  const handleSendLink = async () => {
+    setErrorMsg(null);
+    setLoading(true);
+
+    const { error } = await db.auth.sendMagicLink(email, authCallbackUrl('magiclink', next));
+
+    setLoading(false);
+    if (error) {
+      setErrorMsg(error.message || 'メールを送れませんでした');
+      return;
+    }
+
+    setOtp('');
+    setSent({ email, kind: 'magiclink' });
+  };
+
+  const handleVerifyOtp = async () => {
+    if (!sent) return;
+    setErrorMsg(null);
+    setLoading(true);
+
+    const { error } = await db.auth.verifyEmailOtp(sent.email, otp);
 
     if (error) {
-      setErrorMsg(error.message);
+      setErrorMsg(
+        error.code === 'invalid'
+          ? 'コードが正しくないか、有効期限が切れています。'
+          : error.message || 'ログインに失敗しました'
+      );
       setLoading(false);
       return;
     }
@@ -40,36 +94,48 @@ export default function AuthPageClient() {
     router.push(next);
   };
 
+  const switchTab = (nextTab: Tab) => {
+    setTab(nextTab);
+    setSent(null);
+    setErrorMsg(null);
+  };
+
+  const resend = (target: Sent) =>
+    target.kind === 'signup'
+      ? db.auth.resendConfirmation(target.email, authCallbackUrl('signup', next))
+      : db.auth.sendMagicLink(target.email, authCallbackUrl('magiclink', next));
+
   const handleSignup = async () => {
     setErrorMsg(null);
     setLoading(true);
 
-    const { data, error } = await supabase.auth.signUp({
+    // プロフィールはメールアドレスの確認が済んだときに作られる
+    const { data, error } = await db.auth.signUp(
       email,
       password,
-    });
+      {
+        display_name: displayName || email,
+        role: role === 'both' ? 'creator' : role,
+        roles: role === 'both' ? ['creator', 'client'] : [role],
+      },
+      authCallbackUrl('signup', next)
+    );
 
-    if (error || !data.user) {
-      setErrorMsg(error?.message || '登録に失敗しました');
+    if (error) {
+      setErrorMsg(error.message || '登録に失敗しました');
       setLoading(false);
       return;
     }
 
-    const user = data.user;
-
-    const { error: profileError } = await supabase.from('profiles').insert({
-      id: user.id,
-      display_name: displayName || email,
-      role,
-    });
-
-    if (profileError) {
-      setErrorMsg(`プロフィール作成に失敗しました: ${profileError.message}`);
+    if (data.needsConfirmation) {
+      setSent({ email, kind: 'signup' });
       setLoading(false);
       return;
     }
 
-    router.push(role === 'creator' ? '/profile/edit' : '/works');
+    // 確認なしの設定ならもうログインしている。
+    // クリエイターはまずプロフィールを埋めてもらう。依頼者は来たページに戻す
+    router.push(role === 'client' ? next : '/profile/edit');
   };
 
   return (
@@ -139,9 +205,11 @@ export default function AuthPageClient() {
                 {tab === 'login' ? 'ログイン' : '新規登録'}
               </h2>
               <p className="mt-1 text-[11px] text-slate-400">
-                {tab === 'login'
-                  ? '登録済みのメールアドレスとパスワードを入力してください。'
-                  : 'クリエイター / 依頼者として、無料でアカウントを作成します。'}
+                {tab === 'signup'
+                  ? 'クリエイター / 依頼者として、無料でアカウントを作成します。'
+                  : loginMethod === 'password'
+                    ? '登録済みのメールアドレスとパスワードを入力してください。'
+                    : '登録済みのメールアドレスに、ログイン用のリンクとコードを送ります。'}
               </p>
             </div>
 
@@ -149,7 +217,7 @@ export default function AuthPageClient() {
             <div className="mb-5 flex rounded-full bg-slate-800/80 p-1 text-xs">
               <button
                 type="button"
-                onClick={() => setTab('login')}
+                onClick={() => switchTab('login')}
                 className={`flex-1 rounded-full px-3 py-1.5 transition ${
                   tab === 'login'
                     ? 'bg-white text-slate-900 shadow-sm'
@@ -160,7 +228,7 @@ export default function AuthPageClient() {
               </button>
               <button
                 type="button"
-                onClick={() => setTab('signup')}
+                onClick={() => switchTab('signup')}
                 className={`flex-1 rounded-full px-3 py-1.5 transition ${
                   tab === 'signup'
                     ? 'bg-white text-slate-900 shadow-sm'
@@ -178,110 +246,193 @@ export default function AuthPageClient() {
               </div>
             )}
 
-            {/* フォーム */}
-            <div className="space-y-3 text-xs">
-              {tab === 'signup' && (
-                <div>
-                  <label className="mb-1.5 block font-medium text-slate-200">
-                    表示名（ニックネーム）
-                  </label>
-                  <input
-                    type="text"
-                    value={displayName}
-                    onChange={(e) => setDisplayName(e.target.value)}
-                    placeholder="例：岡田スタイリスト / イラストレーター"
-                    className="w-full rounded-xl border border-slate-700 bg-slate-900/60 px-3 py-2 text-sm text-slate-50 outline-none ring-0 transition focus:border-pink-400 focus:ring-2 focus:ring-pink-500/50"
-                  />
-                </div>
-              )}
-
-              <div>
-                <label className="mb-1.5 block font-medium text-slate-200">
-                  メールアドレス
-                </label>
-                <input
-                  type="email"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  placeholder="you@example.com"
-                  className="w-full rounded-xl border border-slate-700 bg-slate-900/60 px-3 py-2 text-sm text-slate-50 outline-none ring-0 transition focus:border-pink-400 focus:ring-2 focus:ring-pink-500/50"
+            {/* メールを送ったあとは届いたメールを見てもらう。それまではフォーム */}
+            {sent ? (
+              <div className="space-y-3 text-xs">
+                <CheckInboxNotice
+                  email={sent.email}
+                  description={
+                    sent.kind === 'signup'
+                      ? 'メールのリンクを開くと登録が完了し、ログインします。'
+                      : 'メールのリンクを開くか、メールに書かれた 6 桁のコードを入力してください。'
+                  }
+                  onResend={() => resend(sent)}
                 />
-              </div>
 
-              <div>
-                <label className="mb-1.5 block font-medium text-slate-200">
-                  パスワード
-                </label>
-                <input
-                  type="password"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  placeholder="8文字以上"
-                  className="w-full rounded-xl border border-slate-700 bg-slate-900/60 px-3 py-2 text-sm text-slate-50 outline-none ring-0 transition focus:border-pink-400 focus:ring-2 focus:ring-pink-500/50"
-                />
+                {sent.kind === 'magiclink' && (
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      autoComplete="one-time-code"
+                      value={otp}
+                      onChange={(e) => setOtp(e.target.value)}
+                      placeholder="6 桁のコード"
+                      maxLength={6}
+                      className="w-full rounded-xl border border-slate-700 bg-slate-900/60 px-3 py-2 text-sm text-slate-50 outline-none ring-0 transition focus:border-pink-400 focus:ring-2 focus:ring-pink-500/50"
+                    />
+                    <button
+                      type="button"
+                      onClick={handleVerifyOtp}
+                      disabled={loading || otp.trim().length === 0}
+                      className="shrink-0 rounded-full bg-gradient-to-r from-pink-500 to-sky-500 px-4 py-2 text-sm font-semibold text-white shadow-lg shadow-pink-500/30 transition hover:brightness-110 disabled:opacity-60 disabled:cursor-not-allowed"
+                    >
+                      {loading ? '確認中…' : 'ログイン'}
+                    </button>
+                  </div>
+                )}
+
+                <button
+                  type="button"
+                  onClick={() => setSent(null)}
+                  className="w-full rounded-full border border-slate-600 bg-slate-900/60 px-4 py-2 text-sm font-semibold text-slate-100 hover:bg-slate-800/80 transition"
+                >
+                  入力画面に戻る
+                </button>
               </div>
+            ) : (
+              <div className="space-y-3 text-xs">
+                {tab === 'signup' && (
+                  <div>
+                    <label className="mb-1.5 block font-medium text-slate-200">
+                      表示名（ニックネーム）
+                    </label>
+                    <input
+                      type="text"
+                      value={displayName}
+                      onChange={(e) => setDisplayName(e.target.value)}
+                      placeholder="例：岡田スタイリスト / イラストレーター"
+                      className="w-full rounded-xl border border-slate-700 bg-slate-900/60 px-3 py-2 text-sm text-slate-50 outline-none ring-0 transition focus:border-pink-400 focus:ring-2 focus:ring-pink-500/50"
+                    />
+                  </div>
+                )}
 
-              {tab === 'signup' && (
                 <div>
                   <label className="mb-1.5 block font-medium text-slate-200">
-                    利用区分（ロール）
+                    メールアドレス
                   </label>
-                  <select
-                    value={role}
-                    onChange={(e) => setRole(e.target.value as Role)}
+                  <input
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="you@example.com"
                     className="w-full rounded-xl border border-slate-700 bg-slate-900/60 px-3 py-2 text-sm text-slate-50 outline-none ring-0 transition focus:border-pink-400 focus:ring-2 focus:ring-pink-500/50"
-                  >
-                    <option value="client">
-                      依頼者として使う（カットモデルを探す / 依頼したい）
-                    </option>
-                    <option value="creator">
-                      クリエイターとして使う（作品を投稿して依頼を受ける）
-                    </option>
-                  </select>
+                  />
                 </div>
-              )}
 
-              {/* ボタン */}
-              <div className="pt-3 flex flex-col gap-2">
-                {tab === 'login' ? (
-                  <>
-                    <button
-                      type="button"
-                      onClick={handleLogin}
-                      disabled={loading}
-                      className="w-full rounded-full bg-gradient-to-r from-pink-500 to-sky-500 px-4 py-2 text-sm font-semibold text-white shadow-lg shadow-pink-500/30 transition hover:brightness-110 disabled:opacity-60 disabled:cursor-not-allowed"
-                    >
-                      {loading ? 'ログイン中…' : 'ログイン'}
-                    </button>
-                    <button
-                      type="button"
-                      onClick={() => setTab('signup')}
-                      className="w-full rounded-full border border-slate-600 bg-slate-900/60 px-4 py-2 text-sm font-semibold text-slate-100 hover:bg-slate-800/80 transition"
-                    >
-                      はじめての方はこちら
-                    </button>
-                  </>
-                ) : (
-                  <>
-                    <button
-                      type="button"
-                      onClick={handleSignup}
-                      disabled={loading}
-                      className="w-full rounded-full bg-gradient-to-r from-sky-500 to-emerald-400 px-4 py-2 text-sm font-semibold text-white shadow-lg shadow-emerald-400/30 transition hover:brightness-110 disabled:opacity-60 disabled:cursor-not-allowed"
-                    >
-                      {loading ? '登録中…' : '無料でアカウントを作成'}
-                    </button>
-                    <button
-                      type="button"
-                      onClick={() => setTab('login')}
-                      className="w-full rounded-full border border-slate-600 bg-slate-900/60 px-4 py-2 text-sm font-semibold text-slate-100 hover:bg-slate-800/80 transition"
+                {(tab === 'signup' || loginMethod === 'password') && (
+                  <div>
+                    <label className="mb-1.5 block font-medium text-slate-200">
+                      パスワード
+                    </label>
+                    <input
+                      type="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      placeholder="8文字以上"
+                      className="w-full rounded-xl border border-slate-700 bg-slate-900/60 px-3 py-2 text-sm text-slate-50 outline-none ring-0 transition focus:border-pink-400 focus:ring-2 focus:ring-pink-500/50"
+                    />
+                  </div>
+                )}
+
+                {tab === 'signup' && (
+                  <div>
+                    <label className="mb-1.5 block font-medium text-slate-200">
+                      利用区分（ロール）
+                    </label>
+                    <select
+                      value={role}
+                      onChange={(e) => setRole(e.target.value as Role | 'both')}
+                      className="w-full rounded-xl border border-slate-700 bg-slate-900/60 px-3 py-2 text-sm text-slate-50 outline-none ring-0 transition focus:border-pink-400 focus:ring-2 focus:ring-pink-500/50"
                     >
-                      すでにアカウントをお持ちの方
-                    </button>
-                  </>
+                      <option value="client">
+                        依頼者として使う（カットモデルを探す / 依頼したい）
+                      </option>
+                      <option value="creator">
+                        クリエイターとして使う（作品を投稿して依頼を受ける）
+                      </option>
+                      <option value="both">
+                        両方使う（依頼を受けながら、ほかのクリエイターにも依頼する）
+                      </option>
+                    </select>
+                    <p className="mt-1 text-[11px] text-slate-500">
+                      あとからプロフィール編集や右上のメニューで追加・変更できます。
+                    </p>
+                  </div>
                 )}
+
+                {/* ボタン */}
+                <div className="pt-3 flex flex-col gap-2">
+                  {tab === 'login' ? (
+                    <>
+                      {loginMethod === 'password' ? (
+                        <button
+                          type="button"
+                          onClick={handleLogin}
+                          disabled={loading}
+                          className="w-full rounded-full bg-gradient-to-r from-pink-500 to-sky-500 px-4 py-2 text-sm font-semibold text-white shadow-lg shadow-pink-500/30 transition hover:brightness-110 disabled:opacity-60 disabled:cursor-not-allowed"
+                        >
+                          {loading ? 'ログイン中…' : 'ログイン'}
+                        </button>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={handleSendLink}
+                          disabled={loading}
+                          className="w-full rounded-full bg-gradient-to-r from-pink-500 to-sky-500 px-4 py-2 text-sm font-semibold text-white shadow-lg shadow-pink-500/30 transition hover:brightness-110 disabled:opacity-60 disabled:cursor-not-allowed"
+                        >
+                          {loading ? '送信中…' : 'ログイン用のリンクを送る'}
+                        </button>
+                      )}
+                      <div className="flex items-center justify-between gap-2 px-1 text-[11px]">
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setLoginMethod(loginMethod === 'password' ? 'link' : 'password')
+                          }
+                          className="text-sky-300 hover:text-sky-200 transition"
+                        >
+                          {loginMethod === 'password'
+                            ? 'メールのリンクでログイン'
+                            : 'パスワードでログイン'}
+                        </button>
+                        <Link
+                          href={authHref('/auth/forgot-password', next)}
+                          className="text-slate-400 hover:text-slate-200 transition"
+                        >
+                          パスワードを忘れた方
+                        </Link>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => switchTab('signup')}
+                        className="w-full rounded-full border border-slate-600 bg-slate-900/60 px-4 py-2 text-sm font-semibold text-slate-100 hover:bg-slate-800/80 transition"
+                      >
+                        はじめての方はこちら
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button
+                        type="button"
+                        onClick={handleSignup}
+                        disabled={loading}
+                        className="w-full rounded-full bg-gradient-to-r from-sky-500 to-emerald-400 px-4 py-2 text-sm font-semibold text-white shadow-lg shadow-emerald-400/30 transition hover:brightness-110 disabled:opacity-60 disabled:cursor-not-allowed"
+                      >
+                        {loading ? '登録中…' : '無料でアカウントを作成'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => switchTab('login')}
+                        className="w-full rounded-full border border-slate-600 bg-slate-900/60 px-4 py-2 text-sm font-semibold text-slate-100 hover:bg-slate-800/80 transition"
+                      >
+                        すでにアカウントをお持ちの方
+                      </button>
+                    </>
+                  )}
+                </div>
               </div>
-            </div>
+            )}
 
             <p className="mt-4 text-[10px] text-slate-500 text-center">
               ログイン / 登録することで、Connectry の利用規約とプライバシーポリシーに同意したものとみなされます。
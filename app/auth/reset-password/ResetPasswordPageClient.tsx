@@ -0,0 +1,145 @@
+// app/auth/reset-password/ResetPasswordPageClient.tsx
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { authHref, safeNextPath } from '@/lib/authRoutes';
+import { db } from '@/lib/data';
+
+// 登録画面の案内（8 文字以上）と同じ
+const PASSWORD_MIN_LENGTH = 8;
+
+export default function ResetPasswordPageClient() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const next = safeNextPath(searchParams.get('next'));
+
+  // null は確認中。false ならリンクから来ていない（セッションがない）
+  const [signedIn, setSignedIn] = useState<boolean | null>(null);
+  const [password, setPassword] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const checkSession = async () => {
+      const { data: user } = await db.auth.getUser();
+      if (!cancelled) setSignedIn(user !== null);
+    };
+
+    void checkSession();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleSubmit = async () => {
+    if (password.length < PASSWORD_MIN_LENGTH) {
+      setErrorMsg(`パスワードは ${PASSWORD_MIN_LENGTH} 文字以上にしてください。`);
+      return;
+    }
+    if (password !== confirm) {
+      setErrorMsg('確認用のパスワードが一致しません。');
+      return;
+    }
+
+    setErrorMsg(null);
+    setSaving(true);
+
+    const { error } = await db.auth.updatePassword(password);
+
+    if (error) {
+      console.error('ResetPassword: 更新エラー', error.message);
+      setErrorMsg(
+        error.code === 'invalid'
+          ? `パスワードを変更できませんでした（${error.message}）`
+          : 'パスワードの変更に失敗しました。時間をおいて再度お試しください。'
+      );
+      setSaving(false);
+      return;
+    }
+
+    router.push(next);
+  };
+
+  if (signedIn === null) {
+    return (
+      <div className="min-h-[calc(100vh-56px)] flex items-center justify-center text-xs text-slate-400">
+        読み込み中です…
+      </div>
+    );
+  }
+
+  if (!signedIn) {
+    return (
+      <div className="min-h-[calc(100vh-56px)] flex items-center justify-center">
+        <div className="max-w-md space-y-3 rounded-2xl border border-slate-700 bg-slate-900/80 px-6 py-6 text-center">
+          <p className="text-sm font-semibold text-slate-100">再設定のリンクを開いてください</p>
+          <p className="text-xs text-slate-400">
+            メールで届いたリンクから開いてください。リンクの有効期限は 1 時間です。
+          </p>
+          <Link
+            href={authHref('/auth/forgot-password', next)}
+            className="inline-flex rounded-full border border-slate-600 bg-slate-900/70 px-3 py-1 text-xs text-slate-100 hover:bg-slate-800/80 transition"
+          >
+            再設定のメールを送る
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-[calc(100vh-56px)] flex items-center justify-center">
+      <div className="w-full max-w-md rounded-3xl border border-white/15 bg-slate-900/70 px-7 py-7 shadow-[0_18px_45px_rgba(15,23,42,0.7)] backdrop-blur space-y-4 text-xs">
+        <div className="text-center">
+          <h1 className="text-lg font-semibold">新しいパスワード</h1>
+          <p className="mt-1 text-[11px] text-slate-400">
+            次回から、このパスワードでログインします。
+          </p>
+        </div>
+
+        {errorMsg && (
+          <div className="text-[11px] text-red-400 border border-red-500/40 bg-red-950/40 rounded-xl px-3 py-2">
+            {errorMsg}
+          </div>
+        )}
+
+        <div>
+          <label className="mb-1.5 block font-medium text-slate-200">新しいパスワード</label>
+          <input
+            type="password"
+            autoComplete="new-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder={`${PASSWORD_MIN_LENGTH}文字以上`}
+            className="w-full rounded-xl border border-slate-700 bg-slate-900/60 px-3 py-2 text-sm text-slate-50 outline-none ring-0 transition focus:border-pink-400 focus:ring-2 focus:ring-pink-500/50"
+          />
+        </div>
+        <div>
+          <label className="mb-1.5 block font-medium text-slate-200">もう一度入力</label>
+          <input
+            type="password"
+            autoComplete="new-password"
+            value={confirm}
+            onChange={(e) => setConfirm(e.target.value)}
+            className="w-full rounded-xl border border-slate-700 bg-slate-900/60 px-3 py-2 text-sm text-slate-50 outline-none ring-0 transition focus:border-pink-400 focus:ring-2 focus:ring-pink-500/50"
+          />
+        </div>
+
+        <button
+          type="button"
+          onClick={handleSubmit}
+          disabled={saving}
+          className="w-full rounded-full bg-gradient-to-r from-pink-500 to-sky-500 px-4 py-2 text-sm font-semibold text-white shadow-lg shadow-pink-500/30 transition hover:brightness-110 disabled:opacity-60 disabled:cursor-not-allowed"
+        >
+          {saving ? '保存中…' : 'パスワードを変更する'}
+        </button>
+      </div>
+    </div>
+  );
+}
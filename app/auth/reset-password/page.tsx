@@ -0,0 +1,18 @@
+// app/auth/reset-password/page.tsx
+// 再設定のリンクから来たユーザーが新しいパスワードを決めるページ
+import { Suspense } from 'react';
+import ResetPasswordPageClient from './ResetPasswordPageClient';
+
+export default function ResetPasswordPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-[calc(100vh-56px)] flex items-center justify-center text-xs text-slate-400">
+          読み込み中です…
+        </div>
+      }
+    >
+      <ResetPasswordPageClient />
+    </Suspense>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,71 @@
+// app/creators/CreatorCard.tsx
+import Link from 'next/link';
+import Avatar from '@/components/Avatar';
+import Highlight from '@/components/Highlight';
+import { searchSnippet, type CreatorSummary } from '@/lib/data';
+
+type Props = {
+  creator: CreatorSummary;
+  // キーワード検索の語（当たった部分を強調する）
+  terms: string[];
+};
+
+const formatRate = (rate: number) => `${Math.round(rate * 100)}%`;
+
+export default function CreatorCard({ creator, terms }: Props) {
+  const name = creator.display_name || 'クリエイター';
+
+  return (
+    <Link
+      href={`/profile/${creator.id}`}
+      className="flex flex-col gap-3 rounded-3xl border border-slate-800/80 bg-slate-900/80 px-4 py-4 text-xs shadow-[0_14px_35px_rgba(15,23,42,0.7)] transition hover:-translate-y-1 hover:border-pink-400/70"
+    >
+      <div className="flex items-center gap-3">
+        <Avatar name={name} url={creator.avatar_url} size="md" />
+        <div className="min-w-0">
+          <div className="truncate text-sm font-semibold text-slate-50">
+            <Highlight text={name} terms={terms} />
+          </div>
+          <div className="truncate text-[11px] text-slate-400">
+            <Highlight text={creator.genre || 'ジャンル未設定'} terms={terms} />
+          </div>
+        </div>
+      </div>
+
+      {creator.area && (
+        <p className="truncate text-[11px] text-slate-400">
+          📍 <Highlight text={creator.area} terms={terms} />
+        </p>
+      )}
+
+      {creator.bio && (
+        <p className="line-clamp-2 text-[11px] text-slate-300">
+          <Highlight text={searchSnippet(creator.bio, terms)} terms={terms} />
+        </p>
+      )}
+
+      <dl className="mt-auto grid grid-cols-3 gap-2 border-t border-slate-800 pt-3 text-center">
+        <div>
+          <dt className="text-[10px] text-slate-500">作品</dt>
+          <dd className="text-sm font-semibold text-slate-100">{creator.works_count}</dd>
+        </div>
+        <div>
+          <dt className="text-[10px] text-slate-500">いいね</dt>
+          <dd className="text-sm font-semibold text-pink-200">{creator.likes_total}</dd>
+        </div>
+        <div>
+          <dt className="text-[10px] text-slate-500">承諾率</dt>
+          <dd className="text-sm font-semibold text-emerald-200">
+            {creator.acceptance_rate === null ? (
+              <span className="text-[11px] font-normal text-slate-500">実績なし</span>
+            ) : (
+              <span title={`返答済みの依頼 ${creator.requests_decided} 件`}>
+                {formatRate(creator.acceptance_rate)}
+              </span>
+            )}
+          </dd>
+        </div>
+      </dl>
+    </Link>
+  );
+}
@@ -0,0 +1,150 @@
+// app/creators/CreatorsFilterBar.tsx
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  citiesOf,
+  findArea,
+  GENRES,
+  TOP_LEVEL_AREAS,
+  type CreatorDirectoryQuery,
+  type CreatorSort,
+} from '@/lib/data';
+import { creatorsHref } from '@/lib/creatorQuery';
+
+type Props = {
+  query: CreatorDirectoryQuery;
+};
+
+const SELECT_CLASS =
+  'min-w-[140px] rounded-full border border-slate-700 bg-slate-900/80 px-3 py-1.5 text-xs outline-none focus:border-pink-400 focus:ring-2 focus:ring-pink-500/30';
+
+const SORT_LABELS: { sort: CreatorSort; label: string }[] = [
+  { sort: 'works', label: '作品数' },
+  { sort: 'likes', label: 'いいね' },
+  { sort: 'acceptance', label: '承諾率' },
+];
+
+// 絞り込みを変えたら URL を書き換えてサーバーで再描画する（WorksFilterBar と同じ）
+export default function CreatorsFilterBar({ query }: Props) {
+  const router = useRouter();
+  const [keyword, setKeyword] = useState(query.q ?? '');
+
+  // 条件を変えたらカーソルは先頭に戻す
+  const navigate = (
+    overrides: Partial<Record<'q' | 'genre' | 'area', string | null>> & { sort?: CreatorSort }
+  ) => {
+    router.push(creatorsHref(query, { ...overrides, cursor: null }));
+  };
+
+  // キーワードを変えたら並び順は既定（キーワードがあれば関連度順）に戻す。いいね・承諾率順は残す
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    navigate({
+      q: keyword.trim() || null,
+      sort: query.sort === 'likes' || query.sort === 'acceptance' ? query.sort : undefined,
+    });
+  };
+
+  const sort = query.sort ?? 'works';
+  const sorts: typeof SORT_LABELS = query.q
+    ? [{ sort: 'relevance', label: '関連度' }, ...SORT_LABELS]
+    : SORT_LABELS;
+
+  // area は都道府県か市区の code。市区なら都道府県のプルダウンは親を選んだ状態にする
+  const selectedArea = query.area ? findArea(query.area) : null;
+  const prefectureCode = selectedArea?.parent_code ?? selectedArea?.code ?? '';
+  const cityCode = selectedArea?.parent_code ? selectedArea.code : '';
+  const cities = prefectureCode ? citiesOf(prefectureCode) : [];
+
+  return (
+    <section className="rounded-3xl border border-white/10 bg-slate-950/80 px-3 py-4 sm:px-5 sm:py-4 shadow-[0_18px_45px_rgba(15,23,42,0.8)]">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+        {/* キーワード検索（Enter で検索） */}
+        <form onSubmit={handleSubmit} className="w-full sm:max-w-xs">
+          <label className="block text-[11px] text-slate-300 mb-1">名前・自己紹介で探す</label>
+          <input
+            type="search"
+            value={keyword}
+            onChange={(e) => setKeyword(e.target.value)}
+            placeholder="例）ヘアメイク / 渋谷 / ブライダル など"
+            className="w-full rounded-full border border-slate-700 bg-slate-900/80 px-3 py-1.5 text-xs text-slate-50 placeholder:text-slate-500 outline-none focus:border-pink-400 focus:ring-2 focus:ring-pink-500/30"
+          />
+        </form>
+
+        <div className="flex flex-wrap items-end gap-3 text-[11px] text-slate-300">
+          {/* ジャンル */}
+          <div>
+            <span className="block mb-1">ジャンル</span>
+            <select
+              value={query.genre ?? ''}
+              onChange={(e) => navigate({ genre: e.target.value || null })}
+              className={SELECT_CLASS}
+            >
+              <option value="">すべて</option>
+              {GENRES.map((g) => (
+                <option key={g.slug} value={g.slug}>
+                  {g.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* 活動エリア（都道府県 → 市区） */}
+          <div>
+            <span className="block mb-1">活動エリア</span>
+            <select
+              value={prefectureCode}
+              onChange={(e) => navigate({ area: e.target.value || null })}
+              className={SELECT_CLASS}
+            >
+              <option value="">すべて</option>
+              {TOP_LEVEL_AREAS.map((a) => (
+                <option key={a.code} value={a.code}>
+                  {a.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {cities.length > 0 && (
+            <div>
+              <span className="block mb-1">市区</span>
+              <select
+                value={cityCode}
+                onChange={(e) => navigate({ area: e.target.value || prefectureCode })}
+                className={SELECT_CLASS}
+              >
+                <option value="">全域</option>
+                {cities.map((a) => (
+                  <option key={a.code} value={a.code}>
+                    {a.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {/* 並び替え */}
+          <div className="ml-auto flex items-center gap-1 rounded-full border border-slate-700 bg-slate-900/80 px-1 py-1">
+            {sorts.map((option) => (
+              <button
+                key={option.sort}
+                type="button"
+                onClick={() => navigate({ sort: option.sort })}
+                className={`rounded-full px-3 py-1 text-[11px] transition ${
+                  sort === option.sort
+                    ? 'bg-white text-slate-900 shadow-sm'
+                    : 'text-slate-300 hover:text-white'
+                }`}
+              >
+                {option.label}順
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+}
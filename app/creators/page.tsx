@@ -0,0 +1,96 @@
+// app/creators/page.tsx
+import Link from 'next/link';
+import { db, searchTerms } from '@/lib/data';
+import { creatorsHref, parseCreatorQuery } from '@/lib/creatorQuery';
+import type { SearchParams } from '@/lib/galleryQuery';
+import CreatorCard from './CreatorCard';
+import CreatorsFilterBar from './CreatorsFilterBar';
+
+const PAGE_SIZE = 24;
+
+type Props = {
+  searchParams: Promise<SearchParams>;
+};
+
+export default async function CreatorsPage({ searchParams }: Props) {
+  const query = parseCreatorQuery(await searchParams);
+
+  // 集計（作品数・いいね合計・承諾率）・絞り込み・検索はすべて DB 側
+  const { data, error } = await db.profiles.listCreators({ ...query, limit: PAGE_SIZE });
+
+  if (error) {
+    console.error('クリエイター一覧取得エラー:', error.message);
+  }
+
+  const creators = data?.items ?? [];
+  const nextCursor = data?.nextCursor ?? null;
+  const terms = searchTerms(query.q);
+
+  // 絞り込みが変わったらフォームの入力状態もリセットする
+  const filterKey = creatorsHref(query, { cursor: null });
+
+  return (
+    <div className="min-h-[calc(100vh-56px)] bg-gradient-to-b from-slate-950 via-slate-900 to-slate-950 text-slate-50">
+      <main className="mx-auto w-full max-w-6xl px-4 py-6 sm:px-6 lg:px-8 space-y-5">
+        {/* ヘッダー */}
+        <header>
+          <div className="inline-flex items-center gap-2 rounded-full border border-white/10 bg-white/5 px-3 py-1 text-[11px] text-slate-200">
+            <span className="h-1.5 w-1.5 rounded-full bg-sky-400" />
+            <span>クリエイター一覧</span>
+          </div>
+          <h1 className="mt-2 text-xl sm:text-2xl font-semibold tracking-tight">
+            お願いしたい<span className="text-sky-300">クリエイター</span>を探す。
+          </h1>
+          <p className="mt-1 text-xs text-slate-400 max-w-xl">
+            ジャンルや活動エリアで絞り込めます。承諾率は、返答済みの依頼のうち引き受けた割合です。
+          </p>
+        </header>
+
+        <CreatorsFilterBar key={filterKey} query={query} />
+
+        {error && (
+          <div className="rounded-2xl border border-red-500/40 bg-red-950/40 px-4 py-3 text-xs text-red-100">
+            クリエイター一覧の取得に失敗しました。時間をおいて再度お試しください。
+          </div>
+        )}
+
+        <section className="rounded-3xl border border-white/10 bg-slate-950/60 px-3 py-4 sm:px-5 sm:py-6 shadow-[0_18px_45px_rgba(15,23,42,0.8)] backdrop-blur">
+          {creators.length === 0 ? (
+            <div className="flex h-40 flex-col items-center justify-center gap-2 text-center text-xs text-slate-400">
+              <p>条件に合うクリエイターが見つかりませんでした。</p>
+              <p>キーワードや絞り込み条件を少しゆるくしてみてください。</p>
+            </div>
+          ) : (
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {creators.map((creator) => (
+                <CreatorCard key={creator.id} creator={creator} terms={terms} />
+              ))}
+            </div>
+          )}
+
+          {/* ページング（カーソル） */}
+          {(query.cursor || nextCursor) && (
+            <div className="mt-5 flex items-center justify-center gap-2 text-[11px]">
+              {query.cursor && (
+                <Link
+                  href={creatorsHref(query, { cursor: null })}
+                  className="rounded-full border border-slate-600 bg-slate-900/70 px-4 py-1.5 text-slate-100 hover:bg-slate-800/80 transition"
+                >
+                  最初から見る
+                </Link>
+              )}
+              {nextCursor && (
+                <Link
+                  href={creatorsHref(query, { cursor: nextCursor })}
+                  className="rounded-full bg-gradient-to-r from-pink-500 to-sky-500 px-4 py-1.5 font-semibold text-white shadow-md shadow-pink-500/30 hover:brightness-110 transition"
+                >
+                  次のクリエイターを見る →
+                </Link>
+              )}
+            </div>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
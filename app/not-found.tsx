@@ -0,0 +1,22 @@
+// app/not-found.tsx
+// 存在しない・見る権限のないページ（RLS で読めないものは区別せずここに来る）
+import Link from 'next/link';
+
+export default function NotFound() {
+  return (
+    <div className="min-h-[calc(100vh-56px)] flex items-center justify-center">
+      <div className="max-w-md space-y-3 rounded-2xl border border-slate-700 bg-slate-900/80 px-6 py-6 text-center">
+        <p className="text-sm font-semibold text-slate-100">ページが見つかりませんでした</p>
+        <p className="text-xs text-slate-400">
+          削除されたか、このアカウントでは見ることができないページです。
+        </p>
+        <Link
+          href="/works"
+          className="inline-flex rounded-full border border-slate-600 bg-slate-900/70 px-3 py-1 text-xs text-slate-100 hover:bg-slate-800/80 transition"
+        >
+          作品一覧へ戻る
+        </Link>
+      </div>
+    </div>
+  );
+}
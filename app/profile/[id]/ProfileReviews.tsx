@@ -0,0 +1,127 @@
+// app/profile/[id]/ProfileReviews.tsx
+'use client';
+
+import { useEffect, useState } from 'react';
+import Avatar from '@/components/Avatar';
+import RatingStars from '@/components/RatingStars';
+import {
+  db,
+  formatRating,
+  type ProfileRow,
+  type RatingSummary,
+  type ReviewRow,
+} from '@/lib/data';
+
+type Props = {
+  userId: string;
+  summary: RatingSummary;
+};
+
+const LIST_LIMIT = 20;
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('ja-JP', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'Asia/Tokyo',
+  });
+
+// 受けたレビュー（新しい順）と返信
+export default function ProfileReviews({ userId, summary }: Props) {
+  const [reviews, setReviews] = useState<ReviewRow[]>([]);
+  const [reviewers, setReviewers] = useState<Record<string, ProfileRow>>({});
+  const [loading, setLoading] = useState(true);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchReviews = async () => {
+      const { data, error } = await db.reviews.listForReviewee(userId, LIST_LIMIT);
+      if (cancelled) return;
+
+      if (error) {
+        console.error('ProfileReviews: レビュー取得エラー', error.message);
+        setErrorMsg('レビューの取得に失敗しました。');
+        setLoading(false);
+        return;
+      }
+
+      const ids = Array.from(new Set(data.map((r) => r.reviewer_id)));
+      const { data: profiles } = await db.profiles.listByIds(ids);
+      if (cancelled) return;
+
+      setReviews(data);
+      setReviewers(Object.fromEntries((profiles ?? []).map((p) => [p.id, p])));
+      setLoading(false);
+    };
+
+    void fetchReviews();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  return (
+    <section className="rounded-3xl border border-white/10 bg-slate-950/80 px-4 py-4 text-xs text-slate-200 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-[13px] font-semibold text-slate-50">レビュー</h2>
+        {summary.average !== null && (
+          <div className="inline-flex items-center gap-1.5 text-[11px] text-slate-300">
+            <RatingStars rating={summary.average} />
+            <span className="font-semibold text-slate-50">{formatRating(summary.average)}</span>
+            <span className="text-slate-500">（{summary.count} 件）</span>
+          </div>
+        )}
+      </div>
+
+      {errorMsg && <p className="text-[11px] text-red-300">{errorMsg}</p>}
+
+      {loading ? (
+        <p className="text-[11px] text-slate-500">レビューを読み込み中です…</p>
+      ) : reviews.length === 0 ? (
+        <p className="text-[11px] text-slate-500">まだレビューはありません。</p>
+      ) : (
+        <ul className="space-y-2">
+          {reviews.map((review) => {
+            const reviewer = reviewers[review.reviewer_id];
+            return (
+              <li
+                key={review.id}
+                className="rounded-2xl border border-slate-800 bg-slate-900/70 px-3 py-2.5 space-y-1.5"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <Avatar
+                      name={reviewer?.display_name ?? null}
+                      url={reviewer?.avatar_url ?? null}
+                      size="xs"
+                    />
+                    <span className="text-[11px] text-slate-300">
+                      {reviewer?.display_name || 'ユーザー'}
+                    </span>
+                    <RatingStars rating={review.rating} className="text-[11px]" />
+                  </div>
+                  <span className="text-[10px] text-slate-500">
+                    {formatDate(review.created_at)}
+                  </span>
+                </div>
+                <p className="whitespace-pre-wrap text-[12px] leading-relaxed">{review.body}</p>
+                {review.reply && (
+                  <div className="rounded-xl border-l-2 border-pink-400/60 bg-slate-950/60 px-2 py-1.5">
+                    <p className="text-[10px] text-slate-400">返信</p>
+                    <p className="whitespace-pre-wrap text-[11px] text-slate-300">
+                      {review.reply}
+                    </p>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
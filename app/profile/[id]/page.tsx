@@ -3,32 +3,35 @@
 
 import { useEffect, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
-import { supabase } from '@/lib/supabaseClient';
-
-type Role = 'creator' | 'client' | null;
-
-type ProfileRow = {
-  id: string;
-  display_name: string | null;
-  role: Role;
-  bio: string | null;
-  genre: string | null;
-  area: string | null;
-  instagram_url: string | null;
-};
-
-type WorkRow = {
-  id: string;
-  title: string;
-  image_url: string | null;
-  created_at: string;
-  is_public: boolean | null;
-};
+import {
+  canRestoreWork,
+  db,
+  formatPriceRange,
+  formatRating,
+  hasRole,
+  isWorkAvailable,
+  requestsPausedMessage,
+  rolesLabel,
+  workRestoreDeadline,
+  type ProfileRow,
+  type RatingSummary,
+  type WorkRow,
+} from '@/lib/data';
+import AvailabilityBadge from '@/components/AvailabilityBadge';
+import Avatar from '@/components/Avatar';
+import ProfileCover from '@/components/ProfileCover';
+import ProfileLinks from '@/components/ProfileLinks';
+import WorkImage from '@/components/WorkImage';
+import ProfileReviews from './ProfileReviews';
 
 type ViewModel = {
   profile: ProfileRow;
   works: WorkRow[];
+  // 削除済み（本人だけ・元に戻せる期間中）
+  deletedWorks: WorkRow[];
   isMe: boolean;
+  // 受けたレビューの集計
+  rating: RatingSummary;
 };
 
 export default function ProfileDetailPage() {
@@ -39,6 +42,8 @@ export default function ProfileDetailPage() {
   const [view, setView] = useState<ViewModel | null>(null);
   const [loading, setLoading] = useState(true);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [restoreError, setRestoreError] = useState<string | null>(null);
 
   useEffect(() => {
     const init = async () => {
@@ -48,57 +53,57 @@ export default function ProfileDetailPage() {
 
       try {
         // 1. ログインユーザー
-        const {
-          data: { user },
-        } = await supabase.auth.getUser();
+        const { data: user } = await db.auth.getUser();
         const currentUserId = user?.id ?? null;
 
         // 2. profiles 取得
-        const { data: profileData, error: profileError } = await supabase
-          .from('profiles')
-          .select('id, display_name, role, bio, genre, area, instagram_url')
-          .eq('id', profileId)
-          .single();
-
-        if (profileError || !profileData) {
-          console.error('ProfileDetail: profiles 取得エラー', profileError?.message);
+        const { data: profile, error: profileError } = await db.profiles.getById(profileId);
+
+        if (profileError) {
+          console.error('ProfileDetail: profiles 取得エラー', profileError.message);
           setErrorMsg('プロフィール情報を取得できませんでした。削除された可能性があります。');
           setLoading(false);
           return;
         }
 
-        const profile = profileData as ProfileRow;
         const isMe = currentUserId === profile.id;
 
         let works: WorkRow[] = [];
+        let deletedWorks: WorkRow[] = [];
 
         // 3. クリエイターの場合のみ作品一覧を取得
-        if (profile.role === 'creator') {
-          const { data: worksData, error: worksError } = await supabase
-            .from('works')
-            .select('id, title, image_url, created_at, is_public')
-            .eq('creator_id', profile.id)
-            .order('created_at', { ascending: false });
+        if (hasRole(profile, 'creator')) {
+          const { data: worksData, error: worksError } = await db.works.list({
+            creatorId: profile.id,
+          });
 
           if (worksError) {
             console.error('ProfileDetail: works 取得エラー', worksError.message);
           } else {
             if (isMe) {
-              // 自分のプロフィールの場合：公開／非公開問わず全件表示
-              works = (worksData || []) as WorkRow[];
+              // 自分のプロフィールの場合：公開／非公開・アーカイブ問わず表示（削除済みは別枠）
+              works = worksData.filter((w) => !w.deleted_at);
+              deletedWorks = worksData.filter((w) => w.deleted_at);
             } else {
               // 他人から見た場合：公開作品のみ表示
-              works = (worksData || []).filter(
-                (w) => w.is_public === true
-              ) as WorkRow[];
+              works = worksData.filter((w) => w.is_public === true && isWorkAvailable(w));
             }
           }
         }
 
+        // 4. レビューの集計（取れなくてもプロフィールは出す）
+        const { data: rating, error: ratingError } = await db.reviews.getSummary(profile.id);
+
+        if (ratingError) {
+          console.error('ProfileDetail: レビュー集計の取得エラー', ratingError.message);
+        }
+
         setView({
           profile,
           works,
+          deletedWorks,
           isMe,
+          rating: rating ?? { average: null, count: 0 },
         });
         setLoading(false);
       } catch (e) {
@@ -111,6 +116,33 @@ export default function ProfileDetailPage() {
     void init();
   }, [profileId]);
 
+  // 削除の取り消し（期限内だけ）
+  const handleRestore = async (work: WorkRow) => {
+    if (!view) return;
+    setRestoringId(work.id);
+    setRestoreError(null);
+
+    const { data, error } = await db.works.restore(work.id);
+
+    if (error) {
+      console.error('ProfileDetail: 作品の復元エラー', error.message);
+      setRestoreError(
+        error.code === 'invalid'
+          ? '元に戻せる期間を過ぎています。'
+          : '作品を元に戻せませんでした。時間をおいて再度お試しください。'
+      );
+      setRestoringId(null);
+      return;
+    }
+
+    setView({
+      ...view,
+      works: [data, ...view.works],
+      deletedWorks: view.deletedWorks.filter((w) => w.id !== work.id),
+    });
+    setRestoringId(null);
+  };
+
   const formatDate = (iso: string) =>
     new Date(iso).toLocaleDateString('ja-JP', {
       month: 'numeric',
@@ -135,20 +167,21 @@ export default function ProfileDetailPage() {
     );
   }
 
-  const { profile, works, isMe } = view;
-  const isCreator = profile.role === 'creator';
-  const isClient = profile.role === 'client';
-
-  const roleLabel = (() => {
-    switch (profile.role) {
-      case 'creator':
-        return 'クリエイター';
-      case 'client':
-        return '依頼者';
-      default:
-        return 'ユーザー';
-    }
-  })();
+  const { profile, works, deletedWorks, isMe, rating } = view;
+  // 両方のロールを持つ人はクリエイター用のレイアウト（作品一覧つき）
+  const isCreator = hasRole(profile, 'creator');
+  const isClient = hasRole(profile, 'client') && !isCreator;
+  const pausedMessage = requestsPausedMessage(profile);
+
+  const ratingChip = rating.average !== null && (
+    <span className="inline-flex items-center gap-1 text-slate-300">
+      <span className="text-amber-300">★</span>
+      {formatRating(rating.average)}
+      <span className="text-slate-500">（{rating.count} 件）</span>
+    </span>
+  );
+
+  const roleLabel = rolesLabel(profile.roles);
 
   // ◇ 依頼者用（client）のシンプル表示レイアウト
   if (isClient) {
@@ -167,12 +200,12 @@ export default function ProfileDetailPage() {
             </button>
           </div>
 
+          <ProfileCover url={profile.cover_url} />
+
           {/* ヘッダー */}
           <header className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
             <div className="flex items-center gap-3">
-              <div className="flex h-12 w-12 items-center justify-center rounded-full bg-gradient-to-br from-pink-400 via-sky-400 to-emerald-400 text-sm font-semibold text-slate-950">
-                {(profile.display_name || '？').charAt(0).toUpperCase()}
-              </div>
+              <Avatar name={profile.display_name} url={profile.avatar_url} size="xl" />
               <div className="flex flex-col">
                 <h1 className="text-lg sm:text-xl font-semibold tracking-tight text-white">
                   {profile.display_name || 'ユーザー'}
@@ -181,6 +214,7 @@ export default function ProfileDetailPage() {
                   <span className="rounded-full border border-slate-600 bg-slate-900/80 px-2 py-0.5">
                     {roleLabel}
                   </span>
+                  {ratingChip}
                   {isMe && (
                     <span className="text-slate-400">（あなたのプロフィール）</span>
                   )}
@@ -230,6 +264,8 @@ export default function ProfileDetailPage() {
               )}
             </div>
           </section>
+
+          <ProfileReviews userId={profile.id} summary={rating} />
         </main>
       </div>
     );
@@ -251,12 +287,12 @@ export default function ProfileDetailPage() {
           </button>
         </div>
 
+        <ProfileCover url={profile.cover_url} />
+
         {/* 上部ヘッダー */}
         <header className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
           <div className="flex items-center gap-3">
-            <div className="flex h-12 w-12 items-center justify-center rounded-full bg-gradient-to-br from-pink-400 via-sky-400 to-emerald-400 text-sm font-semibold text-slate-950">
-              {(profile.display_name || '？').charAt(0).toUpperCase()}
-            </div>
+            <Avatar name={profile.display_name} url={profile.avatar_url} size="xl" />
             <div className="flex flex-col">
               <h1 className="text-lg sm:text-xl font-semibold tracking-tight text-white">
                 {profile.display_name || 'クリエイター'}
@@ -270,6 +306,8 @@ export default function ProfileDetailPage() {
                     活動エリア: {profile.area}
                   </span>
                 )}
+                <AvailabilityBadge open={pausedMessage === null} />
+                {ratingChip}
                 {isMe && (
                   <span className="text-slate-400">（あなたのプロフィール）</span>
                 )}
@@ -288,6 +326,13 @@ export default function ProfileDetailPage() {
           )}
         </header>
 
+        {/* 受付停止中（理由・再開予定日） */}
+        {pausedMessage && (
+          <div className="whitespace-pre-line rounded-2xl border border-amber-500/40 bg-amber-950/30 px-4 py-3 text-[11px] text-amber-100">
+            {pausedMessage}
+          </div>
+        )}
+
         {/* 上段：自己紹介・リンク */}
         <section className="grid gap-4 lg:grid-cols-[1.6fr_1.1fr]">
           {/* 自己紹介 */}
@@ -317,25 +362,52 @@ export default function ProfileDetailPage() {
               ) : (
                 <p className="text-[11px] text-slate-500">未設定</p>
               )}
+              {profile.skills.length > 0 && (
+                <ul className="mt-2 flex flex-wrap gap-1">
+                  {profile.skills.map((skill) => (
+                    <li
+                      key={skill}
+                      className="rounded-full bg-slate-800 px-2 py-0.5 text-[10px] text-slate-200"
+                    >
+                      {skill}
+                    </li>
+                  ))}
+                </ul>
+              )}
             </div>
 
+            {/* 料金・納期の目安 */}
             <div className="rounded-3xl border border-slate-800 bg-slate-950/80 px-4 py-3">
               <h3 className="mb-1 text-[12px] font-semibold text-slate-50">
-                外部リンク
+                料金・納期の目安
               </h3>
-              {profile.instagram_url ? (
-                <a
-                  href={profile.instagram_url}
-                  target="_blank"
-                  rel="noreferrer"
-                  className="text-[12px] text-sky-300 hover:text-sky-200 underline underline-offset-2 break-all"
-                >
-                  ポートフォリオを見る
-                </a>
+              {profile.price_menu.length > 0 ? (
+                <dl className="space-y-1">
+                  {profile.price_menu.map((item, i) => (
+                    <div key={`${item.label}-${i}`} className="flex justify-between gap-3">
+                      <dt className="text-[11px] text-slate-300">{item.label}</dt>
+                      <dd className="shrink-0 text-[11px] font-semibold text-slate-100">
+                        {formatPriceRange(item)}
+                      </dd>
+                    </div>
+                  ))}
+                </dl>
               ) : (
-                <p className="text-[11px] text-slate-500">未登録</p>
+                <p className="text-[11px] text-slate-500">料金メニューは未登録です。</p>
+              )}
+              {profile.turnaround_days !== null && (
+                <p className="mt-2 text-[11px] text-slate-400">
+                  納期の目安：{profile.turnaround_days} 日ほど
+                </p>
               )}
             </div>
+
+            <div className="rounded-3xl border border-slate-800 bg-slate-950/80 px-4 py-3">
+              <h3 className="mb-1 text-[12px] font-semibold text-slate-50">
+                外部リンク
+              </h3>
+              <ProfileLinks links={profile.links} />
+            </div>
           </aside>
         </section>
 
@@ -373,8 +445,11 @@ export default function ProfileDetailPage() {
                 >
                   <div className="relative h-36 w-full overflow-hidden bg-slate-800">
                     {work.image_url ? (
-                      <img
-                        src={work.image_url}
+                      <WorkImage
+                        url={work.image_url}
+                        meta={work.image_meta}
+                        size="thumb"
+                        sizes="(min-width: 1024px) 320px, (min-width: 640px) 50vw, 100vw"
                         alt={work.title}
                         className="h-full w-full object-cover transition duration-300 group-hover:scale-[1.05]"
                       />
@@ -394,10 +469,17 @@ export default function ProfileDetailPage() {
                         <span className="h-1.5 w-1.5 rounded-full bg-emerald-400/80" />
                         <span>{formatDate(work.created_at)} 作成</span>
                       </span>
-                      {isMe && work.is_public === false && (
-                        <span className="rounded-full border border-yellow-500/60 bg-yellow-500/10 px-2 py-0.5 text-[9px] text-yellow-200">
-                          非公開
+                      {isMe && work.archived_at ? (
+                        <span className="rounded-full border border-slate-500/60 bg-slate-500/10 px-2 py-0.5 text-[9px] text-slate-300">
+                          アーカイブ
                         </span>
+                      ) : (
+                        isMe &&
+                        work.is_public === false && (
+                          <span className="rounded-full border border-yellow-500/60 bg-yellow-500/10 px-2 py-0.5 text-[9px] text-yellow-200">
+                            非公開
+                          </span>
+                        )
                       )}
                     </div>
                   </div>
@@ -406,6 +488,49 @@ export default function ProfileDetailPage() {
             </div>
           )}
         </section>
+
+        <ProfileReviews userId={profile.id} summary={rating} />
+
+        {/* 削除した作品（本人だけ） */}
+        {isMe && deletedWorks.length > 0 && (
+          <section className="space-y-3">
+            <h2 className="text-sm font-semibold text-slate-50">削除した作品</h2>
+
+            {restoreError && (
+              <div className="rounded-2xl border border-red-500/40 bg-red-950/40 px-4 py-3 text-[11px] text-red-100">
+                {restoreError}
+              </div>
+            )}
+
+            <ul className="divide-y divide-slate-800/80 rounded-3xl border border-slate-800 bg-slate-950/80 px-4">
+              {deletedWorks.map((work) => {
+                const deadline = workRestoreDeadline(work);
+                return (
+                  <li key={work.id} className="flex items-center justify-between gap-3 py-3">
+                    <div className="min-w-0">
+                      <p className="truncate text-xs font-medium text-slate-200">{work.title}</p>
+                      <p className="text-[10px] text-slate-500">
+                        {canRestoreWork(work) && deadline
+                          ? `${formatDate(deadline.toISOString())} まで元に戻せます`
+                          : 'まもなく完全に削除されます'}
+                      </p>
+                    </div>
+                    {canRestoreWork(work) && (
+                      <button
+                        type="button"
+                        onClick={() => handleRestore(work)}
+                        disabled={restoringId === work.id}
+                        className="shrink-0 rounded-full border border-slate-600 bg-slate-900/70 px-3 py-1.5 text-[11px] text-slate-100 hover:bg-slate-800/80 disabled:opacity-60"
+                      >
+                        {restoringId === work.id ? '処理中…' : '元に戻す'}
+                      </button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+        )}
       </main>
     </div>
   );
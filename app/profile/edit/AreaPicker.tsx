@@ -0,0 +1,105 @@
+// app/profile/edit/AreaPicker.tsx
+'use client';
+
+import { useState } from 'react';
+import { areaLabel, citiesOf, PROFILE_MAX_AREAS, TOP_LEVEL_AREAS } from '@/lib/data';
+
+type Props = {
+  // 選んだエリアの code（選んだ順）。都道府県を選ぶとその全域
+  value: string[];
+  onChange: (value: string[]) => void;
+  disabled?: boolean;
+};
+
+const SELECT_CLASS =
+  'rounded-2xl border border-slate-700 bg-slate-900/80 px-3 py-2 text-[12px] text-slate-50 outline-none focus:border-pink-400 focus:ring-2 focus:ring-pink-500/40';
+
+export default function AreaPicker({ value, onChange, disabled }: Props) {
+  const [prefectureCode, setPrefectureCode] = useState('');
+  const [cityCode, setCityCode] = useState('');
+
+  const full = value.length >= PROFILE_MAX_AREAS;
+  const cities = prefectureCode ? citiesOf(prefectureCode) : [];
+  const pending = cityCode || prefectureCode;
+
+  const add = () => {
+    if (!pending || value.includes(pending) || full) return;
+    onChange([...value, pending]);
+    setPrefectureCode('');
+    setCityCode('');
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {value.map((code) => (
+            <span
+              key={code}
+              className="inline-flex items-center gap-1 rounded-full bg-slate-800 px-2.5 py-0.5 text-[11px] text-slate-100"
+            >
+              {areaLabel(code)}
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((c) => c !== code))}
+                disabled={disabled}
+                aria-label={`${areaLabel(code)} を外す`}
+                className="text-slate-400 hover:text-slate-100"
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={prefectureCode}
+          onChange={(e) => {
+            setPrefectureCode(e.target.value);
+            setCityCode('');
+          }}
+          disabled={disabled || full}
+          className={SELECT_CLASS}
+        >
+          <option value="">都道府県を選択</option>
+          {TOP_LEVEL_AREAS.map((area) => (
+            <option key={area.code} value={area.code}>
+              {area.name}
+            </option>
+          ))}
+        </select>
+
+        {cities.length > 0 && (
+          <select
+            value={cityCode}
+            onChange={(e) => setCityCode(e.target.value)}
+            disabled={disabled || full}
+            className={SELECT_CLASS}
+          >
+            <option value="">全域</option>
+            {cities.map((area) => (
+              <option key={area.code} value={area.code}>
+                {area.name}
+              </option>
+            ))}
+          </select>
+        )}
+
+        <button
+          type="button"
+          onClick={add}
+          disabled={disabled || full || !pending || value.includes(pending)}
+          className="rounded-full border border-slate-600 bg-slate-900/80 px-3 py-1.5 text-[11px] text-slate-100 hover:bg-slate-800/80 transition disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          追加
+        </button>
+      </div>
+
+      <p className="text-[10px] text-slate-500">
+        {PROFILE_MAX_AREAS} 個まで登録できます（{value.length} / {PROFILE_MAX_AREAS}）
+      </p>
+    </div>
+  );
+}
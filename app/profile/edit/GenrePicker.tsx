@@ -0,0 +1,48 @@
+// app/profile/edit/GenrePicker.tsx
+'use client';
+
+import { GENRES, PROFILE_MAX_GENRES } from '@/lib/data';
+
+type Props = {
+  // 選んだジャンルの slug（選んだ順）
+  value: string[];
+  onChange: (value: string[]) => void;
+  disabled?: boolean;
+};
+
+export default function GenrePicker({ value, onChange, disabled }: Props) {
+  const full = value.length >= PROFILE_MAX_GENRES;
+
+  const toggle = (slug: string) => {
+    onChange(value.includes(slug) ? value.filter((s) => s !== slug) : [...value, slug]);
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex flex-wrap gap-1.5">
+        {GENRES.map((genre) => {
+          const selected = value.includes(genre.slug);
+          return (
+            <button
+              key={genre.slug}
+              type="button"
+              onClick={() => toggle(genre.slug)}
+              disabled={disabled || (!selected && full)}
+              aria-pressed={selected}
+              className={`rounded-full border px-3 py-1 text-[11px] transition disabled:opacity-40 disabled:cursor-not-allowed ${
+                selected
+                  ? 'border-pink-400 bg-pink-500/20 text-pink-100'
+                  : 'border-slate-700 bg-slate-900/80 text-slate-300 hover:border-slate-500'
+              }`}
+            >
+              {genre.name}
+            </button>
+          );
+        })}
+      </div>
+      <p className="text-[10px] text-slate-500">
+        {PROFILE_MAX_GENRES} 個まで選べます（{value.length} / {PROFILE_MAX_GENRES}）
+      </p>
+    </div>
+  );
+}
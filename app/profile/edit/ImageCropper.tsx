@@ -0,0 +1,202 @@
+// app/profile/edit/ImageCropper.tsx
+'use client';
+
+import { PointerEvent, useEffect, useMemo, useRef, useState } from 'react';
+import { PROFILE_IMAGE_SIZES, type ProfileImageKind } from '@/lib/data';
+
+type Props = {
+  file: File;
+  kind: ProfileImageKind;
+  onCancel: () => void;
+  onCrop: (blob: Blob) => void;
+};
+
+type Size = { width: number; height: number };
+type Point = { x: number; y: number };
+
+const MAX_ZOOM = 4;
+
+// 切り抜き範囲（元画像の座標）。zoom = 1 で、枠の比率のまま入るいちばん大きな範囲
+const cropAreaOf = (natural: Size, aspect: number, zoom: number, center: Point) => {
+  const width = Math.min(natural.width, natural.height * aspect) / zoom;
+  const height = width / aspect;
+  const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+  const x = clamp(center.x - width / 2, 0, natural.width - width);
+  const y = clamp(center.y - height / 2, 0, natural.height - height);
+  return { x, y, width, height };
+};
+
+const toBlob = (canvas: HTMLCanvasElement, type: string) =>
+  new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, 0.85));
+
+// canvas に描き直すので EXIF（位置情報など）は残らない。
+// WebP に書き出せないブラウザ（古い Safari は PNG になる）は JPEG にする
+const cropToBlob = async (
+  image: HTMLImageElement,
+  area: ReturnType<typeof cropAreaOf>,
+  kind: ProfileImageKind
+) => {
+  const target = PROFILE_IMAGE_SIZES[kind];
+  // 元画像より大きくはしない
+  const width = Math.round(Math.min(target.width, area.width));
+  const height = Math.round((width * target.height) / target.width);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(image, area.x, area.y, area.width, area.height, 0, 0, width, height);
+
+  const webp = await toBlob(canvas, 'image/webp');
+  if (webp?.type === 'image/webp') return webp;
+  return toBlob(canvas, 'image/jpeg');
+};
+
+// ドラッグで位置、スライダーで拡大率を決めて切り抜く
+export default function ImageCropper({ file, kind, onCancel, onCrop }: Props) {
+  const { width: targetWidth, height: targetHeight } = PROFILE_IMAGE_SIZES[kind];
+  const aspect = targetWidth / targetHeight;
+
+  const src = useMemo(() => URL.createObjectURL(file), [file]);
+  useEffect(() => () => URL.revokeObjectURL(src), [src]);
+
+  const imageRef = useRef<HTMLImageElement | null>(null);
+  const dragRef = useRef<Point | null>(null);
+
+  const [natural, setNatural] = useState<Size | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [center, setCenter] = useState<Point>({ x: 0, y: 0 });
+  const [cropping, setCropping] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  const area = natural ? cropAreaOf(natural, aspect, zoom, center) : null;
+
+  const handleLoad = () => {
+    const image = imageRef.current;
+    if (!image) return;
+    setNatural({ width: image.naturalWidth, height: image.naturalHeight });
+    setCenter({ x: image.naturalWidth / 2, y: image.naturalHeight / 2 });
+  };
+
+  // 端まで寄せたあとも中心がずれ続けないよう、はみ出さない位置に揃えてから動かす
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    if (!dragRef.current || !area) return;
+    const scale = area.width / e.currentTarget.getBoundingClientRect().width;
+    const dx = (e.clientX - dragRef.current.x) * scale;
+    const dy = (e.clientY - dragRef.current.y) * scale;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    setCenter({
+      x: area.x + area.width / 2 - dx,
+      y: area.y + area.height / 2 - dy,
+    });
+  };
+
+  const handleConfirm = async () => {
+    if (!imageRef.current || !area) return;
+    setCropping(true);
+    setErrorMsg(null);
+
+    const blob = await cropToBlob(imageRef.current, area, kind);
+    setCropping(false);
+
+    if (!blob) {
+      setErrorMsg('画像を切り抜けませんでした。別の画像でお試しください。');
+      return;
+    }
+    onCrop(blob);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 px-4 backdrop-blur-sm">
+      <div className="w-full max-w-lg space-y-3 rounded-3xl border border-white/10 bg-slate-900 px-4 py-4 text-xs text-slate-200 shadow-2xl">
+        <h2 className="text-[13px] font-semibold text-slate-50">
+          {kind === 'avatar' ? 'アイコンの切り抜き' : 'カバー画像の切り抜き'}
+        </h2>
+
+        <div
+          onPointerDown={(e) => {
+            e.currentTarget.setPointerCapture(e.pointerId);
+            dragRef.current = { x: e.clientX, y: e.clientY };
+          }}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => {
+            dragRef.current = null;
+          }}
+          onPointerCancel={() => {
+            dragRef.current = null;
+          }}
+          className={`relative mx-auto w-full cursor-move touch-none select-none overflow-hidden rounded-2xl bg-slate-800 ${
+            kind === 'avatar' ? 'max-w-[280px]' : ''
+          }`}
+          style={{ aspectRatio: `${targetWidth} / ${targetHeight}` }}
+        >
+          <img
+            ref={imageRef}
+            src={src}
+            alt="切り抜く画像"
+            draggable={false}
+            onLoad={handleLoad}
+            onError={() => setErrorMsg('画像を読み込めませんでした。別の画像でお試しください。')}
+            className="absolute max-w-none"
+            style={
+              natural && area
+                ? {
+                    width: `${(natural.width / area.width) * 100}%`,
+                    height: `${(natural.height / area.height) * 100}%`,
+                    left: `${(-area.x / area.width) * 100}%`,
+                    top: `${(-area.y / area.height) * 100}%`,
+                  }
+                : { visibility: 'hidden' }
+            }
+          />
+          {/* アイコンは丸く表示されるので、丸の外側を暗くする */}
+          {kind === 'avatar' && (
+            <div className="pointer-events-none absolute inset-0 rounded-full shadow-[0_0_0_9999px_rgba(2,6,23,0.55)]" />
+          )}
+        </div>
+
+        <label className="flex items-center gap-3 text-[11px] text-slate-300">
+          <span className="shrink-0">拡大</span>
+          <input
+            type="range"
+            min={1}
+            max={MAX_ZOOM}
+            step={0.01}
+            value={zoom}
+            onChange={(e) => setZoom(Number(e.target.value))}
+            disabled={!natural}
+            className="w-full accent-pink-400"
+          />
+        </label>
+        <p className="text-[10px] text-slate-500">
+          ドラッグで位置を調整できます。
+          {kind === 'avatar' ? '丸の内側がアイコンとして表示されます。' : '横長（3:1）で表示されます。'}
+        </p>
+
+        {errorMsg && <p className="text-[11px] text-red-300">{errorMsg}</p>}
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="rounded-full border border-slate-600 bg-slate-900/80 px-4 py-1.5 text-[11px] font-medium text-slate-100 hover:bg-slate-800/80 transition"
+          >
+            キャンセル
+          </button>
+          <button
+            type="button"
+            onClick={handleConfirm}
+            disabled={!area || cropping}
+            className="rounded-full bg-gradient-to-r from-pink-500 to-sky-500 px-5 py-1.5 text-[11px] font-semibold text-white shadow-md shadow-pink-500/40 hover:brightness-110 transition disabled:opacity-60 disabled:cursor-not-allowed"
+          >
+            {cropping ? '切り抜き中…' : 'この範囲で決定'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
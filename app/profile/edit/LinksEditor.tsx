@@ -0,0 +1,88 @@
+// app/profile/edit/LinksEditor.tsx
+'use client';
+
+import {
+  PROFILE_LINK_KINDS,
+  PROFILE_MAX_LINKS,
+  profileLinkKindOf,
+  validateProfileLink,
+  type ProfileLink,
+  type ProfileLinkKind,
+} from '@/lib/data';
+
+type Props = {
+  value: ProfileLink[];
+  onChange: (value: ProfileLink[]) => void;
+  disabled?: boolean;
+};
+
+const INPUT_CLASS =
+  'rounded-2xl border border-slate-700 bg-slate-900/80 px-3 py-2 text-[12px] text-slate-50 outline-none focus:border-pink-400 focus:ring-2 focus:ring-pink-500/40';
+
+// 種類を選んで URL を入れる。URL を貼ったら種類はドメインから合わせる
+export default function LinksEditor({ value, onChange, disabled }: Props) {
+  const update = (index: number, patch: Partial<ProfileLink>) => {
+    onChange(value.map((link, i) => (i === index ? { ...link, ...patch } : link)));
+  };
+
+  const handleUrlChange = (index: number, url: string) => {
+    const detected = profileLinkKindOf(url);
+    update(index, detected === 'website' ? { url } : { url, kind: detected });
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.map((link, index) => {
+        // 入力途中は出さない（何か入ってから）
+        const problem = link.url.trim() ? validateProfileLink(link) : null;
+        return (
+          <div key={index} className="space-y-1">
+            <div className="flex gap-2">
+              <select
+                value={link.kind}
+                onChange={(e) => update(index, { kind: e.target.value as ProfileLinkKind })}
+                disabled={disabled}
+                className={`${INPUT_CLASS} w-32 shrink-0`}
+              >
+                {PROFILE_LINK_KINDS.map((k) => (
+                  <option key={k.kind} value={k.kind}>
+                    {k.label}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="url"
+                value={link.url}
+                onChange={(e) => handleUrlChange(index, e.target.value)}
+                placeholder="https://"
+                disabled={disabled}
+                className={`${INPUT_CLASS} min-w-0 flex-1`}
+              />
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((_, i) => i !== index))}
+                disabled={disabled}
+                aria-label="このリンクを削除"
+                className="shrink-0 rounded-full px-2 text-[13px] text-slate-400 hover:text-red-300 transition"
+              >
+                ×
+              </button>
+            </div>
+            {problem && <p className="text-[10px] text-red-300">{problem}</p>}
+          </div>
+        );
+      })}
+
+      {value.length < PROFILE_MAX_LINKS && (
+        <button
+          type="button"
+          onClick={() => onChange([...value, { kind: 'website', url: '' }])}
+          disabled={disabled}
+          className="rounded-full border border-dashed border-slate-600 px-3 py-1 text-[11px] text-slate-300 hover:border-pink-400 hover:text-pink-100 transition disabled:opacity-60"
+        >
+          ＋ リンクを追加
+        </button>
+      )}
+    </div>
+  );
+}
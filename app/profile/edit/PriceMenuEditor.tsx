@@ -0,0 +1,108 @@
+// app/profile/edit/PriceMenuEditor.tsx
+'use client';
+
+import { PRICE_MENU_MAX_ITEMS, type PriceMenuItem } from '@/lib/data';
+
+// 入力中は文字列のまま持ち、保存するときに数値にする
+export type PriceMenuDraft = {
+  label: string;
+  min: string;
+  max: string;
+};
+
+export const toPriceMenuDrafts = (items: PriceMenuItem[]): PriceMenuDraft[] =>
+  items.map((item) => ({
+    label: item.label,
+    min: String(item.min_price),
+    max: item.max_price === null ? '' : String(item.max_price),
+  }));
+
+// 全角数字・カンマ・「円」は許す。数値にできなければ NaN（validateCreatorDetails で弾く）
+const parseYen = (value: string) => {
+  const digits = value.normalize('NFKC').replace(/[,\s円¥]/g, '');
+  return digits ? Number(digits) : NaN;
+};
+
+// 項目名も金額も空の行は無視する
+export const fromPriceMenuDrafts = (drafts: PriceMenuDraft[]): PriceMenuItem[] =>
+  drafts
+    .filter((d) => d.label.trim() || d.min.trim() || d.max.trim())
+    .map((d) => ({
+      label: d.label.trim(),
+      min_price: parseYen(d.min),
+      max_price: d.max.trim() ? parseYen(d.max) : null,
+    }));
+
+type Props = {
+  value: PriceMenuDraft[];
+  onChange: (value: PriceMenuDraft[]) => void;
+  disabled?: boolean;
+};
+
+const INPUT_CLASS =
+  'rounded-2xl border border-slate-700 bg-slate-900/80 px-3 py-2 text-[12px] text-slate-50 outline-none focus:border-pink-400 focus:ring-2 focus:ring-pink-500/40';
+
+export default function PriceMenuEditor({ value, onChange, disabled }: Props) {
+  const update = (index: number, patch: Partial<PriceMenuDraft>) => {
+    onChange(value.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.map((row, index) => (
+        <div key={index} className="flex flex-wrap items-center gap-2 sm:flex-nowrap">
+          <input
+            type="text"
+            value={row.label}
+            onChange={(e) => update(index, { label: e.target.value })}
+            placeholder="例）ヘアメイク（1 名）"
+            disabled={disabled}
+            className={`${INPUT_CLASS} min-w-0 flex-1`}
+          />
+          <div className="flex items-center gap-1 text-[11px] text-slate-400">
+            <span>¥</span>
+            <input
+              type="text"
+              inputMode="numeric"
+              value={row.min}
+              onChange={(e) => update(index, { min: e.target.value })}
+              placeholder="5000"
+              disabled={disabled}
+              className={`${INPUT_CLASS} w-24`}
+            />
+            <span>〜</span>
+            <input
+              type="text"
+              inputMode="numeric"
+              value={row.max}
+              onChange={(e) => update(index, { max: e.target.value })}
+              placeholder="上限なし"
+              disabled={disabled}
+              className={`${INPUT_CLASS} w-24`}
+            />
+          </div>
+          <button
+            type="button"
+            onClick={() => onChange(value.filter((_, i) => i !== index))}
+            disabled={disabled}
+            aria-label="この項目を削除"
+            className="shrink-0 rounded-full px-2 text-[13px] text-slate-400 hover:text-red-300 transition"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+
+      {value.length < PRICE_MENU_MAX_ITEMS && (
+        <button
+          type="button"
+          onClick={() => onChange([...value, { label: '', min: '', max: '' }])}
+          disabled={disabled}
+          className="rounded-full border border-dashed border-slate-600 px-3 py-1 text-[11px] text-slate-300 hover:border-pink-400 hover:text-pink-100 transition disabled:opacity-60"
+        >
+          ＋ メニューを追加
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+// app/profile/edit/ProfileImageField.tsx
+'use client';
+
+import { ChangeEvent, useEffect, useMemo, useRef, useState } from 'react';
+import Avatar from '@/components/Avatar';
+import ProfileCover from '@/components/ProfileCover';
+import { validateProfileImageFile, type ProfileImageKind } from '@/lib/data';
+import ImageCropper from './ImageCropper';
+
+// 保存するまではアップロードしない（keep：そのまま / remove：外す / replace：切り抜いた画像に差し替え）
+export type ProfileImageDraft =
+  | { action: 'keep' }
+  | { action: 'remove' }
+  | { action: 'replace'; blob: Blob };
+
+type Props = {
+  kind: ProfileImageKind;
+  // 保存済みの画像
+  currentUrl: string | null;
+  // アイコンがないときの頭文字用
+  name: string;
+  draft: ProfileImageDraft;
+  onChange: (draft: ProfileImageDraft) => void;
+  disabled?: boolean;
+};
+
+export default function ProfileImageField({
+  kind,
+  currentUrl,
+  name,
+  draft,
+  onChange,
+  disabled,
+}: Props) {
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const [pickedFile, setPickedFile] = useState<File | null>(null);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  const blob = draft.action === 'replace' ? draft.blob : null;
+  const blobUrl = useMemo(() => (blob ? URL.createObjectURL(blob) : null), [blob]);
+  useEffect(() => () => {
+    if (blobUrl) URL.revokeObjectURL(blobUrl);
+  }, [blobUrl]);
+
+  const previewUrl = draft.action === 'keep' ? currentUrl : blobUrl;
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // 同じファイルを選び直せるように空にしておく
+    e.target.value = '';
+    if (!file) return;
+
+    const problem = validateProfileImageFile(file);
+    setErrorMsg(problem);
+    if (!problem) setPickedFile(file);
+  };
+
+  return (
+    <div className="space-y-2">
+      {kind === 'avatar' ? (
+        <Avatar name={name} url={previewUrl} size="xl" />
+      ) : (
+        <ProfileCover url={previewUrl} />
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          disabled={disabled}
+          className="rounded-full border border-slate-600 bg-slate-900/80 px-3 py-1 text-[11px] text-slate-100 hover:bg-slate-800/80 transition disabled:opacity-60"
+        >
+          {previewUrl ? '画像を変更' : '画像を選ぶ'}
+        </button>
+        {previewUrl && (
+          <button
+            type="button"
+            onClick={() => onChange({ action: 'remove' })}
+            disabled={disabled}
+            className="rounded-full px-3 py-1 text-[11px] text-red-300 hover:bg-red-500/20 transition disabled:opacity-60"
+          >
+            画像を外す
+          </button>
+        )}
+        {draft.action !== 'keep' && (
+          <button
+            type="button"
+            onClick={() => onChange({ action: 'keep' })}
+            disabled={disabled}
+            className="rounded-full px-3 py-1 text-[11px] text-slate-400 hover:text-slate-200 transition disabled:opacity-60"
+          >
+            元に戻す
+          </button>
+        )}
+        <input
+          ref={inputRef}
+          type="file"
+          accept="image/*"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+      </div>
+
+      {errorMsg && <p className="text-[10px] text-red-300">{errorMsg}</p>}
+
+      {pickedFile && (
+        <ImageCropper
+          file={pickedFile}
+          kind={kind}
+          onCancel={() => setPickedFile(null)}
+          onCrop={(cropped) => {
+            setPickedFile(null);
+            onChange({ action: 'replace', blob: cropped });
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+// app/profile/edit/SkillsInput.tsx
+'use client';
+
+import { useState, type KeyboardEvent } from 'react';
+import {
+  normalizeSkill,
+  normalizeSkills,
+  PROFILE_MAX_SKILLS,
+  SKILL_MAX_LENGTH,
+} from '@/lib/data';
+
+type Props = {
+  value: string[];
+  onChange: (value: string[]) => void;
+  disabled?: boolean;
+};
+
+// Enter / 読点・カンマで確定（作品タグの TagInput と同じ操作。候補は出さない）
+export default function SkillsInput({ value, onChange, disabled }: Props) {
+  const [draft, setDraft] = useState('');
+  const [warning, setWarning] = useState<string | null>(null);
+
+  const commit = () => {
+    const skill = normalizeSkill(draft);
+    if (!skill) return;
+
+    if (skill.length > SKILL_MAX_LENGTH) {
+      setWarning(`スキルは 1 つ ${SKILL_MAX_LENGTH} 文字までです。`);
+      return;
+    }
+    const next = normalizeSkills([...value, skill]);
+    if (next.length === value.length) {
+      setWarning('同じスキルが追加されています。');
+      return;
+    }
+    if (next.length > PROFILE_MAX_SKILLS) {
+      setWarning(`スキルは ${PROFILE_MAX_SKILLS} 個までです。`);
+      return;
+    }
+
+    onChange(next);
+    setDraft('');
+    setWarning(null);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    // 変換中の Enter は確定に使わない
+    if (e.nativeEvent.isComposing) return;
+    if (e.key === 'Enter' || e.key === ',' || e.key === '、') {
+      e.preventDefault();
+      commit();
+    } else if (e.key === 'Backspace' && !draft && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex flex-wrap items-center gap-1.5 rounded-2xl border border-slate-700 bg-slate-900/80 px-2 py-1.5 focus-within:border-pink-400 focus-within:ring-2 focus-within:ring-pink-500/40">
+        {value.map((skill) => (
+          <span
+            key={skill}
+            className="inline-flex items-center gap-1 rounded-full bg-slate-800 px-2 py-0.5 text-[11px] text-slate-100"
+          >
+            {skill}
+            <button
+              type="button"
+              onClick={() => onChange(value.filter((s) => s !== skill))}
+              disabled={disabled}
+              aria-label={`${skill} を削除`}
+              className="text-slate-400 hover:text-red-300"
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={commit}
+          disabled={disabled || value.length >= PROFILE_MAX_SKILLS}
+          placeholder={value.length === 0 ? '例）ブライダルヘア / 商品撮影 / Photoshop' : ''}
+          className="min-w-[120px] flex-1 bg-transparent px-1 py-0.5 text-[12px] text-slate-50 placeholder:text-slate-500 outline-none"
+        />
+      </div>
+      {warning && <p className="text-[10px] text-amber-300">{warning}</p>}
+    </div>
+  );
+}
@@ -3,19 +3,43 @@
 
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { supabase } from '@/lib/supabaseClient';
-
-type Role = 'creator' | 'client' | null;
-
-type ProfileRow = {
-  id: string;
-  display_name: string | null;
-  role: Role;
-  bio: string | null;
-  genre: string | null;
-  area: string | null;
-  instagram_url: string | null;
-};
+import {
+  db,
+  AVAILABILITY_LABELS,
+  isAcceptingRequests,
+  PAUSE_REASON_MAX_LENGTH,
+  profileImagePath,
+  profileImagePathOf,
+  ROLE_LABELS,
+  ROLES,
+  rolesLabel,
+  todayInTokyo,
+  TURNAROUND_MAX_DAYS,
+  validateCreatorDetails,
+  validateVocabularies,
+  type Availability,
+  type ProfileImageKind,
+  type ProfileLink,
+  type ProfileRow,
+  type ProfileUpdate,
+  type Role,
+} from '@/lib/data';
+import { loginHref } from '@/lib/authRoutes';
+import AreaPicker from './AreaPicker';
+import GenrePicker from './GenrePicker';
+import LinksEditor from './LinksEditor';
+import PriceMenuEditor, {
+  fromPriceMenuDrafts,
+  toPriceMenuDrafts,
+  type PriceMenuDraft,
+} from './PriceMenuEditor';
+import ProfileImageField, { type ProfileImageDraft } from './ProfileImageField';
+import SkillsInput from './SkillsInput';
+
+const IMAGE_URL_FIELDS = {
+  avatar: 'avatar_url',
+  cover: 'cover_url',
+} as const satisfies Record<ProfileImageKind, keyof ProfileRow>;
 
 export default function ProfileEditPage() {
   const router = useRouter();
@@ -28,10 +52,21 @@ export default function ProfileEditPage() {
 
   // フォーム用 state
   const [displayName, setDisplayName] = useState('');
+  const [roles, setRoles] = useState<Role[]>([]);
   const [bio, setBio] = useState('');
-  const [genre, setGenre] = useState('');
-  const [area, setArea] = useState('');
-  const [instagramUrl, setInstagramUrl] = useState('');
+  const [genreSlugs, setGenreSlugs] = useState<string[]>([]);
+  const [areaCodes, setAreaCodes] = useState<string[]>([]);
+  const [links, setLinks] = useState<ProfileLink[]>([]);
+  const [skills, setSkills] = useState<string[]>([]);
+  const [priceMenu, setPriceMenu] = useState<PriceMenuDraft[]>([]);
+  const [turnaroundDays, setTurnaroundDays] = useState('');
+  const [availability, setAvailability] = useState<Availability>('open');
+  const [pauseReason, setPauseReason] = useState('');
+  const [resumesOn, setResumesOn] = useState('');
+  const [imageDrafts, setImageDrafts] = useState<Record<ProfileImageKind, ProfileImageDraft>>({
+    avatar: { action: 'keep' },
+    cover: { action: 'keep' },
+  });
 
   useEffect(() => {
     const init = async () => {
@@ -39,38 +74,40 @@ export default function ProfileEditPage() {
       setErrorMsg(null);
 
       // 1. ログインユーザー
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
+      const { data: user } = await db.auth.getUser();
 
       if (!user) {
         // 未ログインならログイン画面へ
-        router.push('/auth/login?next=/profile/edit');
+        router.push(loginHref('/profile/edit'));
         return;
       }
 
       // 2. プロフィール取得
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('id, display_name, role, bio, genre, area, instagram_url')
-        .eq('id', user.id)
-        .single();
-
-      if (error || !data) {
-        console.error('ProfileEdit: profiles 取得エラー', error?.message);
+      const { data: p, error } = await db.profiles.getById(user.id);
+
+      if (error) {
+        console.error('ProfileEdit: profiles 取得エラー', error.message);
         setErrorMsg('プロフィール情報を取得できませんでした。時間をおいて再度お試しください。');
         setLoading(false);
         return;
       }
 
-      const p = data as ProfileRow;
       setProfile(p);
 
       setDisplayName(p.display_name || '');
+      setRoles(p.roles);
       setBio(p.bio || '');
-      setGenre(p.genre || '');
-      setArea(p.area || '');
-      setInstagramUrl(p.instagram_url || '');
+      setGenreSlugs(p.genre_slugs);
+      setAreaCodes(p.area_codes);
+      setLinks(p.links);
+      setSkills(p.skills);
+      setPriceMenu(toPriceMenuDrafts(p.price_menu));
+      setTurnaroundDays(p.turnaround_days === null ? '' : String(p.turnaround_days));
+      // 再開予定日を過ぎた停止は受付中として見せる（保存すると理由・日付も消える）
+      const paused = !isAcceptingRequests(p);
+      setAvailability(paused ? 'paused' : 'open');
+      setPauseReason(paused ? p.pause_reason ?? '' : '');
+      setResumesOn(paused ? p.resumes_on ?? '' : '');
 
       setLoading(false);
     };
@@ -84,35 +121,109 @@ export default function ProfileEditPage() {
       setErrorMsg('表示名は必須です。');
       return;
     }
+    if (roles.length === 0) {
+      setErrorMsg('利用区分を 1 つ以上選んでください。');
+      return;
+    }
+
+    const vocabularyError = validateVocabularies(genreSlugs, areaCodes);
+    if (vocabularyError) {
+      setErrorMsg(vocabularyError);
+      return;
+    }
+
+    // URL が空の行は入力途中とみなして捨てる
+    const creatorDetails = {
+      links: links
+        .map((link) => ({ ...link, url: link.url.trim() }))
+        .filter((link) => link.url),
+      skills,
+      price_menu: fromPriceMenuDrafts(priceMenu),
+      turnaround_days: turnaroundDays.trim() ? Number(turnaroundDays.normalize('NFKC')) : null,
+      availability,
+      pause_reason: availability === 'paused' ? pauseReason.trim() || null : null,
+      resumes_on: availability === 'paused' ? resumesOn || null : null,
+    };
+    const detailsError = roles.includes('creator') ? validateCreatorDetails(creatorDetails) : null;
+    if (detailsError) {
+      setErrorMsg(detailsError);
+      return;
+    }
+    if (creatorDetails.resumes_on && creatorDetails.resumes_on <= todayInTokyo()) {
+      setErrorMsg('再開予定日は明日以降の日付にしてください。');
+      return;
+    }
 
     setSaving(true);
     setErrorMsg(null);
     setSuccessMsg(null);
 
-    const payload: Partial<ProfileRow> = {
+    const payload: ProfileUpdate = {
       display_name: displayName.trim(),
+      // 切り替え中のロールを外したら、残ったロールに DB 側で切り替わる
+      roles,
       bio: bio.trim() || null,
-      genre: genre.trim() || null,
+      genre_slugs: genreSlugs,
     };
 
-    // クリエイターの場合のみ、活動エリア・リンクも更新
-    if (profile.role === 'creator') {
-      payload.area = area.trim() || null;
-      payload.instagram_url = instagramUrl.trim() || null;
+    // 画像：差し替えるものを先にアップロードする（保存に失敗したら消す）
+    const kinds = Object.keys(IMAGE_URL_FIELDS) as ProfileImageKind[];
+    const uploadedPaths: string[] = [];
+
+    for (const kind of kinds) {
+      const draft = imageDrafts[kind];
+      if (draft.action === 'keep') continue;
+      if (draft.action === 'remove') {
+        payload[IMAGE_URL_FIELDS[kind]] = null;
+        continue;
+      }
+
+      const path = profileImagePath(profile.id, kind, draft.blob.type);
+      const { data: uploaded, error: uploadError } = await db.storage.upload(
+        'profiles',
+        path,
+        draft.blob,
+        { contentType: draft.blob.type, cacheControl: '31536000' }
+      );
+
+      if (uploadError) {
+        console.error('ProfileEdit: 画像アップロードエラー', uploadError.message);
+        if (uploadedPaths.length > 0) await db.storage.remove('profiles', uploadedPaths);
+        setErrorMsg('画像のアップロードに失敗しました。時間をおいて再度お試しください。');
+        setSaving(false);
+        return;
+      }
+
+      uploadedPaths.push(path);
+      payload[IMAGE_URL_FIELDS[kind]] = uploaded.publicUrl;
     }
 
-    const { error } = await supabase
-      .from('profiles')
-      .update(payload)
-      .eq('id', profile.id);
+    // クリエイターの場合のみ、活動エリア・リンク・料金・受付状況なども更新
+    if (roles.includes('creator')) {
+      payload.area_codes = areaCodes;
+      Object.assign(payload, creatorDetails);
+    }
+
+    const { error } = await db.profiles.update(profile.id, payload);
 
     if (error) {
       console.error('ProfileEdit: 更新エラー', error.message);
+      if (uploadedPaths.length > 0) await db.storage.remove('profiles', uploadedPaths);
       setErrorMsg('プロフィールの更新に失敗しました。時間をおいて再度お試しください。');
       setSaving(false);
       return;
     }
 
+    // 差し替え・外した古い画像を消す（失敗しても保存は済んでいるので記録だけ）
+    const stalePaths = kinds
+      .filter((kind) => imageDrafts[kind].action !== 'keep')
+      .map((kind) => profileImagePathOf(profile[IMAGE_URL_FIELDS[kind]]))
+      .filter((path): path is string => path !== null);
+    if (stalePaths.length > 0) {
+      const { error: removeError } = await db.storage.remove('profiles', stalePaths);
+      if (removeError) console.error('ProfileEdit: 古い画像の削除エラー', removeError.message);
+    }
+
     setSuccessMsg('プロフィールを保存しました。');
     setSaving(false);
 
@@ -142,11 +253,14 @@ export default function ProfileEditPage() {
 
   if (!profile) return null;
 
-  const isCreator = profile.role === 'creator';
-  const isClient = profile.role === 'client';
+  // 利用区分のチェックに合わせてクリエイター向けの項目を出し入れする
+  const isCreator = roles.includes('creator');
 
   const titleText = isCreator ? 'クリエイタープロフィールの編集' : 'プロフィールの編集';
-  const roleLabel = isCreator ? 'クリエイター' : isClient ? '依頼者' : 'ユーザー';
+  const roleLabel = rolesLabel(roles);
+
+  const toggleRole = (role: Role, checked: boolean) =>
+    setRoles((prev) => (checked ? [...prev, role] : prev.filter((r) => r !== role)));
 
   return (
     <div className="min-h-[calc(100vh-56px)]">
@@ -173,8 +287,9 @@ export default function ProfileEditPage() {
             {titleText}
           </h1>
           <p className="text-[11px] text-slate-400">
-            自己紹介や興味のあるジャンルを編集できます。
-            {isCreator && ' クリエイターの方は、活動エリアや外部リンクも登録できます。'}
+            アイコン・カバー画像、自己紹介や興味のあるジャンルを編集できます。
+            {isCreator &&
+              ' クリエイターの方は、依頼の受付状況・活動エリア・外部リンク・スキル・料金メニューも登録できます。'}
           </p>
         </header>
 
@@ -192,6 +307,33 @@ export default function ProfileEditPage() {
 
         {/* フォーム本体 */}
         <section className="space-y-4 rounded-3xl border border-white/10 bg-slate-950/80 px-4 py-5 text-xs text-slate-200">
+          {/* 共通：カバー画像・アイコン */}
+          <div className="space-y-1.5">
+            <label className="block text-[11px] font-semibold text-slate-100">カバー画像</label>
+            <ProfileImageField
+              kind="cover"
+              currentUrl={profile.cover_url}
+              name={displayName}
+              draft={imageDrafts.cover}
+              onChange={(draft) => setImageDrafts((prev) => ({ ...prev, cover: draft }))}
+              disabled={saving}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <label className="block text-[11px] font-semibold text-slate-100">アイコン</label>
+            <ProfileImageField
+              kind="avatar"
+              currentUrl={profile.avatar_url}
+              name={displayName}
+              draft={imageDrafts.avatar}
+              onChange={(draft) => setImageDrafts((prev) => ({ ...prev, avatar: draft }))}
+              disabled={saving}
+            />
+            <p className="text-[10px] text-slate-500">
+              ヘッダーや依頼一覧、メッセージ、作品カードに表示されます。
+            </p>
+          </div>
+
           {/* 共通：表示名 */}
           <div className="space-y-1.5">
             <label className="block text-[11px] font-semibold text-slate-100">
@@ -209,6 +351,31 @@ export default function ProfileEditPage() {
             </p>
           </div>
 
+          {/* 共通：利用区分（両方選べる） */}
+          <div className="space-y-1.5">
+            <label className="block text-[11px] font-semibold text-slate-100">
+              利用区分 <span className="text-pink-400">*</span>
+            </label>
+            <div className="flex flex-wrap gap-4">
+              {ROLES.map((role) => (
+                <label key={role} className="inline-flex items-center gap-2 text-[11px]">
+                  <input
+                    type="checkbox"
+                    checked={roles.includes(role)}
+                    onChange={(e) => toggleRole(role, e.target.checked)}
+                    disabled={saving}
+                    className="h-3.5 w-3.5 rounded border-slate-600 bg-slate-900 text-pink-500 focus:ring-pink-500"
+                  />
+                  <span className="text-slate-100">{ROLE_LABELS[role]}として使う</span>
+                </label>
+              ))}
+            </div>
+            <p className="text-[10px] text-slate-500">
+              両方選ぶと、作品を投稿して依頼を受けながら、ほかのクリエイターに依頼することもできます。
+              クリエイターを外しても投稿した作品は残りますが、新しい依頼は届かなくなります。
+            </p>
+          </div>
+
           {/* 共通：自己紹介 */}
           <div className="space-y-1.5">
             <label className="block text-[11px] font-semibold text-slate-100">
@@ -232,17 +399,13 @@ export default function ProfileEditPage() {
             <label className="block text-[11px] font-semibold text-slate-100">
               興味のあるジャンル
             </label>
-            <input
-              type="text"
-              value={genre}
-              onChange={(e) => setGenre(e.target.value)}
-              placeholder={
-                isCreator
-                  ? '例）ポートレート / Webデザイン / ロゴ / 名刺 など'
-                  : '例）プロフィール写真 / 似顔絵 / ロゴデザイン など'
-              }
-              className="w-full rounded-2xl border border-slate-700 bg-slate-900/80 px-3 py-2 text-[12px] text-slate-50 outline-none focus:border-pink-400 focus:ring-2 focus:ring-pink-500/40"
-            />
+            <GenrePicker value={genreSlugs} onChange={setGenreSlugs} disabled={saving} />
+            {/* マスタ導入前の自由入力で、どれにも当てはまらなかったもの */}
+            {profile.genre_slugs.length === 0 && profile.genre && (
+              <p className="text-[10px] text-slate-500">
+                以前の入力：{profile.genre}（一覧から選び直してください）
+              </p>
+            )}
           </div>
 
           {/* クリエイター専用フィールド */}
@@ -253,30 +416,117 @@ export default function ProfileEditPage() {
                 <label className="block text-[11px] font-semibold text-slate-100">
                   活動エリア
                 </label>
-                <input
-                  type="text"
-                  value={area}
-                  onChange={(e) => setArea(e.target.value)}
-                  placeholder="例）都内中心（渋谷・新宿周辺）、オンライン対応可"
-                  className="w-full rounded-2xl border border-slate-700 bg-slate-900/80 px-3 py-2 text-[12px] text-slate-50 outline-none focus:border-pink-400 focus:ring-2 focus:ring-pink-500/40"
-                />
+                <AreaPicker value={areaCodes} onChange={setAreaCodes} disabled={saving} />
+                {profile.area_codes.length === 0 && profile.area && (
+                  <p className="text-[10px] text-slate-500">
+                    以前の入力：{profile.area}（一覧から選び直してください）
+                  </p>
+                )}
               </div>
 
-              {/* 外部リンク（Instagram / ポートフォリオ） */}
+              {/* 受付状況 */}
               <div className="space-y-1.5">
                 <label className="block text-[11px] font-semibold text-slate-100">
-                  外部リンク（Instagram / ポートフォリオ）
+                  依頼の受付状況
                 </label>
-                <input
-                  type="url"
-                  value={instagramUrl}
-                  onChange={(e) => setInstagramUrl(e.target.value)}
-                  placeholder="https:// から始まる URL を入力してください"
-                  className="w-full rounded-2xl border border-slate-700 bg-slate-900/80 px-3 py-2 text-[12px] text-slate-50 outline-none focus:border-pink-400 focus:ring-2 focus:ring-pink-500/40"
-                />
+                <div className="flex gap-1.5">
+                  {(Object.keys(AVAILABILITY_LABELS) as Availability[]).map((value) => (
+                    <button
+                      key={value}
+                      type="button"
+                      onClick={() => setAvailability(value)}
+                      disabled={saving}
+                      aria-pressed={availability === value}
+                      className={`rounded-full border px-3 py-1 text-[11px] transition ${
+                        availability === value
+                          ? value === 'open'
+                            ? 'border-emerald-400 bg-emerald-500/20 text-emerald-100'
+                            : 'border-slate-400 bg-slate-700/60 text-slate-100'
+                          : 'border-slate-700 bg-slate-900/80 text-slate-300 hover:border-slate-500'
+                      }`}
+                    >
+                      {AVAILABILITY_LABELS[value]}
+                    </button>
+                  ))}
+                </div>
                 <p className="text-[10px] text-slate-500">
-                  Instagram やポートフォリオサイトなど、作品がまとまっている URL があれば入力してください。
+                  停止中のあいだは、作品詳細・依頼フォームから新しい依頼を受け付けません（進行中の依頼はそのまま続けられます）。
+                  作品ごとに止めるときは、作品の編集画面から設定できます。
                 </p>
+                {availability === 'paused' && (
+                  <div className="space-y-2 rounded-2xl border border-slate-800 bg-slate-900/50 px-3 py-2.5">
+                    <div className="space-y-1">
+                      <label className="block text-[10px] text-slate-400">
+                        停止の理由（任意・プロフィールと作品詳細に表示されます）
+                      </label>
+                      <textarea
+                        value={pauseReason}
+                        onChange={(e) => setPauseReason(e.target.value)}
+                        rows={2}
+                        maxLength={PAUSE_REASON_MAX_LENGTH}
+                        placeholder="例）繁忙期のため、12 月まで新規のご依頼をお休みしています。"
+                        disabled={saving}
+                        className="w-full rounded-2xl border border-slate-700 bg-slate-900/80 px-3 py-2 text-[12px] text-slate-50 outline-none focus:border-pink-400 focus:ring-2 focus:ring-pink-500/40"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <label className="block text-[10px] text-slate-400">
+                        再開予定日（任意・この日になると自動で受付中に戻ります）
+                      </label>
+                      <input
+                        type="date"
+                        value={resumesOn}
+                        onChange={(e) => setResumesOn(e.target.value)}
+                        disabled={saving}
+                        className="rounded-2xl border border-slate-700 bg-slate-900/80 px-3 py-2 text-[12px] text-slate-50 outline-none focus:border-pink-400 focus:ring-2 focus:ring-pink-500/40"
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              {/* 外部リンク */}
+              <div className="space-y-1.5">
+                <label className="block text-[11px] font-semibold text-slate-100">
+                  外部リンク（Instagram / X / pixiv / Behance / Webサイト）
+                </label>
+                <LinksEditor value={links} onChange={setLinks} disabled={saving} />
+              </div>
+
+              {/* スキル */}
+              <div className="space-y-1.5">
+                <label className="block text-[11px] font-semibold text-slate-100">スキル</label>
+                <SkillsInput value={skills} onChange={setSkills} disabled={saving} />
+              </div>
+
+              {/* 料金メニュー */}
+              <div className="space-y-1.5">
+                <label className="block text-[11px] font-semibold text-slate-100">
+                  料金メニュー
+                </label>
+                <PriceMenuEditor value={priceMenu} onChange={setPriceMenu} disabled={saving} />
+                <p className="text-[10px] text-slate-500">
+                  目安の金額です。実際の金額は依頼ごとに見積もりで決められます。
+                </p>
+              </div>
+
+              {/* 納期の目安 */}
+              <div className="space-y-1.5">
+                <label className="block text-[11px] font-semibold text-slate-100">
+                  納期の目安
+                </label>
+                <div className="flex items-center gap-2 text-[11px] text-slate-400">
+                  <input
+                    type="number"
+                    min={1}
+                    max={TURNAROUND_MAX_DAYS}
+                    value={turnaroundDays}
+                    onChange={(e) => setTurnaroundDays(e.target.value)}
+                    disabled={saving}
+                    className="w-24 rounded-2xl border border-slate-700 bg-slate-900/80 px-3 py-2 text-[12px] text-slate-50 outline-none focus:border-pink-400 focus:ring-2 focus:ring-pink-500/40"
+                  />
+                  <span>日ほど</span>
+                </div>
               </div>
             </>
           )}
@@ -0,0 +1,102 @@
+// app/requests/[id]/MessageAttachments.tsx
+'use client';
+
+import { useEffect, useState } from 'react';
+import { db, isImageAttachment, type MessageAttachment } from '@/lib/data';
+
+type Props = {
+  attachments: MessageAttachment[];
+  isMe: boolean;
+};
+
+// 非公開バケットなので表示のたびに期限つき URL を発行する（秒）
+const SIGNED_URL_TTL = 60 * 60;
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+export default function MessageAttachments({ attachments, isMe }: Props) {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+
+  // 添付は送信後に変わらないので、パスの並びが同じなら取り直さない
+  const pathsKey = attachments.map((a) => a.path).join('\n');
+
+  useEffect(() => {
+    if (!pathsKey) return;
+    let cancelled = false;
+
+    const fetchUrls = async () => {
+      const { data, error } = await db.storage.createSignedUrls(
+        'attachments',
+        pathsKey.split('\n'),
+        SIGNED_URL_TTL
+      );
+      if (error) {
+        console.error('MessageAttachments: 署名つき URL 発行エラー', error.message);
+        return;
+      }
+      if (!cancelled) setUrls(data);
+    };
+
+    void fetchUrls();
+    return () => {
+      cancelled = true;
+    };
+  }, [pathsKey]);
+
+  if (attachments.length === 0) return null;
+
+  const images = attachments.filter(isImageAttachment);
+  const files = attachments.filter((a) => !isImageAttachment(a));
+
+  return (
+    <div className={`mt-1 space-y-1 ${isMe ? 'text-right' : 'text-left'}`}>
+      {images.length > 0 && (
+        <div className={`flex flex-wrap gap-1 ${isMe ? 'justify-end' : 'justify-start'}`}>
+          {images.map((a) =>
+            urls[a.path] ? (
+              <a
+                key={a.path}
+                href={urls[a.path]}
+                target="_blank"
+                rel="noopener noreferrer"
+                title={a.name}
+                className="block overflow-hidden rounded-xl border border-white/10 bg-slate-900/80 hover:brightness-110 transition"
+              >
+                <img
+                  src={urls[a.path]}
+                  alt={a.name}
+                  loading="lazy"
+                  className="h-28 w-28 object-cover"
+                />
+              </a>
+            ) : (
+              <div
+                key={a.path}
+                className="h-28 w-28 animate-pulse rounded-xl border border-white/10 bg-slate-800/80"
+              />
+            )
+          )}
+        </div>
+      )}
+
+      {files.map((a) => (
+        <a
+          key={a.path}
+          href={urls[a.path]}
+          target="_blank"
+          rel="noopener noreferrer"
+          aria-disabled={!urls[a.path]}
+          className="inline-flex max-w-full items-center gap-2 rounded-xl border border-slate-700 bg-slate-900/80 px-2 py-1.5 text-[11px] text-sky-300 hover:text-sky-200 transition"
+        >
+          <span aria-hidden>📄</span>
+          <span className="truncate">{a.name}</span>
+          <span className="shrink-0 text-[10px] text-slate-500">{formatBytes(a.size_bytes)}</span>
+        </a>
+      ))}
+    </div>
+  );
+}
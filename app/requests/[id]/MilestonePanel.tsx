@@ -0,0 +1,533 @@
+// app/requests/[id]/MilestonePanel.tsx
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  allMilestonesApproved,
+  db,
+  DELIVERABLE_MAX_BYTES,
+  deliverablePath,
+  type DeliverableRow,
+  type MilestoneAction,
+  type MilestoneRow,
+  type RequestRow,
+} from '@/lib/data';
+
+type Props = {
+  request: RequestRow;
+  currentUserId: string;
+  isCreator: boolean;
+  isClient: boolean;
+  // 読み込み・変更のたびに「全マイルストーン承認済みか」を親へ伝える（クローズボタンの出し分け用）
+  onApprovalChange: (allApproved: boolean) => void;
+};
+
+// 署名つき URL の有効期限（秒）
+const SIGNED_URL_TTL = 60 * 10;
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+const formatDate = (ymd: string) =>
+  new Date(`${ymd}T00:00:00+09:00`).toLocaleDateString('ja-JP', {
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'Asia/Tokyo',
+  });
+
+const statusBadge = (status: MilestoneRow['status']) => {
+  switch (status) {
+    case 'open':
+      return { label: '作業中', style: 'border-slate-600 bg-slate-800/70 text-slate-200' };
+    case 'submitted':
+      return { label: '確認待ち', style: 'border-yellow-500/60 bg-yellow-500/10 text-yellow-100' };
+    case 'revision_requested':
+      return { label: '修正依頼あり', style: 'border-red-500/70 bg-red-500/10 text-red-100' };
+    case 'approved':
+      return { label: '承認済み', style: 'border-emerald-500/70 bg-emerald-500/10 text-emerald-100' };
+  }
+};
+
+export default function MilestonePanel({
+  request,
+  currentUserId,
+  isCreator,
+  isClient,
+  onApprovalChange,
+}: Props) {
+  const [milestones, setMilestones] = useState<MilestoneRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  // 追加フォーム
+  const [showForm, setShowForm] = useState(false);
+  const [title, setTitle] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [description, setDescription] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  // 処理中のマイルストーン / 修正依頼の入力
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [revisionTarget, setRevisionTarget] = useState<string | null>(null);
+  const [revisionNote, setRevisionNote] = useState('');
+
+  const requestId = request.id;
+  const inProgress = request.status === 'accepted';
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchMilestones = async () => {
+      const { data, error } = await db.milestones.listForRequest(requestId);
+      if (cancelled) return;
+
+      if (error) {
+        console.error('MilestonePanel: マイルストーン取得エラー', error.message);
+        setErrorMsg('マイルストーンの取得に失敗しました。');
+      } else {
+        setMilestones(data);
+      }
+      setLoading(false);
+    };
+
+    void fetchMilestones();
+    const unsubscribe = db.milestones.subscribeToRequest(requestId, () => void fetchMilestones());
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [requestId]);
+
+  const allApproved = allMilestonesApproved(milestones);
+  useEffect(() => {
+    if (!loading) onApprovalChange(allApproved);
+  }, [loading, allApproved, onApprovalChange]);
+
+  const reload = async () => {
+    const { data } = await db.milestones.listForRequest(requestId);
+    if (data) setMilestones(data);
+  };
+
+  const handleCreate = async () => {
+    if (!title.trim()) {
+      setErrorMsg('マイルストーンのタイトルを入力してください。');
+      return;
+    }
+
+    setCreating(true);
+    setErrorMsg(null);
+
+    const { error } = await db.milestones.create({
+      request_id: requestId,
+      title: title.trim(),
+      due_date: dueDate || null,
+      description: description.trim() || null,
+    });
+
+    setCreating(false);
+
+    if (error) {
+      console.error('MilestonePanel: マイルストーン作成エラー', error.message);
+      setErrorMsg('マイルストーンの追加に失敗しました。');
+      return;
+    }
+
+    setTitle('');
+    setDueDate('');
+    setDescription('');
+    setShowForm(false);
+    await reload();
+  };
+
+  const handleRemove = async (milestone: MilestoneRow) => {
+    if (!window.confirm(`「${milestone.title}」を削除しますか？`)) return;
+
+    setBusyId(milestone.id);
+    const { error } = await db.milestones.remove(milestone.id);
+    setBusyId(null);
+
+    if (error) {
+      console.error('MilestonePanel: マイルストーン削除エラー', error.message);
+      setErrorMsg('マイルストーンの削除に失敗しました。');
+      return;
+    }
+    await reload();
+  };
+
+  // 成果物：storage → deliverables の順に登録（DB 登録に失敗したらファイルを消す）
+  const handleUpload = async (milestone: MilestoneRow, file: File) => {
+    if (file.size > DELIVERABLE_MAX_BYTES) {
+      setErrorMsg(`ファイルサイズは ${formatBytes(DELIVERABLE_MAX_BYTES)} までです。`);
+      return;
+    }
+
+    setBusyId(milestone.id);
+    setErrorMsg(null);
+
+    const path = deliverablePath(requestId, milestone.id, file.name);
+    const { error: uploadError } = await db.storage.upload('deliverables', path, file, {
+      contentType: file.type || undefined,
+    });
+
+    if (uploadError) {
+      console.error('MilestonePanel: 成果物アップロードエラー', uploadError.message);
+      setErrorMsg('ファイルのアップロードに失敗しました。');
+      setBusyId(null);
+      return;
+    }
+
+    const { error } = await db.milestones.addDeliverable({
+      milestone_id: milestone.id,
+      request_id: requestId,
+      uploader_id: currentUserId,
+      file_path: path,
+      file_name: file.name,
+      content_type: file.type || null,
+      size_bytes: file.size,
+    });
+
+    if (error) {
+      console.error('MilestonePanel: 成果物登録エラー', error.message);
+      await db.storage.remove('deliverables', [path]);
+      setErrorMsg('成果物の登録に失敗しました。');
+      setBusyId(null);
+      return;
+    }
+
+    setBusyId(null);
+    await reload();
+  };
+
+  const handleRemoveDeliverable = async (deliverable: DeliverableRow) => {
+    if (!window.confirm(`「${deliverable.file_name}」を削除しますか？`)) return;
+
+    setBusyId(deliverable.milestone_id);
+    const { error } = await db.milestones.removeDeliverable(deliverable.id);
+
+    if (error) {
+      console.error('MilestonePanel: 成果物削除エラー', error.message);
+      setErrorMsg('成果物の削除に失敗しました。');
+      setBusyId(null);
+      return;
+    }
+
+    await db.storage.remove('deliverables', [deliverable.file_path]);
+    setBusyId(null);
+    await reload();
+  };
+
+  // 非公開バケットなので、開くたびに期限つき URL を発行する
+  const handleDownload = async (deliverable: DeliverableRow) => {
+    const { data: url, error } = await db.storage.createSignedUrl(
+      'deliverables',
+      deliverable.file_path,
+      SIGNED_URL_TTL
+    );
+
+    if (error) {
+      console.error('MilestonePanel: 署名つき URL 発行エラー', error.message);
+      setErrorMsg('ファイルを開けませんでした。');
+      return;
+    }
+
+    window.open(url, '_blank', 'noopener');
+  };
+
+  const handleAction = async (milestone: MilestoneRow, action: MilestoneAction) => {
+    if (action === 'request_revision' && !revisionNote.trim()) {
+      setErrorMsg('修正してほしい内容を入力してください。');
+      return;
+    }
+
+    setBusyId(milestone.id);
+    setErrorMsg(null);
+
+    const { data, error } = await db.milestones.updateStatus(
+      milestone.id,
+      currentUserId,
+      action,
+      action === 'request_revision' ? revisionNote : undefined
+    );
+
+    setBusyId(null);
+
+    if (error) {
+      console.error('MilestonePanel: マイルストーン更新エラー', error.message);
+      setErrorMsg(
+        error.code === 'invalid'
+          ? 'この操作は今はできません。ページを再読み込みして最新の状態をご確認ください。'
+          : 'マイルストーンの更新に失敗しました。'
+      );
+      return;
+    }
+
+    setMilestones((prev) => prev.map((m) => (m.id === data.id ? data : m)));
+    if (action === 'request_revision') {
+      setRevisionTarget(null);
+      setRevisionNote('');
+    }
+  };
+
+  // マイルストーンを使っていないクローズ済みの依頼では何も出さない
+  if (!inProgress && !loading && milestones.length === 0) return null;
+
+  const approvedCount = milestones.filter((m) => m.status === 'approved').length;
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-slate-950/80 px-4 py-4 space-y-3 text-[11px]">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <h2 className="text-[13px] font-semibold text-slate-50">マイルストーン・成果物</h2>
+          {milestones.length > 0 && (
+            <p className="text-[10px] text-slate-400">
+              承認済み {approvedCount} / {milestones.length}
+            </p>
+          )}
+        </div>
+        {isCreator && inProgress && !showForm && (
+          <button
+            type="button"
+            onClick={() => setShowForm(true)}
+            className="rounded-full border border-slate-600 bg-slate-900/70 px-3 py-1 text-[11px] text-slate-100 hover:bg-slate-800/80 transition"
+          >
+            ＋ マイルストーンを追加
+          </button>
+        )}
+      </div>
+
+      {errorMsg && (
+        <div className="rounded-2xl border border-red-500/40 bg-red-950/40 px-3 py-2 text-red-100">
+          {errorMsg}
+        </div>
+      )}
+
+      {/* 追加フォーム */}
+      {showForm && (
+        <div className="rounded-2xl border border-pink-500/40 bg-slate-900/80 px-3 py-3 space-y-2">
+          <input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="タイトル（例：ラフ案の提出）"
+            className="w-full rounded-xl border border-slate-700 bg-slate-950/80 px-2 py-1.5 text-slate-50 outline-none focus:border-pink-400"
+          />
+          <label className="flex items-center gap-2">
+            <span className="text-slate-400">期日</span>
+            <input
+              type="date"
+              value={dueDate}
+              onChange={(e) => setDueDate(e.target.value)}
+              className="rounded-xl border border-slate-700 bg-slate-950/80 px-2 py-1 text-slate-50 outline-none focus:border-pink-400"
+            />
+          </label>
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={2}
+            placeholder="内容（任意）"
+            className="w-full rounded-xl border border-slate-700 bg-slate-950/80 px-2 py-1.5 text-slate-50 outline-none focus:border-pink-400"
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              disabled={creating}
+              className="rounded-full border border-slate-600 bg-slate-900/70 px-3 py-1 text-slate-100 hover:bg-slate-800/80 transition"
+            >
+              キャンセル
+            </button>
+            <button
+              type="button"
+              onClick={() => void handleCreate()}
+              disabled={creating}
+              className="rounded-full bg-gradient-to-r from-pink-500 to-sky-500 px-3 py-1 font-semibold text-white hover:brightness-110 transition disabled:opacity-60 disabled:cursor-not-allowed"
+            >
+              {creating ? '追加中…' : '追加する'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-slate-500">マイルストーンを読み込み中です…</p>
+      ) : milestones.length === 0 ? (
+        <p className="text-slate-500">
+          {isCreator
+            ? '作業の区切りごとにマイルストーンを作ると、成果物の提出と確認をここで進められます。'
+            : 'クリエイターがマイルストーンを作成すると、ここで成果物を確認できます。'}
+        </p>
+      ) : (
+        <ol className="space-y-3">
+          {milestones.map((milestone) => {
+            const badge = statusBadge(milestone.status);
+            const busy = busyId === milestone.id;
+            const editable =
+              isCreator &&
+              inProgress &&
+              (milestone.status === 'open' || milestone.status === 'revision_requested');
+            const reviewable = isClient && inProgress && milestone.status === 'submitted';
+
+            return (
+              <li
+                key={milestone.id}
+                className="rounded-2xl border border-slate-800 bg-slate-900/70 px-3 py-3 space-y-2"
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-semibold text-slate-100">
+                      {milestone.position}. {milestone.title}
+                    </p>
+                    {milestone.due_date && (
+                      <p className="text-[10px] text-slate-400">
+                        期日：{formatDate(milestone.due_date)}
+                      </p>
+                    )}
+                  </div>
+                  <span className={`shrink-0 rounded-full border px-2 py-0.5 text-[10px] ${badge.style}`}>
+                    {badge.label}
+                  </span>
+                </div>
+
+                {milestone.description && (
+                  <p className="whitespace-pre-wrap text-slate-300">{milestone.description}</p>
+                )}
+
+                {milestone.status === 'revision_requested' && milestone.revision_note && (
+                  <div className="rounded-xl border border-red-500/40 bg-red-950/30 px-2 py-1.5 text-red-100">
+                    <p className="text-[10px] text-red-300">修正依頼</p>
+                    <p className="whitespace-pre-wrap">{milestone.revision_note}</p>
+                  </div>
+                )}
+
+                {/* 成果物 */}
+                {milestone.deliverables.length > 0 && (
+                  <ul className="space-y-1">
+                    {milestone.deliverables.map((d) => (
+                      <li key={d.id} className="flex items-center justify-between gap-2">
+                        <button
+                          type="button"
+                          onClick={() => void handleDownload(d)}
+                          className="min-w-0 truncate text-left text-sky-300 hover:text-sky-200 underline underline-offset-2"
+                        >
+                          📎 {d.file_name}
+                        </button>
+                        <span className="flex shrink-0 items-center gap-2 text-[10px] text-slate-500">
+                          {formatBytes(d.size_bytes)}
+                          {editable && (
+                            <button
+                              type="button"
+                              onClick={() => void handleRemoveDeliverable(d)}
+                              disabled={busy}
+                              aria-label="この成果物を削除"
+                              className="text-slate-400 hover:text-red-300 transition"
+                            >
+                              ×
+                            </button>
+                          )}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {/* クリエイター：アップロード・提出 */}
+                {editable && (
+                  <div className="flex flex-wrap items-center justify-end gap-2 pt-1">
+                    {milestone.status === 'open' && milestone.deliverables.length === 0 && (
+                      <button
+                        type="button"
+                        onClick={() => void handleRemove(milestone)}
+                        disabled={busy}
+                        className="mr-auto text-[10px] text-slate-500 hover:text-red-300 transition"
+                      >
+                        削除
+                      </button>
+                    )}
+                    <label className="cursor-pointer rounded-full border border-slate-600 bg-slate-900/70 px-3 py-1 text-slate-100 hover:bg-slate-800/80 transition">
+                      {busy ? '処理中…' : 'ファイルを追加'}
+                      <input
+                        type="file"
+                        className="hidden"
+                        disabled={busy}
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          e.target.value = '';
+                          if (file) void handleUpload(milestone, file);
+                        }}
+                      />
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => void handleAction(milestone, 'submit')}
+                      disabled={busy || milestone.deliverables.length === 0}
+                      className="rounded-full bg-gradient-to-r from-pink-500 to-sky-500 px-3 py-1 font-semibold text-white hover:brightness-110 transition disabled:opacity-60 disabled:cursor-not-allowed"
+                    >
+                      確認を依頼する
+                    </button>
+                  </div>
+                )}
+
+                {/* 依頼者：承認・修正依頼 */}
+                {reviewable &&
+                  (revisionTarget === milestone.id ? (
+                    <div className="space-y-2 pt-1">
+                      <textarea
+                        value={revisionNote}
+                        onChange={(e) => setRevisionNote(e.target.value)}
+                        rows={2}
+                        placeholder="修正してほしい点を具体的に書いてください"
+                        className="w-full rounded-xl border border-slate-700 bg-slate-950/80 px-2 py-1.5 text-slate-50 outline-none focus:border-pink-400"
+                      />
+                      <div className="flex justify-end gap-2">
+                        <button
+                          type="button"
+                          onClick={() => setRevisionTarget(null)}
+                          disabled={busy}
+                          className="rounded-full border border-slate-600 bg-slate-900/70 px-3 py-1 text-slate-100 hover:bg-slate-800/80 transition"
+                        >
+                          キャンセル
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => void handleAction(milestone, 'request_revision')}
+                          disabled={busy}
+                          className="rounded-full border border-red-500/70 bg-red-500/10 px-3 py-1 font-semibold text-red-100 hover:bg-red-500/20 transition disabled:opacity-60 disabled:cursor-not-allowed"
+                        >
+                          修正を依頼する
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="flex justify-end gap-2 pt-1">
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setRevisionTarget(milestone.id);
+                          setRevisionNote('');
+                        }}
+                        disabled={busy}
+                        className="rounded-full border border-red-500/70 bg-red-500/10 px-3 py-1 font-semibold text-red-100 hover:bg-red-500/20 transition"
+                      >
+                        修正を依頼
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => void handleAction(milestone, 'approve')}
+                        disabled={busy}
+                        className="rounded-full bg-emerald-500/90 px-3 py-1 font-semibold text-slate-950 hover:bg-emerald-400 transition disabled:opacity-60 disabled:cursor-not-allowed"
+                      >
+                        承認する
+                      </button>
+                    </div>
+                  ))}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,504 @@
+// app/requests/[id]/QuotePanel.tsx
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  db,
+  isQuoteExpired,
+  QUOTE_MAX_ITEMS,
+  quoteTotal,
+  todayInTokyo,
+  validateQuoteInput,
+  type QuoteItem,
+  type QuoteResponse,
+  type QuoteRow,
+  type RequestRow,
+} from '@/lib/data';
+
+type Props = {
+  request: RequestRow;
+  currentUserId: string;
+  isCreator: boolean;
+  nameOf: (userId: string | null) => string;
+  // 見積もりが承諾されて依頼の確定条件が変わったとき
+  onTermsLocked: () => void;
+};
+
+// 入力中の明細（数値は文字列のまま持つ）
+type ItemDraft = {
+  description: string;
+  quantity: string;
+  unit_price: string;
+};
+
+type FormMode = { kind: 'new' } | { kind: 'counter'; parent: QuoteRow };
+
+const DEFAULT_VALID_DAYS = 14;
+
+const emptyItem = (): ItemDraft => ({ description: '', quantity: '1', unit_price: '' });
+
+const addDays = (ymd: string, days: number) => {
+  const d = new Date(`${ymd}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+};
+
+const formatYen = (amount: number) =>
+  new Intl.NumberFormat('ja-JP', { style: 'currency', currency: 'JPY' }).format(amount);
+
+const formatDate = (ymd: string) =>
+  new Date(`${ymd}T00:00:00+09:00`).toLocaleDateString('ja-JP', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'Asia/Tokyo',
+  });
+
+const toItems = (drafts: ItemDraft[]): QuoteItem[] =>
+  drafts.map((d) => ({
+    description: d.description,
+    quantity: Number(d.quantity),
+    unit_price: Number(d.unit_price),
+  }));
+
+export default function QuotePanel({
+  request,
+  currentUserId,
+  isCreator,
+  nameOf,
+  onTermsLocked,
+}: Props) {
+  const [quotes, setQuotes] = useState<QuoteRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  const [formMode, setFormMode] = useState<FormMode | null>(null);
+  const [items, setItems] = useState<ItemDraft[]>([emptyItem()]);
+  const [deliveryDate, setDeliveryDate] = useState('');
+  const [validUntil, setValidUntil] = useState('');
+  const [note, setNote] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+
+  const requestId = request.id;
+  const isLocked = !!request.agreed_quote_id;
+
+  // 一覧の取得 ＋ 相手の提案・回答をリアルタイムで反映
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchQuotes = async () => {
+      const { data, error } = await db.quotes.listForRequest(requestId);
+      if (cancelled) return;
+
+      if (error) {
+        console.error('QuotePanel: 見積もり取得エラー', error.message);
+        setErrorMsg('見積もりの取得に失敗しました。');
+      } else {
+        setQuotes(data);
+      }
+      setLoading(false);
+    };
+
+    void fetchQuotes();
+    const unsubscribe = db.quotes.subscribeToRequest(requestId, () => void fetchQuotes());
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [requestId]);
+
+  // 相手が承諾した場合も、依頼の確定条件を読み直してもらう
+  const hasAccepted = quotes.some((q) => q.status === 'accepted');
+  useEffect(() => {
+    if (hasAccepted && !isLocked) onTermsLocked();
+  }, [hasAccepted, isLocked, onTermsLocked]);
+
+  const isOpen = request.status === 'pending' || request.status === 'accepted';
+  const canCreate = isCreator && isOpen && !isLocked;
+
+  const openForm = (mode: FormMode) => {
+    const today = todayInTokyo();
+    const source = mode.kind === 'counter' ? mode.parent : null;
+
+    setFormMode(mode);
+    setItems(
+      source
+        ? source.items.map((item) => ({
+            description: item.description,
+            quantity: String(item.quantity),
+            unit_price: String(item.unit_price),
+          }))
+        : [emptyItem()]
+    );
+    setDeliveryDate(source && source.delivery_date >= today ? source.delivery_date : '');
+    setValidUntil(addDays(today, DEFAULT_VALID_DAYS));
+    setNote('');
+    setFormError(null);
+  };
+
+  const updateItem = (index: number, patch: Partial<ItemDraft>) => {
+    setItems((prev) => prev.map((item, i) => (i === index ? { ...item, ...patch } : item)));
+  };
+
+  const handleSubmit = async () => {
+    if (!formMode) return;
+
+    const input = {
+      items: toItems(items),
+      delivery_date: deliveryDate,
+      valid_until: validUntil,
+    };
+
+    const invalid = validateQuoteInput(input);
+    if (invalid) {
+      setFormError(invalid);
+      return;
+    }
+
+    setSubmitting(true);
+    setFormError(null);
+
+    const { data, error } = await db.quotes.create({
+      ...input,
+      request_id: requestId,
+      author_id: currentUserId,
+      parent_id: formMode.kind === 'counter' ? formMode.parent.id : null,
+      note,
+    });
+
+    setSubmitting(false);
+
+    if (error) {
+      console.error('QuotePanel: 見積もり作成エラー', error.message);
+      setFormError(
+        error.code === 'invalid' || error.code === 'forbidden'
+          ? '見積もりを送れませんでした。相手が先に回答した可能性があります。ページを再読み込みしてください。'
+          : '見積もりの送信に失敗しました。時間をおいて再度お試しください。'
+      );
+      return;
+    }
+
+    // 元の見積もりの状態（取り下げ・条件変更あり）も変わるので一覧ごと取り直す
+    const { data: latest } = await db.quotes.listForRequest(requestId);
+    setQuotes(latest ?? ((prev) => [...prev, data]));
+    setFormMode(null);
+  };
+
+  const handleRespond = async (quote: QuoteRow, response: QuoteResponse) => {
+    if (
+      response === 'accept' &&
+      !window.confirm(
+        `${formatYen(quote.total_amount)}・納期 ${formatDate(quote.delivery_date)} の条件で確定します。よろしいですか？`
+      )
+    ) {
+      return;
+    }
+
+    setRespondingId(quote.id);
+    setErrorMsg(null);
+
+    const { data, error } = await db.quotes.respond(quote.id, currentUserId, response);
+
+    setRespondingId(null);
+
+    if (error) {
+      console.error('QuotePanel: 見積もり回答エラー', error.message);
+      setErrorMsg(
+        error.code === 'invalid'
+          ? 'この見積もりには回答できません（回答済み・期限切れ・条件確定済みのいずれかです）。'
+          : '見積もりへの回答に失敗しました。時間をおいて再度お試しください。'
+      );
+      return;
+    }
+
+    setQuotes((prev) => prev.map((q) => (q.id === data.id ? data : q)));
+    if (response === 'accept') onTermsLocked();
+  };
+
+  const statusBadge = (quote: QuoteRow) => {
+    if (isQuoteExpired(quote)) {
+      return { label: '期限切れ', style: 'border-slate-600 bg-slate-800/70 text-slate-300' };
+    }
+
+    switch (quote.status) {
+      case 'pending':
+        return { label: '回答待ち', style: 'border-yellow-500/60 bg-yellow-500/10 text-yellow-100' };
+      case 'accepted':
+        return { label: '承諾済み', style: 'border-emerald-500/70 bg-emerald-500/10 text-emerald-100' };
+      case 'declined':
+        return { label: '辞退', style: 'border-red-500/70 bg-red-500/10 text-red-100' };
+      case 'countered':
+        return { label: '条件変更あり', style: 'border-sky-500/60 bg-sky-500/10 text-sky-100' };
+      case 'withdrawn':
+        return { label: '取り下げ', style: 'border-slate-600 bg-slate-800/70 text-slate-300' };
+    }
+  };
+
+  // 入力途中の行は除いて合計を出す
+  const draftTotal = quoteTotal(
+    toItems(items).filter(
+      (item) => Number.isFinite(item.quantity) && Number.isFinite(item.unit_price)
+    )
+  );
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-slate-950/80 px-4 py-4 space-y-3 text-[11px]">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-[13px] font-semibold text-slate-50">見積もり</h2>
+        {canCreate && !formMode && (
+          <button
+            type="button"
+            onClick={() => openForm({ kind: 'new' })}
+            className="rounded-full bg-gradient-to-r from-pink-500 to-sky-500 px-3 py-1 text-[11px] font-semibold text-white shadow-md shadow-pink-500/30 hover:brightness-110 transition"
+          >
+            見積もりを作成
+          </button>
+        )}
+      </div>
+
+      {/* 確定した条件 */}
+      {isLocked && request.agreed_total !== null && request.agreed_delivery_date && (
+        <div className="rounded-2xl border border-emerald-500/50 bg-emerald-500/10 px-3 py-2 text-emerald-100">
+          <p className="font-semibold">条件が確定しました</p>
+          <p className="mt-0.5">
+            合計 {formatYen(request.agreed_total)}（税込）・納期 {formatDate(request.agreed_delivery_date)}
+          </p>
+        </div>
+      )}
+
+      {errorMsg && (
+        <div className="rounded-2xl border border-red-500/40 bg-red-950/40 px-3 py-2 text-red-100">
+          {errorMsg}
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-slate-500">見積もりを読み込み中です…</p>
+      ) : quotes.length === 0 && !formMode ? (
+        <p className="text-slate-500">
+          {isCreator
+            ? '金額・納期が決まったら、明細つきの見積もりを送れます。'
+            : 'クリエイターからの見積もりはまだ届いていません。'}
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {quotes.map((quote) => {
+            const badge = statusBadge(quote);
+            const canRespond =
+              quote.status === 'pending' &&
+              quote.author_id !== currentUserId &&
+              !isQuoteExpired(quote) &&
+              isOpen &&
+              !isLocked;
+
+            return (
+              <li
+                key={quote.id}
+                className="rounded-2xl border border-slate-800 bg-slate-900/70 px-3 py-3 space-y-2"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-slate-300">
+                    {nameOf(quote.author_id)}さんの{quote.parent_id ? '条件変更の提案' : '見積もり'}
+                  </span>
+                  <span className={`rounded-full border px-2 py-0.5 text-[10px] ${badge.style}`}>
+                    {badge.label}
+                  </span>
+                </div>
+
+                <table className="w-full text-left">
+                  <thead className="text-[10px] text-slate-500">
+                    <tr>
+                      <th className="py-1 font-normal">内容</th>
+                      <th className="py-1 font-normal text-right">数量</th>
+                      <th className="py-1 font-normal text-right">単価</th>
+                      <th className="py-1 font-normal text-right">小計</th>
+                    </tr>
+                  </thead>
+                  <tbody className="text-slate-200">
+                    {quote.items.map((item, i) => (
+                      <tr key={i} className="border-t border-slate-800">
+                        <td className="py-1 pr-2">{item.description}</td>
+                        <td className="py-1 text-right">{item.quantity}</td>
+                        <td className="py-1 text-right">{formatYen(item.unit_price)}</td>
+                        <td className="py-1 text-right">
+                          {formatYen(item.quantity * item.unit_price)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                <div className="flex flex-wrap items-end justify-between gap-2 border-t border-slate-800 pt-2">
+                  <div className="space-y-0.5 text-[10px] text-slate-400">
+                    <p>納期：{formatDate(quote.delivery_date)}</p>
+                    <p>有効期限：{formatDate(quote.valid_until)} まで</p>
+                  </div>
+                  <p className="text-sm font-semibold text-slate-50">
+                    合計 {formatYen(quote.total_amount)}
+                    <span className="ml-1 text-[10px] font-normal text-slate-400">（税込）</span>
+                  </p>
+                </div>
+
+                {quote.note && (
+                  <p className="whitespace-pre-wrap rounded-xl bg-slate-950/60 px-2 py-1.5 text-slate-300">
+                    {quote.note}
+                  </p>
+                )}
+
+                {canRespond && (
+                  <div className="flex flex-wrap justify-end gap-2 pt-1">
+                    <button
+                      type="button"
+                      onClick={() => void handleRespond(quote, 'accept')}
+                      disabled={respondingId === quote.id}
+                      className="rounded-full bg-emerald-500/90 px-3 py-1 text-[11px] font-semibold text-slate-950 hover:bg-emerald-400 transition disabled:opacity-60 disabled:cursor-not-allowed"
+                    >
+                      この条件で承諾する
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => openForm({ kind: 'counter', parent: quote })}
+                      disabled={respondingId === quote.id}
+                      className="rounded-full border border-sky-500/60 bg-sky-500/10 px-3 py-1 text-[11px] font-semibold text-sky-100 hover:bg-sky-500/20 transition disabled:opacity-60 disabled:cursor-not-allowed"
+                    >
+                      条件を変えて提案する
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => void handleRespond(quote, 'decline')}
+                      disabled={respondingId === quote.id}
+                      className="rounded-full border border-red-500/70 bg-red-500/10 px-3 py-1 text-[11px] font-semibold text-red-100 hover:bg-red-500/20 transition disabled:opacity-60 disabled:cursor-not-allowed"
+                    >
+                      辞退する
+                    </button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {/* 見積もり / カウンターの入力フォーム */}
+      {formMode && (
+        <div className="rounded-2xl border border-pink-500/40 bg-slate-900/80 px-3 py-3 space-y-3">
+          <p className="font-semibold text-slate-100">
+            {formMode.kind === 'counter' ? '条件を変えて提案する' : '見積もりを作成'}
+          </p>
+
+          <div className="space-y-2">
+            {items.map((item, i) => (
+              <div key={i} className="grid grid-cols-[1fr_4rem_6rem_auto] gap-2">
+                <input
+                  value={item.description}
+                  onChange={(e) => updateItem(i, { description: e.target.value })}
+                  placeholder="内容（例：撮影 2 時間）"
+                  className="rounded-xl border border-slate-700 bg-slate-950/80 px-2 py-1.5 text-slate-50 outline-none focus:border-pink-400"
+                />
+                <input
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={item.quantity}
+                  onChange={(e) => updateItem(i, { quantity: e.target.value })}
+                  aria-label="数量"
+                  className="rounded-xl border border-slate-700 bg-slate-950/80 px-2 py-1.5 text-right text-slate-50 outline-none focus:border-pink-400"
+                />
+                <input
+                  type="number"
+                  min={0}
+                  step={1}
+                  value={item.unit_price}
+                  onChange={(e) => updateItem(i, { unit_price: e.target.value })}
+                  placeholder="単価（円）"
+                  aria-label="単価（円）"
+                  className="rounded-xl border border-slate-700 bg-slate-950/80 px-2 py-1.5 text-right text-slate-50 outline-none focus:border-pink-400"
+                />
+                <button
+                  type="button"
+                  onClick={() => setItems((prev) => prev.filter((_, idx) => idx !== i))}
+                  disabled={items.length <= 1}
+                  aria-label="この明細を削除"
+                  className="px-1 text-slate-400 hover:text-red-300 disabled:opacity-30 transition"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+
+            {items.length < QUOTE_MAX_ITEMS && (
+              <button
+                type="button"
+                onClick={() => setItems((prev) => [...prev, emptyItem()])}
+                className="text-sky-300 hover:text-sky-200 transition"
+              >
+                ＋ 明細を追加
+              </button>
+            )}
+          </div>
+
+          <div className="grid gap-2 sm:grid-cols-2">
+            <label className="space-y-1">
+              <span className="text-slate-400">納期</span>
+              <input
+                type="date"
+                value={deliveryDate}
+                min={todayInTokyo()}
+                onChange={(e) => setDeliveryDate(e.target.value)}
+                className="w-full rounded-xl border border-slate-700 bg-slate-950/80 px-2 py-1.5 text-slate-50 outline-none focus:border-pink-400"
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-slate-400">有効期限</span>
+              <input
+                type="date"
+                value={validUntil}
+                min={todayInTokyo()}
+                onChange={(e) => setValidUntil(e.target.value)}
+                className="w-full rounded-xl border border-slate-700 bg-slate-950/80 px-2 py-1.5 text-slate-50 outline-none focus:border-pink-400"
+              />
+            </label>
+          </div>
+
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            rows={2}
+            placeholder="補足（任意）：交通費の扱い、修正回数など"
+            className="w-full rounded-xl border border-slate-700 bg-slate-950/80 px-2 py-1.5 text-slate-50 outline-none focus:border-pink-400"
+          />
+
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm font-semibold text-slate-50">
+              合計 {formatYen(draftTotal)}
+              <span className="ml-1 text-[10px] font-normal text-slate-400">（税込）</span>
+            </p>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => setFormMode(null)}
+                disabled={submitting}
+                className="rounded-full border border-slate-600 bg-slate-900/70 px-3 py-1 text-slate-100 hover:bg-slate-800/80 transition"
+              >
+                キャンセル
+              </button>
+              <button
+                type="button"
+                onClick={() => void handleSubmit()}
+                disabled={submitting}
+                className="rounded-full bg-gradient-to-r from-pink-500 to-sky-500 px-3 py-1 font-semibold text-white shadow-md shadow-pink-500/30 hover:brightness-110 transition disabled:opacity-60 disabled:cursor-not-allowed"
+              >
+                {submitting ? '送信中…' : '送信する'}
+              </button>
+            </div>
+          </div>
+
+          {formError && <p className="text-red-300">{formError}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,1093 @@
+// app/requests/[id]/RequestDetailPageClient.tsx
+'use client';
+
+import { Fragment, useCallback, useEffect, useRef, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import {
+  ATTACHMENT_ALLOWED_TYPES,
+  attachmentPath,
+  canTransitionRequestStatus,
+  db,
+  REQUEST_STATUS_TRANSITIONS,
+  validateAttachmentFiles,
+  type MessageAttachment,
+  type MessageRow,
+  type ProfileRow,
+  type RequestEventRow,
+  type RequestRow,
+  type RequestStatus,
+  type ThreadChannel,
+  type WorkRow,
+} from '@/lib/data';
+import Avatar from '@/components/Avatar';
+import { loginHref } from '@/lib/authRoutes';
+import MessageAttachments from './MessageAttachments';
+import MilestonePanel from './MilestonePanel';
+import QuotePanel from './QuotePanel';
+import ReviewPanel from './ReviewPanel';
+
+type ViewModel = {
+  request: RequestRow;
+  creator: ProfileRow | null;
+  client: ProfileRow | null;
+  work: WorkRow | null;
+  messages: MessageRow[];
+  // 開いた時点で未読だった最初のメッセージ（「ここから未読」の区切り線）
+  firstUnreadId: string | null;
+  currentUserId: string | null;
+  isCreator: boolean;
+  isClient: boolean;
+};
+
+export default function RequestDetailPageClient() {
+  const params = useParams();
+  const router = useRouter();
+  const requestId = params?.id as string;
+
+  const [view, setView] = useState<ViewModel | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  const [status, setStatus] = useState<RequestStatus>('pending');
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  const [updatingStatus, setUpdatingStatus] = useState(false);
+  // ステータス変更の履歴（古い順）
+  const [events, setEvents] = useState<RequestEventRow[]>([]);
+  // マイルストーンがすべて承認済みになるまではクローズできない
+  const [milestonesApproved, setMilestonesApproved] = useState(false);
+
+  const [newMessage, setNewMessage] = useState('');
+  const [sending, setSending] = useState(false);
+  // 送信前の添付ファイル
+  const [attachmentFiles, setAttachmentFiles] = useState<File[]>([]);
+
+  // 相手のオンライン状態・入力中
+  const [counterpartOnline, setCounterpartOnline] = useState(false);
+  const [counterpartTyping, setCounterpartTyping] = useState(false);
+  const threadRef = useRef<ThreadChannel | null>(null);
+  const typingTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const lastTypingSentRef = useRef(0);
+  const messagesBoxRef = useRef<HTMLDivElement | null>(null);
+
+  // スクロール位置と既読処理
+  const stickToBottomRef = useRef(true);
+  const initialScrollDoneRef = useRef(false);
+  const pendingReadRef = useRef<{ id: string; createdAt: string } | null>(null);
+  const readTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // 初期ロード
+  useEffect(() => {
+    const init = async () => {
+      if (!requestId) return;
+      setLoading(true);
+      setErrorMsg(null);
+
+      try {
+        // 1. ログインユーザー取得
+        const { data: user } = await db.auth.getUser();
+
+        if (!user) {
+          router.push(loginHref(`/requests/${requestId}`));
+          return;
+        }
+
+        const currentUserId = user.id;
+
+        // 2. リクエスト本体
+        const { data: request, error: reqError } = await db.requests.getById(requestId);
+
+        if (reqError) {
+          console.error('RequestDetail: requests 取得エラー', reqError.message);
+          setErrorMsg('依頼の情報を取得できませんでした。削除された可能性があります。');
+          setLoading(false);
+          return;
+        }
+
+        // 当事者以外には RLS で依頼自体が見えないが、念のため関連データを取りに行く前に止める
+        const isCreator = !!currentUserId && currentUserId === request.creator_id;
+        const isClient = !!currentUserId && currentUserId === request.client_id;
+
+        if (!isCreator && !isClient) {
+          setErrorMsg('この依頼を見る権限がありません。');
+          setLoading(false);
+          return;
+        }
+
+        setStatus(request.status);
+
+        // 3. 関連プロフィール
+        const { data: profilesData, error: profilesError } = await db.profiles.listByIds([
+          request.creator_id,
+          request.client_id,
+        ]);
+
+        if (profilesError) {
+          console.error('RequestDetail: profiles 取得エラー', profilesError.message);
+        }
+
+        const creator = (profilesData || []).find((p) => p.id === request.creator_id) ?? null;
+        const client = (profilesData || []).find((p) => p.id === request.client_id) ?? null;
+
+        // 4. 対象作品
+        let work: WorkRow | null = null;
+        if (request.work_id) {
+          const { data: workData, error: workError } = await db.works.getById(
+            request.work_id
+          );
+
+          if (!workError) {
+            work = workData;
+          }
+        }
+
+        // 5. メッセージ一覧（read_at を含める）
+        const { data: msgData, error: msgError } =
+          await db.messages.listForRequest(requestId);
+
+        if (msgError) {
+          console.error('RequestDetail: messages 取得エラー', msgError.message);
+        }
+
+        const messages = msgData || [];
+
+        // 6. ステータス変更の履歴
+        const { data: eventData, error: eventError } = await db.requests.listEvents(
+          request.id
+        );
+
+        if (eventError) {
+          console.error('RequestDetail: request_events 取得エラー', eventError.message);
+        }
+        setEvents(eventData || []);
+
+        // 🔹 既読カーソルより後に届いた相手のメッセージから「未読」
+        //    （既読にするのは画面に表示されたときだけ。下の IntersectionObserver で行う）
+        let firstUnreadId: string | null = null;
+        if (currentUserId) {
+          const { data: cursor, error: cursorError } = await db.messages.getReadCursor(
+            request.id,
+            currentUserId
+          );
+
+          if (cursorError) {
+            console.error('RequestDetail: 既読カーソル取得エラー', cursorError.message);
+          }
+
+          const lastReadAt = cursor?.last_read_at ?? '';
+          firstUnreadId =
+            messages.find(
+              (m) => m.sender_id !== currentUserId && !m.read_at && m.created_at > lastReadAt
+            )?.id ?? null;
+        }
+
+        setView({
+          request,
+          creator,
+          client,
+          work,
+          messages,
+          firstUnreadId,
+          currentUserId,
+          isCreator,
+          isClient,
+        });
+
+        setLoading(false);
+      } catch (e) {
+        console.error('RequestDetail: 予期せぬエラー', e);
+        setErrorMsg('依頼の取得中にエラーが発生しました。');
+        setLoading(false);
+      }
+    };
+
+    void init();
+  }, [requestId, router]);
+
+  const threadRequestId = view?.request.id ?? null;
+  const threadUserId = view?.currentUserId ?? null;
+  const counterpartId = view
+    ? view.isCreator
+      ? view.request.client_id
+      : view.request.creator_id
+    : null;
+
+  // 🔴 リアルタイム：メッセージの追加・既読の変化
+  useEffect(() => {
+    if (!threadRequestId || !threadUserId) return;
+
+    const unsubscribe = db.messages.subscribeToRequest(threadRequestId, {
+      onInsert: (message) => {
+        const fromCounterpart = message.sender_id !== threadUserId;
+
+        setView((prev) => {
+          // 自分の送信分は handleSendMessage 側でも追加しているので重複させない
+          if (!prev || prev.messages.some((m) => m.id === message.id)) return prev;
+          return {
+            ...prev,
+            messages: [...prev.messages, message],
+          };
+        });
+
+        if (fromCounterpart) setCounterpartTyping(false);
+      },
+      onUpdate: (message) => {
+        setView(
+          (prev) =>
+            prev && {
+              ...prev,
+              messages: prev.messages.map((m) =>
+                m.id === message.id ? { ...m, ...message } : m
+              ),
+            }
+        );
+      },
+    });
+
+    return unsubscribe;
+  }, [threadRequestId, threadUserId]);
+
+  // 🟢 プレゼンス（オンライン）と入力中インジケーター
+  useEffect(() => {
+    if (!threadRequestId || !threadUserId || !counterpartId) return;
+
+    const channel = db.presence.joinThread(threadRequestId, {
+      onPresenceChange: (onlineUserIds) => {
+        setCounterpartOnline(onlineUserIds.includes(counterpartId));
+      },
+      onTyping: (typingUserId) => {
+        if (typingUserId !== counterpartId) return;
+        setCounterpartTyping(true);
+        if (typingTimerRef.current) clearTimeout(typingTimerRef.current);
+        typingTimerRef.current = setTimeout(() => setCounterpartTyping(false), 3000);
+      },
+    });
+    threadRef.current = channel;
+
+    return () => {
+      channel.leave();
+      threadRef.current = null;
+      if (typingTimerRef.current) clearTimeout(typingTimerRef.current);
+    };
+  }, [threadRequestId, threadUserId, counterpartId]);
+
+  // 初回は「ここから未読」まで、以降は一番下を見ている間だけ最新までスクロール
+  const messageCount = view?.messages.length ?? 0;
+  useEffect(() => {
+    const box = messagesBoxRef.current;
+    if (!box) return;
+
+    if (!initialScrollDoneRef.current) {
+      initialScrollDoneRef.current = true;
+      const divider = box.querySelector<HTMLElement>('[data-unread-divider]');
+      if (divider) {
+        box.scrollTop +=
+          divider.getBoundingClientRect().top - box.getBoundingClientRect().top - 8;
+        return;
+      }
+    }
+
+    if (stickToBottomRef.current) box.scrollTop = box.scrollHeight;
+  }, [messageCount, counterpartTyping]);
+
+  const handleMessagesScroll = () => {
+    const box = messagesBoxRef.current;
+    if (!box) return;
+    stickToBottomRef.current = box.scrollHeight - box.scrollTop - box.clientHeight < 48;
+  };
+
+  // 👀 相手のメッセージは、スレッド内で実際に表示されたものだけ既読にする
+  const unreadKey = view
+    ? view.messages
+        .filter((m) => m.sender_id !== view.currentUserId && !m.read_at)
+        .map((m) => m.id)
+        .join(',')
+    : '';
+
+  useEffect(() => {
+    const box = messagesBoxRef.current;
+    if (!box || !threadRequestId || !threadUserId || !unreadKey) return;
+
+    // 表示された中で一番新しいメッセージまでをまとめて既読にする
+    const flush = async () => {
+      const target = pendingReadRef.current;
+      pendingReadRef.current = null;
+      if (!target || document.hidden) return;
+
+      const { error } = await db.messages.markReadUpTo(
+        threadRequestId,
+        threadUserId,
+        target.id
+      );
+
+      if (error) {
+        console.error('RequestDetail: 既読更新エラー', error.message);
+        return;
+      }
+
+      // Realtime の更新を待たずにローカルにも反映
+      const readAt = new Date().toISOString();
+      setView(
+        (prev) =>
+          prev && {
+            ...prev,
+            messages: prev.messages.map((m) =>
+              m.sender_id !== threadUserId && !m.read_at && m.created_at <= target.createdAt
+                ? { ...m, read_at: readAt }
+                : m
+            ),
+          }
+      );
+    };
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        entries.forEach((entry) => {
+          if (!entry.isIntersecting) return;
+          const el = entry.target as HTMLElement;
+          const id = el.dataset.unreadId;
+          const createdAt = el.dataset.createdAt;
+          if (!id || !createdAt) return;
+
+          if (!pendingReadRef.current || pendingReadRef.current.createdAt < createdAt) {
+            pendingReadRef.current = { id, createdAt };
+          }
+        });
+
+        if (pendingReadRef.current) {
+          if (readTimerRef.current) clearTimeout(readTimerRef.current);
+          readTimerRef.current = setTimeout(() => void flush(), 400);
+        }
+      },
+      { root: box, threshold: 0.6 }
+    );
+
+    const observeAll = () => {
+      observer.disconnect();
+      box.querySelectorAll('[data-unread-id]').forEach((el) => observer.observe(el));
+    };
+    observeAll();
+
+    // 別タブから戻ってきたときに、表示中のメッセージを改めて判定する
+    const handleVisibilityChange = () => {
+      if (!document.hidden) observeAll();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      observer.disconnect();
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      if (readTimerRef.current) clearTimeout(readTimerRef.current);
+    };
+  }, [threadRequestId, threadUserId, unreadKey]);
+
+  const formatDateTime = (iso: string) =>
+    new Date(iso).toLocaleString('ja-JP', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  // ステータス更新
+  const updateStatus = async (next: RequestStatus, successMessage: string) => {
+    if (!view) return;
+
+    setUpdatingStatus(true);
+    setStatusMessage(null);
+    setErrorMsg(null);
+
+    const { data: updated, error } = await db.requests.updateStatus(view.request.id, next);
+
+    if (error) {
+      console.error('RequestDetail: ステータス更新エラー', error.message);
+      switch (error.code) {
+        case 'forbidden':
+          setErrorMsg('この依頼のステータスを変更する権限がありません。');
+          break;
+        case 'invalid':
+          setErrorMsg(
+            next === 'closed'
+              ? '承認されていないマイルストーンがあるため、まだクローズできません。'
+              : '現在のステータスからはこの操作はできません。ページを再読み込みして最新の状態をご確認ください。'
+          );
+          break;
+        default:
+          setErrorMsg('ステータスの更新に失敗しました。時間をおいて再度お試しください。');
+      }
+      setUpdatingStatus(false);
+      return;
+    }
+
+    const { data: eventData } = await db.requests.listEvents(updated.id);
+    if (eventData) setEvents(eventData);
+
+    setStatus(next);
+    setView({
+      ...view,
+      request: updated,
+    });
+    setStatusMessage(successMessage);
+    setUpdatingStatus(false);
+
+    setTimeout(() => setStatusMessage(null), 3000);
+  };
+
+  // 見積もりが承諾されたら、依頼の確定条件と履歴を読み直す
+  const handleTermsLocked = useCallback(async () => {
+    const [requestRes, eventsRes] = await Promise.all([
+      db.requests.getById(requestId),
+      db.requests.listEvents(requestId),
+    ]);
+
+    if (requestRes.error) {
+      console.error('RequestDetail: requests 再取得エラー', requestRes.error.message);
+    } else {
+      setView((prev) => prev && { ...prev, request: requestRes.data });
+    }
+    if (eventsRes.data) setEvents(eventsRes.data);
+  }, [requestId]);
+
+  const handleAccept = () => {
+    void updateStatus(
+      'accepted',
+      'この依頼を「受ける」として受付しました。メッセージで詳細を相談できます。'
+    );
+  };
+  const handleReject = () => {
+    void updateStatus('rejected', 'この依頼を「お断りする」として処理しました。');
+  };
+  const handleClose = () => {
+    void updateStatus('closed', 'この依頼をクローズしました。');
+  };
+
+  // メッセージ送信
+  const handleSendMessage = async () => {
+    if (!view || !view.currentUserId) return;
+    if (!newMessage.trim() && attachmentFiles.length === 0) return;
+
+    const invalid = validateAttachmentFiles(attachmentFiles);
+    if (invalid) {
+      setErrorMsg(invalid);
+      return;
+    }
+
+    setSending(true);
+    setErrorMsg(null);
+
+    const body = newMessage.trim();
+
+    // 先にファイルをアップロードし、途中で失敗したらアップロード済みのものを消す
+    const attachments: MessageAttachment[] = [];
+    for (const file of attachmentFiles) {
+      const path = attachmentPath(view.request.id, file.name);
+      const { error: uploadError } = await db.storage.upload('attachments', path, file, {
+        contentType: file.type,
+      });
+
+      if (uploadError) {
+        console.error('RequestDetail: 添付アップロードエラー', uploadError.message);
+        await db.storage.remove('attachments', attachments.map((a) => a.path));
+        setErrorMsg(`「${file.name}」のアップロードに失敗しました。`);
+        setSending(false);
+        return;
+      }
+
+      attachments.push({
+        path,
+        name: file.name,
+        content_type: file.type,
+        size_bytes: file.size,
+      });
+    }
+
+    const { data, error } = await db.messages.create({
+      request_id: view.request.id,
+      sender_id: view.currentUserId,
+      body,
+      attachments,
+    });
+
+    if (error) {
+      console.error('RequestDetail: メッセージ送信エラー', error.message);
+      await db.storage.remove('attachments', attachments.map((a) => a.path));
+      setErrorMsg('メッセージの送信に失敗しました。時間をおいて再度お試しください。');
+      setSending(false);
+      return;
+    }
+
+    // Realtime 側で先に届いている場合は追加しない
+    stickToBottomRef.current = true;
+    setView(
+      (prev) =>
+        prev && {
+          ...prev,
+          messages: prev.messages.some((m) => m.id === data.id)
+            ? prev.messages
+            : [...prev.messages, data],
+        }
+    );
+    setNewMessage('');
+    setAttachmentFiles([]);
+    setSending(false);
+  };
+
+  // 添付ファイルの追加（選んだ時点で種類・サイズ・件数をチェック）
+  const handleAddFiles = (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+
+    const next = [...attachmentFiles, ...Array.from(fileList)];
+    const invalid = validateAttachmentFiles(next);
+    if (invalid) {
+      setErrorMsg(invalid);
+      return;
+    }
+
+    setErrorMsg(null);
+    setAttachmentFiles(next);
+  };
+
+  const handleRemoveFile = (index: number) => {
+    setAttachmentFiles((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  // 入力中の通知（2 秒に 1 回まで）
+  const handleMessageChange = (value: string) => {
+    setNewMessage(value);
+
+    const now = Date.now();
+    if (value.trim() && now - lastTypingSentRef.current > 2000) {
+      lastTypingSentRef.current = now;
+      threadRef.current?.sendTyping();
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-[calc(100vh-56px)] flex items-center justify-center">
+        <div className="text-xs text-slate-400">依頼の情報を読み込み中です…</div>
+      </div>
+    );
+  }
+
+  if (errorMsg || !view) {
+    return (
+      <div className="min-h-[calc(100vh-56px)] flex items-center justify-center">
+        <div className="rounded-2xl border border-red-500/40 bg-red-950/40 px-4 py-3 text-xs text-red-100">
+          {errorMsg || '依頼が見つかりませんでした。'}
+        </div>
+      </div>
+    );
+  }
+
+  const { request, creator, client, work, messages, isCreator, isClient } = view;
+
+  const statusLabel = (() => {
+    switch (status) {
+      case 'pending':
+        return '保留中（対応待ち）';
+      case 'accepted':
+        return '受けた依頼（対応中）';
+      case 'rejected':
+        return 'お断り済み';
+      case 'closed':
+        return 'クローズ済み';
+      default:
+        return status;
+    }
+  })();
+
+  const statusStyle = (() => {
+    switch (status) {
+      case 'pending':
+        return 'border-yellow-500/60 bg-yellow-500/10 text-yellow-100';
+      case 'accepted':
+        return 'border-emerald-500/70 bg-emerald-500/10 text-emerald-100';
+      case 'rejected':
+        return 'border-red-500/70 bg-red-500/10 text-red-100';
+      case 'closed':
+        return 'border-slate-500/70 bg-slate-800/70 text-slate-100';
+      default:
+        return 'border-slate-600 bg-slate-900/70 text-slate-100';
+    }
+  })();
+
+  // 遷移ルールの本体はサーバー側（ここはボタンの出し分けだけ）
+  const canOperateStatus = isCreator && REQUEST_STATUS_TRANSITIONS[status].length > 0;
+
+  const statusName = (value: RequestStatus | null) => {
+    switch (value) {
+      case 'pending':
+        return '保留中';
+      case 'accepted':
+        return '対応中';
+      case 'rejected':
+        return 'お断り';
+      case 'closed':
+        return 'クローズ';
+      default:
+        return '-';
+    }
+  };
+
+  const actorName = (actorId: string | null) => {
+    if (actorId && actorId === creator?.id) return creator?.display_name || 'クリエイター';
+    if (actorId && actorId === client?.id) return client?.display_name || '依頼者';
+    return '不明なユーザー';
+  };
+
+  const counterpartName = isCreator
+    ? client?.display_name || '依頼者'
+    : creator?.display_name || 'クリエイター';
+
+  return (
+    <div className="min-h-[calc(100vh-56px)]">
+      <main className="mx-auto w-full max-w-5xl space-y-6">
+        {/* 戻るボタン */}
+        <div className="mb-1">
+          <button
+            type="button"
+            onClick={() => router.push('/requests')}
+            className="inline-flex items-center gap-1 rounded-full border border-slate-700 bg-slate-900/70 px-3 py-1 text-[11px] text-slate-200 hover:bg-slate-800/80 transition"
+          >
+            <span className="text-xs">←</span>
+            <span>依頼一覧に戻る</span>
+          </button>
+        </div>
+
+        {/* ヘッダー */}
+        <header className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <div className="space-y-2">
+            <div className="inline-flex items-center gap-2 rounded-full border border-white/10 bg-white/5 px-3 py-1 text-[11px] text-slate-200">
+              <span className="h-1.5 w-1.5 rounded-full bg-pink-400" />
+              <span>依頼詳細</span>
+            </div>
+            <h1 className="text-xl sm:text-2xl font-semibold tracking-tight text-white">
+              {request.title}
+            </h1>
+            <p className="text-[11px] text-slate-400">
+              作成日: {formatDateTime(request.created_at)}
+            </p>
+          </div>
+
+          <div className="flex flex-col items-end gap-2 text-xs">
+            <span
+              className={`inline-flex items-center gap-2 rounded-full border px-3 py-1 ${statusStyle}`}
+            >
+              <span className="h-1.5 w-1.5 rounded-full bg-current/80" />
+              <span>{statusLabel}</span>
+            </span>
+
+            {canOperateStatus && (
+              <div className="flex flex-wrap gap-2 justify-end">
+                {canTransitionRequestStatus(status, 'accepted') && (
+                  <button
+                    type="button"
+                    onClick={handleAccept}
+                    disabled={updatingStatus}
+                    className="rounded-full bg-emerald-500/90 px-3 py-1.5 text-[11px] font-semibold text-slate-950 shadow-sm hover:bg-emerald-400 transition disabled:opacity-60 disabled:cursor-not-allowed"
+                  >
+                    {updatingStatus ? '更新中…' : '依頼を受ける'}
+                  </button>
+                )}
+                {canTransitionRequestStatus(status, 'rejected') && (
+                  <button
+                    type="button"
+                    onClick={handleReject}
+                    disabled={updatingStatus}
+                    className="rounded-full border border-red-500/70 bg-red-500/10 px-3 py-1.5 text-[11px] font-semibold text-red-100 hover:bg-red-500/20 transition disabled:opacity-60 disabled:cursor-not-allowed"
+                  >
+                    お断りする
+                  </button>
+                )}
+                {canTransitionRequestStatus(status, 'closed') && milestonesApproved && (
+                  <button
+                    type="button"
+                    onClick={handleClose}
+                    disabled={updatingStatus}
+                    className="rounded-full border border-slate-600 bg-slate-900/80 px-3 py-1.5 text-[11px] font-semibold text-slate-100 hover:bg-slate-800/80 transition disabled:opacity-60 disabled:cursor-not-allowed"
+                  >
+                    {updatingStatus ? '更新中…' : 'この依頼をクローズする'}
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        </header>
+
+        {/* ステータス変更フラッシュ */}
+        {statusMessage && (
+          <div className="rounded-2xl border border-emerald-500/50 bg-emerald-500/10 px-4 py-3 text-[11px] text-emerald-100">
+            {statusMessage}
+          </div>
+        )}
+
+        {/* エラー */}
+        {errorMsg && (
+          <div className="rounded-2xl border border-red-500/40 bg-red-950/40 px-4 py-3 text-[11px] text-red-100">
+            {errorMsg}
+          </div>
+        )}
+
+        <section className="grid gap-6 lg:grid-cols-[1.4fr_1.1fr]">
+          {/* 左：メッセージ */}
+          <div className="space-y-4">
+            <div className="rounded-3xl border border-white/10 bg-slate-950/70 px-4 py-4 text-xs text-slate-200">
+              <h2 className="mb-2 text-[13px] font-semibold text-slate-50">
+                初回の依頼内容
+              </h2>
+              <p className="whitespace-pre-wrap leading-relaxed text-[12px]">
+                {request.message}
+              </p>
+            </div>
+
+            {/* 見積もり */}
+            {view.currentUserId && (
+              <QuotePanel
+                request={request}
+                currentUserId={view.currentUserId}
+                isCreator={isCreator}
+                nameOf={actorName}
+                onTermsLocked={handleTermsLocked}
+              />
+            )}
+
+            {/* マイルストーン・成果物 */}
+            {view.currentUserId && (status === 'accepted' || status === 'closed') && (
+              <MilestonePanel
+                request={request}
+                currentUserId={view.currentUserId}
+                isCreator={isCreator}
+                isClient={isClient}
+                onApprovalChange={setMilestonesApproved}
+              />
+            )}
+
+            {/* レビュー（クローズ後） */}
+            {view.currentUserId && status === 'closed' && (
+              <ReviewPanel
+                request={request}
+                currentUserId={view.currentUserId}
+                isCreator={isCreator}
+                nameOf={actorName}
+              />
+            )}
+
+            {/* 相手のオンライン状態 */}
+            <div className="flex items-center gap-2 px-1 text-[11px] text-slate-400">
+              <span
+                className={`h-1.5 w-1.5 rounded-full ${
+                  counterpartOnline ? 'bg-emerald-400' : 'bg-slate-600'
+                }`}
+              />
+              <span>
+                {counterpartName}
+                {counterpartOnline ? ' がこの依頼を開いています（オンライン）' : '（オフライン）'}
+              </span>
+            </div>
+
+            <div
+              ref={messagesBoxRef}
+              onScroll={handleMessagesScroll}
+              className="rounded-3xl border border-white/10 bg-slate-950/80 px-4 py-4 flex flex-col gap-3 max-h-[420px] overflow-y-auto"
+            >
+              {messages.length === 0 ? (
+                <p className="text-[11px] text-slate-500">
+                  まだメッセージはありません。ここから条件のすり合わせができます。
+                </p>
+              ) : (
+                messages.map((m) => {
+                  const isMe = m.sender_id === view.currentUserId;
+                  const senderIsCreator = m.sender_id === creator?.id;
+                  const senderProfile = senderIsCreator ? creator : client;
+                  const sender =
+                    senderProfile?.display_name || (senderIsCreator ? 'クリエイター' : '依頼者');
+
+                  const isUnreadFromCounterpart = !isMe && !m.read_at;
+
+                  return (
+                    <Fragment key={m.id}>
+                      {m.id === view.firstUnreadId && (
+                        <div
+                          data-unread-divider
+                          className="flex items-center gap-2 text-[10px] text-pink-300"
+                        >
+                          <span className="h-px flex-1 bg-pink-400/40" />
+                          <span>ここから未読</span>
+                          <span className="h-px flex-1 bg-pink-400/40" />
+                        </div>
+                      )}
+                      <div
+                        data-unread-id={isUnreadFromCounterpart ? m.id : undefined}
+                        data-created-at={isUnreadFromCounterpart ? m.created_at : undefined}
+                        className={`flex items-start gap-2 ${isMe ? 'justify-end' : 'justify-start'}`}
+                      >
+                        {/* 相手のメッセージだけアイコンを出す */}
+                        {!isMe && (
+                          <Avatar
+                            name={sender}
+                            url={senderProfile?.avatar_url ?? null}
+                            size="sm"
+                            className="mt-0.5"
+                          />
+                        )}
+                        <div className="max-w-[75%]">
+                          <div
+                            className={`rounded-2xl px-3 py-2 text-[11px] leading-relaxed ${
+                              isMe
+                                ? 'bg-gradient-to-r from-pink-500 to-sky-500 text-white'
+                                : 'bg-slate-800/90 text-slate-100'
+                            }`}
+                          >
+                            <div className="mb-1 flex items-center justify-between gap-2 text-[10px] opacity-80">
+                              <span>{sender}</span>
+                              <span>{formatDateTime(m.created_at)}</span>
+                            </div>
+                            {m.body && <p className="whitespace-pre-wrap">{m.body}</p>}
+                            {!m.body && m.attachments.length > 0 && (
+                              <p className="opacity-80">📎 ファイルを送信しました</p>
+                            )}
+                          </div>
+
+                          <MessageAttachments attachments={m.attachments} isMe={isMe} />
+
+                          {/* 自分が送ったメッセージだけ既読表示（読まれた日時つき） */}
+                          {isMe && (
+                            <div className="mt-1 text-[10px] text-right text-slate-400">
+                              {m.read_at ? `既読 ${formatDateTime(m.read_at)}` : '未読'}
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    </Fragment>
+                  );
+                })
+              )}
+
+              {/* 入力中インジケーター */}
+              {counterpartTyping && (
+                <div className="flex justify-start">
+                  <div className="rounded-2xl bg-slate-800/60 px-3 py-1.5 text-[10px] text-slate-300 animate-pulse">
+                    {counterpartName}さんが入力中…
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {view.currentUserId && status !== 'rejected' && status !== 'closed' && (
+              <div className="rounded-3xl border border-white/10 bg-slate-950/80 px-4 py-3 space-y-2 text-[11px]">
+                <p className="text-slate-400">
+                  メッセージで詳細を相談できます。納期・金額・条件などをここで擦り合わせてください。
+                </p>
+                <textarea
+                  value={newMessage}
+                  onChange={(e) => handleMessageChange(e.target.value)}
+                  rows={3}
+                  placeholder="例）〇月△日に撮影をお願いしたいです。条件のすり合わせをさせてください。"
+                  className="mt-1 w-full rounded-2xl border border-slate-700 bg-slate-900/80 px-3 py-2 text-[12px] text-slate-50 outline-none focus:border-pink-400 focus:ring-2 focus:ring-pink-500/40"
+                />
+
+                {/* 送信前の添付ファイル */}
+                {attachmentFiles.length > 0 && (
+                  <ul className="flex flex-wrap gap-1.5">
+                    {attachmentFiles.map((file, index) => (
+                      <li
+                        key={`${file.name}-${index}`}
+                        className="inline-flex max-w-full items-center gap-1.5 rounded-full border border-slate-700 bg-slate-900/80 px-2.5 py-1 text-slate-200"
+                      >
+                        <span aria-hidden>{file.type.startsWith('image/') ? '🖼' : '📄'}</span>
+                        <span className="max-w-[10rem] truncate">{file.name}</span>
+                        <button
+                          type="button"
+                          onClick={() => handleRemoveFile(index)}
+                          disabled={sending}
+                          aria-label={`${file.name} を外す`}
+                          className="text-slate-400 hover:text-red-300 transition"
+                        >
+                          ×
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                <div className="flex items-center justify-between gap-2">
+                  <label className="inline-flex cursor-pointer items-center gap-1.5 rounded-full border border-slate-600 bg-slate-900/70 px-3 py-1 text-slate-200 hover:bg-slate-800/80 transition">
+                    <span aria-hidden>📎</span>
+                    <span>ファイルを添付</span>
+                    <input
+                      type="file"
+                      multiple
+                      accept={ATTACHMENT_ALLOWED_TYPES.join(',')}
+                      className="hidden"
+                      disabled={sending}
+                      onChange={(e) => {
+                        handleAddFiles(e.target.files);
+                        e.target.value = '';
+                      }}
+                    />
+                  </label>
+                  <span className="mr-auto text-[10px] text-slate-500">
+                    画像・PDF（1 ファイル 10 MB、5 件まで）
+                  </span>
+                  <button
+                    type="button"
+                    onClick={handleSendMessage}
+                    disabled={sending || (!newMessage.trim() && attachmentFiles.length === 0)}
+                    className="inline-flex items-center justify-center gap-2 rounded-full bg-gradient-to-r from-pink-500 to-sky-500 px-4 py-1.5 text-[11px] font-semibold text-white shadow-md shadow-pink-500/40 hover:brightness-110 transition disabled:opacity-60 disabled:cursor-not-allowed"
+                  >
+                    {sending ? '送信中…' : 'メッセージを送信'}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* 右：依頼概要 */}
+          <aside className="space-y-4 text-xs">
+            <div className="rounded-3xl border border-white/10 bg-slate-950/80 px-4 py-4">
+              <h2 className="mb-2 text-[13px] font-semibold text-slate-50">
+                依頼概要
+              </h2>
+              <dl className="space-y-1.5 text-[11px] text-slate-300">
+                <div className="flex justify-between gap-4">
+                  <dt className="text-slate-400">依頼者</dt>
+                  <dd className="inline-flex items-center gap-1.5">
+                    {isCreator && counterpartOnline && (
+                      <span className="h-1.5 w-1.5 rounded-full bg-emerald-400" title="オンライン" />
+                    )}
+                    {client?.display_name || '依頼者'}
+                  </dd>
+                </div>
+                <div className="flex justify-between gap-4">
+                  <dt className="text-slate-400">クリエイター</dt>
+                  <dd className="inline-flex items-center gap-1.5">
+                    {!isCreator && counterpartOnline && (
+                      <span className="h-1.5 w-1.5 rounded-full bg-emerald-400" title="オンライン" />
+                    )}
+                    {creator?.display_name || 'クリエイター'}
+                  </dd>
+                </div>
+                {request.budget && (
+                  <div className="flex justify-between gap-4">
+                    <dt className="text-slate-400">希望予算</dt>
+                    <dd className="text-right">{request.budget}</dd>
+                  </div>
+                )}
+                {request.preferred_date && (
+                  <div className="flex justify-between gap-4">
+                    <dt className="text-slate-400">希望日</dt>
+                    <dd className="text-right">{request.preferred_date}</dd>
+                  </div>
+                )}
+                {request.agreed_total !== null && (
+                  <div className="flex justify-between gap-4">
+                    <dt className="text-slate-400">確定金額</dt>
+                    <dd className="text-right font-semibold text-emerald-200">
+                      ¥{request.agreed_total.toLocaleString('ja-JP')}
+                    </dd>
+                  </div>
+                )}
+                {request.agreed_delivery_date && (
+                  <div className="flex justify-between gap-4">
+                    <dt className="text-slate-400">確定納期</dt>
+                    <dd className="text-right text-emerald-200">
+                      {request.agreed_delivery_date.replaceAll('-', '/')}
+                    </dd>
+                  </div>
+                )}
+                {work && !work.deleted_at ? (
+                  <div className="flex justify-between gap-4">
+                    <dt className="text-slate-400">対象作品</dt>
+                    <dd className="text-right">
+                      <a
+                        href={`/works/${work.id}`}
+                        className="text-sky-300 hover:text-sky-200 underline underline-offset-2"
+                      >
+                        {work.title}
+                      </a>
+                    </dd>
+                  </div>
+                ) : (
+                  (request.work_id || request.work_deleted_at) && (
+                    <div className="flex justify-between gap-4">
+                      <dt className="text-slate-400">対象作品</dt>
+                      <dd className="text-right text-slate-500">
+                        {/* 削除が確かなときだけ「削除」と出す（取得エラーなどは区別する） */}
+                        {request.work_deleted_at || work?.deleted_at
+                          ? '作品は削除されました'
+                          : '作品を読み込めませんでした'}
+                      </dd>
+                    </div>
+                  )
+                )}
+              </dl>
+            </div>
+
+            <div className="rounded-3xl border border-slate-800 bg-slate-950/80 px-4 py-3 text-[11px] text-slate-400">
+              <p>
+                ステータスは
+                <span className="mx-1 font-semibold text-slate-100">{statusLabel}</span>
+                です。
+              </p>
+              {isCreator && status === 'pending' && (
+                <p className="mt-1">
+                  「依頼を受ける」を押すと、この画面がそのままやり取り用のチャットルームとして使えます。
+                </p>
+              )}
+              {isCreator && status === 'accepted' && (
+                <p className="mt-1">
+                  {milestonesApproved
+                    ? '作業が完了したら「この依頼をクローズする」で締めておくと管理しやすくなります。'
+                    : 'すべてのマイルストーンが依頼者に承認されると、この依頼をクローズできます。'}
+                </p>
+              )}
+              {isClient && status === 'accepted' && !milestonesApproved && (
+                <p className="mt-1">
+                  提出された成果物を確認して「承認する」か「修正を依頼」を選んでください。
+                </p>
+              )}
+            </div>
+
+            {/* ステータスの履歴 */}
+            <div className="rounded-3xl border border-white/10 bg-slate-950/80 px-4 py-4">
+              <h2 className="mb-3 text-[13px] font-semibold text-slate-50">履歴</h2>
+              {events.length === 0 ? (
+                <p className="text-[11px] text-slate-500">まだ履歴はありません。</p>
+              ) : (
+                <ol className="relative space-y-3 border-l border-slate-700 pl-4 text-[11px]">
+                  {events.map((event) => (
+                    <li key={event.id} className="relative">
+                      <span className="absolute -left-[21px] top-1 h-2 w-2 rounded-full bg-pink-400" />
+                      <p className="text-slate-200">
+                        {event.kind === 'created' ? (
+                          <>{actorName(event.actor_id)}さんが依頼を作成しました</>
+                        ) : event.kind === 'quote_accepted' ? (
+                          <>{actorName(event.actor_id)}さんが見積もりを承諾しました（条件確定）</>
+                        ) : (
+                          <>
+                            {actorName(event.actor_id)}さんがステータスを
+                            <span className="mx-1 text-slate-400">
+                              {statusName(event.from_status)}
+                            </span>
+                            →
+                            <span className="mx-1 font-semibold text-slate-50">
+                              {statusName(event.to_status)}
+                            </span>
+                            に変更しました
+                          </>
+                        )}
+                      </p>
+                      <p className="text-[10px] text-slate-500">
+                        {formatDateTime(event.created_at)}
+                      </p>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          </aside>
+        </section>
+      </main>
+    </div>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,337 @@
+// app/requests/[id]/ReviewPanel.tsx
+'use client';
+
+import { useEffect, useState } from 'react';
+import RatingStars from '@/components/RatingStars';
+import {
+  canEditReview,
+  db,
+  REVIEW_BODY_MAX_LENGTH,
+  REVIEW_EDIT_DAYS,
+  REVIEW_MAX_RATING,
+  REVIEW_REPLY_MAX_LENGTH,
+  reviewEditDeadline,
+  validateReviewInput,
+  validateReviewReply,
+  type RequestRow,
+  type ReviewRow,
+} from '@/lib/data';
+
+type Props = {
+  // クローズ済みの依頼
+  request: RequestRow;
+  currentUserId: string;
+  isCreator: boolean;
+  nameOf: (userId: string | null) => string;
+};
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('ja-JP', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'Asia/Tokyo',
+  });
+
+export default function ReviewPanel({ request, currentUserId, isCreator, nameOf }: Props) {
+  const [reviews, setReviews] = useState<ReviewRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  // 自分のレビューの入力
+  const [editing, setEditing] = useState(false);
+  const [rating, setRating] = useState(0);
+  const [body, setBody] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  // 相手のレビューへの返信（クリエイターだけ）
+  const [replyOpen, setReplyOpen] = useState(false);
+  const [replyDraft, setReplyDraft] = useState('');
+  const [replyError, setReplyError] = useState<string | null>(null);
+  const [replying, setReplying] = useState(false);
+
+  const requestId = request.id;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchReviews = async () => {
+      const { data, error } = await db.reviews.listForRequest(requestId);
+      if (cancelled) return;
+
+      if (error) {
+        console.error('ReviewPanel: レビュー取得エラー', error.message);
+        setErrorMsg('レビューの取得に失敗しました。');
+      } else {
+        setReviews(data);
+      }
+      setLoading(false);
+    };
+
+    void fetchReviews();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [requestId]);
+
+  const mine = reviews.find((r) => r.reviewer_id === currentUserId) ?? null;
+  const theirs = reviews.find((r) => r.reviewer_id !== currentUserId) ?? null;
+  const canReply = isCreator && theirs !== null;
+  // 自分が評価する相手
+  const counterpartId = isCreator ? request.client_id : request.creator_id;
+
+  const upsert = (review: ReviewRow) =>
+    setReviews((prev) => [...prev.filter((r) => r.id !== review.id), review]);
+
+  const openForm = () => {
+    setRating(mine?.rating ?? 0);
+    setBody(mine?.body ?? '');
+    setFormError(null);
+    setEditing(true);
+  };
+
+  const handleSubmit = async () => {
+    const input = { rating, body };
+    const invalid = validateReviewInput(input);
+    if (invalid) {
+      setFormError(invalid);
+      return;
+    }
+
+    setSubmitting(true);
+    setFormError(null);
+
+    const { data, error } = await db.reviews.submit({
+      ...input,
+      request_id: requestId,
+      reviewer_id: currentUserId,
+    });
+
+    setSubmitting(false);
+
+    if (error) {
+      console.error('ReviewPanel: レビュー保存エラー', error.message);
+      setFormError(
+        error.code === 'invalid'
+          ? `レビューを保存できませんでした（編集できるのは書いてから ${REVIEW_EDIT_DAYS} 日間です）。`
+          : 'レビューの保存に失敗しました。時間をおいて再度お試しください。'
+      );
+      return;
+    }
+
+    upsert(data);
+    setEditing(false);
+  };
+
+  const openReply = () => {
+    setReplyDraft(theirs?.reply ?? '');
+    setReplyError(null);
+    setReplyOpen(true);
+  };
+
+  const handleReply = async () => {
+    if (!theirs) return;
+
+    const invalid = validateReviewReply(replyDraft);
+    if (invalid) {
+      setReplyError(invalid);
+      return;
+    }
+
+    setReplying(true);
+    setReplyError(null);
+
+    const { data, error } = await db.reviews.reply(theirs.id, currentUserId, replyDraft);
+
+    setReplying(false);
+
+    if (error) {
+      console.error('ReviewPanel: 返信エラー', error.message);
+      setReplyError('返信の保存に失敗しました。時間をおいて再度お試しください。');
+      return;
+    }
+
+    upsert(data);
+    setReplyOpen(false);
+  };
+
+  const renderReview = (review: ReviewRow) => (
+    <div className="space-y-1.5">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="text-slate-300">{nameOf(review.reviewer_id)}さんのレビュー</span>
+        <span className="text-[10px] text-slate-500">
+          {formatDate(review.created_at)}
+          {review.updated_at !== review.created_at && '（編集済み）'}
+        </span>
+      </div>
+      <RatingStars rating={review.rating} className="text-sm" />
+      <p className="whitespace-pre-wrap text-slate-200">{review.body}</p>
+      {review.reply && (
+        <div className="rounded-xl border-l-2 border-pink-400/60 bg-slate-950/60 px-2 py-1.5">
+          <p className="text-[10px] text-slate-400">{nameOf(review.reviewee_id)}さんからの返信</p>
+          <p className="whitespace-pre-wrap text-slate-300">{review.reply}</p>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-slate-950/80 px-4 py-4 space-y-3 text-[11px]">
+      <h2 className="text-[13px] font-semibold text-slate-50">レビュー</h2>
+
+      {errorMsg && (
+        <div className="rounded-2xl border border-red-500/40 bg-red-950/40 px-3 py-2 text-red-100">
+          {errorMsg}
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-slate-500">レビューを読み込み中です…</p>
+      ) : (
+        <>
+          {/* 自分のレビュー */}
+          <div className="rounded-2xl border border-slate-800 bg-slate-900/70 px-3 py-3 space-y-2">
+            {editing ? (
+              <div className="space-y-2">
+                <p className="font-semibold text-slate-100">
+                  {nameOf(counterpartId)}さんとのやりとりを評価する
+                </p>
+                <div className="flex gap-1" role="radiogroup" aria-label="評価">
+                  {Array.from({ length: REVIEW_MAX_RATING }, (_, i) => i + 1).map((value) => (
+                    <button
+                      key={value}
+                      type="button"
+                      role="radio"
+                      aria-checked={rating === value}
+                      aria-label={`星 ${value}`}
+                      onClick={() => setRating(value)}
+                      disabled={submitting}
+                      className={`text-xl leading-none transition ${
+                        value <= rating ? 'text-amber-300' : 'text-slate-600 hover:text-amber-200'
+                      }`}
+                    >
+                      ★
+                    </button>
+                  ))}
+                </div>
+                <textarea
+                  value={body}
+                  onChange={(e) => setBody(e.target.value)}
+                  rows={3}
+                  maxLength={REVIEW_BODY_MAX_LENGTH}
+                  placeholder="やりとりの丁寧さ、仕上がり、納期など"
+                  className="w-full rounded-xl border border-slate-700 bg-slate-950/80 px-2 py-1.5 text-slate-50 outline-none focus:border-pink-400"
+                />
+                <div className="flex justify-end gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setEditing(false)}
+                    disabled={submitting}
+                    className="rounded-full border border-slate-600 bg-slate-900/70 px-3 py-1 text-slate-100 hover:bg-slate-800/80 transition"
+                  >
+                    キャンセル
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => void handleSubmit()}
+                    disabled={submitting}
+                    className="rounded-full bg-gradient-to-r from-pink-500 to-sky-500 px-3 py-1 font-semibold text-white shadow-md shadow-pink-500/30 hover:brightness-110 transition disabled:opacity-60 disabled:cursor-not-allowed"
+                  >
+                    {submitting ? '保存中…' : mine ? '更新する' : '投稿する'}
+                  </button>
+                </div>
+                {formError && <p className="text-red-300">{formError}</p>}
+              </div>
+            ) : mine ? (
+              <>
+                {renderReview(mine)}
+                {canEditReview(mine) && (
+                  <div className="flex items-center justify-between gap-2 border-t border-slate-800 pt-2">
+                    <span className="text-[10px] text-slate-500">
+                      {formatDate(reviewEditDeadline(mine).toISOString())} まで編集できます
+                    </span>
+                    <button
+                      type="button"
+                      onClick={openForm}
+                      className="text-sky-300 hover:text-sky-200 transition"
+                    >
+                      編集する
+                    </button>
+                  </div>
+                )}
+              </>
+            ) : (
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <p className="text-slate-400">
+                  依頼はクローズしました。相手とのやりとりを星と短いコメントで評価してください。
+                </p>
+                <button
+                  type="button"
+                  onClick={openForm}
+                  className="rounded-full bg-gradient-to-r from-pink-500 to-sky-500 px-3 py-1 font-semibold text-white shadow-md shadow-pink-500/30 hover:brightness-110 transition"
+                >
+                  レビューを書く
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* 相手のレビュー */}
+          {theirs ? (
+            <div className="rounded-2xl border border-slate-800 bg-slate-900/70 px-3 py-3 space-y-2">
+              {renderReview(theirs)}
+
+              {canReply && !replyOpen && (
+                <div className="flex justify-end border-t border-slate-800 pt-2">
+                  <button
+                    type="button"
+                    onClick={openReply}
+                    className="text-sky-300 hover:text-sky-200 transition"
+                  >
+                    {theirs.reply ? '返信を編集する' : '返信する'}
+                  </button>
+                </div>
+              )}
+
+              {canReply && replyOpen && (
+                <div className="space-y-2 border-t border-slate-800 pt-2">
+                  <textarea
+                    value={replyDraft}
+                    onChange={(e) => setReplyDraft(e.target.value)}
+                    rows={2}
+                    maxLength={REVIEW_REPLY_MAX_LENGTH}
+                    placeholder="レビューへのお礼や補足など（プロフィールに表示されます）"
+                    className="w-full rounded-xl border border-slate-700 bg-slate-950/80 px-2 py-1.5 text-slate-50 outline-none focus:border-pink-400"
+                  />
+                  <div className="flex justify-end gap-2">
+                    <button
+                      type="button"
+                      onClick={() => setReplyOpen(false)}
+                      disabled={replying}
+                      className="rounded-full border border-slate-600 bg-slate-900/70 px-3 py-1 text-slate-100 hover:bg-slate-800/80 transition"
+                    >
+                      キャンセル
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => void handleReply()}
+                      disabled={replying}
+                      className="rounded-full bg-gradient-to-r from-pink-500 to-sky-500 px-3 py-1 font-semibold text-white shadow-md shadow-pink-500/30 hover:brightness-110 transition disabled:opacity-60 disabled:cursor-not-allowed"
+                    >
+                      {replying ? '送信中…' : '返信する'}
+                    </button>
+                  </div>
+                  {replyError && <p className="text-red-300">{replyError}</p>}
+                </div>
+              )}
+            </div>
+          ) : (
+            <p className="text-slate-500">相手からのレビューはまだありません。</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -3,25 +3,15 @@
 
 import { useRouter, useSearchParams } from 'next/navigation';
 import { useEffect, useState } from 'react';
-import { supabase } from '@/lib/supabaseClient';
-
-type ProfileRow = {
-  id: string;
-  role: 'creator' | 'client' | null;
-  display_name: string | null;
-};
-
-type CreatorProfile = {
-  id: string;
-  display_name: string | null;
-};
-
-type WorkRow = {
-  id: string;
-  title: string;
-};
-
-type Status = 'pending' | 'accepted' | 'rejected' | 'closed';
+import { currentPath, loginHref } from '@/lib/authRoutes';
+import {
+  db,
+  hasRole,
+  isWorkAvailable,
+  requestsPausedMessage,
+  type ProfileRow,
+  type WorkRow,
+} from '@/lib/data';
 
 export default function RequestNewPageClient() {
   const router = useRouter();
@@ -31,8 +21,9 @@ export default function RequestNewPageClient() {
   const workIdFromQuery = searchParams.get('workId');
 
   const [currentProfile, setCurrentProfile] = useState<ProfileRow | null>(null);
-  const [creatorProfile, setCreatorProfile] = useState<CreatorProfile | null>(null);
+  const [creatorProfile, setCreatorProfile] = useState<ProfileRow | null>(null);
   const [work, setWork] = useState<WorkRow | null>(null);
+  const [unavailable, setUnavailable] = useState(false);
 
   const [title, setTitle] = useState('');
   const [message, setMessage] = useState('');
@@ -50,43 +41,35 @@ export default function RequestNewPageClient() {
       setErrorMsg(null);
 
       // 1. ログインユーザー確認
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
+      const { data: user } = await db.auth.getUser();
 
       if (!user) {
         // 未ログインならログイン画面に飛ばす
-        router.push(
-          `/auth/login?next=/requests/new?creatorId=${creatorIdFromQuery || ''}&workId=${
-            workIdFromQuery || ''
-          }`,
-        );
+        router.push(loginHref(currentPath()));
         return;
       }
 
       // 2. 自分のプロフィール（ロール）取得
-      const { data: myProfile, error: myProfileError } = await supabase
-        .from('profiles')
-        .select('id, role, display_name')
-        .eq('id', user.id)
-        .single();
-
-      if (myProfileError || !myProfile) {
-        console.error('依頼作成: 自分のプロフィール取得エラー', myProfileError?.message);
+      const { data: myProfile, error: myProfileError } = await db.profiles.getById(user.id);
+
+      if (myProfileError) {
+        console.error('依頼作成: 自分のプロフィール取得エラー', myProfileError.message);
         setErrorMsg('プロフィール情報の取得に失敗しました。時間をおいて再度お試しください。');
         setLoading(false);
         return;
       }
 
-      // 依頼者ロールでなければ NG（MVPでは client 限定）
-      if (myProfile.role !== 'client') {
-        setErrorMsg('依頼者としてのアカウントでのみ依頼を作成できます。');
-        setCurrentProfile(myProfile as ProfileRow);
+      // 依頼者のロールがなければ NG（DB 側でも弾く）
+      if (!hasRole(myProfile, 'client')) {
+        setErrorMsg(
+          '依頼を作成するには、右上のメニューの「依頼者としても使う」で依頼者のロールを追加してください。'
+        );
+        setCurrentProfile(myProfile);
         setLoading(false);
         return;
       }
 
-      setCurrentProfile(myProfile as ProfileRow);
+      setCurrentProfile(myProfile);
 
       // 3. クリエイター情報
       if (!creatorIdFromQuery) {
@@ -95,33 +78,58 @@ export default function RequestNewPageClient() {
         return;
       }
 
-      const { data: cr, error: crError } = await supabase
-        .from('profiles')
-        .select('id, display_name')
-        .eq('id', creatorIdFromQuery)
-        .single();
+      const { data: cr, error: crError } = await db.profiles.getById(creatorIdFromQuery);
 
-      if (crError || !cr) {
-        console.error('依頼作成: クリエイタープロフィール取得エラー', crError?.message);
+      if (crError) {
+        console.error('依頼作成: クリエイタープロフィール取得エラー', crError.message);
         setErrorMsg('クリエイター情報の取得に失敗しました。時間をおいて再度お試しください。');
         setLoading(false);
         return;
       }
 
-      setCreatorProfile(cr as CreatorProfile);
+      setCreatorProfile(cr);
+
+      // 自分宛て・クリエイターのロールがない相手には依頼できない（DB 側でも弾く）
+      if (cr.id === myProfile.id || !hasRole(cr, 'creator')) {
+        setErrorMsg(
+          cr.id === myProfile.id
+            ? '自分には依頼できません。'
+            : 'このユーザーはクリエイターとして依頼を受け付けていません。'
+        );
+        setUnavailable(true);
+        setLoading(false);
+        return;
+      }
+
+      // 受付停止中のクリエイターには依頼できない（DB 側でも弾く）
+      const pausedMessage = requestsPausedMessage(cr);
+      if (pausedMessage) {
+        setErrorMsg(pausedMessage);
+        setUnavailable(true);
+        setLoading(false);
+        return;
+      }
 
       // 4. 対象作品（あれば）
       if (workIdFromQuery) {
-        const { data: w, error: wError } = await supabase
-          .from('works')
-          .select('id, title')
-          .eq('id', workIdFromQuery)
-          .single();
+        const { data: w, error: wError } = await db.works.getById(workIdFromQuery);
 
         if (wError) {
           console.error('依頼作成: 作品取得エラー', wError.message);
-        } else if (w) {
-          setWork(w as WorkRow);
+        } else if (!isWorkAvailable(w)) {
+          // アーカイブ・削除済みの作品には依頼できない（DB 側でも弾く）
+          setErrorMsg('この作品は削除または非公開になったため、依頼できません。');
+          setUnavailable(true);
+          setLoading(false);
+          return;
+        } else if (!w.accepting_requests) {
+          // 作品ごとの受付停止（クリエイター全体は受付中）
+          setErrorMsg(requestsPausedMessage(cr, w));
+          setUnavailable(true);
+          setLoading(false);
+          return;
+        } else {
+          setWork(w);
           // 作品タイトルをデフォルトタイトルに使う
           if (!title) {
             setTitle(`「${w.title}」についてのご相談`);
@@ -154,41 +162,37 @@ export default function RequestNewPageClient() {
         return;
       }
 
-      const status: Status = 'pending';
-
       // 1. requests に登録
-      const { data: inserted, error: reqError } = await supabase
-        .from('requests')
-        .insert({
-          creator_id: creatorIdFromQuery,
-          client_id: currentProfile.id,
-          work_id: workIdFromQuery || null,
-          title: title.trim(),
-          message: message.trim(),
-          status,
-          preferred_date: preferredDate || null,
-          budget: budget || null,
-        })
-        .select('id') // 作成された行の id を返してもらう
-        .single();
-
-      if (reqError || !inserted) {
-        console.error('依頼作成エラー (requests):', reqError?.message);
-        setErrorMsg('依頼の作成に失敗しました。時間をおいて再度お試しください。');
+      const { data: inserted, error: reqError } = await db.requests.create({
+        creator_id: creatorIdFromQuery,
+        client_id: currentProfile.id,
+        work_id: workIdFromQuery || null,
+        title: title.trim(),
+        message: message.trim(),
+        status: 'pending',
+        preferred_date: preferredDate || null,
+        budget: budget || null,
+      });
+
+      if (reqError) {
+        console.error('依頼作成エラー (requests):', reqError.message);
+        // 入力中に受付停止・作品の非公開化があった場合
+        setErrorMsg(
+          reqError.code === 'invalid'
+            ? '受付状況が変わったため、依頼を作成できませんでした。ページを再読み込みしてください。'
+            : '依頼の作成に失敗しました。時間をおいて再度お試しください。',
+        );
         setSubmitting(false);
         return;
       }
 
-      const requestId = inserted.id as string;
+      const requestId = inserted.id;
 
       // 2. 初回メッセージを messages に登録
-      const { error: msgError } = await supabase.from('messages').insert({
+      const { error: msgError } = await db.messages.create({
         request_id: requestId,
         sender_id: currentProfile.id,
         body: message.trim(),
-        // 既読系カラムを入れているならここで false を入れる（なければ省略）
-        // is_read_by_creator: false,
-        // is_read_by_client: true, // 送信者が client の場合、自分側は既読として扱いたいなら
       });
 
       if (msgError) {
@@ -220,11 +224,11 @@ export default function RequestNewPageClient() {
     );
   }
 
-  if (errorMsg && !currentProfile) {
+  if (errorMsg && (!currentProfile || unavailable)) {
     // そもそも利用不可レベルのエラー
     return (
       <div className="min-h-[calc(100vh-56px)] flex items-center justify-center">
-        <div className="rounded-2xl border border-red-500/40 bg-red-950/40 px-4 py-3 text-xs text-red-100 max-w-sm text-center">
+        <div className="rounded-2xl border border-red-500/40 bg-red-950/40 px-4 py-3 text-xs text-red-100 max-w-sm text-center whitespace-pre-line">
           {errorMsg}
         </div>
       </div>
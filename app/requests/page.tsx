@@ -3,31 +3,9 @@
 
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { supabase } from '@/lib/supabaseClient';
-
-type Role = 'creator' | 'client' | null;
-
-type RequestRow = {
-  id: string;
-  creator_id: string;
-  client_id: string;
-  work_id: string | null;
-  title: string;
-  message: string | null;
-  status: 'pending' | 'accepted' | 'rejected' | 'closed';
-  created_at: string;
-  updated_at: string;
-};
-
-type Profile = {
-  id: string;
-  display_name: string | null;
-};
-
-type Work = {
-  id: string;
-  title: string;
-};
+import { currentPath, loginHref } from '@/lib/authRoutes';
+import { db, hasRole, type ProfileRow, type RequestRow, type WorkRow } from '@/lib/data';
+import Avatar from '@/components/Avatar';
 
 type Tab = 'received' | 'sent';
 
@@ -35,12 +13,14 @@ export default function RequestsPage() {
   const router = useRouter();
 
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
-  const [userRole, setUserRole] = useState<Role>(null);
+  const [myProfile, setMyProfile] = useState<ProfileRow | null>(null);
   const [activeTab, setActiveTab] = useState<Tab>('received');
 
   const [requests, setRequests] = useState<RequestRow[]>([]);
-  const [profilesMap, setProfilesMap] = useState<Record<string, Profile>>({});
-  const [worksMap, setWorksMap] = useState<Record<string, Work>>({});
+  const [profilesMap, setProfilesMap] = useState<Record<string, ProfileRow>>({});
+  const [worksMap, setWorksMap] = useState<Record<string, WorkRow>>({});
+  // request_id → 相手から届いた未読メッセージ数
+  const [unreadMap, setUnreadMap] = useState<Record<string, number>>({});
 
   const [loading, setLoading] = useState(true);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
@@ -48,37 +28,30 @@ export default function RequestsPage() {
   // ログインユーザー & ロール取得
   useEffect(() => {
     const init = async () => {
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
+      const { data: user } = await db.auth.getUser();
 
       if (!user) {
-        router.push('/auth/login?next=/requests');
+        router.push(loginHref(currentPath()));
         return;
       }
 
       setCurrentUserId(user.id);
 
-      // profiles.role を取得してタブ初期値を決める
-      const { data: prof, error: profError } = await supabase
-        .from('profiles')
-        .select('role')
-        .eq('id', user.id)
-        .single();
+      // roles で出すタブを、切り替え中のロールでタブ初期値を決める
+      const { data: prof, error: profError } = await db.profiles.getById(user.id);
 
       if (profError) {
         console.error('RequestsPage: profiles 取得エラー', profError.message);
-        setUserRole(null);
+        setMyProfile(null);
         // 役割不明ならデフォルト（受けた依頼）
         setActiveTab('received');
         return;
       }
 
-      const role = (prof?.role as Role) ?? null;
-      setUserRole(role);
+      setMyProfile(prof);
 
-      // 依頼者なら「送った依頼」タブをデフォルトにする
-      if (role === 'client') {
+      // 依頼者として使っている（またはクリエイターのロールがない）なら「送った依頼」タブをデフォルトにする
+      if (prof.role === 'client' || !hasRole(prof, 'creator')) {
         setActiveTab('sent');
       } else {
         setActiveTab('received');
@@ -97,14 +70,11 @@ export default function RequestsPage() {
       setErrorMsg(null);
 
       try {
-        const filterCol = activeTab === 'received' ? 'creator_id' : 'client_id';
-
         // 1) requests 取得
-        const { data: reqData, error: reqError } = await supabase
-          .from('requests')
-          .select('*')
-          .eq(filterCol, currentUserId)
-          .order('updated_at', { ascending: false });
+        const { data: rows, error: reqError } = await db.requests.listForUser(
+          currentUserId,
+          activeTab === 'received' ? 'creator' : 'client'
+        );
 
         if (reqError) {
           console.error('依頼一覧取得エラー:', reqError.message);
@@ -113,7 +83,6 @@ export default function RequestsPage() {
           return;
         }
 
-        const rows = (reqData || []) as RequestRow[];
         setRequests(rows);
 
         if (rows.length === 0) {
@@ -140,21 +109,15 @@ export default function RequestsPage() {
           )
         );
 
-        const [profilesRes, worksRes] = await Promise.all([
-          profileIds.length
-            ? supabase
-                .from('profiles')
-                .select('id, display_name')
-                .in('id', profileIds)
-            : Promise.resolve({ data: [], error: null }),
-          workIds.length
-            ? supabase.from('works').select('id, title').in('id', workIds)
-            : Promise.resolve({ data: [], error: null }),
+        const [profilesRes, worksRes, unreadRes] = await Promise.all([
+          db.profiles.listByIds(profileIds),
+          db.works.listByIds(workIds),
+          db.messages.countUnreadByRequest(currentUserId),
         ]);
 
-        if (profilesRes && !profilesRes.error && profilesRes.data) {
-          const map: Record<string, Profile> = {};
-          (profilesRes.data as Profile[]).forEach((p) => {
+        if (!profilesRes.error) {
+          const map: Record<string, ProfileRow> = {};
+          profilesRes.data.forEach((p) => {
             map[p.id] = p;
           });
           setProfilesMap(map);
@@ -162,9 +125,9 @@ export default function RequestsPage() {
           setProfilesMap({});
         }
 
-        if (worksRes && !worksRes.error && worksRes.data) {
-          const map: Record<string, Work> = {};
-          (worksRes.data as Work[]).forEach((w) => {
+        if (!worksRes.error) {
+          const map: Record<string, WorkRow> = {};
+          worksRes.data.forEach((w) => {
             map[w.id] = w;
           });
           setWorksMap(map);
@@ -172,6 +135,13 @@ export default function RequestsPage() {
           setWorksMap({});
         }
 
+        if (!unreadRes.error) {
+          setUnreadMap(unreadRes.data);
+        } else {
+          console.error('未読数取得エラー:', unreadRes.error.message);
+          setUnreadMap({});
+        }
+
         setLoading(false);
       } catch (e) {
         console.error('依頼一覧取得中の予期せぬエラー:', e);
@@ -211,12 +181,11 @@ export default function RequestsPage() {
       ? 'まだ受けた依頼はありません。'
       : 'まだ送った依頼はありません。';
 
-  const isCreator = userRole === 'creator';
-  const isClient = userRole === 'client';
+  const isCreator = hasRole(myProfile, 'creator');
 
-  const subtitle = isClient
-    ? 'あなたが送った依頼を一覧で確認できます。'
-    : 'あなたが送った依頼 / 受けた依頼を一覧で確認できます。';
+  const subtitle = isCreator
+    ? 'あなたが送った依頼 / 受けた依頼を一覧で確認できます。'
+    : 'あなたが送った依頼を一覧で確認できます。';
 
   return (
     <div className="min-h-[calc(100vh-56px)] bg-gradient-to-b from-slate-950 via-slate-900 to-slate-950 text-slate-50">
@@ -232,7 +201,7 @@ export default function RequestsPage() {
 
           {/* タブ */}
           <div className="inline-flex items-center gap-2 rounded-full bg-slate-900/80 p-1 text-xs border border-slate-700/70">
-            {/* クリエイターだけ「受けた依頼」を表示 */}
+            {/* クリエイターのロールを持つ人だけ「受けた依頼」を表示 */}
             {isCreator && (
               <button
                 type="button"
@@ -289,6 +258,7 @@ export default function RequestsPage() {
                   (isCreatorSide ? '依頼者' : 'クリエイター');
 
                 const work = req.work_id ? worksMap[req.work_id] : undefined;
+                const unread = unreadMap[req.id] ?? 0;
 
                 return (
                   <li key={req.id}>
@@ -299,12 +269,19 @@ export default function RequestsPage() {
                     >
                       <div className="flex items-center justify-between gap-2">
                         <div className="flex items-center gap-2 min-w-0">
-                          <span className="inline-flex h-6 w-6 items-center justify-center rounded-full bg-slate-800 text-[11px] text-slate-200">
-                            {otherName.slice(0, 1)}
-                          </span>
+                          <Avatar
+                            name={otherName}
+                            url={otherProfile?.avatar_url ?? null}
+                            size="xs"
+                          />
                           <div className="min-w-0">
-                            <p className="text-xs font-semibold text-slate-50 truncate">
-                              {req.title}
+                            <p className="flex items-center gap-1.5 text-xs font-semibold text-slate-50">
+                              <span className="truncate">{req.title}</span>
+                              {unread > 0 && (
+                                <span className="inline-flex shrink-0 min-w-[1.2rem] items-center justify-center rounded-full bg-pink-500 px-1.5 text-[10px] font-semibold text-white">
+                                  未読 {unread}
+                                </span>
+                              )}
                             </p>
                             <p className="text-[11px] text-slate-400 truncate">
                               {isCreatorSide
@@ -327,10 +304,18 @@ export default function RequestsPage() {
                         <p className="line-clamp-1">
                           {req.message || 'メッセージなし'}
                         </p>
-                        {work && (
+                        {work && !work.deleted_at ? (
                           <p className="shrink-0 text-[10px] text-slate-500">
                             作品：{work.title}
                           </p>
+                        ) : (
+                          (req.work_id || req.work_deleted_at) && (
+                            <p className="shrink-0 text-[10px] text-slate-500">
+                              {req.work_deleted_at || work?.deleted_at
+                                ? '作品は削除されました'
+                                : '作品を読み込めませんでした'}
+                            </p>
+                          )
                         )}
                       </div>
                     </button>
@@ -0,0 +1,97 @@
+// app/tags/[slug]/page.tsx
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import GalleryResults from '@/components/GalleryResults';
+import WorksFilterBar from '@/components/WorksFilterBar';
+import { db, tagSlug } from '@/lib/data';
+import { galleryHref, parseGalleryQuery, type SearchParams } from '@/lib/galleryQuery';
+
+const PAGE_SIZE = 24;
+
+type Props = {
+  params: Promise<{ slug: string }>;
+  searchParams: Promise<SearchParams>;
+};
+
+// 日本語の slug はエンコードされたまま渡ってくることがある
+const decodeSlug = (raw: string) => {
+  try {
+    return tagSlug(decodeURIComponent(raw));
+  } catch {
+    return tagSlug(raw);
+  }
+};
+
+export default async function TagPage({ params, searchParams }: Props) {
+  const slug = decodeSlug((await params).slug);
+
+  const { data: tag, error: tagError } = await db.tags.getBySlug(slug);
+  if (tagError) {
+    if (tagError.code !== 'not_found') {
+      console.error('タグ取得エラー:', tagError.message);
+    }
+    notFound();
+  }
+
+  const query = parseGalleryQuery(await searchParams, tag.slug);
+
+  // タグの付いた公開作品（キーワード・ジャンル・エリアの絞り込みも併用できる）
+  const [pageRes, facetsRes] = await Promise.all([
+    db.works.listGallery({ ...query, limit: PAGE_SIZE }),
+    db.works.listGalleryFacets(),
+  ]);
+
+  if (pageRes.error) {
+    console.error('タグの作品一覧取得エラー:', pageRes.error.message);
+  }
+  if (facetsRes.error) {
+    console.error('絞り込み候補取得エラー:', facetsRes.error.message);
+  }
+
+  const works = pageRes.data?.items ?? [];
+  const nextCursor = pageRes.data?.nextCursor ?? null;
+  const facets = facetsRes.data ?? { genres: [], areas: [] };
+
+  const filterKey = galleryHref(query, { cursor: null });
+
+  return (
+    <div className="min-h-[calc(100vh-56px)] bg-gradient-to-b from-slate-950 via-slate-900 to-slate-950 text-slate-50">
+      <main className="mx-auto w-full max-w-6xl px-4 py-6 sm:px-6 lg:px-8 space-y-5">
+        {/* ヘッダー */}
+        <header className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2 text-[11px]">
+            <Link
+              href="/works"
+              className="inline-flex items-center gap-1 rounded-full border border-slate-700 bg-slate-900/70 px-3 py-1 text-slate-200 hover:bg-slate-800/80 transition"
+            >
+              <span className="text-xs">←</span>
+              <span>作品ギャラリー</span>
+            </Link>
+            <Link
+              href="/tags"
+              className="rounded-full border border-slate-700 bg-slate-900/70 px-3 py-1 text-slate-200 hover:bg-slate-800/80 transition"
+            >
+              タグ一覧
+            </Link>
+          </div>
+          <h1 className="text-xl sm:text-2xl font-semibold tracking-tight">
+            <span className="text-pink-300">#</span>
+            {tag.name}
+          </h1>
+          <p className="text-xs text-slate-400">公開中の作品 {tag.works_count} 件</p>
+        </header>
+
+        {/* 🔍 検索＆フィルタ ＋ 並び替え（タグはそのまま） */}
+        <WorksFilterBar key={filterKey} query={query} facets={facets} />
+
+        {pageRes.error && (
+          <div className="rounded-2xl border border-red-500/40 bg-red-950/40 px-4 py-3 text-xs text-red-100">
+            作品一覧の取得に失敗しました。時間をおいて再度お試しください。
+          </div>
+        )}
+
+        <GalleryResults works={works} query={query} nextCursor={nextCursor} />
+      </main>
+    </div>
+  );
+}
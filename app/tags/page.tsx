@@ -0,0 +1,51 @@
+// app/tags/page.tsx
+import Link from 'next/link';
+import TagChips from '@/components/TagChips';
+import { db } from '@/lib/data';
+
+const MAX_TAGS = 100;
+
+// 公開作品の付いたタグを作品数の多い順に
+export default async function TagsPage() {
+  const { data, error } = await db.tags.list({ limit: MAX_TAGS });
+
+  if (error) {
+    console.error('タグ一覧取得エラー:', error.message);
+  }
+
+  const tags = data ?? [];
+
+  return (
+    <div className="min-h-[calc(100vh-56px)] bg-gradient-to-b from-slate-950 via-slate-900 to-slate-950 text-slate-50">
+      <main className="mx-auto w-full max-w-4xl px-4 py-6 sm:px-6 lg:px-8 space-y-5">
+        <header className="space-y-2">
+          <Link
+            href="/works"
+            className="inline-flex items-center gap-1 rounded-full border border-slate-700 bg-slate-900/70 px-3 py-1 text-[11px] text-slate-200 hover:bg-slate-800/80 transition"
+          >
+            <span className="text-xs">←</span>
+            <span>作品ギャラリー</span>
+          </Link>
+          <h1 className="text-xl sm:text-2xl font-semibold tracking-tight">タグから探す</h1>
+          <p className="text-xs text-slate-400">
+            数字はそのタグが付いた公開中の作品数です。
+          </p>
+        </header>
+
+        {error && (
+          <div className="rounded-2xl border border-red-500/40 bg-red-950/40 px-4 py-3 text-xs text-red-100">
+            タグ一覧の取得に失敗しました。時間をおいて再度お試しください。
+          </div>
+        )}
+
+        <section className="rounded-3xl border border-white/10 bg-slate-950/60 px-4 py-5 shadow-[0_18px_45px_rgba(15,23,42,0.8)]">
+          {tags.length === 0 ? (
+            <p className="text-center text-xs text-slate-400">まだタグの付いた作品がありません。</p>
+          ) : (
+            <TagChips tags={tags} />
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
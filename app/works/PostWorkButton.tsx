@@ -0,0 +1,44 @@
+// app/works/PostWorkButton.tsx
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { db, hasRole } from '@/lib/data';
+
+// 作品投稿ボタン → クリエイターだけ表示
+export default function PostWorkButton() {
+  const router = useRouter();
+  const [canPostWork, setCanPostWork] = useState(false);
+
+  useEffect(() => {
+    const checkRole = async () => {
+      const { data: user } = await db.auth.getUser();
+      if (!user) return;
+
+      const { data: myProfile, error } = await db.profiles.getById(user.id);
+
+      if (error) {
+        console.error('プロフィール取得エラー(投稿可否判定):', error.message);
+        return;
+      }
+
+      // クリエイターのロールを持つユーザーだけ「作品を投稿する」ボタン表示
+      setCanPostWork(hasRole(myProfile, 'creator'));
+    };
+
+    void checkRole();
+  }, []);
+
+  if (!canPostWork) return null;
+
+  return (
+    <button
+      type="button"
+      onClick={() => router.push('/works/new')}
+      className="inline-flex items-center justify-center gap-2 rounded-full bg-gradient-to-r from-pink-500 to-sky-500 px-5 py-2 text-xs font-semibold text-white shadow-lg shadow-pink-500/30 transition hover:brightness-110"
+    >
+      <span className="text-base leading-none">＋</span>
+      <span>作品を投稿する</span>
+    </button>
+  );
+}
@@ -0,0 +1,500 @@
+// app/works/[id]/WorkDetailPageClient.tsx
+'use client';
+
+import AvailabilityBadge from '@/components/AvailabilityBadge';
+import Avatar from '@/components/Avatar';
+import WorkLikeButton from '@/components/WorkLikeButton';
+import ProfileLinks from '@/components/ProfileLinks';
+import TagChips from '@/components/TagChips';
+import { useEffect, useState } from 'react';
+import { useRouter, useParams } from 'next/navigation';
+import { loginHref } from '@/lib/authRoutes';
+import {
+  canRestoreWork,
+  db,
+  isAcceptingRequests,
+  isWorkAvailable,
+  requestsPausedMessage,
+  WORK_DELETE_UNDO_DAYS,
+  workRestoreDeadline,
+  type ProfileRow,
+  type TagRow,
+  type WorkImageRow,
+  type WorkRow,
+} from '@/lib/data';
+import WorkGallery from './WorkGallery';
+
+type RequestFormState = {
+  loading: boolean;
+  errorMsg: string | null;
+};
+
+export default function WorkDetailPageClient() {
+  const router = useRouter();
+  const params = useParams();
+  const workId = params?.id as string;
+
+  const [work, setWork] = useState<WorkRow | null>(null);
+  const [images, setImages] = useState<WorkImageRow[]>([]);
+  const [tags, setTags] = useState<TagRow[]>([]);
+  const [creatorProfile, setCreatorProfile] = useState<ProfileRow | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  const [isOwner, setIsOwner] = useState(false);
+  const [updatingVisibility, setUpdatingVisibility] = useState(false);
+  const [changingState, setChangingState] = useState(false);
+
+  const [requestState, setRequestState] = useState<RequestFormState>({
+    loading: false,
+    errorMsg: null,
+  });
+
+  // 初期ロード：作品・プロフィール・オーナー判定
+  useEffect(() => {
+    const init = async () => {
+      if (!workId) return;
+
+      setLoading(true);
+      setErrorMsg(null);
+
+      // 1. 作品取得
+      const { data: w, error: workError } = await db.works.getById(workId);
+
+      if (workError) {
+        setErrorMsg('作品の情報を取得できませんでした。削除された可能性があります。');
+        setLoading(false);
+        return;
+      }
+
+      setWork(w);
+
+      // 画像（position 順）
+      const { data: imageRows, error: imagesError } = await db.works.listImages(w.id);
+
+      if (imagesError) {
+        console.error('WorkDetail: 画像取得エラー', imagesError.message);
+      }
+      setImages(imageRows ?? []);
+
+      // タグ（並び順どおり）
+      const { data: tagRows, error: tagsError } = await db.tags.listForWork(w.id);
+
+      if (tagsError) {
+        console.error('WorkDetail: タグ取得エラー', tagsError.message);
+      }
+      setTags(tagRows ?? []);
+
+      // 2. クリエイタープロフィール取得
+      const { data: profileData } = await db.profiles.getById(w.creator_id);
+
+      if (profileData) setCreatorProfile(profileData);
+
+      // 3. オーナー判定
+      const { data: user } = await db.auth.getUser();
+
+      setIsOwner(user?.id === w.creator_id);
+
+      setLoading(false);
+    };
+
+    void init();
+  }, [workId]);
+
+  const formatDateTime = (iso: string) =>
+    new Date(iso).toLocaleString('ja-JP', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+
+  // 公開 / 非公開切替
+  const handleToggleVisibility = async () => {
+    if (!work) return;
+    setUpdatingVisibility(true);
+    setErrorMsg(null);
+
+    const nextVisible = !work.is_public;
+
+    const { error } = await db.works.update(work.id, { is_public: nextVisible });
+
+    if (error) {
+      setErrorMsg('公開状態の更新に失敗しました。時間をおいて再度お試しください。');
+      setUpdatingVisibility(false);
+      return;
+    }
+
+    setWork({ ...work, is_public: nextVisible });
+    setUpdatingVisibility(false);
+  };
+
+  // アーカイブ / 解除
+  const handleToggleArchive = async () => {
+    if (!work) return;
+    setChangingState(true);
+    setErrorMsg(null);
+
+    const { data, error } = await db.works.setArchived(work.id, !work.archived_at);
+
+    if (error) {
+      setErrorMsg('アーカイブの切り替えに失敗しました。時間をおいて再度お試しください。');
+      setChangingState(false);
+      return;
+    }
+
+    setWork(data);
+    setChangingState(false);
+  };
+
+  // 削除（WORK_DELETE_UNDO_DAYS 日以内なら元に戻せる）
+  const handleDelete = async () => {
+    if (!work) return;
+    if (
+      !window.confirm(
+        `「${work.title}」を削除しますか？\n${WORK_DELETE_UNDO_DAYS} 日以内なら元に戻せます。`
+      )
+    ) {
+      return;
+    }
+
+    setChangingState(true);
+    setErrorMsg(null);
+
+    const { data, error } = await db.works.remove(work.id);
+
+    if (error) {
+      setErrorMsg('作品の削除に失敗しました。時間をおいて再度お試しください。');
+      setChangingState(false);
+      return;
+    }
+
+    setWork(data);
+    setChangingState(false);
+  };
+
+  const handleRestore = async () => {
+    if (!work) return;
+    setChangingState(true);
+    setErrorMsg(null);
+
+    const { data, error } = await db.works.restore(work.id);
+
+    if (error) {
+      setErrorMsg(
+        error.code === 'invalid'
+          ? '元に戻せる期間を過ぎています。'
+          : '作品を元に戻せませんでした。時間をおいて再度お試しください。'
+      );
+      setChangingState(false);
+      return;
+    }
+
+    setWork(data);
+    setChangingState(false);
+  };
+
+  // 依頼作成
+  const handleCreateRequest = async () => {
+    if (!work) return;
+
+    setRequestState({ loading: true, errorMsg: null });
+
+    const { data: user } = await db.auth.getUser();
+    const target = `/requests/new?${new URLSearchParams({
+      creatorId: work.creator_id,
+      workId: work.id,
+    })}`;
+
+    if (!user) {
+      router.push(loginHref(target));
+      setRequestState({ loading: false, errorMsg: null });
+      return;
+    }
+
+    router.push(target);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-[calc(100vh-56px)] flex items-center justify-center text-xs text-slate-400">
+        作品を読み込み中です…
+      </div>
+    );
+  }
+
+  if (errorMsg || !work) {
+    return (
+      <div className="min-h-[calc(100vh-56px)] flex items-center justify-center">
+        <div className="rounded-2xl border border-red-500/40 bg-red-950/40 px-4 py-3 text-xs text-red-100">
+          {errorMsg || '作品が見つかりませんでした。'}
+        </div>
+      </div>
+    );
+  }
+
+  // 削除・アーカイブされた作品はオーナー以外には見せない
+  if (!isOwner && !isWorkAvailable(work)) {
+    return (
+      <div className="min-h-[calc(100vh-56px)] flex items-center justify-center">
+        <div className="rounded-2xl border border-slate-700 bg-slate-900/70 px-4 py-3 text-xs text-slate-300">
+          {work.deleted_at ? 'この作品は削除されました。' : 'この作品は現在公開されていません。'}
+        </div>
+      </div>
+    );
+  }
+
+  const isPublic = work.is_public ?? true;
+  const restoreDeadline = workRestoreDeadline(work);
+  // プロフィールが読めないときは作品の設定だけで判断する（最終判断は依頼作成時）
+  const pausedMessage = creatorProfile
+    ? requestsPausedMessage(creatorProfile, work)
+    : work.accepting_requests
+      ? null
+      : 'この作品への依頼は現在受け付けていません。';
+
+  return (
+    <div className="min-h-[calc(100vh-56px)]">
+      <main className="mx-auto w-full max-w-5xl space-y-6">
+
+        {/* 削除済み（オーナーだけが見る）：期限内なら元に戻せる */}
+        {work.deleted_at && restoreDeadline && (
+          <div className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-red-500/40 bg-red-950/40 px-4 py-3 text-xs text-red-100">
+            <span>
+              この作品は削除されました。
+              {canRestoreWork(work)
+                ? `${formatDateTime(restoreDeadline.toISOString())} まで元に戻せます。`
+                : 'まもなく完全に削除されます。'}
+            </span>
+            {canRestoreWork(work) && (
+              <button
+                type="button"
+                onClick={handleRestore}
+                disabled={changingState}
+                className="rounded-full border border-red-300/60 bg-red-500/10 px-3 py-1.5 text-[11px] font-medium text-red-50 hover:bg-red-500/20 disabled:opacity-60"
+              >
+                {changingState ? '処理中…' : '元に戻す'}
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* --- 上部ヘッダー --- */}
+        <header className="flex items-center justify-between gap-3">
+          <div className="flex flex-col gap-2">
+
+            {/* 戻る */}
+            <button
+              type="button"
+              onClick={() => router.push('/works')}
+              className="inline-flex items-center gap-1 self-start rounded-full border border-slate-700 bg-slate-900/70 px-3 py-1 text-[11px] text-slate-200 hover:bg-slate-800/80"
+            >
+              ← 作品一覧に戻る
+            </button>
+
+            {/* ラベル */}
+            <div className="inline-flex items-center gap-2 rounded-full border border-white/10 bg-white/5 px-3 py-1 text-[11px] text-slate-200">
+              <span className="h-1.5 w-1.5 rounded-full bg-pink-400" />
+              <span>作品詳細</span>
+            </div>
+
+            {/* タイトル（白文字） */}
+            <h1 className="text-xl sm:text-2xl font-semibold tracking-tight text-white">
+              {work.title}
+            </h1>
+
+            {/* 公開日 */}
+            <p className="text-[11px] text-slate-400">
+              公開日: {formatDateTime(work.created_at)}
+            </p>
+
+            {/* ❤️ いいねボタン */}
+            {isWorkAvailable(work) && (
+              <div className="mt-1">
+                <WorkLikeButton workId={work.id} creatorId={work.creator_id} />
+              </div>
+            )}
+          </div>
+
+          {/* 右側：オーナー向けアクション */}
+          {isOwner && !work.deleted_at && (
+            <div className="flex flex-col items-end gap-2 text-xs">
+              <span
+                className={`inline-flex items-center gap-1 rounded-full border px-3 py-1 ${
+                  isPublic
+                    ? 'border-emerald-500/50 bg-emerald-950/40 text-emerald-100'
+                    : 'border-slate-600 bg-slate-900/70 text-slate-200'
+                }`}
+              >
+                <span className="h-1.5 w-1.5 rounded-full bg-emerald-400" />
+                <span>{work.archived_at ? 'アーカイブ中' : isPublic ? '公開中' : '非公開'}</span>
+              </span>
+              {!work.accepting_requests && (
+                <span className="text-[10px] text-slate-400">この作品への依頼は停止中です</span>
+              )}
+
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => router.push(`/works/${work.id}/edit`)}
+                  className="rounded-full border border-slate-600 bg-slate-900/70 px-3 py-1.5 text-[11px] text-slate-100 hover:bg-slate-800/80"
+                >
+                  作品を編集する
+                </button>
+
+                <button
+                  type="button"
+                  onClick={handleToggleVisibility}
+                  disabled={updatingVisibility}
+                  className={`rounded-full px-3 py-1.5 text-[11px] font-medium transition ${
+                    isPublic
+                      ? 'border border-yellow-500/60 bg-yellow-500/10 text-yellow-100 hover:bg-yellow-500/20'
+                      : 'border border-emerald-500/60 bg-emerald-500/10 text-emerald-100 hover:bg-emerald-500/20'
+                  } disabled:opacity-60`}
+                >
+                  {updatingVisibility
+                    ? '更新中…'
+                    : isPublic
+                    ? 'この作品を非公開にする'
+                    : '作品を公開に戻す'}
+                </button>
+              </div>
+
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={handleToggleArchive}
+                  disabled={changingState}
+                  className="rounded-full border border-slate-600 bg-slate-900/70 px-3 py-1.5 text-[11px] text-slate-100 hover:bg-slate-800/80 disabled:opacity-60"
+                >
+                  {work.archived_at ? 'アーカイブを解除' : 'アーカイブする'}
+                </button>
+
+                <button
+                  type="button"
+                  onClick={handleDelete}
+                  disabled={changingState}
+                  className="rounded-full border border-red-500/60 bg-red-500/10 px-3 py-1.5 text-[11px] font-medium text-red-100 hover:bg-red-500/20 disabled:opacity-60"
+                >
+                  作品を削除する
+                </button>
+              </div>
+            </div>
+          )}
+        </header>
+
+        {/* メイン */}
+        <section className="grid gap-6 lg:grid-cols-[1.6fr_1.1fr]">
+
+          {/* 左：画像 */}
+          <div className="space-y-4">
+            {/* work_images がない古い作品は image_url の 1 枚だけ */}
+            <WorkGallery
+              images={
+                images.length > 0
+                  ? images
+                  : work.image_url
+                  ? [{ id: work.id, url: work.image_url, meta: work.image_meta }]
+                  : []
+              }
+              title={work.title}
+            />
+
+            <TagChips tags={tags} />
+
+            {/* 説明 */}
+            {work.description && (
+              <div className="rounded-2xl border border-white/10 bg-slate-950/70 px-4 py-3 text-xs text-slate-200">
+                <h2 className="mb-2 text-[13px] font-semibold">作品の説明</h2>
+                <p className="whitespace-pre-wrap text-[12px]">
+                  {work.description}
+                </p>
+              </div>
+            )}
+          </div>
+
+          {/* 右：クリエイター情報 */}
+          <aside className="space-y-4">
+
+            {/* プロフィールカード */}
+            <div className="rounded-3xl border border-white/10 bg-slate-950/80 px-4 py-4">
+              <div className="flex items-start justify-between gap-3">
+                <div className="flex items-center gap-3">
+                  <Avatar
+                    name={creatorProfile?.display_name ?? null}
+                    url={creatorProfile?.avatar_url ?? null}
+                    size="md"
+                  />
+                  <div>
+                    <div className="text-sm font-semibold text-slate-50">
+                      {creatorProfile?.display_name}
+                    </div>
+                    <div className="text-[11px] text-slate-400">
+                      {creatorProfile?.genre || 'ジャンル未設定'}
+                    </div>
+                    {creatorProfile && (
+                      <div className="mt-1">
+                        <AvailabilityBadge open={isAcceptingRequests(creatorProfile)} />
+                      </div>
+                    )}
+                  </div>
+                </div>
+
+                <button
+                  type="button"
+                  onClick={() => router.push(`/profile/${work.creator_id}`)}
+                  className="rounded-full border border-slate-600 bg-slate-900/70 px-3 py-1.5 text-[11px] text-slate-100 hover:bg-slate-800/80"
+                >
+                  プロフィールを見る
+                </button>
+              </div>
+
+              {creatorProfile?.bio && (
+                <p className="mt-3 text-[11px] text-slate-300">
+                  {creatorProfile.bio}
+                </p>
+              )}
+
+              <div className="mt-3 grid grid-cols-2 gap-2 text-[11px] text-slate-400">
+                <div className="rounded-xl border border-slate-800 bg-slate-900/60 px-3 py-2">
+                  <div className="text-[10px] text-slate-500">活動エリア</div>
+                  <div>{creatorProfile?.area || '未設定'}</div>
+                </div>
+                <div className="rounded-xl border border-slate-800 bg-slate-900/60 px-3 py-2">
+                  <div className="mb-0.5 text-[10px] text-slate-500">外部リンク</div>
+                  <ProfileLinks links={creatorProfile?.links ?? []} />
+                </div>
+              </div>
+            </div>
+
+            {/* 依頼導線 */}
+            {!isOwner && (
+              <div className="rounded-3xl border border-pink-500/30 bg-pink-500/5 px-4 py-4">
+                <h2 className="text-sm font-semibold text-slate-50">このクリエイターに依頼する</h2>
+                {pausedMessage ? (
+                  <p className="mt-1 whitespace-pre-line text-[11px] text-amber-200">
+                    {pausedMessage}
+                  </p>
+                ) : (
+                  <p className="mt-1 text-[11px] text-slate-200">
+                    次画面で「依頼タイトル」「内容」「希望時期」などを入力できます。
+                  </p>
+                )}
+
+                <button
+                  type="button"
+                  onClick={handleCreateRequest}
+                  disabled={requestState.loading || pausedMessage !== null}
+                  className="mt-3 w-full rounded-full bg-gradient-to-r from-pink-500 to-sky-500 px-4 py-2 text-xs font-semibold text-white shadow-md hover:brightness-110 disabled:opacity-60"
+                >
+                  {requestState.loading ? '画面を開いています…' : '依頼フォームを開く'}
+                </button>
+              </div>
+            )}
+
+          </aside>
+        </section>
+
+      </main>
+    </div>
+  );
+}
\ No newline at end of file
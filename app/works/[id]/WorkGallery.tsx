@@ -0,0 +1,138 @@
+// app/works/[id]/WorkGallery.tsx
+'use client';
+
+import { useRef, useState } from 'react';
+import WorkImage from '@/components/WorkImage';
+import type { ImageMeta } from '@/lib/data';
+
+type GalleryImage = {
+  id: string;
+  url: string;
+  meta: ImageMeta | null;
+};
+
+type Props = {
+  images: GalleryImage[];
+  title: string;
+};
+
+// 横スクロール＋scroll-snap（タッチ端末ではそのままスワイプできる）
+export default function WorkGallery({ images, title }: Props) {
+  const trackRef = useRef<HTMLDivElement | null>(null);
+  const [index, setIndex] = useState(0);
+
+  const scrollTo = (next: number) => {
+    const track = trackRef.current;
+    if (!track) return;
+    const clamped = Math.min(Math.max(next, 0), images.length - 1);
+    track.scrollTo({ left: clamped * track.clientWidth, behavior: 'smooth' });
+  };
+
+  const handleScroll = () => {
+    const track = trackRef.current;
+    if (!track || track.clientWidth === 0) return;
+    setIndex(Math.round(track.scrollLeft / track.clientWidth));
+  };
+
+  if (images.length === 0) {
+    return (
+      <div className="overflow-hidden rounded-3xl border border-white/10 bg-slate-900/80">
+        <div className="relative w-full pt-[75%] bg-slate-900">
+          <div className="absolute inset-0 flex items-center justify-center text-xs text-slate-500">
+            画像が登録されていません
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const multiple = images.length > 1;
+
+  return (
+    <div className="space-y-2">
+      <div
+        className="relative overflow-hidden rounded-3xl border border-white/10 bg-slate-900/80"
+        onKeyDown={(e) => {
+          if (e.key === 'ArrowLeft') scrollTo(index - 1);
+          if (e.key === 'ArrowRight') scrollTo(index + 1);
+        }}
+        tabIndex={multiple ? 0 : undefined}
+        aria-roledescription={multiple ? 'carousel' : undefined}
+        aria-label={multiple ? `${title}の画像（${images.length} 枚）` : undefined}
+      >
+        <div
+          ref={trackRef}
+          onScroll={handleScroll}
+          className="flex snap-x snap-mandatory overflow-x-auto scroll-smooth [scrollbar-width:none] [&::-webkit-scrollbar]:hidden"
+        >
+          {images.map((image, i) => (
+            <div key={image.id} className="relative w-full shrink-0 snap-center pt-[75%] bg-slate-900">
+              <WorkImage
+                url={image.url}
+                meta={image.meta}
+                size="large"
+                sizes="(min-width: 1024px) 600px, 100vw"
+                alt={multiple ? `${title}（${i + 1} / ${images.length}）` : title}
+                loading={i === 0 ? 'eager' : 'lazy'}
+                className="absolute inset-0 h-full w-full object-cover"
+              />
+            </div>
+          ))}
+        </div>
+
+        {multiple && (
+          <>
+            <button
+              type="button"
+              onClick={() => scrollTo(index - 1)}
+              disabled={index === 0}
+              aria-label="前の画像"
+              className="absolute left-2 top-1/2 -translate-y-1/2 flex h-8 w-8 items-center justify-center rounded-full bg-slate-950/70 text-sm text-slate-100 hover:bg-slate-900 transition disabled:opacity-0"
+            >
+              ‹
+            </button>
+            <button
+              type="button"
+              onClick={() => scrollTo(index + 1)}
+              disabled={index === images.length - 1}
+              aria-label="次の画像"
+              className="absolute right-2 top-1/2 -translate-y-1/2 flex h-8 w-8 items-center justify-center rounded-full bg-slate-950/70 text-sm text-slate-100 hover:bg-slate-900 transition disabled:opacity-0"
+            >
+              ›
+            </button>
+            <span className="absolute right-3 top-3 rounded-full bg-slate-950/70 px-2 py-0.5 text-[10px] text-slate-200">
+              {index + 1} / {images.length}
+            </span>
+          </>
+        )}
+      </div>
+
+      {/* サムネイル */}
+      {multiple && (
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {images.map((image, i) => (
+            <button
+              key={image.id}
+              type="button"
+              onClick={() => scrollTo(i)}
+              aria-label={`${i + 1} 枚目を表示`}
+              aria-current={i === index}
+              className={`relative h-14 w-14 shrink-0 overflow-hidden rounded-xl border transition ${
+                i === index ? 'border-pink-400' : 'border-slate-800 opacity-60 hover:opacity-100'
+              }`}
+            >
+              <WorkImage
+                url={image.url}
+                meta={image.meta}
+                size="thumb"
+                sizes="56px"
+                alt=""
+                className="h-full w-full object-cover"
+              />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
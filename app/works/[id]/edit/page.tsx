@@ -1,19 +1,16 @@
 // app/works/[id]/edit/page.tsx
 'use client';
 
-import { useEffect, useState, ChangeEvent, FormEvent } from 'react';
+import { useEffect, useState, FormEvent } from 'react';
 import { useRouter, useParams } from 'next/navigation';
-import { supabase } from '@/lib/supabaseClient';
-
-type WorkRow = {
-  id: string;
-  creator_id: string;
-  title: string;
-  description: string | null;
-  image_url: string | null;
-  created_at: string;
-  is_public: boolean | null;
-};
+import WorkImagesEditor, {
+  saveWorkImages,
+  toEditableImages,
+  type EditableWorkImage,
+} from '@/components/WorkImagesEditor';
+import TagInput from '@/components/TagInput';
+import { loginHref } from '@/lib/authRoutes';
+import { db, workStoragePathOf, type WorkRow } from '@/lib/data';
 
 export default function WorkEditPage() {
   const router = useRouter();
@@ -32,8 +29,10 @@ export default function WorkEditPage() {
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [isPublic, setIsPublic] = useState(true);
-  const [imageFile, setImageFile] = useState<File | null>(null);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [acceptingRequests, setAcceptingRequests] = useState(true);
+  const [tags, setTags] = useState<string[]>([]);
+  const [images, setImages] = useState<EditableWorkImage[]>([]);
+  const [coverKey, setCoverKey] = useState<string | null>(null);
 
   // 初期ロード：作品取得＋オーナー判定
   useEffect(() => {
@@ -45,32 +44,24 @@ export default function WorkEditPage() {
       setForbidden(false);
 
       // 1. 認証ユーザ取得
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
+      const { data: user } = await db.auth.getUser();
 
       if (!user) {
-        setForbidden(true);
-        setLoading(false);
+        // 未ログインならログイン画面へ（戻ったらこの編集画面）
+        router.push(loginHref(`/works/${workId}/edit`));
         return;
       }
 
       // 2. 作品取得
-      const { data, error } = await supabase
-        .from('works')
-        .select('*')
-        .eq('id', workId)
-        .single();
-
-      if (error || !data) {
-        console.error('WorkEdit: 作品取得エラー', error?.message);
+      const { data: w, error } = await db.works.getById(workId);
+
+      if (error) {
+        console.error('WorkEdit: 作品取得エラー', error.message);
         setErrorMsg('作品情報を取得できませんでした。削除された可能性があります。');
         setLoading(false);
         return;
       }
 
-      const w = data as WorkRow;
-
       // 3. オーナー判定
       if (w.creator_id !== user.id) {
         setForbidden(true);
@@ -78,81 +69,84 @@ export default function WorkEditPage() {
         return;
       }
 
-      // 4. フォームに反映
+      // 4. 画像一覧（work_images がない古い作品は image_url の 1 枚をカバーとして扱う）
+      const { data: imageRows, error: imagesError } = await db.works.listImages(w.id);
+
+      if (imagesError) {
+        console.error('WorkEdit: 画像取得エラー', imagesError.message);
+      }
+
+      const editable = toEditableImages(imageRows ?? []);
+      if (editable.length === 0 && w.image_url) {
+        editable.push({
+          key: 'current',
+          previewUrl: w.image_url,
+          file: null,
+          storage_path: w.image_meta ? null : workStoragePathOf(w.image_url),
+          url: w.image_url,
+          meta: w.image_meta,
+        });
+      }
+
+      // 5. タグ
+      const { data: tagRows, error: tagsError } = await db.tags.listForWork(w.id);
+
+      if (tagsError) {
+        console.error('WorkEdit: タグ取得エラー', tagsError.message);
+      }
+
+      // 6. フォームに反映
       setWork(w);
       setTitle(w.title);
       setDescription(w.description || '');
       setIsPublic(w.is_public ?? true);
-      setPreviewUrl(w.image_url || null);
+      setAcceptingRequests(w.accepting_requests);
+      setTags((tagRows ?? []).map((tag) => tag.name));
+      setImages(editable);
+      setCoverKey(imageRows?.find((row) => row.is_cover)?.id ?? editable[0]?.key ?? null);
 
       setLoading(false);
     };
 
     void init();
-  }, [workId]);
+  }, [workId, router]);
 
-  // 画像選択時の preview
-  const handleImageChange = (e: ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) {
-      setImageFile(null);
-      return;
-    }
-
-    setImageFile(file);
-
-    const url = URL.createObjectURL(file);
-    setPreviewUrl(url);
+  const handleImagesChange = (next: EditableWorkImage[], nextCoverKey: string | null) => {
+    setImages(next);
+    setCoverKey(nextCoverKey);
   };
 
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
     if (!work) return;
 
+    if (images.length === 0) {
+      setErrorMsg('作品画像を 1 枚以上登録してください。');
+      return;
+    }
+
     setSaving(true);
     setErrorMsg(null);
     setInfoMsg(null);
 
     try {
-      let imageUrl = work.image_url;
-
-      // 1. 画像を新しく選択している場合はアップロード
-      if (imageFile) {
-        const fileExt = imageFile.name.split('.').pop();
-        const fileName = `${work.id}-${Date.now()}.${fileExt}`;
-        const filePath = `${fileName}`;
-
-        const { error: uploadError } = await supabase.storage
-          .from('works')
-          .upload(filePath, imageFile, {
-            cacheControl: '3600',
-            upsert: true,
-          });
-
-        if (uploadError) {
-          console.error('WorkEdit: 画像アップロードエラー', uploadError.message);
-          setErrorMsg('画像のアップロードに失敗しました。別の画像でお試しください。');
-          setSaving(false);
-          return;
-        }
-
-        const { data: publicUrlData } = supabase.storage
-          .from('works')
-          .getPublicUrl(filePath);
-
-        imageUrl = publicUrlData?.publicUrl ?? imageUrl;
+      // 1. 新しい画像をアップロードし、並び順・カバーを保存（カバーが works.image_url になる）
+      const { error: imagesError } = await saveWorkImages(work, images, coverKey);
+
+      if (imagesError) {
+        console.error('WorkEdit: 画像保存エラー', imagesError.message);
+        setErrorMsg('画像の保存に失敗しました。別の画像でお試しください。');
+        setSaving(false);
+        return;
       }
 
       // 2. works テーブルを更新
-      const { error: updateError } = await supabase
-        .from('works')
-        .update({
-          title: title.trim(),
-          description: description.trim(),
-          image_url: imageUrl,
-          is_public: isPublic,
-        })
-        .eq('id', work.id);
+      const { error: updateError } = await db.works.update(work.id, {
+        title: title.trim(),
+        description: description.trim(),
+        is_public: isPublic,
+        accepting_requests: acceptingRequests,
+      });
 
       if (updateError) {
         console.error('WorkEdit: 更新エラー', updateError.message);
@@ -161,6 +155,16 @@ export default function WorkEditPage() {
         return;
       }
 
+      // 3. タグを置き換える（works.tags のキャッシュも更新される）
+      const { error: tagsError } = await db.tags.setForWork(work.id, tags);
+
+      if (tagsError) {
+        console.error('WorkEdit: タグ保存エラー', tagsError.message);
+        setErrorMsg('タグの保存に失敗しました。時間をおいて再度お試しください。');
+        setSaving(false);
+        return;
+      }
+
       setInfoMsg('作品を更新しました。');
       // 少し待ってから詳細画面へ戻す
       setTimeout(() => {
@@ -240,37 +244,20 @@ export default function WorkEditPage() {
         {/* フォーム */}
         <section className="rounded-3xl border border-white/10 bg-slate-950/80 px-4 py-5 sm:px-6 sm:py-6 shadow-[0_18px_45px_rgba(15,23,42,0.8)]">
           <form onSubmit={handleSubmit} className="space-y-4 text-xs text-slate-100">
-            {/* 画像プレビュー＋アップロード */}
+            {/* 画像（並び替え・カバー選択） */}
             <div className="space-y-2">
               <label className="block text-[11px] font-medium text-slate-200">
-                作品画像
+                作品画像 <span className="text-pink-400">*</span>
               </label>
-              <div className="flex flex-col gap-3 sm:flex-row">
-                <div className="relative h-36 w-full overflow-hidden rounded-2xl border border-slate-800 bg-slate-900 sm:w-64">
-                  {previewUrl ? (
-                    <img
-                      src={previewUrl}
-                      alt="preview"
-                      className="h-full w-full object-cover"
-                    />
-                  ) : (
-                    <div className="flex h-full w-full items-center justify-center text-[11px] text-slate-500">
-                      画像が設定されていません
-                    </div>
-                  )}
-                </div>
-                <div className="flex-1 space-y-2">
-                  <p className="text-[11px] text-slate-400">
-                    新しい画像を選択すると上書きされます。JPEG / PNG / WEBP、10MB まで。
-                  </p>
-                  <input
-                    type="file"
-                    accept="image/*"
-                    onChange={handleImageChange}
-                    className="block w-full text-[11px] text-slate-200 file:mr-2 file:rounded-full file:border-0 file:bg-slate-800 file:px-3 file:py-1.5 file:text-[11px] file:font-medium file:text-slate-100 hover:file:bg-slate-700"
-                  />
-                </div>
-              </div>
+              <p className="text-[11px] text-slate-400">
+                JPEG / PNG / WEBP、最大 10 枚。1 枚あたり 10MB まで。
+              </p>
+              <WorkImagesEditor
+                images={images}
+                coverKey={coverKey}
+                onChange={handleImagesChange}
+                disabled={saving}
+              />
             </div>
 
             {/* タイトル */}
@@ -307,6 +294,12 @@ export default function WorkEditPage() {
               <p className="mt-1 text-[10px] text-slate-500">最大 1,000 文字</p>
             </div>
 
+            {/* タグ */}
+            <div>
+              <label className="mb-1.5 block text-[11px] font-medium text-slate-200">タグ</label>
+              <TagInput tags={tags} onChange={setTags} disabled={saving} />
+            </div>
+
             {/* 公開設定 */}
             <div className="flex items-center justify-between rounded-2xl border border-slate-800 bg-slate-900/70 px-3 py-2.5">
               <div className="flex flex-col text-[11px]">
@@ -326,6 +319,25 @@ export default function WorkEditPage() {
               </label>
             </div>
 
+            {/* 依頼の受付（作品ごと） */}
+            <div className="flex items-center justify-between rounded-2xl border border-slate-800 bg-slate-900/70 px-3 py-2.5">
+              <div className="flex flex-col text-[11px]">
+                <span className="font-medium text-slate-100">依頼の受付</span>
+                <span className="text-[10px] text-slate-500">
+                  オフにすると、この作品からは依頼できなくなります。すべての依頼を止めるときはプロフィール編集の「依頼の受付状況」を使ってください。
+                </span>
+              </div>
+              <label className="inline-flex shrink-0 items-center gap-2 text-[11px]">
+                <input
+                  type="checkbox"
+                  checked={acceptingRequests}
+                  onChange={(e) => setAcceptingRequests(e.target.checked)}
+                  className="h-3.5 w-3.5 rounded border-slate-600 bg-slate-900 text-pink-500 focus:ring-pink-500"
+                />
+                <span className="text-slate-100">受け付ける</span>
+              </label>
+            </div>
+
             {/* ボタン */}
             <div className="flex justify-end gap-3 pt-2">
               <button
@@ -1,364 +1,22 @@
 // app/works/[id]/page.tsx
-'use client';
+import { notFound } from 'next/navigation';
+import { getServerDb } from '@/lib/data/server';
+import WorkDetailPageClient from './WorkDetailPageClient';
 
-import WorkLikeButton from '@/components/WorkLikeButton';
-import { useEffect, useState } from 'react';
-import { useRouter, useParams } from 'next/navigation';
-import { supabase } from '@/lib/supabaseClient';
-
-type WorkRow = {
-  id: string;
-  creator_id: string;
-  title: string;
-  description: string | null;
-  image_url: string | null;
-  created_at: string;
-  is_public: boolean | null;
-};
-
-type ProfileRow = {
-  id: string;
-  display_name: string | null;
-  bio: string | null;
-  genre: string | null;
-  area: string | null;
-  instagram_url: string | null;
+type Props = {
+  params: Promise<{ id: string }>;
 };
 
-type RequestFormState = {
-  loading: boolean;
-  errorMsg: string | null;
-};
-
-export default function WorkDetailPage() {
-  const router = useRouter();
-  const params = useParams();
-  const workId = params?.id as string;
-
-  const [work, setWork] = useState<WorkRow | null>(null);
-  const [creatorProfile, setCreatorProfile] = useState<ProfileRow | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [errorMsg, setErrorMsg] = useState<string | null>(null);
-
-  const [isOwner, setIsOwner] = useState(false);
-  const [updatingVisibility, setUpdatingVisibility] = useState(false);
-
-  const [requestState, setRequestState] = useState<RequestFormState>({
-    loading: false,
-    errorMsg: null,
-  });
-
-  // 初期ロード：作品・プロフィール・オーナー判定
-  useEffect(() => {
-    const init = async () => {
-      if (!workId) return;
-
-      setLoading(true);
-      setErrorMsg(null);
-
-      // 1. 作品取得
-      const { data: workData, error: workError } = await supabase
-        .from('works')
-        .select('*')
-        .eq('id', workId)
-        .single();
-
-      if (workError || !workData) {
-        setErrorMsg('作品の情報を取得できませんでした。削除された可能性があります。');
-        setLoading(false);
-        return;
-      }
-
-      const w = workData as WorkRow;
-      setWork(w);
-
-      // 2. クリエイタープロフィール取得
-      const { data: profileData } = await supabase
-        .from('profiles')
-        .select('id, display_name, bio, genre, area, instagram_url')
-        .eq('id', w.creator_id)
-        .single();
-
-      if (profileData) setCreatorProfile(profileData as ProfileRow);
-
-      // 3. オーナー判定
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-
-      setIsOwner(user?.id === w.creator_id);
-
-      setLoading(false);
-    };
-
-    void init();
-  }, [workId]);
-
-  const formatDateTime = (iso: string) =>
-    new Date(iso).toLocaleString('ja-JP', {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric',
-    });
-
-  // 公開 / 非公開切替
-  const handleToggleVisibility = async () => {
-    if (!work) return;
-    setUpdatingVisibility(true);
-    setErrorMsg(null);
-
-    const nextVisible = !work.is_public;
-
-    const { error } = await supabase
-      .from('works')
-      .update({ is_public: nextVisible })
-      .eq('id', work.id);
-
-    if (error) {
-      setErrorMsg('公開状態の更新に失敗しました。時間をおいて再度お試しください。');
-      setUpdatingVisibility(false);
-      return;
-    }
-
-    setWork({ ...work, is_public: nextVisible });
-    setUpdatingVisibility(false);
-  };
-
-  // 依頼作成
-  const handleCreateRequest = async () => {
-    if (!work) return;
-
-    setRequestState({ loading: true, errorMsg: null });
+// 非公開・アーカイブ・削除済みの作品は、オーナーと依頼の当事者以外には RLS で読めないので 404 にする
+export default async function WorkDetailPage({ params }: Props) {
+  const { id } = await params;
+  const serverDb = await getServerDb();
 
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-
-    if (!user) {
-      router.push(`/auth/login?next=/requests/new?creatorId=${work.creator_id}&workId=${work.id}`);
-      setRequestState({ loading: false, errorMsg: null });
-      return;
-    }
-
-    router.push(`/requests/new?creatorId=${work.creator_id}&workId=${work.id}`);
-  };
-
-  if (loading) {
-    return (
-      <div className="min-h-[calc(100vh-56px)] flex items-center justify-center text-xs text-slate-400">
-        作品を読み込み中です…
-      </div>
-    );
+  if (serverDb) {
+    const { error } = await serverDb.works.getById(id);
+    if (error?.code === 'not_found' || error?.code === 'invalid') notFound();
+    if (error) console.error('WorkDetail: 作品の確認エラー', error.message);
   }
 
-  if (errorMsg || !work) {
-    return (
-      <div className="min-h-[calc(100vh-56px)] flex items-center justify-center">
-        <div className="rounded-2xl border border-red-500/40 bg-red-950/40 px-4 py-3 text-xs text-red-100">
-          {errorMsg || '作品が見つかりませんでした。'}
-        </div>
-      </div>
-    );
-  }
-
-  const isPublic = work.is_public ?? true;
-
-  return (
-    <div className="min-h-[calc(100vh-56px)]">
-      <main className="mx-auto w-full max-w-5xl space-y-6">
-
-        {/* --- 上部ヘッダー --- */}
-        <header className="flex items-center justify-between gap-3">
-          <div className="flex flex-col gap-2">
-
-            {/* 戻る */}
-            <button
-              type="button"
-              onClick={() => router.push('/works')}
-              className="inline-flex items-center gap-1 self-start rounded-full border border-slate-700 bg-slate-900/70 px-3 py-1 text-[11px] text-slate-200 hover:bg-slate-800/80"
-            >
-              ← 作品一覧に戻る
-            </button>
-
-            {/* ラベル */}
-            <div className="inline-flex items-center gap-2 rounded-full border border-white/10 bg-white/5 px-3 py-1 text-[11px] text-slate-200">
-              <span className="h-1.5 w-1.5 rounded-full bg-pink-400" />
-              <span>作品詳細</span>
-            </div>
-
-            {/* タイトル（白文字） */}
-            <h1 className="text-xl sm:text-2xl font-semibold tracking-tight text-white">
-              {work.title}
-            </h1>
-
-            {/* 公開日 */}
-            <p className="text-[11px] text-slate-400">
-              公開日: {formatDateTime(work.created_at)}
-            </p>
-
-            {/* ❤️ いいねボタン */}
-            <div className="mt-1">
-              <WorkLikeButton workId={work.id} creatorId={work.creator_id} />
-            </div>
-          </div>
-
-          {/* 右側：オーナー向けアクション */}
-          {isOwner && (
-            <div className="flex flex-col items-end gap-2 text-xs">
-              <span
-                className={`inline-flex items-center gap-1 rounded-full border px-3 py-1 ${
-                  isPublic
-                    ? 'border-emerald-500/50 bg-emerald-950/40 text-emerald-100'
-                    : 'border-slate-600 bg-slate-900/70 text-slate-200'
-                }`}
-              >
-                <span className="h-1.5 w-1.5 rounded-full bg-emerald-400" />
-                <span>{isPublic ? '公開中' : '非公開'}</span>
-              </span>
-
-              <div className="flex gap-2">
-                <button
-                  type="button"
-                  onClick={() => router.push(`/works/${work.id}/edit`)}
-                  className="rounded-full border border-slate-600 bg-slate-900/70 px-3 py-1.5 text-[11px] text-slate-100 hover:bg-slate-800/80"
-                >
-                  作品を編集する
-                </button>
-
-                <button
-                  type="button"
-                  onClick={handleToggleVisibility}
-                  disabled={updatingVisibility}
-                  className={`rounded-full px-3 py-1.5 text-[11px] font-medium transition ${
-                    isPublic
-                      ? 'border border-yellow-500/60 bg-yellow-500/10 text-yellow-100 hover:bg-yellow-500/20'
-                      : 'border border-emerald-500/60 bg-emerald-500/10 text-emerald-100 hover:bg-emerald-500/20'
-                  } disabled:opacity-60`}
-                >
-                  {updatingVisibility
-                    ? '更新中…'
-                    : isPublic
-                    ? 'この作品を非公開にする'
-                    : '作品を公開に戻す'}
-                </button>
-              </div>
-            </div>
-          )}
-        </header>
-
-        {/* メイン */}
-        <section className="grid gap-6 lg:grid-cols-[1.6fr_1.1fr]">
-
-          {/* 左：画像 */}
-          <div className="space-y-4">
-            <div className="overflow-hidden rounded-3xl border border-white/10 bg-slate-900/80">
-              <div className="relative w-full pt-[75%] bg-slate-900">
-                {work.image_url ? (
-                  <img
-                    src={work.image_url}
-                    alt={work.title}
-                    className="absolute inset-0 h-full w-full object-cover"
-                  />
-                ) : (
-                  <div className="absolute inset-0 flex items-center justify-center text-xs text-slate-500">
-                    画像が登録されていません
-                  </div>
-                )}
-              </div>
-            </div>
-
-            {/* 説明 */}
-            {work.description && (
-              <div className="rounded-2xl border border-white/10 bg-slate-950/70 px-4 py-3 text-xs text-slate-200">
-                <h2 className="mb-2 text-[13px] font-semibold">作品の説明</h2>
-                <p className="whitespace-pre-wrap text-[12px]">
-                  {work.description}
-                </p>
-              </div>
-            )}
-          </div>
-
-          {/* 右：クリエイター情報 */}
-          <aside className="space-y-4">
-
-            {/* プロフィールカード */}
-            <div className="rounded-3xl border border-white/10 bg-slate-950/80 px-4 py-4">
-              <div className="flex items-start justify-between gap-3">
-                <div className="flex items-center gap-3">
-                  <div className="flex h-10 w-10 items-center justify-center rounded-full bg-gradient-to-br from-pink-400 via-sky-400 to-emerald-400 text-xs font-semibold text-slate-950">
-                    {(creatorProfile?.display_name || '？').charAt(0).toUpperCase()}
-                  </div>
-                  <div>
-                    <div className="text-sm font-semibold text-slate-50">
-                      {creatorProfile?.display_name}
-                    </div>
-                    <div className="text-[11px] text-slate-400">
-                      {creatorProfile?.genre || 'ジャンル未設定'}
-                    </div>
-                  </div>
-                </div>
-
-                <button
-                  type="button"
-                  onClick={() => router.push(`/profile/${work.creator_id}`)}
-                  className="rounded-full border border-slate-600 bg-slate-900/70 px-3 py-1.5 text-[11px] text-slate-100 hover:bg-slate-800/80"
-                >
-                  プロフィールを見る
-                </button>
-              </div>
-
-              {creatorProfile?.bio && (
-                <p className="mt-3 text-[11px] text-slate-300">
-                  {creatorProfile.bio}
-                </p>
-              )}
-
-              <div className="mt-3 grid grid-cols-2 gap-2 text-[11px] text-slate-400">
-                <div className="rounded-xl border border-slate-800 bg-slate-900/60 px-3 py-2">
-                  <div className="text-[10px] text-slate-500">活動エリア</div>
-                  <div>{creatorProfile?.area || '未設定'}</div>
-                </div>
-                <div className="rounded-xl border border-slate-800 bg-slate-900/60 px-3 py-2">
-                  <div className="text-[10px] text-slate-500">外部リンク</div>
-                  {creatorProfile?.instagram_url ? (
-                    <a
-                      href={creatorProfile.instagram_url}
-                      target="_blank"
-                      rel="noreferrer"
-                      className="text-sky-300 underline hover:text-sky-200"
-                    >
-                      ポートフォリオを見る
-                    </a>
-                  ) : (
-                    '未登録'
-                  )}
-                </div>
-              </div>
-            </div>
-
-            {/* 依頼導線 */}
-            {!isOwner && (
-              <div className="rounded-3xl border border-pink-500/30 bg-pink-500/5 px-4 py-4">
-                <h2 className="text-sm font-semibold text-slate-50">このクリエイターに依頼する</h2>
-                <p className="mt-1 text-[11px] text-slate-200">
-                  次画面で「依頼タイトル」「内容」「希望時期」などを入力できます。
-                </p>
-
-                <button
-                  type="button"
-                  onClick={handleCreateRequest}
-                  disabled={requestState.loading}
-                  className="mt-3 w-full rounded-full bg-gradient-to-r from-pink-500 to-sky-500 px-4 py-2 text-xs font-semibold text-white shadow-md hover:brightness-110 disabled:opacity-60"
-                >
-                  {requestState.loading ? '画面を開いています…' : '依頼フォームを開く'}
-                </button>
-              </div>
-            )}
-
-          </aside>
-        </section>
-
-      </main>
-    </div>
-  );
-}
\ No newline at end of file
+  return <WorkDetailPageClient />;
+}
@@ -0,0 +1,26 @@
+// app/works/loading.tsx
+export default function WorksLoading() {
+  return (
+    <div className="min-h-[calc(100vh-56px)]">
+      <main className="mx-auto w-full max-w-6xl px-4 py-6 sm:px-6 lg:px-8">
+        <section className="rounded-3xl border border-white/10 bg-slate-950/60 px-3 py-4 sm:px-5 sm:py-6 shadow-[0_18px_45px_rgba(15,23,42,0.8)] backdrop-blur">
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {Array.from({ length: 6 }).map((_, i) => (
+              <div
+                key={i}
+                className="rounded-2xl border border-slate-800 bg-slate-900/80 overflow-hidden animate-pulse"
+              >
+                <div className="h-40 w-full bg-slate-800" />
+                <div className="space-y-2 px-4 py-3">
+                  <div className="h-4 w-3/4 rounded bg-slate-800" />
+                  <div className="h-3 w-1/2 rounded bg-slate-800" />
+                  <div className="h-3 w-full rounded bg-slate-800" />
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+      </main>
+    </div>
+  );
+}
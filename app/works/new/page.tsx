@@ -1,53 +1,56 @@
 // app/works/new/page.tsx
 'use client';
 
-import { useEffect, useState, ChangeEvent, FormEvent } from 'react';
+import { useEffect, useState, FormEvent } from 'react';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
-import { supabase } from '@/lib/supabaseClient';
-
-type Role = 'creator' | 'client' | null;
+import WorkImagesEditor, {
+  saveWorkImages,
+  type EditableWorkImage,
+} from '@/components/WorkImagesEditor';
+import TagInput from '@/components/TagInput';
+import { loginHref } from '@/lib/authRoutes';
+import { db, hasRole } from '@/lib/data';
 
 export default function NewWorkPage() {
   const router = useRouter();
 
-  const [role, setRole] = useState<Role>(null);
+  const [canPost, setCanPost] = useState(false);
   const [checkingAuth, setCheckingAuth] = useState(true);
 
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
-  const [tags, setTags] = useState('');
-  const [file, setFile] = useState<File | null>(null);
+  const [tags, setTags] = useState<string[]>([]);
+  const [images, setImages] = useState<EditableWorkImage[]>([]);
+  const [coverKey, setCoverKey] = useState<string | null>(null);
 
   const [loading, setLoading] = useState(false);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  // 作品は保存できたが画像・公開でつまずいたとき（もう一度投稿すると二重になるので編集画面へ案内する）
+  const [savedWork, setSavedWork] = useState<{ id: string; message: string } | null>(null);
 
   // 認証 & ロールチェック
   useEffect(() => {
     const checkAuth = async () => {
       setCheckingAuth(true);
 
-      const {
-        data: { user },
-        error,
-      } = await supabase.auth.getUser();
+      const { data: user, error } = await db.auth.getUser();
 
       if (error || !user) {
         // 未ログイン → ログイン画面へ
-        router.push('/auth/login?next=/works/new');
+        router.push(loginHref('/works/new'));
         return;
       }
 
-      const { data: profile, error: profileError } = await supabase
-        .from('profiles')
-        .select('role')
-        .eq('id', user.id)
-        .maybeSingle();
+      const { data: profile, error: profileError } = await db.profiles.getById(user.id);
 
       if (profileError) {
-        console.error('プロフィール取得エラー:', profileError.message);
-        setErrorMsg('プロフィール情報の取得に失敗しました。時間をおいて再度お試しください。');
+        if (profileError.code !== 'not_found') {
+          console.error('プロフィール取得エラー:', profileError.message);
+          setErrorMsg('プロフィール情報の取得に失敗しました。時間をおいて再度お試しください。');
+        }
       } else {
-        setRole((profile?.role as Role) ?? null);
+        setCanPost(hasRole(profile, 'creator'));
       }
 
       setCheckingAuth(false);
@@ -56,9 +59,9 @@ export default function NewWorkPage() {
     checkAuth();
   }, [router]);
 
-  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
-    const f = e.target.files?.[0] || null;
-    setFile(f);
+  const handleImagesChange = (next: EditableWorkImage[], nextCoverKey: string | null) => {
+    setImages(next);
+    setCoverKey(nextCoverKey);
   };
 
   const handleSubmit = async (e: FormEvent) => {
@@ -69,8 +72,8 @@ export default function NewWorkPage() {
       setErrorMsg('作品タイトルを入力してください。');
       return;
     }
-    if (!file) {
-      setErrorMsg('作品画像を 1 枚選択してください。');
+    if (images.length === 0) {
+      setErrorMsg('作品画像を 1 枚以上選択してください。');
       return;
     }
 
@@ -78,10 +81,7 @@ export default function NewWorkPage() {
 
     try {
       // 認証ユーザー再確認
-      const {
-        data: { user },
-        error: userError,
-      } = await supabase.auth.getUser();
+      const { data: user, error: userError } = await db.auth.getUser();
 
       if (userError || !user) {
         setErrorMsg('ログイン情報を確認できませんでした。もう一度ログインし直してください。');
@@ -89,50 +89,59 @@ export default function NewWorkPage() {
         return;
       }
 
-      // ① 画像アップロード
-      const fileExt = file.name.split('.').pop();
-      const filePath = `images/${user.id}/${Date.now()}.${fileExt}`;
+      // ① 画像がそろうまでは非公開で works に insert
+      const { data: inserted, error: insertError } = await db.works.create({
+        creator_id: user.id,
+        title: title.trim(),
+        description: description.trim() || null,
+        is_public: false,
+      });
 
-      const { error: uploadError } = await supabase.storage
-        .from('works')
-        .upload(filePath, file, {
-          cacheControl: '3600',
-          upsert: false,
-        });
+      if (insertError) {
+        console.error('作品登録エラー:', insertError.message);
+        setErrorMsg('作品の登録に失敗しました。時間をおいて再度お試しください。');
+        setLoading(false);
+        return;
+      }
+
+      // ② 画像アップロード＋並び順・カバーの保存（カバーが works.image_url になる）
+      const { error: imagesError } = await saveWorkImages(inserted, images, coverKey);
 
-      if (uploadError) {
-        console.error('アップロードエラー:', uploadError.message);
-        setErrorMsg('画像のアップロードに失敗しました。別の画像でお試しください。');
+      if (imagesError) {
+        console.error('画像保存エラー:', imagesError.message);
+        // 作品は非公開のまま残るので、編集画面で画像を追加し直してもらう
+        setSavedWork({
+          id: inserted.id,
+          message:
+            '作品は非公開で保存しましたが、画像の保存に失敗しました。編集画面で画像を追加してから公開してください。',
+        });
         setLoading(false);
         return;
       }
 
-      // ② 公開URL取得
-      const {
-        data: { publicUrl },
-      } = supabase.storage.from('works').getPublicUrl(filePath);
-
-      // ③ works テーブルに insert
-      const { data: inserted, error: insertError } = await supabase
-        .from('works')
-        .insert({
-          creator_id: user.id,
-          title: title.trim(),
-          description: description.trim() || null,
-          image_url: publicUrl,
-          tags: tags.trim() || null,
-        })
-        .select('id')
-        .single();
+      // ③ タグ（失敗しても作品は公開し、編集画面で付け直せる）
+      if (tags.length > 0) {
+        const { error: tagsError } = await db.tags.setForWork(inserted.id, tags);
 
-      if (insertError) {
-        console.error('作品登録エラー:', insertError.message);
-        setErrorMsg('作品の登録に失敗しました。時間をおいて再度お試しください。');
+        if (tagsError) {
+          console.error('タグ保存エラー:', tagsError.message);
+        }
+      }
+
+      // ④ 公開して作品詳細へ遷移
+      const { error: publishError } = await db.works.update(inserted.id, { is_public: true });
+
+      if (publishError) {
+        console.error('公開エラー:', publishError.message);
+        setSavedWork({
+          id: inserted.id,
+          message:
+            '作品は保存しましたが、公開に失敗したため非公開のままです。編集画面から公開してください。',
+        });
         setLoading(false);
         return;
       }
 
-      // ④ 作品詳細 / または一覧へ遷移
       router.push(`/works/${inserted.id}`);
     } catch (err) {
       console.error(err);
@@ -150,15 +159,15 @@ export default function NewWorkPage() {
     );
   }
 
-  // creator 以外は利用不可
-  if (role !== 'creator') {
+  // クリエイターのロールがなければ利用不可
+  if (!canPost) {
     return (
       <div className="min-h-[calc(100vh-56px)] flex items-center justify-center bg-slate-950 px-4">
         <div className="max-w-md rounded-2xl border border-slate-700 bg-slate-900/80 px-6 py-6 text-center text-sm text-slate-200">
           <p className="font-semibold mb-2">作品投稿はクリエイター専用機能です。</p>
           <p className="text-slate-400 text-xs">
-            プロフィール編集画面で「利用区分」をクリエイターに変更することで、
-            作品投稿機能をご利用いただけます。（※ 現在はクライアントとして登録されています）
+            右上のメニューの「クリエイターとしても使う」か、プロフィール編集画面の「利用区分」で
+            クリエイターを追加すると、作品投稿機能をご利用いただけます。
           </p>
         </div>
       </div>
@@ -187,6 +196,26 @@ export default function NewWorkPage() {
             </div>
           )}
 
+          {savedWork && (
+            <div className="mb-4 space-y-2 rounded-xl border border-amber-500/40 bg-amber-950/40 px-3 py-2 text-xs text-amber-100">
+              <p>{savedWork.message}</p>
+              <div className="flex flex-wrap gap-3">
+                <Link
+                  href={`/works/${savedWork.id}/edit`}
+                  className="font-semibold text-amber-200 underline underline-offset-2 hover:text-amber-100"
+                >
+                  編集画面を開く
+                </Link>
+                <Link
+                  href={`/works/${savedWork.id}`}
+                  className="text-amber-200/80 underline underline-offset-2 hover:text-amber-100"
+                >
+                  作品ページを見る
+                </Link>
+              </div>
+            </div>
+          )}
+
           <form onSubmit={handleSubmit} className="space-y-4 text-xs sm:text-sm">
             {/* 画像 */}
             <div>
@@ -194,13 +223,14 @@ export default function NewWorkPage() {
                 作品画像 <span className="text-pink-400 text-[10px] align-middle">必須</span>
               </label>
               <p className="mb-2 text-[11px] text-slate-400">
-                JPG / PNG / WEBP、1枚。10MB 以下推奨。
+                JPG / PNG / WEBP、最大 10 枚。1 枚あたり 10MB 以下推奨。
+                ビフォー・アフターや別アングルもまとめて載せられます。
               </p>
-              <input
-                type="file"
-                accept="image/*"
-                onChange={handleFileChange}
-                className="w-full text-xs text-slate-200 file:mr-3 file:rounded-lg file:border-0 file:bg-slate-800 file:px-3 file:py-1.5 file:text-xs file:font-medium file:text-slate-100 hover:file:bg-slate-700"
+              <WorkImagesEditor
+                images={images}
+                coverKey={coverKey}
+                onChange={handleImagesChange}
+                disabled={loading}
               />
             </div>
 
@@ -232,14 +262,8 @@ export default function NewWorkPage() {
 
             {/* タグ */}
             <div>
-              <label className="mb-1.5 block font-medium text-slate-100">タグ（カンマ区切り）</label>
-              <input
-                type="text"
-                value={tags}
-                onChange={(e) => setTags(e.target.value)}
-                placeholder="例：ヘア,ミディアム,オレンジブラウン,作品撮り"
-                className="w-full rounded-xl border border-slate-700 bg-slate-900/60 px-3 py-2 text-sm text-slate-50 outline-none ring-0 transition focus:border-pink-400 focus:ring-2 focus:ring-pink-500/50"
-              />
+              <label className="mb-1.5 block font-medium text-slate-100">タグ</label>
+              <TagInput tags={tags} onChange={setTags} disabled={loading} />
             </div>
 
             {/* ボタン */}
@@ -253,7 +277,7 @@ export default function NewWorkPage() {
               </button>
               <button
                 type="submit"
-                disabled={loading}
+                disabled={loading || savedWork !== null}
                 className="rounded-full bg-gradient-to-r from-pink-500 to-sky-500 px-5 py-2 text-xs font-semibold text-white shadow-lg shadow-pink-500/30 transition hover:brightness-110 disabled:cursor-not-allowed disabled:opacity-60"
               >
                 {loading ? '投稿中…' : '作品を投稿する'}
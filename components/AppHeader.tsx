@@ -1,37 +1,49 @@
 // components/AppHeader.tsx
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import CurrentUserBadge from '@/components/CurrentUserBadge';
-import { supabase } from '@/lib/supabaseClient';
-
-// ロール型
-type Role = 'creator' | 'client' | null;
-
-type ProfileMini = {
-  id: string;
-  role: Role;
-};
+import NotificationCenter, { formatBadgeCount } from '@/components/NotificationCenter';
+import { db, hasRole, type NotificationRow, type ProfileRow } from '@/lib/data';
 
 export default function AppHeader() {
   const pathname = usePathname();
   const isAuthPage = pathname?.startsWith('/auth/login');
 
-  // 🔔 未読カウント
+  // 💬 未読メッセージ数
   const [unreadCount, setUnreadCount] = useState(0);
 
-  // 👤 ログイン中ユーザーの簡易プロフィール（id / role）
-  const [profile, setProfile] = useState<ProfileMini | null>(null);
+  // 👤 ログイン中ユーザーの簡易プロフィール（id / roles）
+  const [profile, setProfile] = useState<ProfileRow | null>(null);
+
+  // 自分が関係者の依頼で、自分以外が送った read_at が空のメッセージ数
+  const refreshUnreadCount = useCallback(async (userId: string) => {
+    const { data, error } = await db.messages.countUnreadForUser(userId);
+
+    if (error) {
+      console.error('AppHeader: 未読メッセージ取得エラー', error.message);
+      return;
+    }
+
+    setUnreadCount(data);
+  }, []);
+
+  // メッセージ通知が届いた / 既読になったら、ページ遷移を待たずにバッジを更新
+  const handleNotificationActivity = useCallback(
+    (notification: NotificationRow) => {
+      if (notification.kind !== 'message') return;
+      void refreshUnreadCount(notification.user_id);
+    },
+    [refreshUnreadCount]
+  );
 
   useEffect(() => {
     const fetchHeaderInfo = async () => {
       try {
         // 1. ログインユーザー取得
-        const {
-          data: { user },
-          error: userError,
-        } = await supabase.auth.getUser();
+        const { data: user, error: userError } = await db.auth.getUser();
 
         if (userError) {
           console.error('AppHeader: auth.getUser エラー', userError.message);
@@ -46,65 +58,18 @@ export default function AppHeader() {
 
         const userId = user.id;
 
-        // 2. profiles から role を取得
-        const { data: profileData, error: profileError } = await supabase
-          .from('profiles')
-          .select('id, role')
-          .eq('id', userId)
-          .single();
+        // 2. profiles から roles を取得
+        const { data: profileData, error: profileError } = await db.profiles.getById(userId);
 
         if (profileError) {
           console.error('AppHeader: profiles 取得エラー', profileError.message);
           setProfile(null);
-        } else if (profileData) {
-          setProfile(profileData as ProfileMini);
-        }
-
-        // 3. 自分が関係者の requests を取得（creator / client 両方）
-        const { data: asCreator, error: creatorReqError } = await supabase
-          .from('requests')
-          .select('id')
-          .eq('creator_id', userId);
-
-        if (creatorReqError) {
-          console.error('AppHeader: requests(creator) 取得エラー', creatorReqError.message);
+        } else {
+          setProfile(profileData);
         }
 
-        const { data: asClient, error: clientReqError } = await supabase
-          .from('requests')
-          .select('id')
-          .eq('client_id', userId);
-
-        if (clientReqError) {
-          console.error('AppHeader: requests(client) 取得エラー', clientReqError.message);
-        }
-
-        const requestIds = Array.from(
-          new Set([
-            ...(asCreator ?? []).map((r) => r.id as string),
-            ...(asClient ?? []).map((r) => r.id as string),
-          ])
-        );
-
-        if (requestIds.length === 0) {
-          setUnreadCount(0);
-          return;
-        }
-
-        // 4. 未読メッセージ数を取得（自分以外が送った is_read = false）
-        const { data: unreadMsgs, error: unreadError } = await supabase
-          .from('messages')
-          .select('id')
-          .in('request_id', requestIds)
-          .eq('is_read', false)
-          .neq('sender_id', userId);
-
-        if (unreadError) {
-          console.error('AppHeader: 未読メッセージ取得エラー', unreadError.message);
-          return;
-        }
-
-        setUnreadCount(unreadMsgs?.length ?? 0);
+        // 3. 未読メッセージ数を取得
+        await refreshUnreadCount(userId);
       } catch (e) {
         console.error('AppHeader: 予期せぬエラー', e);
       }
@@ -112,7 +77,7 @@ export default function AppHeader() {
 
     // パスが変わるたびに再取得（ページ遷移ごとに未読/ロールを更新）
     void fetchHeaderInfo();
-  }, [pathname]);
+  }, [pathname, refreshUnreadCount]);
 
   // 🔒 ログイン画面だけヘッダー非表示
   if (isAuthPage) return null;
@@ -122,7 +87,7 @@ export default function AppHeader() {
     if (unreadCount <= 0) return null;
     return (
       <span className="ml-1 inline-flex min-w-[1.2rem] items-center justify-center rounded-full bg-pink-500 px-1.5 text-[10px] font-semibold text-white">
-        {unreadCount > 9 ? '9+' : unreadCount}
+        {formatBadgeCount(unreadCount)}
       </span>
     );
   };
@@ -131,7 +96,7 @@ export default function AppHeader() {
     <header className="sticky top-0 z-20 border-b border-white/10 bg-slate-950/75 backdrop-blur">
       <div className="max-w-6xl mx-auto h-14 flex items-center justify-between px-4">
         {/* 左：ロゴ */}
-        <a href="/works" className="flex items-center gap-3">
+        <Link href="/works" className="flex items-center gap-3">
           <div className="h-8 w-8 rounded-2xl bg-gradient-to-br from-pink-400 via-violet-400 to-sky-400 flex items-center justify-center text-xs font-bold text-white shadow-lg shadow-pink-500/30">
             Ct
           </div>
@@ -141,49 +106,60 @@ export default function AppHeader() {
               Creators × Chance Matching
             </span>
           </div>
-        </a>
+        </Link>
 
         {/* 右：ナビ＋ログイン状況 */}
         <div className="flex items-center gap-4">
           <nav className="hidden sm:flex items-center gap-6 text-xs text-slate-300">
-            {/* 全員共通：作品一覧 */}
-            <a href="/works" className="hover:text-white transition">
+            {/* 全員共通：作品一覧・クリエイター一覧 */}
+            <Link href="/works" className="hover:text-white transition">
               作品を探す
-            </a>
+            </Link>
+            <Link href="/creators" className="hover:text-white transition">
+              クリエイターを探す
+            </Link>
 
             {/* ログインしている場合のみ、依頼・投稿・マイページを出す */}
             {profile && (
               <>
-                {/* creator だけ：作品投稿 */}
-                {profile.role === 'creator' && (
-                  <a
+                {/* クリエイターのロールを持つ人だけ：作品投稿 */}
+                {hasRole(profile, 'creator') && (
+                  <Link
                     href="/works/new"
                     className="hover:text-white transition"
                   >
                     作品を投稿
-                  </a>
+                  </Link>
                 )}
 
                 {/* 両方：依頼一覧（未読バッジ付き） */}
-                <a
+                <Link
                   href="/requests"
                   className="hover:text-white transition inline-flex items-center"
                 >
                   <span>依頼一覧</span>
                   {renderUnreadBadge()}
-                </a>
+                </Link>
 
                 {/* 両方：マイページ */}
-                <a
+                <Link
                   href={`/profile/${profile.id}`}
                   className="hover:text-white transition"
                 >
                   マイページ
-                </a>
+                </Link>
               </>
             )}
           </nav>
 
+          {/* 通知センター（ログイン中のみ） */}
+          {profile && (
+            <NotificationCenter
+              userId={profile.id}
+              onActivity={handleNotificationActivity}
+            />
+          )}
+
           {/* ログイン状況（未ログインならログイン/新規登録ボタン、ログイン中ならバッジ） */}
           <CurrentUserBadge />
         </div>
@@ -0,0 +1,26 @@
+// components/AvailabilityBadge.tsx
+// 依頼の受付状況（受付中 / 停止中）
+import { AVAILABILITY_LABELS } from '@/lib/data';
+
+type Props = {
+  // isAcceptingRequests / workAcceptsRequests の結果（再開予定日を過ぎた停止は受付中）
+  open: boolean;
+};
+
+export default function AvailabilityBadge({ open }: Props) {
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-[10px] ${
+        open
+          ? 'border-emerald-500/50 bg-emerald-500/10 text-emerald-200'
+          : 'border-slate-600 bg-slate-800/80 text-slate-300'
+      }`}
+    >
+      <span
+        className={`h-1.5 w-1.5 rounded-full ${open ? 'bg-emerald-400' : 'bg-slate-500'}`}
+      />
+      依頼{AVAILABILITY_LABELS[open ? 'open' : 'paused']}
+    </span>
+  );
+}
@@ -0,0 +1,45 @@
+// components/Avatar.tsx
+// ユーザーのアイコン（画像がなければ表示名の頭文字をグラデーションの丸に出す）
+type Size = 'xs' | 'sm' | 'md' | 'lg' | 'xl';
+
+type Props = {
+  name: string | null;
+  url: string | null;
+  size?: Size;
+  className?: string;
+};
+
+const SIZE_CLASSES: Record<Size, string> = {
+  xs: 'h-6 w-6 text-[10px]',
+  sm: 'h-7 w-7 text-[11px]',
+  md: 'h-10 w-10 text-xs',
+  lg: 'h-12 w-12 text-sm',
+  xl: 'h-20 w-20 text-2xl',
+};
+
+const initialOf = (name: string | null) => name?.trim().charAt(0).toUpperCase() || '?';
+
+export default function Avatar({ name, url, size = 'md', className = '' }: Props) {
+  const base = `shrink-0 rounded-full ${SIZE_CLASSES[size]} ${className}`;
+
+  if (url) {
+    return (
+      <img
+        src={url}
+        alt={name ? `${name}のアイコン` : 'アイコン'}
+        loading="lazy"
+        decoding="async"
+        className={`${base} bg-slate-800 object-cover`}
+      />
+    );
+  }
+
+  return (
+    <div
+      aria-hidden
+      className={`${base} flex items-center justify-center bg-gradient-to-br from-pink-400 via-sky-400 to-emerald-400 font-semibold text-slate-950`}
+    >
+      {initialOf(name)}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+// components/CheckInboxNotice.tsx
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import type { DataResult } from '@/lib/data';
+
+type Props = {
+  email: string;
+  // 届いたメールで何をすればよいか
+  description: string;
+  // 再送できるときだけ渡す
+  onResend?: () => Promise<DataResult<null>>;
+};
+
+// インメモリバックエンドはメールを送らず /auth/inbox に置く
+const isMemoryBackend = process.env.NEXT_PUBLIC_DATA_BACKEND === 'memory';
+
+// 「メールを確認してください」の表示（確認メール・ログイン用リンク・パスワード再設定の送信後）
+export default function CheckInboxNotice({ email, description, onResend }: Props) {
+  const [resending, setResending] = useState(false);
+  const [resendMsg, setResendMsg] = useState<string | null>(null);
+
+  const handleResend = async () => {
+    if (!onResend) return;
+    setResending(true);
+    setResendMsg(null);
+
+    const { error } = await onResend();
+
+    setResending(false);
+    if (error) {
+      console.error('CheckInboxNotice: 再送エラー', error.message);
+      setResendMsg('メールを送れませんでした。少し時間をおいて再度お試しください。');
+      return;
+    }
+    setResendMsg('もう一度送りました。前に届いたメールのリンクは使えなくなります。');
+  };
+
+  return (
+    <div className="rounded-2xl border border-sky-500/40 bg-sky-950/30 px-4 py-3 text-[11px] text-slate-200 space-y-2">
+      <p className="text-sm font-semibold text-slate-50">メールを確認してください</p>
+      <p>
+        <span className="font-semibold text-sky-200">{email}</span> にメールを送りました。
+        {description}
+      </p>
+      <p className="text-slate-400">
+        届かないときは迷惑メールフォルダも確認してください。リンクの有効期限は 1 時間です。
+      </p>
+
+      <div className="flex flex-wrap items-center gap-3 pt-1">
+        {onResend && (
+          <button
+            type="button"
+            onClick={() => void handleResend()}
+            disabled={resending}
+            className="rounded-full border border-slate-600 bg-slate-900/70 px-3 py-1 text-slate-100 hover:bg-slate-800/80 transition disabled:opacity-60 disabled:cursor-not-allowed"
+          >
+            {resending ? '送信中…' : 'メールを再送する'}
+          </button>
+        )}
+        {isMemoryBackend && (
+          <Link href="/auth/inbox" className="text-sky-300 hover:text-sky-200 transition">
+            開発用のメールボックスを開く
+          </Link>
+        )}
+      </div>
+
+      {resendMsg && <p className="text-slate-300">{resendMsg}</p>}
+    </div>
+  );
+}
@@ -3,13 +3,17 @@
 
 import { useEffect, useState } from 'react';
 import { usePathname, useRouter } from 'next/navigation';
-import { supabase } from '@/lib/supabaseClient';
-
-type ProfileRow = {
-  id: string;
-  role: 'creator' | 'client' | null;
-  display_name: string | null;
-};
+import { currentPath, loginHref } from '@/lib/authRoutes';
+import {
+  db,
+  hasRole,
+  ROLE_LABELS,
+  ROLES,
+  switchRolePatch,
+  type ProfileRow,
+  type Role,
+} from '@/lib/data';
+import Avatar from './Avatar';
 
 export default function CurrentUserBadge() {
   const router = useRouter();
@@ -17,65 +21,82 @@ export default function CurrentUserBadge() {
 
   const [profile, setProfile] = useState<ProfileRow | null>(null);
   const [loading, setLoading] = useState(true);
-  const [open, setOpen] = useState(false);
-
-  // プロフィールを Supabase から取得
-  const fetchProfile = async () => {
-    setLoading(true);
-
-    // 1. 認証ユーザー取得
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-
-    if (!user) {
-      setProfile(null);
-      setLoading(false);
-      return;
-    }
-
-    // 2. profiles から表示名など取得
-    const { data, error } = await supabase
-      .from('profiles')
-      .select('id, role, display_name')
-      .eq('id', user.id)
-      .single();
+  // メニューを開いたときのパス（ルートが変わったら閉じる）
+  const [openPath, setOpenPath] = useState<string | null>(null);
+  const open = openPath === pathname;
+  const [switching, setSwitching] = useState(false);
+  const [switchError, setSwitchError] = useState<string | null>(null);
 
-    if (error || !data) {
-      console.error('CurrentUserBadge: プロフィール取得エラー', error?.message);
-      setProfile(null);
+  useEffect(() => {
+    let cancelled = false;
+
+    // プロフィールを Supabase から取得
+    const fetchProfile = async () => {
+      // 1. 認証ユーザー取得
+      const { data: user } = await db.auth.getUser();
+      if (cancelled) return;
+
+      if (!user) {
+        setProfile(null);
+        setLoading(false);
+        return;
+      }
+
+      // 2. profiles から表示名など取得
+      const { data, error } = await db.profiles.getById(user.id);
+      if (cancelled) return;
+
+      if (error) {
+        console.error('CurrentUserBadge: プロフィール取得エラー', error.message);
+        setProfile(null);
+        setLoading(false);
+        return;
+      }
+
+      setProfile(data);
       setLoading(false);
-      return;
-    }
+    };
 
-    setProfile(data as ProfileRow);
-    setLoading(false);
-  };
-
-  useEffect(() => {
     // 初回＋「URL が変わるたび」にプロフィール再取得
     void fetchProfile();
-    setOpen(false); // ルートが変わったらメニュー閉じる
+
+    return () => {
+      cancelled = true;
+    };
   }, [pathname]);
 
-  const getInitial = (name: string | null) => {
-    if (!name || name.trim().length === 0) return '?';
-    return name.trim().charAt(0).toUpperCase();
+  const toggleMenu = () => {
+    setSwitchError(null);
+    setOpenPath((current) => (current === pathname ? null : pathname));
   };
 
-  const roleLabel = (role: ProfileRow['role']) => {
-    switch (role) {
-      case 'creator':
-        return 'クリエイター';
-      case 'client':
-        return '依頼者';
-      default:
-        return 'ユーザー';
+  // 使い方の切り替え（持っていないロールなら追加してから切り替える）
+  const handleSwitchRole = async (role: Role) => {
+    if (!profile || profile.role === role) return;
+
+    const adding = !hasRole(profile, role);
+    setSwitching(true);
+    setSwitchError(null);
+
+    const { data, error } = await db.profiles.update(profile.id, switchRolePatch(profile, role));
+
+    setSwitching(false);
+
+    if (error) {
+      console.error('CurrentUserBadge: ロール切り替えエラー', error.message);
+      setSwitchError('切り替えに失敗しました。');
+      return;
     }
+
+    setProfile(data);
+    setOpenPath(null);
+
+    // クリエイターを始めたら、受付状況や料金メニューを入力してもらう
+    if (adding && role === 'creator') router.push('/profile/edit');
   };
 
   const handleLogout = async () => {
-    await supabase.auth.signOut();
+    await db.auth.signOut();
     router.push('/auth/login'); // ログアウトしたらログイン画面へ
     // pathname が変わるので useEffect → fetchProfile → profile=null に更新される
   };
@@ -96,14 +117,14 @@ export default function CurrentUserBadge() {
       <div className="flex items-center gap-2 text-[11px]">
         <button
           type="button"
-          onClick={() => router.push('/auth/login')}
+          onClick={() => router.push(loginHref(currentPath()))}
           className="rounded-full border border-slate-600 bg-slate-900/70 px-3 py-1 text-xs font-medium text-slate-100 hover:bg-slate-800/80 transition"
         >
           ログイン
         </button>
         <button
           type="button"
-          onClick={() => router.push('/auth/login?tab=signup')}
+          onClick={() => router.push(loginHref(currentPath(), { signup: true }))}
           className="rounded-full bg-gradient-to-r from-pink-500 to-sky-500 px-3 py-1 text-xs font-semibold text-white shadow-md shadow-pink-500/30 hover:brightness-110 transition"
         >
           新規登録
@@ -118,29 +139,58 @@ export default function CurrentUserBadge() {
       {/* 本体ボタン */}
       <button
         type="button"
-        onClick={() => setOpen((v) => !v)}
+        onClick={toggleMenu}
         className="group inline-flex items-center gap-2 rounded-full border border-slate-600 bg-slate-900/70 px-3 py-1 text-left text-[11px] text-slate-100 hover:border-pink-400/80 hover:bg-slate-800/80 transition"
       >
-        <div className="flex h-7 w-7 items-center justify-center rounded-full bg-gradient-to-br from-pink-400 via-sky-400 to-emerald-400 text-[11px] font-semibold text-slate-950 shadow-sm shadow-pink-500/40">
-          {getInitial(profile.display_name)}
-        </div>
+        <Avatar
+          name={profile.display_name}
+          url={profile.avatar_url}
+          size="sm"
+          className="shadow-sm shadow-pink-500/40"
+        />
         <div className="flex flex-col leading-tight">
           <span className="max-w-[120px] truncate text-[11px] font-medium">
             {profile.display_name || '名無しのユーザー'}
           </span>
           <span className="text-[10px] text-slate-400 group-hover:text-pink-200 transition">
-            {roleLabel(profile.role)}としてログイン中
+            {profile.role ? ROLE_LABELS[profile.role] : 'ユーザー'}としてログイン中
           </span>
         </div>
       </button>
 
       {/* ドロップダウンメニュー */}
       {open && (
-        <div className="absolute right-0 mt-2 w-40 rounded-xl border border-slate-700 bg-slate-900/95 backdrop-blur shadow-lg shadow-black/40 p-1 text-xs">
+        <div className="absolute right-0 mt-2 w-48 rounded-xl border border-slate-700 bg-slate-900/95 backdrop-blur shadow-lg shadow-black/40 p-1 text-xs">
+          {/* ロールの切り替え */}
+          <div className="border-b border-slate-700/80 pb-1 mb-1">
+            <p className="px-3 pt-1.5 pb-1 text-[10px] text-slate-500">使い方を切り替える</p>
+            {ROLES.map((role) => {
+              const active = profile.role === role;
+              return (
+                <button
+                  key={role}
+                  type="button"
+                  onClick={() => void handleSwitchRole(role)}
+                  disabled={switching || active}
+                  aria-pressed={active}
+                  className={`flex w-full items-center justify-between px-3 py-2 rounded-md text-left transition ${
+                    active ? 'text-pink-200' : 'text-slate-100 hover:bg-slate-800/90 hover:text-white'
+                  }`}
+                >
+                  <span>
+                    {ROLE_LABELS[role]}
+                    {hasRole(profile, role) ? 'として使う' : 'としても使う'}
+                  </span>
+                  {active && <span aria-hidden>✓</span>}
+                </button>
+              );
+            })}
+            {switchError && <p className="px-3 py-1 text-[10px] text-red-300">{switchError}</p>}
+          </div>
           <button
             type="button"
             onClick={() => {
-              setOpen(false);
+              setOpenPath(null);
               router.push(`/profile/${profile.id}`);
             }}
             className="w-full text-left px-3 py-2 rounded-md text-slate-100 hover:bg-slate-800/90 hover:text-white transition"
@@ -0,0 +1,55 @@
+// components/GalleryResults.tsx
+// 作品ギャラリーの一覧とカーソルのページング（/works と /tags/[slug] で共通）
+import Link from 'next/link';
+import WorkCard from '@/components/WorkCard';
+import { searchTerms, type GalleryQuery, type GalleryWork } from '@/lib/data';
+import { galleryHref } from '@/lib/galleryQuery';
+
+type Props = {
+  works: GalleryWork[];
+  query: GalleryQuery;
+  nextCursor: string | null;
+};
+
+export default function GalleryResults({ works, query, nextCursor }: Props) {
+  const terms = searchTerms(query.q);
+
+  return (
+    <section className="rounded-3xl border border-white/10 bg-slate-950/60 px-3 py-4 sm:px-5 sm:py-6 shadow-[0_18px_45px_rgba(15,23,42,0.8)] backdrop-blur">
+      {works.length === 0 ? (
+        <div className="flex h-40 flex-col items-center justify-center gap-2 text-center text-xs text-slate-400">
+          <p>条件に合う作品が見つかりませんでした。</p>
+          <p>キーワードや絞り込み条件を少しゆるくしてみてください。</p>
+        </div>
+      ) : (
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {works.map((work) => (
+            <WorkCard key={work.id} work={work} terms={terms} />
+          ))}
+        </div>
+      )}
+
+      {/* ページング（カーソル） */}
+      {(query.cursor || nextCursor) && (
+        <div className="mt-5 flex items-center justify-center gap-2 text-[11px]">
+          {query.cursor && (
+            <Link
+              href={galleryHref(query, { cursor: null })}
+              className="rounded-full border border-slate-600 bg-slate-900/70 px-4 py-1.5 text-slate-100 hover:bg-slate-800/80 transition"
+            >
+              最初から見る
+            </Link>
+          )}
+          {nextCursor && (
+            <Link
+              href={galleryHref(query, { cursor: nextCursor })}
+              className="rounded-full bg-gradient-to-r from-pink-500 to-sky-500 px-4 py-1.5 font-semibold text-white shadow-md shadow-pink-500/30 hover:brightness-110 transition"
+            >
+              次の作品を見る →
+            </Link>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,26 @@
+// components/Highlight.tsx
+// 検索語に当たった部分を <mark> で強調する（サーバーコンポーネントからも使える）
+import { Fragment } from 'react';
+import { highlightSegments } from '@/lib/data';
+
+type Props = {
+  text: string;
+  // searchTerms() で畳み込んだ語
+  terms: string[];
+};
+
+export default function Highlight({ text, terms }: Props) {
+  return (
+    <>
+      {highlightSegments(text, terms).map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="rounded-sm bg-pink-400/30 px-0.5 text-inherit">
+            {segment.text}
+          </mark>
+        ) : (
+          <Fragment key={index}>{segment.text}</Fragment>
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,347 @@
+// components/NotificationCenter.tsx
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { db, type NotificationRow, type RequestStatus } from '@/lib/data';
+
+type Props = {
+  userId: string;
+  // 通知が届いた / 既読になったとき（ヘッダー側の未読メッセージ数の再取得用）
+  onActivity?: (notification: NotificationRow) => void;
+};
+
+const LIST_LIMIT = 20;
+
+// バッジの表示（上限なしで実数を出す。桁が増えたら区切る）
+export const formatBadgeCount = (count: number) => count.toLocaleString('ja-JP');
+
+const statusLabel = (status: string | null) => {
+  switch (status as RequestStatus | null) {
+    case 'pending':
+      return '確認中';
+    case 'accepted':
+      return '受諾済み';
+    case 'rejected':
+      return '辞退';
+    case 'closed':
+      return 'クローズ';
+    default:
+      return status ?? '';
+  }
+};
+
+const kindIcon = (kind: NotificationRow['kind']) => {
+  switch (kind) {
+    case 'message':
+      return '💬';
+    case 'request':
+      return '📩';
+    case 'status':
+      return '🔄';
+    case 'like':
+      return '♥';
+    case 'quote':
+      return '🧾';
+    case 'milestone':
+      return '📦';
+    case 'review':
+      return '⭐';
+  }
+};
+
+const hrefOf = (n: NotificationRow) => {
+  if (n.request_id) return `/requests/${n.request_id}`;
+  if (n.work_id) return `/works/${n.work_id}`;
+  return null;
+};
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString('ja-JP', {
+    month: 'numeric',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+// 新しい順に並べ替えて同じ id は後勝ちでまとめる
+const mergeNotification = (list: NotificationRow[], next: NotificationRow) =>
+  [next, ...list.filter((n) => n.id !== next.id)]
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    .slice(0, LIST_LIMIT);
+
+export default function NotificationCenter({ userId, onActivity }: Props) {
+  const router = useRouter();
+  const rootRef = useRef<HTMLDivElement | null>(null);
+  const onActivityRef = useRef(onActivity);
+
+  const [open, setOpen] = useState(false);
+  const [items, setItems] = useState<NotificationRow[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [actorNames, setActorNames] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    onActivityRef.current = onActivity;
+  }, [onActivity]);
+
+  // 初回取得 ＋ リアルタイム購読
+  useEffect(() => {
+    let cancelled = false;
+
+    const refreshUnread = async () => {
+      const { data, error } = await db.notifications.countUnread(userId);
+      if (error) {
+        console.error('NotificationCenter: 未読数取得エラー', error.message);
+        return;
+      }
+      if (!cancelled) setUnreadCount(data);
+    };
+
+    const fetchInitial = async () => {
+      const { data, error } = await db.notifications.listForUser(userId, LIST_LIMIT);
+      if (error) {
+        console.error('NotificationCenter: 通知取得エラー', error.message);
+        return;
+      }
+      if (!cancelled) setItems(data);
+      await refreshUnread();
+    };
+
+    void fetchInitial();
+
+    // 一覧に載っていない古い通知もあるので、未読数は毎回数え直す
+    const unsubscribe = db.notifications.subscribe(userId, {
+      onInsert: (n) => {
+        setItems((prev) => mergeNotification(prev, n));
+        void refreshUnread();
+        onActivityRef.current?.(n);
+      },
+      onUpdate: (n) => {
+        setItems((prev) => prev.map((item) => (item.id === n.id ? n : item)));
+        void refreshUnread();
+        onActivityRef.current?.(n);
+      },
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [userId]);
+
+  // 表示名が分からない送り主だけまとめて取得
+  useEffect(() => {
+    const missing = Array.from(
+      new Set(
+        items
+          .map((n) => n.actor_id)
+          .filter((id): id is string => !!id && !(id in actorNames))
+      )
+    );
+    if (missing.length === 0) return;
+
+    const fetchNames = async () => {
+      const { data, error } = await db.profiles.listByIds(missing);
+      if (error) {
+        console.error('NotificationCenter: 送り主取得エラー', error.message);
+        return;
+      }
+
+      setActorNames((prev) => {
+        const next = { ...prev };
+        missing.forEach((id) => {
+          next[id] = data.find((p) => p.id === id)?.display_name || '名無しのユーザー';
+        });
+        return next;
+      });
+    };
+
+    void fetchNames();
+  }, [items, actorNames]);
+
+  // 外側クリック / Esc で閉じる
+  useEffect(() => {
+    if (!open) return;
+
+    const handlePointerDown = (e: MouseEvent) => {
+      if (!rootRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setOpen(false);
+    };
+
+    document.addEventListener('mousedown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [open]);
+
+  const describe = (n: NotificationRow) => {
+    const actor = (n.actor_id && actorNames[n.actor_id]) || '相手';
+    const title = n.title ? `「${n.title}」` : '';
+
+    switch (n.kind) {
+      case 'message':
+        return `${actor}さんから${title}にメッセージが届きました`;
+      case 'request':
+        return `${actor}さんから新しい依頼${title}が届きました`;
+      case 'status':
+        return `${title}のステータスが「${statusLabel(n.body)}」になりました`;
+      case 'like':
+        return `${actor}さんが${title}にいいねしました`;
+      case 'quote':
+        switch (n.body) {
+          case 'countered':
+            return `${actor}さんから${title}の見積もりに条件変更の提案が届きました`;
+          case 'accepted':
+            return `${actor}さんが${title}の見積もりを承諾しました`;
+          case 'declined':
+            return `${actor}さんが${title}の見積もりを辞退しました`;
+          default:
+            return `${actor}さんから${title}の見積もりが届きました`;
+        }
+      case 'milestone':
+        switch (n.body) {
+          case 'approved':
+            return `${actor}さんが${title}の成果物を承認しました`;
+          case 'revision_requested':
+            return `${actor}さんから${title}の成果物に修正依頼が届きました`;
+          default:
+            return `${actor}さんから${title}の成果物の確認依頼が届きました`;
+        }
+      case 'review':
+        return n.body === 'replied'
+          ? `${actor}さんが${title}のレビューに返信しました`
+          : `${actor}さんが${title}のレビューを書きました`;
+    }
+  };
+
+  // 楽観的に既読にしてから保存（失敗したら購読イベントで戻らないので再取得する）
+  const markRead = async (id: string) => {
+    const readAt = new Date().toISOString();
+    setItems((prev) =>
+      prev.map((n) => (n.id === id && !n.read_at ? { ...n, read_at: readAt } : n))
+    );
+    if (items.some((n) => n.id === id && !n.read_at)) {
+      setUnreadCount((c) => Math.max(0, c - 1));
+    }
+
+    const { error } = await db.notifications.markRead(id);
+    if (error) {
+      console.error('NotificationCenter: 既読更新エラー', error.message);
+      const { data } = await db.notifications.listForUser(userId, LIST_LIMIT);
+      if (data) setItems(data);
+    }
+  };
+
+  const markAllRead = async () => {
+    const readAt = new Date().toISOString();
+    setItems((prev) => prev.map((n) => (n.read_at ? n : { ...n, read_at: readAt })));
+    setUnreadCount(0);
+
+    const { error } = await db.notifications.markAllRead(userId);
+    if (error) {
+      console.error('NotificationCenter: 一括既読エラー', error.message);
+      const { data } = await db.notifications.listForUser(userId, LIST_LIMIT);
+      if (data) setItems(data);
+    }
+  };
+
+  const handleOpenItem = (n: NotificationRow) => {
+    void markRead(n.id);
+    setOpen(false);
+
+    const href = hrefOf(n);
+    if (href) router.push(href);
+  };
+
+  return (
+    <div ref={rootRef} className="relative">
+      {/* ベルボタン */}
+      <button
+        type="button"
+        onClick={() => setOpen((v) => !v)}
+        aria-label={unreadCount > 0 ? `通知（未読 ${unreadCount} 件）` : '通知'}
+        aria-expanded={open}
+        className="relative inline-flex h-8 w-8 items-center justify-center rounded-full border border-slate-600 bg-slate-900/70 text-sm text-slate-100 hover:border-pink-400/80 hover:bg-slate-800/80 transition"
+      >
+        <span aria-hidden>🔔</span>
+        {unreadCount > 0 && (
+          <span className="absolute -right-1.5 -top-1.5 inline-flex min-w-[1.2rem] items-center justify-center rounded-full bg-pink-500 px-1 text-[10px] font-semibold text-white">
+            {formatBadgeCount(unreadCount)}
+          </span>
+        )}
+      </button>
+
+      {/* 通知センター */}
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 max-w-[calc(100vw-2rem)] rounded-2xl border border-slate-700 bg-slate-900/95 backdrop-blur shadow-lg shadow-black/40 text-xs">
+          <div className="flex items-center justify-between border-b border-slate-800 px-3 py-2">
+            <span className="font-semibold text-slate-100">通知</span>
+            <button
+              type="button"
+              onClick={() => void markAllRead()}
+              disabled={unreadCount === 0}
+              className="text-[11px] text-sky-300 hover:text-sky-200 disabled:text-slate-500 disabled:cursor-not-allowed transition"
+            >
+              すべて既読にする
+            </button>
+          </div>
+
+          {items.length === 0 ? (
+            <p className="px-3 py-6 text-center text-[11px] text-slate-400">
+              通知はまだありません。
+            </p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto py-1">
+              {items.map((n) => (
+                <li key={n.id} className="group flex items-start gap-2 px-3 py-2 hover:bg-slate-800/80 transition">
+                  <button
+                    type="button"
+                    onClick={() => handleOpenItem(n)}
+                    className="flex flex-1 items-start gap-2 text-left"
+                  >
+                    <span className="mt-0.5 text-sm" aria-hidden>
+                      {kindIcon(n.kind)}
+                    </span>
+                    <span className="flex-1 space-y-0.5">
+                      <span
+                        className={`block leading-snug ${
+                          n.read_at ? 'text-slate-400' : 'font-medium text-slate-100'
+                        }`}
+                      >
+                        {describe(n)}
+                      </span>
+                      {n.kind === 'message' && n.body && (
+                        <span className="block truncate text-[11px] text-slate-400">
+                          {n.body}
+                        </span>
+                      )}
+                      <span className="block text-[10px] text-slate-500">
+                        {formatTime(n.created_at)}
+                      </span>
+                    </span>
+                  </button>
+
+                  {!n.read_at && (
+                    <button
+                      type="button"
+                      onClick={() => void markRead(n.id)}
+                      title="既読にする"
+                      aria-label="既読にする"
+                      className="mt-1 flex h-4 w-4 items-center justify-center rounded-full"
+                    >
+                      <span className="h-2 w-2 rounded-full bg-pink-400 group-hover:bg-sky-300 transition" />
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+// components/ProfileCover.tsx
+// プロフィールのカバー画像（3:1。画像がなければ控えめなグラデーション）
+type Props = {
+  url: string | null;
+  className?: string;
+};
+
+export default function ProfileCover({ url, className = '' }: Props) {
+  return (
+    <div
+      className={`aspect-[3/1] w-full overflow-hidden rounded-3xl border border-white/10 bg-gradient-to-br from-pink-500/30 via-sky-500/20 to-emerald-500/30 ${className}`}
+    >
+      {url && <img src={url} alt="カバー画像" className="h-full w-full object-cover" />}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+// components/ProfileLinks.tsx
+// プロフィールの外部リンク（種類のラベルつき）
+import { profileLinkLabel, type ProfileLink } from '@/lib/data';
+
+type Props = {
+  links: ProfileLink[];
+};
+
+export default function ProfileLinks({ links }: Props) {
+  if (links.length === 0) {
+    return <p className="text-[11px] text-slate-500">未登録</p>;
+  }
+
+  return (
+    <ul className="flex flex-wrap gap-1.5">
+      {links.map((link, i) => (
+        <li key={`${link.url}-${i}`}>
+          <a
+            href={link.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            title={link.url}
+            className="inline-flex items-center gap-1 rounded-full border border-sky-500/40 bg-sky-500/10 px-2.5 py-0.5 text-[11px] text-sky-200 hover:bg-sky-500/20 transition"
+          >
+            {profileLinkLabel(link.kind)}
+            <span aria-hidden>↗</span>
+          </a>
+        </li>
+      ))}
+    </ul>
+  );
+}
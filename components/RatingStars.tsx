@@ -0,0 +1,26 @@
+// components/RatingStars.tsx
+// 星 5 つの評価表示（平均は四捨五入した数だけ塗る）
+import { REVIEW_MAX_RATING } from '@/lib/data';
+
+type Props = {
+  rating: number;
+  className?: string;
+};
+
+export default function RatingStars({ rating, className = '' }: Props) {
+  const filled = Math.round(rating);
+
+  return (
+    <span
+      role="img"
+      aria-label={`星 ${rating} / ${REVIEW_MAX_RATING}`}
+      className={`inline-flex ${className}`}
+    >
+      {Array.from({ length: REVIEW_MAX_RATING }, (_, i) => (
+        <span key={i} aria-hidden className={i < filled ? 'text-amber-300' : 'text-slate-600'}>
+          ★
+        </span>
+      ))}
+    </span>
+  );
+}
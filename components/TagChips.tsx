@@ -0,0 +1,31 @@
+// components/TagChips.tsx
+// #タグ のリンク（サーバーコンポーネントからも使える）
+import Link from 'next/link';
+import { tagHref } from '@/lib/galleryQuery';
+
+type Props = {
+  tags: { slug: string; name: string; works_count?: number }[];
+  // カードの上に重ねるとき（カード全体のリンクより前面に出す）
+  raised?: boolean;
+};
+
+export default function TagChips({ tags, raised }: Props) {
+  if (tags.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap gap-1 ${raised ? 'relative z-10' : ''}`}>
+      {tags.map((tag) => (
+        <Link
+          key={tag.slug}
+          href={tagHref(tag.slug)}
+          className="rounded-full bg-slate-800/90 px-2 py-0.5 text-[10px] text-slate-300 hover:bg-pink-500/20 hover:text-pink-100 transition"
+        >
+          #{tag.name}
+          {tag.works_count !== undefined && (
+            <span className="ml-1 text-slate-500">{tag.works_count}</span>
+          )}
+        </Link>
+      ))}
+    </div>
+  );
+}
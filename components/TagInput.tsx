@@ -0,0 +1,169 @@
+// components/TagInput.tsx
+'use client';
+
+import { useEffect, useId, useState, type KeyboardEvent } from 'react';
+import {
+  db,
+  normalizeTagName,
+  tagSlug,
+  validateTagName,
+  WORK_MAX_TAGS,
+  type TagWithCount,
+} from '@/lib/data';
+
+type Props = {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  disabled?: boolean;
+};
+
+const SUGGEST_DELAY_MS = 200;
+
+// Enter / 読点・カンマで確定。既存のタグから候補を出す（作品数の多い順）
+export default function TagInput({ tags, onChange, disabled }: Props) {
+  const listboxId = useId();
+  const [draft, setDraft] = useState('');
+  const [suggestions, setSuggestions] = useState<TagWithCount[]>([]);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [warning, setWarning] = useState<string | null>(null);
+
+  // 入力が止まってから問い合わせる
+  useEffect(() => {
+    const q = draft.trim();
+    let cancelled = false;
+
+    const timer = setTimeout(async () => {
+      if (!q) {
+        if (!cancelled) setSuggestions([]);
+        return;
+      }
+
+      const { data, error } = await db.tags.list({ q, limit: 8 });
+      if (cancelled) return;
+      if (error) {
+        console.error('TagInput: 候補取得エラー', error.message);
+        return;
+      }
+
+      const current = new Set(tags.map(tagSlug));
+      setSuggestions(data.filter((tag) => !current.has(tag.slug)));
+      setActiveIndex(-1);
+    }, SUGGEST_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [draft, tags]);
+
+  const add = (raw: string) => {
+    const name = normalizeTagName(raw);
+    if (!name) return;
+
+    const problem = validateTagName(name, tags);
+    if (problem) {
+      setWarning(problem);
+      return;
+    }
+
+    onChange([...tags, name]);
+    setDraft('');
+    setSuggestions([]);
+    setWarning(null);
+  };
+
+  const remove = (index: number) => {
+    onChange(tags.filter((_, i) => i !== index));
+    setWarning(null);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    // 変換中の Enter は確定に使わない
+    if (e.nativeEvent.isComposing) return;
+
+    if (e.key === 'ArrowDown' && suggestions.length > 0) {
+      e.preventDefault();
+      setActiveIndex((i) => (i + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp' && suggestions.length > 0) {
+      e.preventDefault();
+      setActiveIndex((i) => (i <= 0 ? suggestions.length - 1 : i - 1));
+    } else if (e.key === 'Enter' || e.key === ',' || e.key === '、') {
+      e.preventDefault();
+      add(activeIndex >= 0 ? suggestions[activeIndex].name : draft);
+    } else if (e.key === 'Backspace' && draft === '' && tags.length > 0) {
+      remove(tags.length - 1);
+    } else if (e.key === 'Escape') {
+      setSuggestions([]);
+    }
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <div className="relative">
+        <div className="flex flex-wrap items-center gap-1.5 rounded-xl border border-slate-700 bg-slate-900/60 px-2 py-1.5 focus-within:border-pink-400 focus-within:ring-2 focus-within:ring-pink-500/50">
+          {tags.map((tag, index) => (
+            <span
+              key={tagSlug(tag)}
+              className="inline-flex items-center gap-1 rounded-full bg-slate-800 px-2 py-0.5 text-[11px] text-slate-100"
+            >
+              #{tag}
+              <button
+                type="button"
+                onClick={() => remove(index)}
+                disabled={disabled}
+                aria-label={`${tag} を外す`}
+                className="text-slate-400 hover:text-slate-100"
+              >
+                ×
+              </button>
+            </span>
+          ))}
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onBlur={() => setSuggestions([])}
+            disabled={disabled || tags.length >= WORK_MAX_TAGS}
+            placeholder={tags.length === 0 ? '例：ヘア / ミディアム / 作品撮り' : ''}
+            role="combobox"
+            aria-controls={listboxId}
+            aria-expanded={suggestions.length > 0}
+            aria-autocomplete="list"
+            className="min-w-[8rem] flex-1 bg-transparent px-1 py-0.5 text-sm text-slate-50 outline-none placeholder:text-slate-500"
+          />
+        </div>
+
+        {suggestions.length > 0 && (
+          <ul
+            id={listboxId}
+            role="listbox"
+            className="absolute left-0 right-0 z-20 mt-1 overflow-hidden rounded-xl border border-slate-700 bg-slate-950 shadow-lg"
+          >
+            {suggestions.map((tag, index) => (
+              <li key={tag.id} role="option" aria-selected={index === activeIndex}>
+                <button
+                  type="button"
+                  // 入力欄のフォーカスを外さない（blur で候補が閉じないように）
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => add(tag.name)}
+                  className={`flex w-full items-center justify-between px-3 py-1.5 text-left text-xs ${
+                    index === activeIndex ? 'bg-slate-800 text-white' : 'text-slate-200 hover:bg-slate-900'
+                  }`}
+                >
+                  <span>#{tag.name}</span>
+                  <span className="text-[10px] text-slate-500">{tag.works_count} 件</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <p className="text-[10px] text-slate-500">
+        Enter かカンマで追加（{tags.length} / {WORK_MAX_TAGS}）
+      </p>
+      {warning && <p className="text-[10px] text-yellow-200">{warning}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+// components/WorkCard.tsx
+// 作品ギャラリーのカード（サーバーコンポーネントからも使える）
+import Link from 'next/link';
+import {
+  formatRating,
+  searchSnippet,
+  splitTagNames,
+  tagSlug,
+  type GalleryWork,
+} from '@/lib/data';
+import Avatar from './Avatar';
+import Highlight from './Highlight';
+import TagChips from './TagChips';
+import WorkImage from './WorkImage';
+
+type Props = {
+  work: GalleryWork;
+  // キーワード検索の語（当たった部分を強調する）
+  terms?: string[];
+};
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('ja-JP', {
+    month: 'numeric',
+    day: 'numeric',
+    timeZone: 'Asia/Tokyo',
+  });
+
+export default function WorkCard({ work, terms = [] }: Props) {
+  const tags = splitTagNames(work.tags).map((name) => ({ slug: tagSlug(name), name }));
+
+  // カード全体をタイトルのリンクで覆い、タグのリンクだけ前面に出す（<a> の入れ子を避ける）
+  return (
+    <article
+      className="group relative flex flex-col overflow-hidden rounded-3xl border border-slate-800/80 bg-slate-900/80 text-left shadow-[0_14px_35px_rgba(15,23,42,0.7)] transition hover:-translate-y-1 hover:border-pink-400/70 hover:shadow-[0_20px_45px_rgba(236,72,153,0.45)]"
+    >
+      {/* サムネイル */}
+      <div className="relative h-40 w-full overflow-hidden bg-slate-800">
+        {work.image_url ? (
+          <WorkImage
+            url={work.image_url}
+            meta={work.image_meta}
+            size="thumb"
+            sizes="(min-width: 1024px) 320px, (min-width: 640px) 50vw, 100vw"
+            alt={work.title}
+            className="h-full w-full object-cover transition duration-300 group-hover:scale-[1.05]"
+          />
+        ) : (
+          <div className="flex h-full w-full items-center justify-center text-[11px] text-slate-500">
+            画像なし
+          </div>
+        )}
+        <div className="pointer-events-none absolute inset-0 bg-gradient-to-t from-slate-950/60 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition" />
+      </div>
+
+      {/* テキストエリア */}
+      <div className="flex flex-1 flex-col gap-2 px-4 py-3">
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <h2 className="truncate text-sm font-semibold text-slate-50">
+              <Link href={`/works/${work.id}`} className="after:absolute after:inset-0">
+                <Highlight text={work.title} terms={terms} />
+              </Link>
+            </h2>
+            <p className="mt-1 flex items-center gap-1.5 text-[11px] text-slate-400">
+              <Avatar name={work.creator_name} url={work.creator_avatar_url} size="xs" />
+              <span className="truncate">
+                <Highlight text={work.creator_name || 'クリエイター'} terms={terms} />
+              </span>
+              {work.creator_rating_avg !== null && (
+                <span className="shrink-0 text-slate-300">
+                  <span className="text-amber-300">★</span>
+                  {formatRating(work.creator_rating_avg)}
+                  <span className="text-slate-500">（{work.creator_rating_count}）</span>
+                </span>
+              )}
+            </p>
+          </div>
+          <span className="shrink-0 rounded-full bg-slate-800/90 px-2 py-0.5 text-[10px] text-slate-300">
+            {formatDate(work.created_at)}
+          </span>
+        </div>
+
+        {work.description && (
+          <p className="line-clamp-2 text-[11px] text-slate-300">
+            <Highlight text={searchSnippet(work.description, terms)} terms={terms} />
+          </p>
+        )}
+
+        {/* タグ */}
+        <div className="mt-1">
+          <TagChips tags={tags} raised />
+        </div>
+
+        <div className="mt-auto flex items-center justify-between pt-1 text-[11px]">
+          {/* requests_open は work_gallery が作品とクリエイターの受付状況から決める */}
+          <span className="inline-flex items-center gap-1 text-slate-400">
+            <span
+              className={`h-1.5 w-1.5 rounded-full ${
+                work.requests_open ? 'bg-emerald-400/80' : 'bg-slate-500'
+              }`}
+            />
+            <span>{work.requests_open ? '依頼受付中' : '依頼停止中'}</span>
+          </span>
+
+          {/* ❤️ いいね数 */}
+          <span className="inline-flex items-center gap-1 text-pink-300 group-hover:text-pink-200">
+            <span aria-hidden>❤️</span>
+            <span>{work.likes_count}</span>
+          </span>
+        </div>
+      </div>
+    </article>
+  );
+}
@@ -0,0 +1,45 @@
+// components/WorkImage.tsx
+// 作品画像の表示（派生画像があれば AVIF / WebP を出し分け、読み込み中はぼかし画像を敷く）
+import type { ImageMeta, ImageVariantSize } from '@/lib/data';
+import { imageSrcSet } from '@/lib/data';
+
+type Props = {
+  url: string;
+  meta: ImageMeta | null;
+  // src に使う大きさ（srcSet に対応していないブラウザ向け）
+  size: ImageVariantSize;
+  // 表示幅の目安（<source sizes>）
+  sizes: string;
+  alt: string;
+  className?: string;
+  loading?: 'eager' | 'lazy';
+};
+
+export default function WorkImage({ url, meta, size, sizes, alt, className, loading = 'lazy' }: Props) {
+  // 変換前にアップロードされた画像・派生画像が欠けている画像は元の URL のまま
+  const variant = meta?.variants?.[size];
+  if (!meta || !variant?.webp) {
+    return <img src={url} alt={alt} loading={loading} className={className} />;
+  }
+
+  return (
+    <picture>
+      <source type="image/avif" srcSet={imageSrcSet(meta, 'avif')} sizes={sizes} />
+      <source type="image/webp" srcSet={imageSrcSet(meta, 'webp')} sizes={sizes} />
+      <img
+        src={variant.webp}
+        alt={alt}
+        width={variant.width}
+        height={variant.height}
+        loading={loading}
+        decoding="async"
+        className={className}
+        style={
+          meta.placeholder
+            ? { backgroundImage: `url(${meta.placeholder})`, backgroundSize: 'cover' }
+            : undefined
+        }
+      />
+    </picture>
+  );
+}
@@ -0,0 +1,301 @@
+// components/WorkImagesEditor.tsx
+'use client';
+
+import { useState, type ChangeEvent } from 'react';
+import {
+  db,
+  imageUrlOf,
+  WORK_IMAGE_MAX_BYTES,
+  WORK_MAX_IMAGES,
+  isWorkImagePathOf,
+  workImageFilePaths,
+  type DataResult,
+  type ImageMeta,
+  type WorkImageInput,
+  type WorkImageRow,
+  type WorkRow,
+} from '@/lib/data';
+
+// 編集中の画像（既存の画像 or これからアップロードするファイル）
+export type EditableWorkImage = {
+  key: string;
+  // 既存はサムネイル、新規は Object URL
+  previewUrl: string;
+  file: File | null;
+  storage_path: string | null;
+  url: string | null;
+  meta: ImageMeta | null;
+};
+
+export const toEditableImages = (rows: WorkImageRow[]): EditableWorkImage[] =>
+  rows.map((row) => ({
+    key: row.id,
+    previewUrl: imageUrlOf(row, 'thumb') ?? row.url,
+    file: null,
+    storage_path: row.storage_path,
+    url: row.url,
+    meta: row.meta,
+  }));
+
+// works バケットから画像のファイルを消す（失敗しても残るだけなので、メンテナンスジョブで回収する）
+//   消すのは作品のオーナーのフォルダ（images/{creatorId}/）のファイルだけ
+export const removeWorkImageFiles = async (
+  creatorId: string,
+  images: Pick<WorkImageRow, 'storage_path' | 'meta'>[]
+) => {
+  const paths = images
+    .flatMap(workImageFilePaths)
+    .filter((path) => isWorkImagePathOf(creatorId, path));
+  if (paths.length === 0) return;
+
+  const { error } = await db.storage.remove('works', paths);
+  if (error) console.error('作品画像の削除エラー:', error.message);
+};
+
+// 新しいファイルを変換・アップロードしてから、並び順とカバーを保存する
+//   保存できたら外れた画像のファイルを消し、失敗したら今回アップロードした分を消す
+export const saveWorkImages = async (
+  work: Pick<WorkRow, 'id' | 'creator_id'>,
+  images: EditableWorkImage[],
+  coverKey: string | null
+): Promise<DataResult<WorkImageRow[]>> => {
+  const { data: previous, error: previousError } = await db.works.listImages(work.id);
+  if (previousError) return { data: null, error: previousError };
+
+  const inputs: WorkImageInput[] = [];
+  const uploaded: WorkImageInput[] = [];
+
+  for (const image of images) {
+    if (!image.file) {
+      if (image.url) {
+        inputs.push({ storage_path: image.storage_path, url: image.url, meta: image.meta });
+      }
+      continue;
+    }
+
+    // メタデータ（位置情報など）の除去・リサイズ・AVIF / WebP 化はサーバー側
+    const { data: processed, error } = await db.media.processWorkImage(image.file);
+    if (error) {
+      await removeWorkImageFiles(work.creator_id, uploaded);
+      return { data: null, error };
+    }
+
+    inputs.push(processed);
+    uploaded.push(processed);
+  }
+
+  const coverIndex = Math.max(0, images.findIndex((image) => image.key === coverKey));
+  const result = await db.works.setImages(work.id, inputs, coverIndex);
+
+  if (result.error) {
+    await removeWorkImageFiles(work.creator_id, uploaded);
+    return result;
+  }
+
+  const kept = new Set(inputs.map((input) => input.storage_path).filter(Boolean));
+  await removeWorkImageFiles(
+    work.creator_id,
+    previous.filter((row) => row.storage_path && !kept.has(row.storage_path))
+  );
+
+  return result;
+};
+
+type Props = {
+  images: EditableWorkImage[];
+  coverKey: string | null;
+  onChange: (images: EditableWorkImage[], coverKey: string | null) => void;
+  disabled?: boolean;
+};
+
+const move = <T,>(list: T[], from: number, to: number) => {
+  const next = [...list];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+export default function WorkImagesEditor({ images, coverKey, onChange, disabled }: Props) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+  const [warning, setWarning] = useState<string | null>(null);
+
+  // カバー未指定なら先頭
+  const effectiveCoverKey =
+    images.some((image) => image.key === coverKey) ? coverKey : images[0]?.key ?? null;
+
+  const handleFiles = (e: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    const imageFiles = files.filter(
+      (f) => f.type.startsWith('image/') && f.size <= WORK_IMAGE_MAX_BYTES
+    );
+    const room = WORK_MAX_IMAGES - images.length;
+    const accepted = imageFiles.slice(0, Math.max(0, room));
+
+    if (imageFiles.length < files.length) {
+      setWarning(
+        `画像以外のファイルや ${WORK_IMAGE_MAX_BYTES / 1024 / 1024}MB を超える画像は追加できません。`
+      );
+    } else if (accepted.length < imageFiles.length) {
+      setWarning(`画像は ${WORK_MAX_IMAGES} 枚までです。`);
+    } else {
+      setWarning(null);
+    }
+    if (accepted.length === 0) return;
+
+    const added: EditableWorkImage[] = accepted.map((file) => ({
+      key: globalThis.crypto.randomUUID(),
+      previewUrl: URL.createObjectURL(file),
+      file,
+      storage_path: null,
+      url: null,
+      meta: null,
+    }));
+
+    onChange([...images, ...added], effectiveCoverKey ?? added[0].key);
+  };
+
+  const handleRemove = (index: number) => {
+    const removed = images[index];
+    if (removed.file) URL.revokeObjectURL(removed.previewUrl);
+
+    const next = images.filter((_, i) => i !== index);
+    onChange(next, removed.key === effectiveCoverKey ? next[0]?.key ?? null : effectiveCoverKey);
+    setWarning(null);
+  };
+
+  const handleMove = (from: number, to: number) => {
+    if (to < 0 || to >= images.length || from === to) return;
+    onChange(move(images, from, to), effectiveCoverKey);
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null) handleMove(dragIndex, index);
+    setDragIndex(null);
+    setOverIndex(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      {images.length > 0 && (
+        <ol className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+          {images.map((image, index) => {
+            const isCover = image.key === effectiveCoverKey;
+
+            return (
+              <li
+                key={image.key}
+                draggable={!disabled}
+                onDragStart={() => setDragIndex(index)}
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  setOverIndex(index);
+                }}
+                onDragLeave={() => setOverIndex((current) => (current === index ? null : current))}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  handleDrop(index);
+                }}
+                onDragEnd={() => {
+                  setDragIndex(null);
+                  setOverIndex(null);
+                }}
+                className={`group relative overflow-hidden rounded-2xl border bg-slate-900 transition ${
+                  isCover ? 'border-pink-400' : 'border-slate-800'
+                } ${overIndex === index && dragIndex !== index ? 'ring-2 ring-sky-400' : ''} ${
+                  dragIndex === index ? 'opacity-50' : ''
+                } ${disabled ? '' : 'cursor-grab active:cursor-grabbing'}`}
+              >
+                <div className="relative w-full pt-[75%]">
+                  <img
+                    src={image.previewUrl}
+                    alt={`画像 ${index + 1}`}
+                    draggable={false}
+                    className="absolute inset-0 h-full w-full object-cover"
+                  />
+                </div>
+
+                <span className="absolute left-1.5 top-1.5 rounded-full bg-slate-950/80 px-1.5 py-0.5 text-[10px] text-slate-200">
+                  {index + 1}
+                </span>
+                {isCover && (
+                  <span className="absolute right-1.5 top-1.5 rounded-full bg-pink-500 px-2 py-0.5 text-[10px] font-semibold text-white">
+                    カバー
+                  </span>
+                )}
+
+                <div className="flex items-center justify-between gap-1 bg-slate-950/90 px-1.5 py-1 text-[10px]">
+                  <div className="flex gap-1">
+                    <button
+                      type="button"
+                      onClick={() => handleMove(index, index - 1)}
+                      disabled={disabled || index === 0}
+                      aria-label="前へ移動"
+                      className="rounded px-1 text-slate-300 hover:text-white disabled:opacity-30"
+                    >
+                      ←
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleMove(index, index + 1)}
+                      disabled={disabled || index === images.length - 1}
+                      aria-label="後ろへ移動"
+                      className="rounded px-1 text-slate-300 hover:text-white disabled:opacity-30"
+                    >
+                      →
+                    </button>
+                  </div>
+                  {!isCover && (
+                    <button
+                      type="button"
+                      onClick={() => onChange(images, image.key)}
+                      disabled={disabled}
+                      className="text-sky-300 hover:text-sky-200"
+                    >
+                      カバーにする
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(index)}
+                    disabled={disabled}
+                    aria-label="この画像を外す"
+                    className="px-1 text-slate-400 hover:text-red-300"
+                  >
+                    ×
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {images.length < WORK_MAX_IMAGES && (
+        <label
+          className={`flex cursor-pointer items-center justify-center rounded-2xl border border-dashed border-slate-700 bg-slate-900/60 px-3 py-4 text-[11px] text-slate-300 hover:border-pink-400/70 hover:text-slate-100 transition ${
+            disabled ? 'pointer-events-none opacity-60' : ''
+          }`}
+        >
+          ＋ 画像を追加（あと {WORK_MAX_IMAGES - images.length} 枚）
+          <input
+            type="file"
+            accept="image/*"
+            multiple
+            onChange={handleFiles}
+            disabled={disabled}
+            className="hidden"
+          />
+        </label>
+      )}
+
+      <p className="text-[10px] text-slate-500">
+        ドラッグ（または ← →）で並び替えできます。カバーの画像が作品一覧のサムネイルになります。
+      </p>
+      {warning && <p className="text-[10px] text-yellow-300">{warning}</p>}
+    </div>
+  );
+}
@@ -3,17 +3,14 @@
 
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { supabase } from '@/lib/supabaseClient';
+import { currentPath, loginHref } from '@/lib/authRoutes';
+import { db } from '@/lib/data';
 
 type Props = {
   workId: string;
   creatorId: string;
 };
 
-type LikeRow = {
-  user_id: string;
-};
-
 export default function WorkLikeButton({ workId, creatorId }: Props) {
   const router = useRouter();
 
@@ -34,10 +31,7 @@ export default function WorkLikeButton({ workId, creatorId }: Props) {
 
       try {
         // 1) ログインユーザ
-        const {
-          data: { user },
-          error: userError,
-        } = await supabase.auth.getUser();
+        const { data: user, error: userError } = await db.auth.getUser();
 
         if (userError) {
           console.error('WorkLikeButton: auth.getUser エラー', userError.message);
@@ -47,10 +41,7 @@ export default function WorkLikeButton({ workId, creatorId }: Props) {
         setCurrentUserId(uid);
 
         // 2) この作品への全いいねを取得
-        const { data, error, count } = await supabase
-          .from('work_likes')
-          .select('user_id', { count: 'exact' })
-          .eq('work_id', workId);
+        const { data: rows, error } = await db.likes.listForWork(workId);
 
         if (error) {
           console.error('WorkLikeButton: work_likes 取得エラー', error.message);
@@ -59,8 +50,7 @@ export default function WorkLikeButton({ workId, creatorId }: Props) {
           return;
         }
 
-        const rows = (data || []) as LikeRow[];
-        setLikeCount(count ?? rows.length);
+        setLikeCount(rows.length);
 
         if (uid) {
           const alreadyLiked = rows.some((r) => r.user_id === uid);
@@ -86,7 +76,7 @@ export default function WorkLikeButton({ workId, creatorId }: Props) {
 
     // ログインしてない → ログイン画面へ
     if (!currentUserId) {
-      router.push(`/auth/login?next=/works/${workId}`);
+      router.push(loginHref(currentPath()));
       return;
     }
 
@@ -101,12 +91,7 @@ export default function WorkLikeButton({ workId, creatorId }: Props) {
     try {
       if (!liked) {
         // いいね追加
-        const { error } = await supabase
-          .from('work_likes')
-          .insert({
-            work_id: workId,
-            user_id: currentUserId,
-          });
+        const { error } = await db.likes.add(workId, currentUserId);
 
         if (error) {
           console.error('WorkLikeButton: いいね追加エラー', error.message);
@@ -119,11 +104,7 @@ export default function WorkLikeButton({ workId, creatorId }: Props) {
         setLikeCount((prev) => prev + 1);
       } else {
         // いいね解除
-        const { error } = await supabase
-          .from('work_likes')
-          .delete()
-          .eq('work_id', workId)
-          .eq('user_id', currentUserId);
+        const { error } = await db.likes.remove(workId, currentUserId);
 
         if (error) {
           console.error('WorkLikeButton: いいね解除エラー', error.message);
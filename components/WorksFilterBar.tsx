@@ -0,0 +1,181 @@
+// components/WorksFilterBar.tsx
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  citiesOf,
+  findArea,
+  GENRES,
+  TOP_LEVEL_AREAS,
+  type GalleryFacetCount,
+  type GalleryFacets,
+  type GalleryQuery,
+  type GallerySort,
+} from '@/lib/data';
+import { galleryHref } from '@/lib/galleryQuery';
+
+type Props = {
+  query: GalleryQuery;
+  facets: GalleryFacets;
+};
+
+const SELECT_CLASS =
+  'min-w-[140px] rounded-full border border-slate-700 bg-slate-900/80 px-3 py-1.5 text-xs outline-none focus:border-pink-400 focus:ring-2 focus:ring-pink-500/30';
+
+const countOf = (counts: GalleryFacetCount[], value: string) =>
+  counts.find((c) => c.value === value)?.works_count ?? 0;
+
+// 絞り込みを変えたら URL（?q=&genre=&area=&sort=）を書き換えてサーバーで再描画する
+//   /tags/[slug] ではタグのパスのまま絞り込む（galleryHref が query.tag を引き継ぐ）
+export default function WorksFilterBar({ query, facets }: Props) {
+  const router = useRouter();
+  const [keyword, setKeyword] = useState(query.q ?? '');
+
+  // 条件を変えたらカーソルは先頭に戻す
+  const navigate = (
+    overrides: Partial<Record<'q' | 'genre' | 'area', string | null>> & { sort?: GallerySort }
+  ) => {
+    router.push(galleryHref(query, { ...overrides, cursor: null }));
+  };
+
+  // キーワードを変えたら並び順は既定（キーワードがあれば関連度順）に戻す。いいね順だけは残す
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    navigate({
+      q: keyword.trim() || null,
+      sort: query.sort === 'popular' ? 'popular' : undefined,
+    });
+  };
+
+  const sort = query.sort ?? 'newest';
+
+  // 候補は公開作品のあるものだけ（選択中のものは 0 件でも残す）
+  const genreOptions = GENRES.filter(
+    (g) => g.slug === query.genre || countOf(facets.genres, g.slug) > 0
+  );
+
+  // area は都道府県か市区の code。市区なら都道府県のプルダウンは親を選んだ状態にする
+  const selectedArea = query.area ? findArea(query.area) : null;
+  const prefectureCode = selectedArea?.parent_code ?? selectedArea?.code ?? '';
+  const cityCode = selectedArea?.parent_code ? selectedArea.code : '';
+  const prefectureOptions = TOP_LEVEL_AREAS.filter(
+    (a) => a.code === prefectureCode || countOf(facets.areas, a.code) > 0
+  );
+  const cityOptions = prefectureCode
+    ? citiesOf(prefectureCode).filter(
+        (a) => a.code === cityCode || countOf(facets.areas, a.code) > 0
+      )
+    : [];
+
+  return (
+    <section className="rounded-3xl border border-white/10 bg-slate-950/80 px-3 py-4 sm:px-5 sm:py-4 shadow-[0_18px_45px_rgba(15,23,42,0.8)]">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+        {/* キーワード検索（Enter で検索） */}
+        <form onSubmit={handleSubmit} className="w-full sm:max-w-xs">
+          <label className="block text-[11px] text-slate-300 mb-1">キーワードで探す</label>
+          <input
+            type="search"
+            value={keyword}
+            onChange={(e) => setKeyword(e.target.value)}
+            placeholder="例）ショート / レイヤー / 撮影 など"
+            className="w-full rounded-full border border-slate-700 bg-slate-900/80 px-3 py-1.5 text-xs text-slate-50 placeholder:text-slate-500 outline-none focus:border-pink-400 focus:ring-2 focus:ring-pink-500/30"
+          />
+        </form>
+
+        <div className="flex flex-wrap items-end gap-3 text-[11px] text-slate-300">
+          {/* ジャンル */}
+          <div>
+            <span className="block mb-1">ジャンル</span>
+            <select
+              value={query.genre ?? ''}
+              onChange={(e) => navigate({ genre: e.target.value || null })}
+              className={SELECT_CLASS}
+            >
+              <option value="">すべて</option>
+              {genreOptions.map((g) => (
+                <option key={g.slug} value={g.slug}>
+                  {g.name}（{countOf(facets.genres, g.slug)}）
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* 活動エリア（都道府県 → 市区） */}
+          <div>
+            <span className="block mb-1">活動エリア</span>
+            <select
+              value={prefectureCode}
+              onChange={(e) => navigate({ area: e.target.value || null })}
+              className={SELECT_CLASS}
+            >
+              <option value="">すべて</option>
+              {prefectureOptions.map((a) => (
+                <option key={a.code} value={a.code}>
+                  {a.name}（{countOf(facets.areas, a.code)}）
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {cityOptions.length > 0 && (
+            <div>
+              <span className="block mb-1">市区</span>
+              <select
+                value={cityCode}
+                onChange={(e) => navigate({ area: e.target.value || prefectureCode })}
+                className={SELECT_CLASS}
+              >
+                <option value="">全域</option>
+                {cityOptions.map((a) => (
+                  <option key={a.code} value={a.code}>
+                    {a.name}（{countOf(facets.areas, a.code)}）
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {/* 並び替え */}
+          <div className="ml-auto flex items-center gap-1 rounded-full border border-slate-700 bg-slate-900/80 px-1 py-1">
+            {query.q && (
+              <button
+                type="button"
+                onClick={() => navigate({ sort: 'relevance' })}
+                className={`rounded-full px-3 py-1 text-[11px] transition ${
+                  sort === 'relevance'
+                    ? 'bg-white text-slate-900 shadow-sm'
+                    : 'text-slate-300 hover:text-white'
+                }`}
+              >
+                関連度順
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => navigate({ sort: 'newest' })}
+              className={`rounded-full px-3 py-1 text-[11px] transition ${
+                sort === 'newest'
+                  ? 'bg-white text-slate-900 shadow-sm'
+                  : 'text-slate-300 hover:text-white'
+              }`}
+            >
+              新着順
+            </button>
+            <button
+              type="button"
+              onClick={() => navigate({ sort: 'popular' })}
+              className={`rounded-full px-3 py-1 text-[11px] transition ${
+                sort === 'popular'
+                  ? 'bg-white text-slate-900 shadow-sm'
+                  : 'text-slate-300 hover:text-white'
+              }`}
+            >
+              いいねが多い順
+            </button>
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,74 @@
+// lib/authRoutes.ts
+// ログインが必要なページ（proxy.ts が描画前にログイン画面へ回す）と、ログイン後の戻り先の扱い
+import type { AuthLinkType } from '@/lib/data';
+
+const PROTECTED_PATHS: RegExp[] = [
+  /^\/requests(\/|$)/,
+  /^\/works\/new$/,
+  /^\/works\/[^/]+\/edit$/,
+  /^\/profile\/edit$/,
+];
+
+export const isProtectedPath = (pathname: string) =>
+  PROTECTED_PATHS.some((pattern) => pattern.test(pathname));
+
+// 戻り先がないとき・使えないとき
+export const DEFAULT_NEXT_PATH = '/works';
+
+// 相対パスを解決するための仮のオリジン（解決後にオリジンが変わったら外部への URL）
+const BASE_ORIGIN = 'http://localhost';
+
+// ログイン後の戻り先として使ってよいパス（パス＋クエリ＋ハッシュ）。使えなければ fallback。
+// 同じオリジンの相対パスだけを許す（//evil.example・/\evil.example・javascript: などは弾く）
+export const safeNextPath = (next: string | null | undefined, fallback = DEFAULT_NEXT_PATH) => {
+  if (!next || !next.startsWith('/') || next.startsWith('//') || next.startsWith('/\\')) {
+    return fallback;
+  }
+  // タブ・改行は URL の解釈で消えるので「/\t/evil.example」が //evil.example になる
+  if (Array.from(next).some((ch) => ch.charCodeAt(0) < 0x20 || ch.charCodeAt(0) === 0x7f)) {
+    return fallback;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(next, BASE_ORIGIN);
+  } catch {
+    return fallback;
+  }
+  if (url.origin !== BASE_ORIGIN) return fallback;
+  // 「/..//evil.example」は解決すると //evil.example になる
+  if (url.pathname.startsWith('//')) return fallback;
+  // ログイン画面に戻すとループする
+  if (url.pathname.startsWith('/auth/')) return fallback;
+
+  return `${url.pathname}${url.search}${url.hash}`;
+};
+
+type LoginHrefOptions = {
+  // 新規登録タブを開く
+  signup?: boolean;
+};
+
+// ログインしたら next（パス＋クエリ）に戻るログイン画面の URL。next はエンコードしてから付ける
+export const loginHref = (next?: string | null, options: LoginHrefOptions = {}) => {
+  const params = new URLSearchParams();
+  if (options.signup) params.set('tab', 'signup');
+  if (next) params.set('next', safeNextPath(next));
+
+  const query = params.toString();
+  return query ? `/auth/login?${query}` : '/auth/login';
+};
+
+// /auth/ の中のページ（パスワード再設定など）へ、ログイン後の戻り先を引き継いで移る
+export const authHref = (path: string, next: string) =>
+  next === DEFAULT_NEXT_PATH ? path : `${path}?${new URLSearchParams({ next }).toString()}`;
+
+// メールのリンクで戻ってくる URL（Supabase の Redirect URLs に /auth/callback を登録しておく）
+export const authCallbackUrl = (type: AuthLinkType, next?: string | null) => {
+  const params = new URLSearchParams({ type });
+  if (next) params.set('next', safeNextPath(next));
+  return `${window.location.origin}/auth/callback?${params.toString()}`;
+};
+
+// ブラウザで今開いているページ（パス＋クエリ）。ログイン画面へ回すときの戻り先に使う
+export const currentPath = () => `${window.location.pathname}${window.location.search}`;
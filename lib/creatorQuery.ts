@@ -0,0 +1,50 @@
+// lib/creatorQuery.ts
+// クリエイター一覧の URL クエリ（?q=&genre=&area=&sort=&cursor=）の読み書き
+//   sort は既定（q があれば relevance、なければ works）なら付けない
+import type { CreatorDirectoryQuery, CreatorSort } from '@/lib/data';
+import type { SearchParams } from '@/lib/galleryQuery';
+
+const SORTS: CreatorSort[] = ['works', 'likes', 'acceptance', 'relevance'];
+
+const first = (value: string | string[] | undefined) =>
+  (Array.isArray(value) ? value[0] : value)?.trim() || null;
+
+const defaultSort = (q: string | null | undefined): CreatorSort => (q ? 'relevance' : 'works');
+
+const parseSort = (value: string | null, q: string | null): CreatorSort => {
+  const sort = SORTS.find((s) => s === value);
+  if (!sort || (sort === 'relevance' && !q)) return defaultSort(q);
+  return sort;
+};
+
+export const parseCreatorQuery = (params: SearchParams): CreatorDirectoryQuery => {
+  const q = first(params.q);
+  return {
+    q,
+    genre: first(params.genre),
+    area: first(params.area),
+    sort: parseSort(first(params.sort), q),
+    cursor: first(params.cursor),
+  };
+};
+
+export const creatorsHref = (
+  query: CreatorDirectoryQuery,
+  overrides: Partial<Record<'q' | 'genre' | 'area' | 'cursor', string | null>> & {
+    sort?: CreatorSort;
+  } = {}
+) => {
+  const merged = { ...query, ...overrides };
+  const params = new URLSearchParams();
+
+  if (merged.q) params.set('q', merged.q);
+  if (merged.genre) params.set('genre', merged.genre);
+  if (merged.area) params.set('area', merged.area);
+  // 関連度順はキーワードがあるときだけ
+  const sort = merged.sort === 'relevance' && !merged.q ? 'works' : merged.sort;
+  if (sort && sort !== defaultSort(merged.q)) params.set('sort', sort);
+  if (merged.cursor) params.set('cursor', merged.cursor);
+
+  const qs = params.toString();
+  return qs ? `/creators?${qs}` : '/creators';
+};
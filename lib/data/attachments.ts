@@ -0,0 +1,41 @@
+// lib/data/attachments.ts
+// メッセージの添付ファイルの共通ルール（DB の validate_message_attachments と同じ）
+import type { MessageAttachment } from './types';
+
+// attachments バケットの file_size_limit と同じ
+export const ATTACHMENT_MAX_BYTES = 10 * 1024 * 1024;
+export const ATTACHMENT_MAX_COUNT = 5;
+
+// attachments バケットの allowed_mime_types と同じ
+export const ATTACHMENT_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+export const ATTACHMENT_ALLOWED_TYPES = [...ATTACHMENT_IMAGE_TYPES, 'application/pdf'];
+
+export const isImageAttachment = (attachment: Pick<MessageAttachment, 'content_type'>) =>
+  ATTACHMENT_IMAGE_TYPES.includes(attachment.content_type);
+
+// {request_id}/{uuid}-{ファイル名}（先頭のフォルダでアクセス権を判定する）
+export const attachmentPath = (requestId: string, fileName: string) => {
+  const safeName = fileName.replace(/[^\w.\-]+/g, '_').slice(-100) || 'file';
+  return `${requestId}/${globalThis.crypto.randomUUID()}-${safeName}`;
+};
+
+// 問題があればメッセージ、なければ null
+export const validateAttachmentFiles = (
+  files: Pick<File, 'name' | 'size' | 'type'>[]
+): string | null => {
+  if (files.length > ATTACHMENT_MAX_COUNT) {
+    return `添付できるファイルは ${ATTACHMENT_MAX_COUNT} 件までです。`;
+  }
+
+  const wrongType = files.find((f) => !ATTACHMENT_ALLOWED_TYPES.includes(f.type));
+  if (wrongType) {
+    return `「${wrongType.name}」は添付できません（JPEG / PNG / WebP / GIF / PDF のみ）。`;
+  }
+
+  const tooLarge = files.find((f) => f.size > ATTACHMENT_MAX_BYTES);
+  if (tooLarge) {
+    return `「${tooLarge.name}」は大きすぎます（1 ファイル ${ATTACHMENT_MAX_BYTES / 1024 / 1024} MB まで）。`;
+  }
+
+  return null;
+};
@@ -0,0 +1,202 @@
+// lib/data/creatorProfile.ts
+// クリエイタープロフィールの項目（外部リンク・スキル・料金メニュー・納期の目安・受付状況）のルール
+//   DB の profiles_validate_details / profiles_normalize_availability トリガーと同じ
+import { todayInTokyo } from './quotes';
+import type {
+  Availability,
+  PriceMenuItem,
+  ProfileLink,
+  ProfileLinkKind,
+  ProfileRow,
+  WorkRow,
+} from './types';
+
+export const PROFILE_MAX_LINKS = 8;
+export const PROFILE_LINK_MAX_LENGTH = 500;
+export const PROFILE_MAX_SKILLS = 10;
+export const SKILL_MAX_LENGTH = 20;
+export const PRICE_MENU_MAX_ITEMS = 10;
+export const PRICE_LABEL_MAX_LENGTH = 40;
+export const PRICE_MAX = 10_000_000;
+export const TURNAROUND_MAX_DAYS = 365;
+export const PAUSE_REASON_MAX_LENGTH = 200;
+
+// hosts が空なら（Web サイト）どのドメインでもよい。サブドメイン（www. など）も許す
+export const PROFILE_LINK_KINDS: { kind: ProfileLinkKind; label: string; hosts: string[] }[] = [
+  { kind: 'instagram', label: 'Instagram', hosts: ['instagram.com'] },
+  { kind: 'x', label: 'X', hosts: ['x.com', 'twitter.com'] },
+  { kind: 'pixiv', label: 'pixiv', hosts: ['pixiv.net'] },
+  { kind: 'behance', label: 'Behance', hosts: ['behance.net'] },
+  { kind: 'website', label: 'Webサイト', hosts: [] },
+];
+
+export const AVAILABILITY_LABELS: Record<Availability, string> = {
+  open: '受付中',
+  paused: '停止中',
+};
+
+export const profileLinkLabel = (kind: ProfileLinkKind) =>
+  PROFILE_LINK_KINDS.find((k) => k.kind === kind)?.label ?? kind;
+
+// ホスト名の部分（最初の / ? # まで）に \ ・@（ユーザー情報）・空白があるもの。
+// 「https://evil.example\@instagram.com」のように、見た目と実際に開くホストがずれるので URL として扱わない
+// （DB の url_host と同じ）
+const AMBIGUOUS_AUTHORITY = /^https?:\/\/[^/?#]*[\\@\s\u0000-\u001f\u007f]/i;
+
+const hostOf = (url: string) => {
+  if (AMBIGUOUS_AUTHORITY.test(url)) return null;
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') return null;
+    return parsed.hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+};
+
+const matchesHost = (host: string, domains: string[]) =>
+  domains.some((domain) => host === domain || host.endsWith(`.${domain}`));
+
+// URL のドメインから種類を決める（どれでもなければ website）
+export const profileLinkKindOf = (url: string): ProfileLinkKind => {
+  const host = hostOf(url.trim());
+  const found = host
+    ? PROFILE_LINK_KINDS.find((k) => k.hosts.length > 0 && matchesHost(host, k.hosts))
+    : null;
+  return found?.kind ?? 'website';
+};
+
+// 入力欄のエラー（問題なければ null）
+export const validateProfileLink = (link: ProfileLink) => {
+  const label = profileLinkLabel(link.kind);
+  const url = link.url.trim();
+  if (!url) return `${label} の URL を入力してください。`;
+  if (url.length > PROFILE_LINK_MAX_LENGTH) return `${label} の URL が長すぎます。`;
+
+  const kind = PROFILE_LINK_KINDS.find((k) => k.kind === link.kind);
+  if (!kind) return '選べないリンクの種類が含まれています。';
+
+  if (AMBIGUOUS_AUTHORITY.test(url)) {
+    return `${label} の URL のドメイン部分に \\ や @、空白は使えません。`;
+  }
+  const host = hostOf(url);
+  if (!host) return `${label} の URL は http:// か https:// から始めてください。`;
+  if (kind.hosts.length > 0 && !matchesHost(host, kind.hosts)) {
+    return `${label} の URL は ${kind.hosts.join(' / ')} のものを入力してください。`;
+  }
+  return null;
+};
+
+// 表記ゆれをそろえる（全角英数 → 半角、空白は 1 つに）
+export const normalizeSkill = (skill: string) =>
+  skill.normalize('NFKC').replace(/\s+/g, ' ').trim();
+
+// 空・重複（大文字 / 小文字の違いも同じとみなす）を除く。並びは入力順
+export const normalizeSkills = (skills: string[]) => {
+  const seen = new Set<string>();
+  return skills.map(normalizeSkill).filter((skill) => {
+    const key = skill.toLowerCase();
+    if (!skill || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+export const validatePriceMenuItem = (item: PriceMenuItem) => {
+  const label = item.label.trim();
+  if (!label) return '料金メニューの項目名を入力してください。';
+  if (label.length > PRICE_LABEL_MAX_LENGTH) {
+    return `料金メニューの項目名は ${PRICE_LABEL_MAX_LENGTH} 文字までです。`;
+  }
+
+  const isPrice = (value: number) => Number.isInteger(value) && value >= 0 && value <= PRICE_MAX;
+  if (!isPrice(item.min_price)) return `「${label}」の料金を正しく入力してください。`;
+  if (item.max_price !== null && (!isPrice(item.max_price) || item.max_price < item.min_price)) {
+    return `「${label}」の上限は下限以上の金額にしてください。`;
+  }
+  return null;
+};
+
+// 保存前のチェック（問題があればメッセージ、なければ null）
+export const validateCreatorDetails = (
+  details: Pick<
+    ProfileRow,
+    'links' | 'skills' | 'price_menu' | 'turnaround_days' | 'pause_reason' | 'resumes_on'
+  >
+) => {
+  if (details.links.length > PROFILE_MAX_LINKS) {
+    return `外部リンクは ${PROFILE_MAX_LINKS} 件までです。`;
+  }
+  for (const link of details.links) {
+    const problem = validateProfileLink(link);
+    if (problem) return problem;
+  }
+
+  if (details.skills.length > PROFILE_MAX_SKILLS) {
+    return `スキルは ${PROFILE_MAX_SKILLS} 個までです。`;
+  }
+  const longSkill = details.skills.find((skill) => normalizeSkill(skill).length > SKILL_MAX_LENGTH);
+  if (longSkill) return `スキルは 1 つ ${SKILL_MAX_LENGTH} 文字までです（「${longSkill}」）。`;
+
+  if (details.price_menu.length > PRICE_MENU_MAX_ITEMS) {
+    return `料金メニューは ${PRICE_MENU_MAX_ITEMS} 件までです。`;
+  }
+  for (const item of details.price_menu) {
+    const problem = validatePriceMenuItem(item);
+    if (problem) return problem;
+  }
+
+  const days = details.turnaround_days;
+  if (days !== null && (!Number.isInteger(days) || days < 1 || days > TURNAROUND_MAX_DAYS)) {
+    return `納期の目安は 1〜${TURNAROUND_MAX_DAYS} 日で入力してください。`;
+  }
+
+  if ((details.pause_reason ?? '').trim().length > PAUSE_REASON_MAX_LENGTH) {
+    return `停止の理由は ${PAUSE_REASON_MAX_LENGTH} 文字までです。`;
+  }
+  if (details.resumes_on !== null && !/^\d{4}-\d{2}-\d{2}$/.test(details.resumes_on)) {
+    return '再開予定日を正しく入力してください。';
+  }
+  return null;
+};
+
+const yen = (value: number) => `¥${value.toLocaleString('ja-JP')}`;
+
+// ¥5,000〜¥10,000 / ¥5,000〜（上限なし）/ ¥5,000（固定）
+export const formatPriceRange = (item: Pick<PriceMenuItem, 'min_price' | 'max_price'>) => {
+  if (item.max_price === null) return `${yen(item.min_price)}〜`;
+  if (item.max_price === item.min_price) return yen(item.min_price);
+  return `${yen(item.min_price)}〜${yen(item.max_price)}`;
+};
+
+// 停止中でも再開予定日（日本時間）が来ていれば受付中として扱う（DB の creator_accepting_requests と同じ）
+export const isAcceptingRequests = (
+  profile: Pick<ProfileRow, 'availability' | 'resumes_on'>,
+  today = todayInTokyo()
+) => profile.availability === 'open' || (profile.resumes_on !== null && profile.resumes_on <= today);
+
+// この作品から依頼できるか（作品ごとの停止とクリエイター全体の停止の両方を見る）
+export const workAcceptsRequests = (
+  work: Pick<WorkRow, 'accepting_requests'>,
+  creator: Pick<ProfileRow, 'availability' | 'resumes_on'>,
+  today = todayInTokyo()
+) => work.accepting_requests && isAcceptingRequests(creator, today);
+
+// 2026-11-01 → 2026/11/01
+export const formatResumeDate = (date: string) => date.replace(/-/g, '/');
+
+// 依頼できないときに見せる文（理由・再開予定日があれば改行で続ける）。依頼できるなら null
+export const requestsPausedMessage = (
+  creator: Pick<ProfileRow, 'availability' | 'resumes_on' | 'pause_reason'>,
+  work: Pick<WorkRow, 'accepting_requests'> | null = null,
+  today = todayInTokyo()
+) => {
+  if (!isAcceptingRequests(creator, today)) {
+    const lines = ['現在このクリエイターは新しい依頼の受付を停止しています。'];
+    if (creator.pause_reason) lines.push(`理由：${creator.pause_reason}`);
+    if (creator.resumes_on) lines.push(`再開予定日：${formatResumeDate(creator.resumes_on)}`);
+    return lines.join('\n');
+  }
+  if (work && !work.accepting_requests) return 'この作品への依頼は現在受け付けていません。';
+  return null;
+};
@@ -0,0 +1,57 @@
+// lib/data/cursor.ts
+// キーセットページング用カーソル（URL に載せられる base64url 文字列）
+import type { CreatorSort, CreatorSummary, GallerySort, GalleryWork } from './types';
+
+export type GalleryCursor = {
+  created_at: string;
+  id: string;
+  likes_count?: number;
+  search_rank?: number;
+};
+
+export const encodeCursor = (value: object): string =>
+  btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+// 壊れたカーソルは「先頭から」として扱う
+export const decodeCursor = <T extends object>(cursor: string | null | undefined): T | null => {
+  if (!cursor) return null;
+  try {
+    const base64 = cursor.replace(/-/g, '+').replace(/_/g, '/');
+    const parsed: unknown = JSON.parse(atob(base64));
+    return parsed && typeof parsed === 'object' ? (parsed as T) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const galleryCursorOf = (work: GalleryWork, sort: GallerySort): string =>
+  encodeCursor(
+    sort === 'popular'
+      ? { created_at: work.created_at, id: work.id, likes_count: work.likes_count }
+      : sort === 'relevance'
+      ? { created_at: work.created_at, id: work.id, search_rank: work.search_rank }
+      : { created_at: work.created_at, id: work.id }
+  );
+
+// クリエイター一覧は (並び順の値, id)
+export type CreatorCursor = {
+  value: number;
+  id: string;
+};
+
+// list_creators の sort_value と同じ（承諾率がなければ最後）
+export const creatorSortValue = (creator: CreatorSummary, sort: CreatorSort) => {
+  if (sort === 'likes') return creator.likes_total;
+  if (sort === 'acceptance') return creator.acceptance_rate ?? -1;
+  if (sort === 'relevance') return creator.search_rank;
+  return creator.works_count;
+};
+
+export const creatorCursorOf = (creator: CreatorSummary, sort: CreatorSort): string =>
+  encodeCursor({ value: creatorSortValue(creator, sort), id: creator.id });
+
+export const GALLERY_DEFAULT_LIMIT = 24;
+export const GALLERY_MAX_LIMIT = 100;
+
+export const clampGalleryLimit = (limit: number | undefined) =>
+  Math.min(Math.max(limit ?? GALLERY_DEFAULT_LIMIT, 1), GALLERY_MAX_LIMIT);
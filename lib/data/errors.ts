@@ -0,0 +1,37 @@
+// lib/data/errors.ts
+// データアクセス層で共通に使うエラー型と Result 型
+
+export type DataErrorCode =
+  | 'not_found' // 対象の行が存在しない
+  | 'unauthorized' // 未ログイン
+  | 'unconfirmed' // メールアドレスの確認が済んでいない
+  | 'forbidden' // 権限がない（RLS 違反など）
+  | 'conflict' // 一意制約違反など
+  | 'invalid' // 入力値が不正
+  | 'backend'; // その他バックエンド側のエラー
+
+export class DataError extends Error {
+  readonly code: DataErrorCode;
+  readonly cause?: unknown;
+
+  constructor(code: DataErrorCode, message: string, cause?: unknown) {
+    super(message);
+    this.name = 'DataError';
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
+export type DataResult<T> =
+  | { data: T; error: null }
+  | { data: null; error: DataError };
+
+export const ok = <T>(data: T): DataResult<T> => ({ data, error: null });
+
+export const fail = <T = never>(
+  code: DataErrorCode,
+  message: string,
+  cause?: unknown
+): DataResult<T> => ({ data: null, error: new DataError(code, message, cause) });
+
+export const isNotFound = (error: DataError | null) => error?.code === 'not_found';
@@ -0,0 +1,96 @@
+// lib/data/index.ts
+// 画面からはここ経由でデータにアクセスする（supabase を直接触らない）
+import { getSupabaseClient } from '@/lib/supabaseClient';
+import { createMemoryBackend, type MemoryMail, type MemoryStore } from './memory';
+import { demoSeed } from './memory/seed';
+import type { DataBackend } from './repositories';
+import { createSupabaseBackend } from './supabase';
+
+export * from './attachments';
+export * from './creatorProfile';
+export * from './errors';
+export * from './milestones';
+export * from './profileImages';
+export * from './quotes';
+export * from './requestStatus';
+export * from './reviews';
+export * from './roles';
+export * from './search';
+export * from './tags';
+export * from './vocabularies';
+export * from './workImages';
+export * from './workStatus';
+export type * from './repositories';
+export type * from './types';
+export type { MemoryMail } from './memory';
+
+let backend: DataBackend | null = null;
+
+// NEXT_PUBLIC_DATA_BACKEND=memory ならデモデータ入りのインメモリストアで動かす
+const createDefaultBackend = (): DataBackend =>
+  process.env.NEXT_PUBLIC_DATA_BACKEND === 'memory'
+    ? createMemoryBackend(demoSeed)
+    : createSupabaseBackend(getSupabaseClient());
+
+const current = (): DataBackend => {
+  if (!backend) backend = createDefaultBackend();
+  return backend;
+};
+
+// テストなどでバックエンドを差し替える
+export const setDataBackend = (next: DataBackend | null) => {
+  backend = next;
+};
+
+// インメモリバックエンドが送ったメール（新しい順）。Supabase のときは null（ローカルなら Inbucket で見る）
+export const listMemoryOutbox = async (): Promise<MemoryMail[] | null> => {
+  const active = current();
+  if (!('store' in active)) return null;
+  const { store } = active as DataBackend & { store: MemoryStore };
+  return [...store.outbox].reverse();
+};
+
+export const db: DataBackend = {
+  get auth() {
+    return current().auth;
+  },
+  get profiles() {
+    return current().profiles;
+  },
+  get works() {
+    return current().works;
+  },
+  get tags() {
+    return current().tags;
+  },
+  get requests() {
+    return current().requests;
+  },
+  get messages() {
+    return current().messages;
+  },
+  get likes() {
+    return current().likes;
+  },
+  get storage() {
+    return current().storage;
+  },
+  get media() {
+    return current().media;
+  },
+  get presence() {
+    return current().presence;
+  },
+  get notifications() {
+    return current().notifications;
+  },
+  get quotes() {
+    return current().quotes;
+  },
+  get milestones() {
+    return current().milestones;
+  },
+  get reviews() {
+    return current().reviews;
+  },
+};
@@ -0,0 +1,71 @@
+// lib/data/memory/__tests__/fixtures.ts
+// テスト用のインメモリバックエンド
+//   顔ぶれは supabase/tests/row_level_security.test.sql と同じ
+//   クリエイター A・クリエイター兼依頼者 B・依頼者 C・依頼者 D
+import { createMemoryBackend } from '..';
+import type { ProfileRow, Role, WorkRow } from '../../types';
+
+export const CREATOR_A = 'aaaaaaaa-0000-4000-8000-000000000001';
+export const CREATOR_B = 'bbbbbbbb-0000-4000-8000-000000000002';
+export const CLIENT_C = 'cccccccc-0000-4000-8000-000000000003';
+export const CLIENT_D = 'dddddddd-0000-4000-8000-000000000004';
+
+export type TestBackend = ReturnType<typeof createMemoryBackend>;
+
+export const profileOf = (id: string, displayName: string, roles: Role[]): ProfileRow => ({
+  id,
+  display_name: displayName,
+  roles,
+  role: roles[0],
+  bio: null,
+  genre: null,
+  area: null,
+  genre_slugs: [],
+  area_codes: [],
+  avatar_url: null,
+  cover_url: null,
+  links: [],
+  skills: [],
+  price_menu: [],
+  turnaround_days: null,
+  availability: 'open',
+  pause_reason: null,
+  resumes_on: null,
+});
+
+export const workOf = (
+  id: string,
+  creatorId: string,
+  title: string,
+  overrides: Partial<WorkRow> = {}
+): WorkRow => ({
+  id,
+  creator_id: creatorId,
+  title,
+  description: null,
+  image_url: null,
+  image_meta: null,
+  tags: null,
+  is_public: true,
+  accepting_requests: true,
+  archived_at: null,
+  deleted_at: null,
+  created_at: '2026-10-01T00:00:00.000Z',
+  ...overrides,
+});
+
+export const createTestBackend = (works: WorkRow[] = []): TestBackend =>
+  createMemoryBackend({
+    profiles: [
+      profileOf(CREATOR_A, 'クリエイター A', ['creator']),
+      profileOf(CREATOR_B, 'クリエイター B', ['creator', 'client']),
+      profileOf(CLIENT_C, '依頼者 C', ['client']),
+      profileOf(CLIENT_D, '依頼者 D', ['client']),
+    ],
+    works,
+  });
+
+// null なら未ログイン
+export const signInAs = (backend: TestBackend, userId: string | null) => {
+  backend.store.sessionUserId = userId;
+};
@@ -0,0 +1,179 @@
+// lib/data/memory/__tests__/messages.test.ts
+// 依頼スレッドのメッセージと既読カーソル（インメモリバックエンド）
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CLIENT_C, CLIENT_D, CREATOR_A, createTestBackend, signInAs } from './fixtures';
+
+// 既読は created_at で比べるので、メッセージごとに時刻を進める
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2026-10-01T00:00:00.000Z'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// C が A に依頼し、最初のメッセージを送った状態
+const withThread = async () => {
+  const backend = createTestBackend();
+  signInAs(backend, CLIENT_C);
+  const { data: request } = await backend.requests.create({
+    creator_id: CREATOR_A,
+    client_id: CLIENT_C,
+    title: '撮影のご相談',
+    message: 'よろしくお願いします',
+  });
+  await backend.messages.create({
+    request_id: request!.id,
+    sender_id: CLIENT_C,
+    body: 'よろしくお願いします',
+  });
+  return { backend, requestId: request!.id };
+};
+
+const send = async (
+  backend: Awaited<ReturnType<typeof withThread>>['backend'],
+  requestId: string,
+  senderId: string,
+  body: string
+) => {
+  vi.setSystemTime(Date.now() + 1000);
+  signInAs(backend, senderId);
+  const { data } = await backend.messages.create({
+    request_id: requestId,
+    sender_id: senderId,
+    body,
+  });
+  return data!;
+};
+
+describe('messages.create', () => {
+  it('当事者は本人としてメッセージを送れ、相手に通知が届く（最初のメッセージは依頼の通知で代わる）', async () => {
+    const { backend, requestId } = await withThread();
+
+    await send(backend, requestId, CREATOR_A, 'ありがとうございます');
+
+    expect(backend.store.notifications.filter((n) => n.kind === 'message')).toMatchObject([
+      { user_id: CLIENT_C, actor_id: CREATOR_A, body: 'ありがとうございます' },
+    ]);
+  });
+
+  it('相手になりすまして送れない', async () => {
+    const { backend, requestId } = await withThread();
+    signInAs(backend, CLIENT_C);
+
+    const { error } = await backend.messages.create({
+      request_id: requestId,
+      sender_id: CREATOR_A,
+      body: 'なりすまし',
+    });
+
+    expect(error?.code).toBe('forbidden');
+  });
+
+  it('当事者でなければ送れず、読めもしない', async () => {
+    const { backend, requestId } = await withThread();
+    signInAs(backend, CLIENT_D);
+
+    const sent = await backend.messages.create({
+      request_id: requestId,
+      sender_id: CLIENT_D,
+      body: '割り込み',
+    });
+    const listed = await backend.messages.listForRequest(requestId);
+
+    expect(sent.error?.code).toBe('forbidden');
+    expect(listed.data).toEqual([]);
+  });
+
+  it('本文も添付もないメッセージは送れない', async () => {
+    const { backend, requestId } = await withThread();
+    signInAs(backend, CLIENT_C);
+
+    const { error } = await backend.messages.create({
+      request_id: requestId,
+      sender_id: CLIENT_C,
+      body: '  ',
+    });
+
+    expect(error?.code).toBe('invalid');
+  });
+});
+
+describe('messages.markReadUpTo / getReadCursor', () => {
+  it('表示された最新のメッセージまでを既読にし、カーソルを進める', async () => {
+    const { backend, requestId } = await withThread();
+    const second = await send(backend, requestId, CLIENT_C, '追加のご相談');
+    await send(backend, requestId, CLIENT_C, 'もう 1 件');
+
+    signInAs(backend, CREATOR_A);
+    const { data: count } = await backend.messages.markReadUpTo(requestId, CREATOR_A, second.id);
+    const { data: cursor } = await backend.messages.getReadCursor(requestId, CREATOR_A);
+    const { data: unread } = await backend.messages.countUnreadForUser(CREATOR_A);
+
+    expect(count).toBe(2);
+    expect(cursor?.last_read_message_id).toBe(second.id);
+    expect(unread).toBe(1);
+  });
+
+  it('カーソルは後ろに戻らない', async () => {
+    const { backend, requestId } = await withThread();
+    const first = backend.store.messages[0];
+    const latest = await send(backend, requestId, CLIENT_C, '追加のご相談');
+
+    signInAs(backend, CREATOR_A);
+    await backend.messages.markReadUpTo(requestId, CREATOR_A, latest.id);
+    const { data: count } = await backend.messages.markReadUpTo(requestId, CREATOR_A, first.id);
+    const { data: cursor } = await backend.messages.getReadCursor(requestId, CREATOR_A);
+
+    expect(count).toBe(0);
+    expect(cursor?.last_read_message_id).toBe(latest.id);
+  });
+
+  it('自分が送ったメッセージは既読にしない・未読に数えない', async () => {
+    const { backend, requestId } = await withThread();
+    const mine = await send(backend, requestId, CREATOR_A, 'ありがとうございます');
+
+    const { data: count } = await backend.messages.markReadUpTo(requestId, CREATOR_A, mine.id);
+    const { data: unreadByRequest } = await backend.messages.countUnreadByRequest(CLIENT_C);
+
+    expect(count).toBe(1);
+    expect(backend.store.messages.find((m) => m.id === mine.id)?.read_at).toBeNull();
+    expect(unreadByRequest).toEqual({ [requestId]: 1 });
+  });
+
+  it('まだ何も読んでいなければカーソルは null', async () => {
+    const { backend, requestId } = await withThread();
+
+    const { data } = await backend.messages.getReadCursor(requestId, CREATOR_A);
+
+    expect(data).toBeNull();
+  });
+
+  it('当事者でなければ既読にできない', async () => {
+    const { backend, requestId } = await withThread();
+    signInAs(backend, CLIENT_D);
+
+    const { error } = await backend.messages.markReadUpTo(
+      requestId,
+      CLIENT_D,
+      backend.store.messages[0].id
+    );
+
+    expect(error?.code).toBe('forbidden');
+  });
+
+  it('既読になったメッセージはリアルタイムで更新が届く', async () => {
+    const { backend, requestId } = await withThread();
+    const updated: string[] = [];
+    const unsubscribe = backend.messages.subscribeToRequest(requestId, {
+      onUpdate: (m) => updated.push(m.id),
+    });
+
+    signInAs(backend, CREATOR_A);
+    await backend.messages.markReadUpTo(requestId, CREATOR_A, backend.store.messages[0].id);
+    unsubscribe();
+
+    expect(updated).toEqual([backend.store.messages[0].id]);
+  });
+});
@@ -0,0 +1,182 @@
+// lib/data/memory/__tests__/requests.test.ts
+// 依頼の作成・ステータス変更・見え方（インメモリバックエンド）
+import { describe, expect, it } from 'vitest';
+import {
+  CLIENT_C,
+  CLIENT_D,
+  CREATOR_A,
+  CREATOR_B,
+  createTestBackend,
+  signInAs,
+  workOf,
+} from './fixtures';
+
+const A_PUBLIC = 'a0000000-0000-4000-8000-000000000001';
+const A_PRIVATE = 'a0000000-0000-4000-8000-000000000002';
+const B_PUBLIC = 'b0000000-0000-4000-8000-000000000001';
+
+const requestBackend = () =>
+  createTestBackend([
+    workOf(A_PUBLIC, CREATOR_A, '公開'),
+    workOf(A_PRIVATE, CREATOR_A, '非公開', { is_public: false }),
+    workOf(B_PUBLIC, CREATOR_B, 'B の公開'),
+  ]);
+
+const requestOf = (overrides: Record<string, unknown> = {}) => ({
+  creator_id: CREATOR_A,
+  client_id: CLIENT_C,
+  title: '撮影のご相談',
+  message: 'よろしくお願いします',
+  ...overrides,
+});
+
+// C が A に依頼した状態
+const withRequest = async () => {
+  const backend = requestBackend();
+  signInAs(backend, CLIENT_C);
+  const { data } = await backend.requests.create(requestOf({ work_id: A_PUBLIC }));
+  return { backend, request: data! };
+};
+
+describe('requests.create', () => {
+  it('依頼者は本人として公開作品への依頼を作れる（pending から始まり、クリエイターに通知が届く）', async () => {
+    const { backend, request } = await withRequest();
+
+    expect(request).toMatchObject({ status: 'pending', work_id: A_PUBLIC, agreed_total: null });
+    expect(backend.store.requestEvents).toMatchObject([
+      { request_id: request.id, kind: 'created', to_status: 'pending' },
+    ]);
+    expect(backend.store.notifications).toMatchObject([
+      { user_id: CREATOR_A, kind: 'request', request_id: request.id },
+    ]);
+  });
+
+  it('他のユーザーを依頼者にした依頼は作れない', async () => {
+    const backend = requestBackend();
+    signInAs(backend, CLIENT_D);
+
+    const { error } = await backend.requests.create(requestOf());
+
+    expect(error?.code).toBe('forbidden');
+  });
+
+  it('非公開の作品・別のクリエイターの作品は付けられない', async () => {
+    const backend = requestBackend();
+    signInAs(backend, CLIENT_D);
+
+    const privateWork = await backend.requests.create(
+      requestOf({ client_id: CLIENT_D, work_id: A_PRIVATE })
+    );
+    const otherCreator = await backend.requests.create(
+      requestOf({ client_id: CLIENT_D, work_id: B_PUBLIC })
+    );
+
+    expect(privateWork.error?.code).toBe('invalid');
+    expect(otherCreator.error?.code).toBe('invalid');
+    expect(backend.store.requests).toHaveLength(0);
+  });
+
+  it('確定条件を入れたまま依頼は作れない', async () => {
+    const backend = requestBackend();
+    signInAs(backend, CLIENT_C);
+
+    const { error } = await backend.requests.create(
+      requestOf({ agreed_total: 1, agreed_at: '2026-10-01T00:00:00.000Z' }) as never
+    );
+
+    expect(error?.code).toBe('forbidden');
+  });
+
+  it('クリエイターでない相手・自分自身には依頼できない', async () => {
+    const backend = requestBackend();
+    signInAs(backend, CREATOR_B);
+
+    const toClient = await backend.requests.create(
+      requestOf({ creator_id: CLIENT_C, client_id: CREATOR_B })
+    );
+    const toSelf = await backend.requests.create(
+      requestOf({ creator_id: CREATOR_B, client_id: CREATOR_B })
+    );
+
+    expect(toClient.error?.code).toBe('invalid');
+    expect(toSelf.error?.code).toBe('invalid');
+  });
+});
+
+describe('requests の見え方', () => {
+  it('当事者は読め、当事者でなければ not_found になる', async () => {
+    const { backend, request } = await withRequest();
+
+    signInAs(backend, CREATOR_A);
+    const asCreator = await backend.requests.getById(request.id);
+    signInAs(backend, CLIENT_D);
+    const asOutsider = await backend.requests.getById(request.id);
+
+    expect(asCreator.data?.id).toBe(request.id);
+    expect(asOutsider.error?.code).toBe('not_found');
+  });
+
+  it('依頼の当事者には、依頼した作品が非公開になっても見える', async () => {
+    const { backend } = await withRequest();
+    backend.store.works.find((w) => w.id === A_PUBLIC)!.is_public = false;
+
+    signInAs(backend, CLIENT_C);
+    const asClient = await backend.works.getById(A_PUBLIC);
+    signInAs(backend, CLIENT_D);
+    const asOutsider = await backend.works.getById(A_PUBLIC);
+
+    expect(asClient.data?.id).toBe(A_PUBLIC);
+    expect(asOutsider.error?.code).toBe('not_found');
+  });
+
+  it('listForUser は自分の側の依頼だけを返す', async () => {
+    const { backend, request } = await withRequest();
+    signInAs(backend, CLIENT_C);
+
+    const asClient = await backend.requests.listForUser(CLIENT_C, 'client');
+    const asCreator = await backend.requests.listForUser(CLIENT_C, 'creator');
+
+    expect(asClient.data?.map((r) => r.id)).toEqual([request.id]);
+    expect(asCreator.data).toEqual([]);
+  });
+});
+
+describe('requests.updateStatus', () => {
+  it('クリエイターは pending の依頼を承諾でき、依頼者に通知が届く', async () => {
+    const { backend, request } = await withRequest();
+    signInAs(backend, CREATOR_A);
+
+    const { data, error } = await backend.requests.updateStatus(request.id, 'accepted');
+
+    expect(error).toBeNull();
+    expect(data?.status).toBe('accepted');
+    expect(backend.store.requestEvents.at(-1)).toMatchObject({
+      kind: 'status_changed',
+      from_status: 'pending',
+      to_status: 'accepted',
+    });
+    expect(backend.store.notifications.at(-1)).toMatchObject({
+      user_id: CLIENT_C,
+      kind: 'status',
+      body: 'accepted',
+    });
+  });
+
+  it('依頼者はステータスを変えられない', async () => {
+    const { backend, request } = await withRequest();
+
+    const { error } = await backend.requests.updateStatus(request.id, 'accepted');
+
+    expect(error?.code).toBe('forbidden');
+  });
+
+  it('決められた順番でしか変えられない（pending から closed にはできない）', async () => {
+    const { backend, request } = await withRequest();
+    signInAs(backend, CREATOR_A);
+
+    const { error } = await backend.requests.updateStatus(request.id, 'closed');
+
+    expect(error?.code).toBe('invalid');
+    expect(backend.store.requests[0].status).toBe('pending');
+  });
+});
@@ -0,0 +1,234 @@
+// lib/data/memory/__tests__/works.test.ts
+// 作品・ギャラリー（インメモリバックエンド）
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  CLIENT_C,
+  CLIENT_D,
+  CREATOR_A,
+  CREATOR_B,
+  createTestBackend,
+  signInAs,
+  workOf,
+} from './fixtures';
+
+const PUBLIC_OLD = 'a0000000-0000-4000-8000-000000000001';
+const PUBLIC_NEW = 'a0000000-0000-4000-8000-000000000002';
+const PRIVATE = 'a0000000-0000-4000-8000-000000000003';
+const ARCHIVED = 'a0000000-0000-4000-8000-000000000004';
+const DELETED = 'a0000000-0000-4000-8000-000000000005';
+const B_PUBLIC = 'b0000000-0000-4000-8000-000000000001';
+
+const galleryBackend = () =>
+  createTestBackend([
+    workOf(PUBLIC_OLD, CREATOR_A, 'ミディアムレイヤー', {
+      created_at: '2026-10-01T00:00:00.000Z',
+    }),
+    workOf(PUBLIC_NEW, CREATOR_A, 'ショートボブ', { created_at: '2026-10-03T00:00:00.000Z' }),
+    workOf(PRIVATE, CREATOR_A, '非公開', { is_public: false }),
+    workOf(ARCHIVED, CREATOR_A, 'アーカイブ', { archived_at: '2026-10-04T00:00:00.000Z' }),
+    workOf(DELETED, CREATOR_A, '削除済み', { deleted_at: '2026-10-04T00:00:00.000Z' }),
+    workOf(B_PUBLIC, CREATOR_B, 'ブライダルヘア', { created_at: '2026-10-02T00:00:00.000Z' }),
+  ]);
+
+const titlesOf = (works: { title: string }[]) => works.map((w) => w.title);
+
+describe('works.create / update', () => {
+  it('クリエイターは本人として作品を追加できる', async () => {
+    const backend = createTestBackend();
+    signInAs(backend, CREATOR_A);
+
+    const { data, error } = await backend.works.create({ creator_id: CREATOR_A, title: '新作' });
+
+    expect(error).toBeNull();
+    expect(data).toMatchObject({ creator_id: CREATOR_A, title: '新作', deleted_at: null });
+  });
+
+  it('クリエイターのロールがなければ作品を追加できない', async () => {
+    const backend = createTestBackend();
+    signInAs(backend, CLIENT_D);
+
+    const { error } = await backend.works.create({ creator_id: CLIENT_D, title: '依頼者の作品' });
+
+    expect(error?.code).toBe('forbidden');
+  });
+
+  it('他のクリエイターとして作品を追加できない', async () => {
+    const backend = createTestBackend();
+    signInAs(backend, CREATOR_B);
+
+    const { error } = await backend.works.create({ creator_id: CREATOR_A, title: 'なりすまし' });
+
+    expect(error?.code).toBe('forbidden');
+  });
+
+  it('他人の作品は更新できない', async () => {
+    const backend = galleryBackend();
+    signInAs(backend, CREATOR_B);
+
+    const { error } = await backend.works.update(PUBLIC_OLD, { title: '乗っ取り' });
+
+    expect(error?.code).toBe('forbidden');
+    expect(backend.store.works.find((w) => w.id === PUBLIC_OLD)?.title).toBe('ミディアムレイヤー');
+  });
+
+  it('オーナーでも削除日時は直接書き換えられない', async () => {
+    const backend = galleryBackend();
+    signInAs(backend, CREATOR_A);
+
+    const { error } = await backend.works.update(PUBLIC_OLD, {
+      deleted_at: '2020-01-01T00:00:00.000Z',
+    } as never);
+
+    expect(error?.code).toBe('forbidden');
+    expect(backend.store.works.find((w) => w.id === PUBLIC_OLD)?.deleted_at).toBeNull();
+  });
+});
+
+describe('works の見え方', () => {
+  it('未ログインでは公開中の作品だけが見える', async () => {
+    const backend = galleryBackend();
+    signInAs(backend, null);
+
+    const { data } = await backend.works.list({ creatorId: CREATOR_A });
+
+    expect(titlesOf(data ?? [])).toEqual(['ショートボブ', 'ミディアムレイヤー']);
+  });
+
+  it('オーナーには非公開・アーカイブ・削除済みも見える', async () => {
+    const backend = galleryBackend();
+    signInAs(backend, CREATOR_A);
+
+    const { data } = await backend.works.list({ creatorId: CREATOR_A });
+
+    expect(data).toHaveLength(5);
+  });
+
+  it('見えない作品は getById で not_found になる', async () => {
+    const backend = galleryBackend();
+    signInAs(backend, CLIENT_D);
+
+    const { error } = await backend.works.getById(PRIVATE);
+
+    expect(error?.code).toBe('not_found');
+  });
+});
+
+describe('works.listGallery', () => {
+  it('公開中の作品を新しい順に返す（非公開・アーカイブ・削除済みは出さない）', async () => {
+    const backend = galleryBackend();
+
+    const { data } = await backend.works.listGallery({});
+
+    expect(titlesOf(data?.items ?? [])).toEqual([
+      'ショートボブ',
+      'ブライダルヘア',
+      'ミディアムレイヤー',
+    ]);
+    expect(data?.nextCursor).toBeNull();
+  });
+
+  it('カーソルで続きを重複なく取れる', async () => {
+    const backend = galleryBackend();
+
+    const first = await backend.works.listGallery({ limit: 2 });
+    const second = await backend.works.listGallery({
+      limit: 2,
+      cursor: first.data?.nextCursor,
+    });
+
+    expect(titlesOf(first.data?.items ?? [])).toEqual(['ショートボブ', 'ブライダルヘア']);
+    expect(first.data?.nextCursor).not.toBeNull();
+    expect(titlesOf(second.data?.items ?? [])).toEqual(['ミディアムレイヤー']);
+    expect(second.data?.nextCursor).toBeNull();
+  });
+
+  it('キーワードに一致する作品だけを返す（全角・半角、カタカナ・ひらがなを区別しない）', async () => {
+    const backend = galleryBackend();
+
+    const { data } = await backend.works.listGallery({ q: 'ぶらいだる' });
+
+    expect(titlesOf(data?.items ?? [])).toEqual(['ブライダルヘア']);
+  });
+
+  it('人気順はいいねの多い順', async () => {
+    const backend = galleryBackend();
+    for (const userId of [CLIENT_C, CLIENT_D]) {
+      signInAs(backend, userId);
+      await backend.likes.add(PUBLIC_OLD, userId);
+    }
+    signInAs(backend, CLIENT_C);
+    await backend.likes.add(B_PUBLIC, CLIENT_C);
+
+    const { data } = await backend.works.listGallery({ sort: 'popular' });
+
+    expect(titlesOf(data?.items ?? [])).toEqual([
+      'ミディアムレイヤー',
+      'ブライダルヘア',
+      'ショートボブ',
+    ]);
+    expect(data?.items[0].likes_count).toBe(2);
+  });
+
+  it('削除した作品はギャラリーから消え、元に戻すと出てくる', async () => {
+    const backend = galleryBackend();
+    signInAs(backend, CREATOR_A);
+
+    await backend.works.remove(PUBLIC_NEW);
+    const removed = await backend.works.listGallery({});
+    await backend.works.restore(PUBLIC_NEW);
+    const restored = await backend.works.listGallery({});
+
+    expect(titlesOf(removed.data?.items ?? [])).not.toContain('ショートボブ');
+    expect(titlesOf(restored.data?.items ?? [])).toContain('ショートボブ');
+  });
+});
+
+describe('works.setImages', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const uploadAs = async (backend: ReturnType<typeof galleryBackend>, userId: string) => {
+    vi.stubGlobal('createImageBitmap', async () => ({ width: 1200, height: 800, close() {} }));
+    signInAs(backend, userId);
+    const { data } = await backend.media.processWorkImage(
+      new File([new Uint8Array([1, 2, 3])], 'a.png', { type: 'image/png' })
+    );
+    return data!;
+  };
+
+  it('本人のフォルダにアップロードした画像をカバーにできる', async () => {
+    const backend = galleryBackend();
+    const image = await uploadAs(backend, CREATOR_A);
+
+    const { error } = await backend.works.setImages(PUBLIC_OLD, [image], 0);
+
+    const work = backend.store.works.find((w) => w.id === PUBLIC_OLD);
+    expect(error).toBeNull();
+    expect(work?.image_url).toBe(image.url);
+    expect(work?.image_meta?.width).toBe(1200);
+  });
+
+  it('他人のフォルダの画像は付けられない', async () => {
+    const backend = galleryBackend();
+    const image = await uploadAs(backend, CREATOR_B);
+    signInAs(backend, CREATOR_A);
+
+    const { error } = await backend.works.setImages(PUBLIC_OLD, [image], 0);
+
+    expect(error?.code).toBe('invalid');
+  });
+
+  it('外部の URL は付けられない', async () => {
+    const backend = galleryBackend();
+    signInAs(backend, CREATOR_A);
+
+    const { error } = await backend.works.setImages(
+      PUBLIC_OLD,
+      [{ storage_path: null, url: 'https://evil.example/a.png', meta: null }],
+      0
+    );
+
+    expect(error?.code).toBe('invalid');
+  });
+});
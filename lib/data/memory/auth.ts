@@ -0,0 +1,175 @@
+// lib/data/memory/auth.ts
+import { fail, ok } from '../errors';
+import type { AuthRepository } from '../repositories';
+import { isRole } from '../roles';
+import type { AuthUser, Role } from '../types';
+import { createMemoryProfilesRepository } from './profiles';
+import { newId, nowIso, type MemoryMail, type MemoryStore, type MemoryUser } from './store';
+
+// メールのリンク・コードの有効期限（Supabase の既定と同じ 1 時間）
+const MAIL_EXPIRY_MS = 60 * 60 * 1000;
+
+// Supabase の最小文字数の既定と同じ
+const PASSWORD_MIN_LENGTH = 6;
+
+const SUBJECTS: Record<MemoryMail['kind'], string> = {
+  signup: 'メールアドレスの確認',
+  magiclink: 'ログイン用のリンク',
+  recovery: 'パスワードの再設定',
+};
+
+const toAuthUser = ({ id, email }: MemoryUser): AuthUser => ({ id, email });
+
+const newOtp = () => String(Math.floor(Math.random() * 1_000_000)).padStart(6, '0');
+
+const withCode = (redirectTo: string, code: string) =>
+  `${redirectTo}${redirectTo.includes('?') ? '&' : '?'}code=${encodeURIComponent(code)}`;
+
+export const createMemoryAuthRepository = (store: MemoryStore): AuthRepository => {
+  const profiles = createMemoryProfilesRepository(store);
+
+  const findByEmail = (email: string) => store.users.find((u) => u.email === email);
+
+  const send = (user: MemoryUser, kind: MemoryMail['kind'], redirectTo: string) => {
+    const code = newId();
+    store.outbox.push({
+      id: newId(),
+      user_id: user.id,
+      to: user.email ?? '',
+      kind,
+      subject: SUBJECTS[kind],
+      link: withCode(redirectTo, code),
+      code,
+      otp: kind === 'recovery' ? null : newOtp(),
+      created_at: nowIso(),
+      used_at: null,
+    });
+  };
+
+  // 使えるのは未使用・期限内で、そのユーザーに同じ種類で最後に送ったものだけ（送り直すと前のは無効）
+  const isUsable = (mail: MemoryMail) => {
+    if (mail.used_at !== null) return false;
+    if (Date.now() - new Date(mail.created_at).getTime() > MAIL_EXPIRY_MS) return false;
+    const latest = store.outbox.filter((m) => m.user_id === mail.user_id && m.kind === mail.kind);
+    return latest[latest.length - 1] === mail;
+  };
+
+  // create_profile_for_confirmed_user トリガーと同じ（知らないロールは捨て、なければ依頼者）
+  const createProfileFor = async (user: MemoryUser) => {
+    if (store.profiles.some((p) => p.id === user.id)) return;
+
+    const meta = user.metadata;
+    const known = (meta?.roles ?? []).filter(isRole);
+    const roles: Role[] = known.length > 0 ? known : ['client'];
+    const role = meta?.role && roles.includes(meta.role) ? meta.role : null;
+
+    await profiles.create({
+      id: user.id,
+      display_name: meta?.display_name?.trim() || user.email,
+      role,
+      roles,
+    });
+  };
+
+  // リンク・コードを使ってログインする。まだ確認していなければ確認済みにしてプロフィールを作る
+  const consume = async (mail: MemoryMail) => {
+    const user = store.users.find((u) => u.id === mail.user_id);
+    if (!user) return fail<AuthUser>('not_found', 'User not found');
+
+    mail.used_at = nowIso();
+    if (user.email_confirmed_at === null) {
+      user.email_confirmed_at = nowIso();
+      await createProfileFor(user);
+    }
+    store.sessionUserId = user.id;
+    return ok(toAuthUser(user));
+  };
+
+  return {
+    async getUser() {
+      const user = store.users.find((u) => u.id === store.sessionUserId);
+      return ok(user ? toAuthUser(user) : null);
+    },
+
+    async signInWithPassword(email, password) {
+      const user = store.users.find((u) => u.email === email && u.password === password);
+      if (!user) return fail('unauthorized', 'Invalid login credentials');
+      if (user.email_confirmed_at === null) return fail('unconfirmed', 'Email not confirmed');
+
+      store.sessionUserId = user.id;
+      return ok(toAuthUser(user));
+    },
+
+    async signUp(email, password, profile, redirectTo) {
+      if (findByEmail(email)) {
+        return fail('conflict', 'User already registered');
+      }
+      if (password.length < PASSWORD_MIN_LENGTH) {
+        return fail('invalid', `Password should be at least ${PASSWORD_MIN_LENGTH} characters.`);
+      }
+
+      // 確認が必要な設定と同じ動き（確認メールのリンクを開くまでセッションもプロフィールもない）
+      const user: MemoryUser = {
+        id: newId(),
+        email,
+        password,
+        email_confirmed_at: null,
+        metadata: profile,
+      };
+      store.users.push(user);
+      send(user, 'signup', redirectTo);
+      return ok({ user: toAuthUser(user), needsConfirmation: true });
+    },
+
+    async resendConfirmation(email, redirectTo) {
+      const user = findByEmail(email);
+      if (user && user.email_confirmed_at === null) send(user, 'signup', redirectTo);
+      return ok(null);
+    },
+
+    async sendMagicLink(email, redirectTo) {
+      const user = findByEmail(email);
+      if (user) send(user, 'magiclink', redirectTo);
+      return ok(null);
+    },
+
+    async verifyEmailOtp(email, token) {
+      const mail = store.outbox.find(
+        (m) => m.to === email && m.otp !== null && m.otp === token.trim() && isUsable(m)
+      );
+      if (!mail) return fail('invalid', 'Token has expired or is invalid');
+      return consume(mail);
+    },
+
+    async sendPasswordReset(email, redirectTo) {
+      const user = findByEmail(email);
+      if (user) send(user, 'recovery', redirectTo);
+      return ok(null);
+    },
+
+    async exchangeCode(code) {
+      const mail = store.outbox.find((m) => m.code === code);
+      if (!mail || !isUsable(mail)) return fail('invalid', 'Token has expired or is invalid');
+      return consume(mail);
+    },
+
+    async updatePassword(password) {
+      const user = store.users.find((u) => u.id === store.sessionUserId);
+      if (!user) return fail('unauthorized', 'Auth session missing!');
+      if (password.length < PASSWORD_MIN_LENGTH) {
+        return fail('invalid', `Password should be at least ${PASSWORD_MIN_LENGTH} characters.`);
+      }
+      if (password === user.password) {
+        return fail('invalid', 'New password should be different from the old password.');
+      }
+
+      user.password = password;
+      return ok(null);
+    },
+
+    async signOut() {
+      store.sessionUserId = null;
+      return ok(null);
+    },
+  };
+};
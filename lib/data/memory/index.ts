@@ -0,0 +1,48 @@
+// lib/data/memory/index.ts
+import type { DataBackend } from '../repositories';
+import { createMemoryAuthRepository } from './auth';
+import { createMemoryLikesRepository } from './likes';
+import { createMemoryMediaRepository } from './media';
+import { createMemoryMessagesRepository } from './messages';
+import { createMemoryMilestonesRepository } from './milestones';
+import { createMemoryNotificationsRepository } from './notifications';
+import { createMemoryPresenceRepository } from './presence';
+import { createMemoryProfilesRepository } from './profiles';
+import { createMemoryQuotesRepository } from './quotes';
+import { createMemoryRequestsRepository } from './requests';
+import { createMemoryReviewsRepository } from './reviews';
+import { createMemoryStorageRepository } from './storage';
+import {
+  createMemoryStore,
+  type MemoryMail,
+  type MemorySeed,
+  type MemoryStore,
+} from './store';
+import { createMemoryTagsRepository } from './tags';
+import { createMemoryWorksRepository } from './works';
+
+export type { MemoryMail, MemorySeed, MemoryStore };
+
+export const createMemoryBackend = (
+  seed: MemorySeed = {}
+): DataBackend & { store: MemoryStore } => {
+  const store = createMemoryStore(seed);
+
+  return {
+    store,
+    auth: createMemoryAuthRepository(store),
+    profiles: createMemoryProfilesRepository(store),
+    works: createMemoryWorksRepository(store),
+    tags: createMemoryTagsRepository(store),
+    requests: createMemoryRequestsRepository(store),
+    messages: createMemoryMessagesRepository(store),
+    likes: createMemoryLikesRepository(store),
+    storage: createMemoryStorageRepository(store),
+    media: createMemoryMediaRepository(store),
+    presence: createMemoryPresenceRepository(store),
+    notifications: createMemoryNotificationsRepository(store),
+    quotes: createMemoryQuotesRepository(store),
+    milestones: createMemoryMilestonesRepository(store),
+    reviews: createMemoryReviewsRepository(store),
+  };
+};
@@ -0,0 +1,63 @@
+// lib/data/memory/likes.ts
+import { fail, ok } from '../errors';
+import type { LikesRepository } from '../repositories';
+import { isWorkAvailable } from '../workStatus';
+import { pushNotification } from './notifications';
+import { canReadWork } from './policies';
+import { nowIso, type MemoryStore } from './store';
+
+export const createMemoryLikesRepository = (store: MemoryStore): LikesRepository => ({
+  async listForWork(workId) {
+    return ok(store.workLikes.filter((l) => l.work_id === workId).map((l) => ({ ...l })));
+  },
+
+  async countByWorkIds(workIds) {
+    const counts: Record<string, number> = {};
+    store.workLikes
+      .filter((l) => workIds.includes(l.work_id))
+      .forEach((l) => {
+        counts[l.work_id] = (counts[l.work_id] ?? 0) + 1;
+      });
+
+    return ok(counts);
+  },
+
+  async add(workId, userId) {
+    // work_likes の insert ポリシーと同じ（本人が、見える作品にだけ）
+    const work = store.works.find((w) => w.id === workId);
+    if (userId !== store.sessionUserId || !work || !canReadWork(store, work)) {
+      return fail('forbidden', 'この作品にはいいねできません');
+    }
+
+    if (store.workLikes.some((l) => l.work_id === workId && l.user_id === userId)) {
+      return fail('conflict', '既にいいね済みです');
+    }
+
+    if (!isWorkAvailable(work)) {
+      return fail('invalid', 'work is not available');
+    }
+
+    store.workLikes.push({ work_id: workId, user_id: userId, created_at: nowIso() });
+
+    if (work.creator_id !== userId) {
+      pushNotification(store, {
+        user_id: work.creator_id,
+        kind: 'like',
+        actor_id: userId,
+        work_id: work.id,
+        title: work.title,
+      });
+    }
+    return ok(null);
+  },
+
+  async remove(workId, userId) {
+    // 自分のいいね以外は消えない（delete ポリシーと同じ）
+    if (userId !== store.sessionUserId) return ok(null);
+
+    store.workLikes = store.workLikes.filter(
+      (l) => !(l.work_id === workId && l.user_id === userId)
+    );
+    return ok(null);
+  },
+});
@@ -0,0 +1,49 @@
+// lib/data/memory/media.ts
+import { fail, ok } from '../errors';
+import type { MediaRepository } from '../repositories';
+import type { ImageMeta } from '../types';
+import { WORK_IMAGE_MAX_BYTES, workImageDir, workImageFilePaths } from '../workImages';
+import type { MemoryStore } from './store';
+
+// ブラウザ内では変換できないので、元画像をそのまま全サイズとして扱う（デモ用）
+export const createMemoryMediaRepository = (store: MemoryStore): MediaRepository => ({
+  async processWorkImage(file) {
+    if (!store.sessionUserId) return fail('unauthorized', 'ログインしていません');
+    if (!file.type.startsWith('image/')) return fail('invalid', 'not an image');
+    if (file.size > WORK_IMAGE_MAX_BYTES) return fail('invalid', 'file too large');
+
+    const dir = workImageDir(store.sessionUserId);
+    const url =
+      typeof URL.createObjectURL === 'function'
+        ? URL.createObjectURL(file)
+        : `memory://works/${dir}`;
+
+    let width = 0;
+    let height = 0;
+    if (typeof createImageBitmap === 'function') {
+      try {
+        const bitmap = await createImageBitmap(file);
+        width = bitmap.width;
+        height = bitmap.height;
+        bitmap.close();
+      } catch {
+        return fail('invalid', 'not an image');
+      }
+    }
+
+    const variant = { width, height, avif: url, webp: url };
+    const meta: ImageMeta = {
+      width,
+      height,
+      placeholder: null,
+      variants: { thumb: variant, medium: variant, large: variant },
+    };
+
+    // 差し替え・削除で消せるよう、実際の変換と同じパスに置く
+    workImageFilePaths({ storage_path: dir, meta }).forEach((path) => {
+      store.files[`works/${path}`] = url;
+    });
+
+    return ok({ storage_path: dir, url, meta });
+  },
+});
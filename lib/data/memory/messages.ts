@@ -0,0 +1,167 @@
+// lib/data/memory/messages.ts
+import {
+  ATTACHMENT_ALLOWED_TYPES,
+  ATTACHMENT_MAX_BYTES,
+  ATTACHMENT_MAX_COUNT,
+} from '../attachments';
+import { fail, ok } from '../errors';
+import type { MessagesRepository } from '../repositories';
+import type { MessageRow } from '../types';
+import { pushNotification, readMessageNotifications } from './notifications';
+import { canReadRequest } from './policies';
+import { newId, nowIso, type MemoryStore } from './store';
+
+// 自分が関係する依頼で、相手から届いた未読メッセージ
+const unreadOf = (store: MemoryStore, userId: string) => {
+  const requestIds = new Set(
+    store.requests
+      .filter((r) => r.creator_id === userId || r.client_id === userId)
+      .map((r) => r.id)
+  );
+
+  return store.messages.filter(
+    (m) => requestIds.has(m.request_id) && !m.read_at && m.sender_id !== userId
+  );
+};
+
+export const createMemoryMessagesRepository = (store: MemoryStore): MessagesRepository => ({
+  async listForRequest(requestId) {
+    // 当事者でなければ 1 件も見えない
+    const request = store.requests.find((r) => r.id === requestId);
+    const rows = store.messages
+      .filter((m) => m.request_id === requestId && request && canReadRequest(store, request))
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+    return ok(rows.map((m) => ({ ...m })));
+  },
+
+  async create(input) {
+    // messages の insert ポリシーと同じ
+    const request = store.requests.find((r) => r.id === input.request_id);
+    if (input.sender_id !== store.sessionUserId || !request || !canReadRequest(store, request)) {
+      return fail('forbidden', 'この依頼にはメッセージを送れません');
+    }
+
+    const message: MessageRow = {
+      id: newId(),
+      read_at: null,
+      created_at: nowIso(),
+      ...input,
+      attachments: (input.attachments ?? []).map((a) => ({ ...a })),
+    };
+
+    // DB の validate_message_attachments と同じチェック
+    if (!message.body.trim() && message.attachments.length === 0) {
+      return fail('invalid', 'message is empty');
+    }
+    if (message.attachments.length > ATTACHMENT_MAX_COUNT) {
+      return fail('invalid', 'too many attachments');
+    }
+    const invalidAttachment = message.attachments.some(
+      (a) =>
+        !a.path.startsWith(`${message.request_id}/`) ||
+        !a.name.trim() ||
+        !ATTACHMENT_ALLOWED_TYPES.includes(a.content_type) ||
+        a.size_bytes < 0 ||
+        a.size_bytes > ATTACHMENT_MAX_BYTES
+    );
+    if (invalidAttachment) return fail('invalid', 'invalid attachment');
+
+    // 依頼作成時の最初のメッセージは「新しい依頼」の通知でカバーする
+    const isFirst = !store.messages.some((m) => m.request_id === message.request_id);
+    store.messages.push(message);
+    store.bus.emit(`messages:${message.request_id}:insert`, { ...message });
+
+    if (!isFirst) {
+      pushNotification(store, {
+        user_id:
+          message.sender_id === request.creator_id ? request.client_id : request.creator_id,
+        kind: 'message',
+        actor_id: message.sender_id,
+        request_id: request.id,
+        message_id: message.id,
+        title: request.title,
+        body: message.body.trim() ? message.body.slice(0, 140) : '📎 添付ファイル',
+      });
+    }
+    return ok({ ...message });
+  },
+
+  async markReadUpTo(requestId, readerId, messageId) {
+    const request = store.requests.find((r) => r.id === requestId);
+    if (!request || (request.creator_id !== readerId && request.client_id !== readerId)) {
+      return fail('forbidden', 'この依頼の参加者ではありません');
+    }
+
+    const target = store.messages.find((m) => m.id === messageId && m.request_id === requestId);
+    if (!target) return fail('not_found', 'メッセージが見つかりません');
+
+    const now = nowIso();
+
+    // カーソルは後ろに戻さない
+    const cursor = store.messageReads.find(
+      (c) => c.request_id === requestId && c.user_id === readerId
+    );
+    if (!cursor) {
+      store.messageReads.push({
+        request_id: requestId,
+        user_id: readerId,
+        last_read_message_id: target.id,
+        last_read_at: target.created_at,
+        updated_at: now,
+      });
+    } else if (cursor.last_read_at < target.created_at) {
+      cursor.last_read_message_id = target.id;
+      cursor.last_read_at = target.created_at;
+      cursor.updated_at = now;
+    }
+
+    const newlyRead = store.messages.filter(
+      (m) =>
+        m.request_id === requestId &&
+        m.sender_id !== readerId &&
+        !m.read_at &&
+        m.created_at <= target.created_at
+    );
+    newlyRead.forEach((m) => {
+      m.read_at = now;
+      store.bus.emit(`messages:${requestId}:update`, { ...m });
+      readMessageNotifications(store, m.id, now);
+    });
+
+    return ok(newlyRead.length);
+  },
+
+  async getReadCursor(requestId, userId) {
+    const cursor = store.messageReads.find(
+      (c) => c.request_id === requestId && c.user_id === userId
+    );
+    return ok(cursor ? { ...cursor } : null);
+  },
+
+  async countUnreadForUser(userId) {
+    return ok(unreadOf(store, userId).length);
+  },
+
+  async countUnreadByRequest(userId) {
+    const counts: Record<string, number> = {};
+    unreadOf(store, userId).forEach((m) => {
+      counts[m.request_id] = (counts[m.request_id] ?? 0) + 1;
+    });
+    return ok(counts);
+  },
+
+  subscribeToRequest(requestId, handlers) {
+    const offInsert = store.bus.on(`messages:${requestId}:insert`, (m) =>
+      handlers.onInsert?.(m as MessageRow)
+    );
+    const offUpdate = store.bus.on(`messages:${requestId}:update`, (m) =>
+      handlers.onUpdate?.(m as MessageRow)
+    );
+
+    return () => {
+      offInsert();
+      offUpdate();
+    };
+  },
+});
@@ -0,0 +1,172 @@
+// lib/data/memory/milestones.ts
+import { fail, ok } from '../errors';
+import type { MilestonesRepository } from '../repositories';
+import type { DeliverableRow, MilestoneRow } from '../types';
+import { pushNotification } from './notifications';
+import { newId, nowIso, type MemoryStore } from './store';
+
+const copyMilestone = (milestone: MilestoneRow): MilestoneRow => ({
+  ...milestone,
+  deliverables: milestone.deliverables.map((d) => ({ ...d })),
+});
+
+export const createMemoryMilestonesRepository = (
+  store: MemoryStore
+): MilestonesRepository => {
+  const emitChange = (requestId: string) =>
+    store.bus.emit(`milestones:${requestId}:change`, null);
+
+  const inProgressRequest = (requestId: string) =>
+    store.requests.find((r) => r.id === requestId && r.status === 'accepted');
+
+  return {
+    async listForRequest(requestId) {
+      const rows = store.milestones
+        .filter((m) => m.request_id === requestId)
+        .sort((a, b) => a.position - b.position);
+
+      return ok(rows.map(copyMilestone));
+    },
+
+    async create(input) {
+      const request = inProgressRequest(input.request_id);
+      if (!request) return fail('forbidden', '受けた依頼にだけマイルストーンを追加できます');
+      if (!input.title.trim()) return fail('invalid', 'タイトルを入力してください');
+
+      const siblings = store.milestones.filter((m) => m.request_id === request.id);
+      const now = nowIso();
+      const milestone: MilestoneRow = {
+        id: newId(),
+        position: Math.max(0, ...siblings.map((m) => m.position)) + 1,
+        description: null,
+        due_date: null,
+        status: 'open',
+        revision_note: null,
+        submitted_at: null,
+        approved_at: null,
+        created_at: now,
+        updated_at: now,
+        deliverables: [],
+        ...input,
+      };
+      store.milestones.push(milestone);
+      emitChange(request.id);
+
+      return ok(copyMilestone(milestone));
+    },
+
+    async remove(id) {
+      const milestone = store.milestones.find((m) => m.id === id);
+      if (!milestone) return ok(null);
+      if (milestone.status !== 'open') {
+        return fail('forbidden', '提出済みのマイルストーンは削除できません');
+      }
+
+      store.milestones = store.milestones.filter((m) => m.id !== id);
+      emitChange(milestone.request_id);
+      return ok(null);
+    },
+
+    async addDeliverable(input) {
+      const milestone = store.milestones.find(
+        (m) => m.id === input.milestone_id && m.request_id === input.request_id
+      );
+      if (!milestone) return fail('not_found', 'マイルストーンが見つかりません');
+
+      const request = inProgressRequest(milestone.request_id);
+      if (
+        !request ||
+        request.creator_id !== input.uploader_id ||
+        (milestone.status !== 'open' && milestone.status !== 'revision_requested')
+      ) {
+        return fail('forbidden', 'このマイルストーンには成果物を追加できません');
+      }
+
+      const deliverable: DeliverableRow = {
+        id: newId(),
+        note: null,
+        created_at: nowIso(),
+        ...input,
+      };
+      milestone.deliverables.push(deliverable);
+      emitChange(milestone.request_id);
+
+      return ok({ ...deliverable });
+    },
+
+    async removeDeliverable(id) {
+      const milestone = store.milestones.find((m) => m.deliverables.some((d) => d.id === id));
+      if (!milestone) return ok(null);
+      if (milestone.status !== 'open' && milestone.status !== 'revision_requested') {
+        return fail('forbidden', '提出済みの成果物は削除できません');
+      }
+
+      milestone.deliverables = milestone.deliverables.filter((d) => d.id !== id);
+      emitChange(milestone.request_id);
+      return ok(null);
+    },
+
+    async updateStatus(milestoneId, actorId, action, note) {
+      const milestone = store.milestones.find((m) => m.id === milestoneId);
+      if (!milestone) return fail('not_found', 'マイルストーンが見つかりません');
+
+      const request = inProgressRequest(milestone.request_id);
+      if (!request) return fail('invalid', '進行中の依頼ではありません');
+
+      const now = nowIso();
+
+      if (action === 'submit') {
+        if (actorId !== request.creator_id) {
+          return fail('forbidden', '成果物を提出できるのはクリエイターだけです');
+        }
+        if (milestone.status !== 'open' && milestone.status !== 'revision_requested') {
+          return fail('invalid', 'このマイルストーンは今は提出できません');
+        }
+        if (milestone.deliverables.length === 0) {
+          return fail('invalid', '成果物を 1 件以上アップロードしてください');
+        }
+
+        milestone.status = 'submitted';
+        milestone.submitted_at = now;
+      } else {
+        if (actorId !== request.client_id) {
+          return fail('forbidden', '成果物を確認できるのは依頼者だけです');
+        }
+        if (milestone.status !== 'submitted') {
+          return fail('invalid', 'このマイルストーンは確認待ちではありません');
+        }
+
+        if (action === 'approve') {
+          milestone.status = 'approved';
+          milestone.approved_at = now;
+        } else {
+          if (!note?.trim()) return fail('invalid', '修正してほしい内容を入力してください');
+          milestone.status = 'revision_requested';
+          milestone.revision_note = note.trim();
+        }
+      }
+      milestone.updated_at = now;
+
+      pushNotification(store, {
+        user_id: actorId === request.creator_id ? request.client_id : request.creator_id,
+        kind: 'milestone',
+        actor_id: actorId,
+        request_id: request.id,
+        title: request.title,
+        body:
+          action === 'submit'
+            ? 'submitted'
+            : action === 'approve'
+              ? 'approved'
+              : 'revision_requested',
+      });
+      emitChange(request.id);
+
+      return ok(copyMilestone(milestone));
+    },
+
+    subscribeToRequest(requestId, onChange) {
+      return store.bus.on(`milestones:${requestId}:change`, () => onChange());
+    },
+  };
+};
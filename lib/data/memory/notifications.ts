@@ -0,0 +1,90 @@
+// lib/data/memory/notifications.ts
+import { ok } from '../errors';
+import type { NotificationsRepository } from '../repositories';
+import type { NotificationRow } from '../types';
+import { byNewest, newId, nowIso, type MemoryStore } from './store';
+
+type NotificationInput = Pick<NotificationRow, 'user_id' | 'kind' | 'actor_id'> &
+  Partial<Pick<NotificationRow, 'request_id' | 'work_id' | 'message_id' | 'title' | 'body'>>;
+
+// Supabase 側ではトリガーで作られる通知を、各リポジトリから直接積む
+export const pushNotification = (store: MemoryStore, input: NotificationInput) => {
+  const notification: NotificationRow = {
+    id: newId(),
+    request_id: null,
+    work_id: null,
+    message_id: null,
+    title: null,
+    body: null,
+    read_at: null,
+    created_at: nowIso(),
+    ...input,
+  };
+  store.notifications.push(notification);
+  store.bus.emit(`notifications:${notification.user_id}:insert`, { ...notification });
+};
+
+const markNotificationRead = (
+  store: MemoryStore,
+  notification: NotificationRow,
+  readAt = nowIso()
+) => {
+  if (notification.read_at) return;
+  notification.read_at = readAt;
+  store.bus.emit(`notifications:${notification.user_id}:update`, { ...notification });
+};
+
+// メッセージが既読になったら、そのメッセージの通知も既読にする
+export const readMessageNotifications = (
+  store: MemoryStore,
+  messageId: string,
+  readAt: string
+) => {
+  store.notifications
+    .filter((n) => n.message_id === messageId)
+    .forEach((n) => markNotificationRead(store, n, readAt));
+};
+
+export const createMemoryNotificationsRepository = (
+  store: MemoryStore
+): NotificationsRepository => ({
+  async listForUser(userId, limit = 20) {
+    const rows = store.notifications
+      .filter((n) => n.user_id === userId)
+      .sort(byNewest)
+      .slice(0, limit);
+
+    return ok(rows.map((n) => ({ ...n })));
+  },
+
+  async countUnread(userId) {
+    return ok(store.notifications.filter((n) => n.user_id === userId && !n.read_at).length);
+  },
+
+  async markRead(id) {
+    const notification = store.notifications.find((n) => n.id === id);
+    if (notification) markNotificationRead(store, notification);
+    return ok(null);
+  },
+
+  async markAllRead(userId) {
+    store.notifications
+      .filter((n) => n.user_id === userId)
+      .forEach((n) => markNotificationRead(store, n));
+    return ok(null);
+  },
+
+  subscribe(userId, handlers) {
+    const offInsert = store.bus.on(`notifications:${userId}:insert`, (n) =>
+      handlers.onInsert?.(n as NotificationRow)
+    );
+    const offUpdate = store.bus.on(`notifications:${userId}:update`, (n) =>
+      handlers.onUpdate?.(n as NotificationRow)
+    );
+
+    return () => {
+      offInsert();
+      offUpdate();
+    };
+  },
+});
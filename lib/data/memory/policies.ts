@@ -0,0 +1,18 @@
+// lib/data/memory/policies.ts
+// 行レベルセキュリティと同じ見え方（supabase/migrations/20261020070000_row_level_security.sql）
+import type { RequestRow, WorkRow } from '../types';
+import { isWorkAvailable } from '../workStatus';
+import type { MemoryStore } from './store';
+
+export const canReadRequest = (
+  store: MemoryStore,
+  request: Pick<RequestRow, 'creator_id' | 'client_id'>
+) =>
+  store.sessionUserId !== null &&
+  (store.sessionUserId === request.creator_id || store.sessionUserId === request.client_id);
+
+// 公開中は誰でも。それ以外はオーナーと、その作品への依頼の当事者
+export const canReadWork = (store: MemoryStore, work: WorkRow) =>
+  (work.is_public === true && isWorkAvailable(work)) ||
+  work.creator_id === store.sessionUserId ||
+  store.requests.some((r) => r.work_id === work.id && canReadRequest(store, r));
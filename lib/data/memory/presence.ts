@@ -0,0 +1,46 @@
+// lib/data/memory/presence.ts
+import type { PresenceRepository, ThreadChannel } from '../repositories';
+import { canReadRequest } from './policies';
+import type { MemoryStore } from './store';
+
+const noopChannel: ThreadChannel = {
+  sendTyping() {},
+  leave() {},
+};
+
+export const createMemoryPresenceRepository = (store: MemoryStore): PresenceRepository => ({
+  joinThread(requestId, handlers) {
+    // thread_presence_channel の realtime.messages ポリシーと同じく当事者だけ
+    const userId = store.sessionUserId;
+    const request = store.requests.find((r) => r.id === requestId);
+    if (!userId || !request || !canReadRequest(store, request)) return noopChannel;
+
+    const presenceTopic = `thread:${requestId}:presence`;
+    const typingTopic = `thread:${requestId}:typing`;
+
+    const offPresence = store.bus.on(presenceTopic, (ids) =>
+      handlers.onPresenceChange?.(ids as string[])
+    );
+    const offTyping = store.bus.on(typingTopic, (typingUserId) => {
+      if (typingUserId !== userId) handlers.onTyping?.(typingUserId as string);
+    });
+
+    const online = store.presence[requestId] ?? [];
+    store.presence[requestId] = [...online.filter((id) => id !== userId), userId];
+    store.bus.emit(presenceTopic, [...store.presence[requestId]]);
+
+    return {
+      sendTyping() {
+        store.bus.emit(typingTopic, userId);
+      },
+      leave() {
+        offPresence();
+        offTyping();
+        store.presence[requestId] = (store.presence[requestId] ?? []).filter(
+          (id) => id !== userId
+        );
+        store.bus.emit(presenceTopic, [...store.presence[requestId]]);
+      },
+    };
+  },
+});
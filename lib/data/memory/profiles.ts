@@ -0,0 +1,275 @@
+// lib/data/memory/profiles.ts
+import {
+  clampGalleryLimit,
+  creatorCursorOf,
+  creatorSortValue,
+  decodeCursor,
+  type CreatorCursor,
+} from '../cursor';
+import { normalizeSkills, validateCreatorDetails } from '../creatorProfile';
+import { fail, ok } from '../errors';
+import { isProfileImagePath } from '../profileImages';
+import type { ProfilesRepository } from '../repositories';
+import { activeRoleOf, hasRole, isRole, normalizeRoles } from '../roles';
+import { CREATOR_SEARCH_WEIGHTS, searchRank, searchTerms } from '../search';
+import type { CreatorSearchHit, CreatorSummary, ProfileRow, Role } from '../types';
+import { areaCacheOf, genreCacheOf, matchesArea, validateVocabularies } from '../vocabularies';
+import type { MemoryStore } from './store';
+import { toGalleryWorks } from './works';
+
+const unique = (values: string[]) => Array.from(new Set(values));
+
+type CreatorDetails = Pick<
+  ProfileRow,
+  | 'links'
+  | 'skills'
+  | 'price_menu'
+  | 'turnaround_days'
+  | 'availability'
+  | 'pause_reason'
+  | 'resumes_on'
+>;
+
+// profiles_validate_details / profiles_normalize_availability トリガーと同じ（形をそろえてから確かめる）
+const applyCreatorDetails = (details: CreatorDetails) => {
+  const normalized: CreatorDetails = {
+    links: details.links.map((link) => ({ kind: link.kind, url: link.url.trim() })),
+    skills: normalizeSkills(details.skills),
+    price_menu: details.price_menu.map((item) => ({
+      label: item.label.trim(),
+      min_price: item.min_price,
+      max_price: item.max_price,
+    })),
+    turnaround_days: details.turnaround_days,
+    availability: details.availability,
+    // 受付中に戻したら理由・再開予定日は消す
+    pause_reason:
+      details.availability === 'open' ? null : details.pause_reason?.trim() || null,
+    resumes_on: details.availability === 'open' ? null : details.resumes_on,
+  };
+
+  const problem =
+    validateCreatorDetails(normalized) ??
+    (normalized.availability === 'open' || normalized.availability === 'paused'
+      ? null
+      : '受付状況が正しくありません。');
+  return problem ? fail<CreatorDetails>('invalid', problem) : ok(normalized);
+};
+
+// profiles_normalize_roles トリガーと同じ（切り替え中のロールは roles の中のものにそろえる）
+const applyRoles = (roles: Role[], role: Role | null) => {
+  if (!roles.every(isRole)) {
+    return fail<Pick<ProfileRow, 'roles' | 'role'>>('invalid', 'ロールが正しくありません。');
+  }
+  const normalized = normalizeRoles(roles);
+  return ok({ roles: normalized, role: activeRoleOf(normalized, role) });
+};
+
+// profiles_avatar_url_check / profiles_cover_url_check と同じ（本人がアップロードした画像だけ）。
+// このストアでは公開 URL が Object URL なので、profiles バケットのファイルから探す
+const hasOwnImages = (
+  store: MemoryStore,
+  id: string,
+  values: Partial<Pick<ProfileRow, 'avatar_url' | 'cover_url'>>
+) =>
+  (['avatar', 'cover'] as const).every((kind) => {
+    const url = values[kind === 'avatar' ? 'avatar_url' : 'cover_url'];
+    return (
+      !url ||
+      Object.entries(store.files).some(
+        ([key, fileUrl]) =>
+          fileUrl === url &&
+          key.startsWith('profiles/') &&
+          isProfileImagePath(id, kind, key.slice('profiles/'.length))
+      )
+    );
+  });
+
+const creatorSearchRank = (profile: ProfileRow, terms: string[]) =>
+  searchRank(
+    [
+      [profile.display_name, CREATOR_SEARCH_WEIGHTS.display_name],
+      [profile.genre, CREATOR_SEARCH_WEIGHTS.genre],
+      [profile.area, CREATOR_SEARCH_WEIGHTS.area],
+      [profile.bio, CREATOR_SEARCH_WEIGHTS.bio],
+    ],
+    terms
+  );
+
+export const createMemoryProfilesRepository = (store: MemoryStore): ProfilesRepository => ({
+  async getById(id) {
+    const profile = store.profiles.find((p) => p.id === id);
+    if (!profile) return fail('not_found', 'プロフィールが見つかりません');
+    return ok({ ...profile });
+  },
+
+  async listByIds(ids) {
+    return ok(store.profiles.filter((p) => ids.includes(p.id)).map((p) => ({ ...p })));
+  },
+
+  async create(input) {
+    if (store.profiles.some((p) => p.id === input.id)) {
+      return fail('conflict', 'プロフィールは既に存在します');
+    }
+
+    // profiles_apply_vocabularies トリガーと同じ（重複を除いてマスタ・個数を確かめ、キャッシュを作る）
+    const genreSlugs = unique(input.genre_slugs ?? []);
+    const areaCodes = unique(input.area_codes ?? []);
+    const problem = validateVocabularies(genreSlugs, areaCodes);
+    if (problem) return fail('invalid', problem);
+
+    if (!hasOwnImages(store, input.id, input)) {
+      return fail('invalid', 'プロフィール画像はアップロードした画像だけを使えます');
+    }
+
+    const applied = applyCreatorDetails({
+      links: input.links ?? [],
+      skills: input.skills ?? [],
+      price_menu: input.price_menu ?? [],
+      turnaround_days: input.turnaround_days ?? null,
+      availability: input.availability ?? 'open',
+      pause_reason: input.pause_reason ?? null,
+      resumes_on: input.resumes_on ?? null,
+    });
+    if (applied.error) return fail('invalid', applied.error.message);
+
+    // role だけ渡されたらそのロールだけを持つ
+    const roles = applyRoles(input.roles ?? (input.role ? [input.role] : []), input.role);
+    if (roles.error) return fail('invalid', roles.error.message);
+
+    const profile: ProfileRow = {
+      bio: null,
+      avatar_url: null,
+      cover_url: null,
+      ...input,
+      ...applied.data,
+      ...roles.data,
+      genre_slugs: genreSlugs,
+      area_codes: areaCodes,
+      genre: genreCacheOf(genreSlugs),
+      area: areaCacheOf(areaCodes),
+    };
+    store.profiles.push(profile);
+    return ok({ ...profile });
+  },
+
+  async update(id, patch) {
+    const profile = store.profiles.find((p) => p.id === id);
+    if (!profile) return fail('not_found', 'プロフィールが見つかりません');
+    // profiles の update ポリシーと同じ
+    if (store.sessionUserId !== id) {
+      return fail('forbidden', 'プロフィールを編集できるのは本人だけです');
+    }
+
+    const genreSlugs = unique(patch.genre_slugs ?? profile.genre_slugs);
+    const areaCodes = unique(patch.area_codes ?? profile.area_codes);
+    const problem = validateVocabularies(genreSlugs, areaCodes);
+    if (problem) return fail('invalid', problem);
+
+    if (!hasOwnImages(store, id, patch)) {
+      return fail('invalid', 'プロフィール画像はアップロードした画像だけを使えます');
+    }
+
+    const applied = applyCreatorDetails({
+      links: patch.links ?? profile.links,
+      skills: patch.skills ?? profile.skills,
+      price_menu: patch.price_menu ?? profile.price_menu,
+      turnaround_days:
+        patch.turnaround_days === undefined ? profile.turnaround_days : patch.turnaround_days,
+      availability: patch.availability ?? profile.availability,
+      pause_reason: patch.pause_reason === undefined ? profile.pause_reason : patch.pause_reason,
+      resumes_on: patch.resumes_on === undefined ? profile.resumes_on : patch.resumes_on,
+    });
+    if (applied.error) return fail('invalid', applied.error.message);
+
+    const roles = applyRoles(
+      patch.roles ?? profile.roles,
+      patch.role === undefined ? profile.role : patch.role
+    );
+    if (roles.error) return fail('invalid', roles.error.message);
+
+    Object.assign(profile, patch, applied.data, roles.data, {
+      genre_slugs: genreSlugs,
+      area_codes: areaCodes,
+    });
+    // キャッシュは変わった方だけ作り直す
+    if (patch.genre_slugs) profile.genre = genreCacheOf(genreSlugs);
+    if (patch.area_codes) profile.area = areaCacheOf(areaCodes);
+    return ok({ ...profile });
+  },
+
+  async searchCreators(q, limit = 10) {
+    const terms = searchTerms(q);
+    const gallery = toGalleryWorks(store);
+
+    const hits: CreatorSearchHit[] = store.profiles
+      .filter((p) => hasRole(p, 'creator'))
+      .map((p) => ({
+        ...p,
+        works_count: gallery.filter((w) => w.creator_id === p.id).length,
+        search_rank: creatorSearchRank(p, terms),
+      }))
+      .filter((p) => p.search_rank > 0)
+      .sort(
+        (a, b) =>
+          b.search_rank - a.search_rank ||
+          b.works_count - a.works_count ||
+          (a.display_name ?? '').localeCompare(b.display_name ?? '')
+      );
+
+    return ok(hits.slice(0, Math.min(Math.max(limit, 1), 50)));
+  },
+
+  // list_creators と同じ集計・並び順
+  async listCreators(query) {
+    const sort = query.sort ?? 'works';
+    const limit = clampGalleryLimit(query.limit);
+    const cursor = decodeCursor<CreatorCursor>(query.cursor);
+    const terms = searchTerms(query.q);
+    const gallery = toGalleryWorks(store);
+
+    const summaries: CreatorSummary[] = store.profiles
+      .filter((p) => hasRole(p, 'creator'))
+      .filter((p) => !query.genre || p.genre_slugs.includes(query.genre))
+      .filter((p) => !query.area || matchesArea(p.area_codes, query.area))
+      .map((p) => {
+        const works = gallery.filter((w) => w.creator_id === p.id);
+        const requests = store.requests.filter((r) => r.creator_id === p.id);
+        const decided = requests.filter((r) => r.status !== 'pending').length;
+        const accepted = requests.filter(
+          (r) => r.status === 'accepted' || r.status === 'closed'
+        ).length;
+
+        return {
+          id: p.id,
+          display_name: p.display_name,
+          bio: p.bio,
+          genre: p.genre,
+          area: p.area,
+          genre_slugs: [...p.genre_slugs],
+          area_codes: [...p.area_codes],
+          avatar_url: p.avatar_url,
+          works_count: works.length,
+          likes_total: works.reduce((sum, w) => sum + w.likes_count, 0),
+          requests_decided: decided,
+          acceptance_rate: decided > 0 ? Math.round((accepted / decided) * 10000) / 10000 : null,
+          search_rank: creatorSearchRank(p, terms),
+        };
+      })
+      .filter((c) => terms.length === 0 || c.search_rank > 0);
+
+    // (並び順の値, id) の降順
+    const compare = (a: { value: number; id: string }, b: { value: number; id: string }) =>
+      b.value - a.value || b.id.localeCompare(a.id);
+    const keyOf = (c: CreatorSummary) => ({ value: creatorSortValue(c, sort), id: c.id });
+
+    const rows = summaries
+      .filter((c) => !cursor || compare(cursor, keyOf(c)) < 0)
+      .sort((a, b) => compare(keyOf(a), keyOf(b)));
+
+    const items = rows.slice(0, limit);
+    const nextCursor = rows.length > limit ? creatorCursorOf(items[items.length - 1], sort) : null;
+
+    return ok({ items, nextCursor });
+  },
+});
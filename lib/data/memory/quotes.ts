@@ -0,0 +1,180 @@
+// lib/data/memory/quotes.ts
+import { fail, ok } from '../errors';
+import { quoteTotal, todayInTokyo, validateQuoteInput } from '../quotes';
+import type { QuotesRepository } from '../repositories';
+import type { QuoteRow } from '../types';
+import { pushNotification } from './notifications';
+import { pushRequestEvent } from './requests';
+import { newId, nowIso, type MemoryStore } from './store';
+
+const copyQuote = (quote: QuoteRow): QuoteRow => ({
+  ...quote,
+  items: quote.items.map((item) => ({ ...item })),
+});
+
+export const createMemoryQuotesRepository = (store: MemoryStore): QuotesRepository => {
+  const emitChange = (requestId: string) => store.bus.emit(`quotes:${requestId}:change`, null);
+
+  return {
+    async listForRequest(requestId) {
+      const rows = store.quotes
+        .filter((q) => q.request_id === requestId)
+        .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+      return ok(rows.map(copyQuote));
+    },
+
+    async create(input) {
+      const request = store.requests.find((r) => r.id === input.request_id);
+      if (!request) return fail('not_found', '依頼が見つかりません');
+
+      if (input.author_id !== request.creator_id && input.author_id !== request.client_id) {
+        return fail('forbidden', 'この依頼の参加者ではありません');
+      }
+      if (
+        (request.status !== 'pending' && request.status !== 'accepted') ||
+        request.agreed_quote_id
+      ) {
+        return fail('invalid', 'この依頼では見積もりを出せません');
+      }
+
+      const invalid = validateQuoteInput(input);
+      if (invalid) return fail('invalid', invalid);
+
+      const now = nowIso();
+
+      if (!input.parent_id) {
+        if (input.author_id !== request.creator_id) {
+          return fail('forbidden', '新しい見積もりを出せるのはクリエイターだけです');
+        }
+
+        // 新しい見積もりを出したら、回答待ちの古い見積もりは取り下げ扱い
+        store.quotes
+          .filter((q) => q.request_id === request.id && q.status === 'pending')
+          .forEach((q) => {
+            q.status = 'withdrawn';
+            q.responded_at = now;
+          });
+      } else {
+        const parent = store.quotes.find(
+          (q) => q.id === input.parent_id && q.request_id === request.id
+        );
+        if (!parent) return fail('not_found', '見積もりが見つかりません');
+        if (parent.status !== 'pending') {
+          return fail('invalid', 'この見積もりには既に回答済みです');
+        }
+        if (parent.author_id === input.author_id) {
+          return fail('forbidden', '自分の見積もりにはカウンターできません');
+        }
+
+        parent.status = 'countered';
+        parent.responded_at = now;
+      }
+
+      const items = input.items.map((item) => ({
+        ...item,
+        description: item.description.trim(),
+      }));
+
+      const quote: QuoteRow = {
+        id: newId(),
+        request_id: request.id,
+        author_id: input.author_id,
+        parent_id: input.parent_id ?? null,
+        status: 'pending',
+        currency: 'JPY',
+        items,
+        total_amount: quoteTotal(items),
+        delivery_date: input.delivery_date,
+        valid_until: input.valid_until,
+        note: input.note?.trim() || null,
+        created_at: now,
+        responded_at: null,
+      };
+      store.quotes.push(quote);
+
+      pushNotification(store, {
+        user_id:
+          input.author_id === request.creator_id ? request.client_id : request.creator_id,
+        kind: 'quote',
+        actor_id: input.author_id,
+        request_id: request.id,
+        title: request.title,
+        body: input.parent_id ? 'countered' : 'sent',
+      });
+      emitChange(request.id);
+
+      return ok(copyQuote(quote));
+    },
+
+    async respond(quoteId, responderId, response) {
+      const quote = store.quotes.find((q) => q.id === quoteId);
+      if (!quote) return fail('not_found', '見積もりが見つかりません');
+
+      const request = store.requests.find((r) => r.id === quote.request_id);
+      if (!request) return fail('not_found', '依頼が見つかりません');
+
+      if (
+        (responderId !== request.creator_id && responderId !== request.client_id) ||
+        quote.author_id === responderId
+      ) {
+        return fail('forbidden', 'この見積もりに回答できるのは相手側だけです');
+      }
+      if (quote.status !== 'pending') {
+        return fail('invalid', 'この見積もりには既に回答済みです');
+      }
+
+      const now = nowIso();
+
+      if (response === 'decline') {
+        quote.status = 'declined';
+        quote.responded_at = now;
+      } else {
+        if (quote.valid_until < todayInTokyo()) {
+          return fail('invalid', 'この見積もりは有効期限が切れています');
+        }
+        if (
+          (request.status !== 'pending' && request.status !== 'accepted') ||
+          request.agreed_quote_id
+        ) {
+          return fail('invalid', 'この依頼では見積もりを承諾できません');
+        }
+
+        quote.status = 'accepted';
+        quote.responded_at = now;
+
+        request.agreed_quote_id = quote.id;
+        request.agreed_total = quote.total_amount;
+        request.agreed_delivery_date = quote.delivery_date;
+        request.agreed_at = now;
+        request.updated_at = now;
+
+        pushRequestEvent(store, {
+          request_id: request.id,
+          actor_id: responderId,
+          kind: 'quote_accepted',
+          from_status: null,
+          to_status: null,
+        });
+      }
+
+      if (quote.author_id) {
+        pushNotification(store, {
+          user_id: quote.author_id,
+          kind: 'quote',
+          actor_id: responderId,
+          request_id: request.id,
+          title: request.title,
+          body: response === 'accept' ? 'accepted' : 'declined',
+        });
+      }
+      emitChange(request.id);
+
+      return ok(copyQuote(quote));
+    },
+
+    subscribeToRequest(requestId, onChange) {
+      return store.bus.on(`quotes:${requestId}:change`, () => onChange());
+    },
+  };
+};
@@ -0,0 +1,181 @@
+// lib/data/memory/requests.ts
+import { isAcceptingRequests } from '../creatorProfile';
+import { fail, ok } from '../errors';
+import type { RequestsRepository } from '../repositories';
+import { allMilestonesApproved } from '../milestones';
+import { canTransitionRequestStatus } from '../requestStatus';
+import { hasRole } from '../roles';
+import type { RequestEventRow, RequestRow } from '../types';
+import { isWorkAvailable } from '../workStatus';
+import { pushNotification } from './notifications';
+import { canReadRequest } from './policies';
+import { newId, nowIso, type MemoryStore } from './store';
+
+export const pushRequestEvent = (
+  store: MemoryStore,
+  input: Omit<RequestEventRow, 'id' | 'created_at'>
+) => {
+  store.requestEvents.push({ id: newId(), created_at: nowIso(), ...input });
+};
+
+const byUpdatedDesc = (a: RequestRow, b: RequestRow) =>
+  b.updated_at.localeCompare(a.updated_at);
+
+export const createMemoryRequestsRepository = (store: MemoryStore): RequestsRepository => ({
+  async getById(id) {
+    const request = store.requests.find((r) => r.id === id);
+    if (!request || !canReadRequest(store, request)) {
+      return fail('not_found', '依頼が見つかりません');
+    }
+    return ok({ ...request });
+  },
+
+  async listForUser(userId, side) {
+    const rows = store.requests
+      .filter((r) => (side === 'creator' ? r.creator_id : r.client_id) === userId)
+      .filter((r) => canReadRequest(store, r))
+      .sort(byUpdatedDesc);
+
+    return ok(rows.map((r) => ({ ...r })));
+  },
+
+  async listForParticipant(userId) {
+    const rows = store.requests
+      .filter((r) => r.creator_id === userId || r.client_id === userId)
+      .filter((r) => canReadRequest(store, r))
+      .sort(byUpdatedDesc);
+
+    return ok(rows.map((r) => ({ ...r })));
+  },
+
+  async create(input) {
+    // requests の insert ポリシーと同じ
+    if (input.client_id !== store.sessionUserId) {
+      return fail('forbidden', '他のユーザーとして依頼は作れません');
+    }
+
+    const now = nowIso();
+    const request: RequestRow = {
+      id: newId(),
+      work_id: null,
+      work_deleted_at: null,
+      status: 'pending',
+      preferred_date: null,
+      budget: null,
+      agreed_quote_id: null,
+      agreed_total: null,
+      agreed_delivery_date: null,
+      agreed_at: null,
+      created_at: now,
+      updated_at: now,
+      ...input,
+    };
+    if (request.status !== 'pending') {
+      return fail('invalid', '依頼は pending から始める必要があります');
+    }
+    // guard_request_terms トリガーと同じ（確定条件は見積もりの承諾でしか入らない）
+    if (
+      request.agreed_quote_id !== null ||
+      request.agreed_total !== null ||
+      request.agreed_delivery_date !== null ||
+      request.agreed_at !== null
+    ) {
+      return fail('forbidden', 'agreed terms can only be set by accepting a quote');
+    }
+    const work = request.work_id ? store.works.find((w) => w.id === request.work_id) : null;
+    if (work && !isWorkAvailable(work)) {
+      return fail('invalid', 'work is not available');
+    }
+    if (work && !work.accepting_requests) {
+      return fail('invalid', 'work is not accepting requests');
+    }
+    // guard_request_work トリガーと同じ（他人の非公開作品を依頼に付けて読めないように）
+    if (
+      request.work_id &&
+      (!work || work.creator_id !== request.creator_id || !work.is_public)
+    ) {
+      return fail('invalid', 'work is not a public work of the creator');
+    }
+    // guard_request_roles トリガーと同じ
+    const creator = store.profiles.find((p) => p.id === request.creator_id) ?? null;
+    const client = store.profiles.find((p) => p.id === request.client_id) ?? null;
+    if (request.creator_id === request.client_id) {
+      return fail('invalid', 'cannot request yourself');
+    }
+    if (!hasRole(creator, 'creator')) return fail('invalid', 'creator_id is not a creator');
+    if (!hasRole(client, 'client')) return fail('invalid', 'client_id is not a client');
+    if (creator && !isAcceptingRequests(creator)) {
+      return fail('invalid', 'creator is not accepting requests');
+    }
+
+    store.requests.push(request);
+    pushRequestEvent(store, {
+      request_id: request.id,
+      actor_id: request.client_id,
+      kind: 'created',
+      from_status: null,
+      to_status: request.status,
+    });
+    pushNotification(store, {
+      user_id: request.creator_id,
+      kind: 'request',
+      actor_id: request.client_id,
+      request_id: request.id,
+      title: request.title,
+      body: request.message.slice(0, 140),
+    });
+    return ok({ ...request });
+  },
+
+  async updateStatus(id, status) {
+    const request = store.requests.find((r) => r.id === id);
+    if (!request) return fail('not_found', '依頼が見つかりません');
+
+    const actorId = store.sessionUserId;
+    if (!actorId) return fail('unauthorized', 'ログインしてください');
+    if (actorId !== request.creator_id) {
+      return fail('forbidden', 'ステータスを変更できるのはクリエイターだけです');
+    }
+    if (!canTransitionRequestStatus(request.status, status)) {
+      return fail('invalid', `${request.status} から ${status} には変更できません`);
+    }
+    if (
+      status === 'closed' &&
+      !allMilestonesApproved(store.milestones.filter((m) => m.request_id === request.id))
+    ) {
+      return fail('invalid', 'すべてのマイルストーンが承認されるまでクローズできません');
+    }
+
+    const from = request.status;
+    request.status = status;
+    request.updated_at = nowIso();
+
+    pushRequestEvent(store, {
+      request_id: request.id,
+      actor_id: actorId,
+      kind: 'status_changed',
+      from_status: from,
+      to_status: status,
+    });
+
+    // クライアントへ通知
+    pushNotification(store, {
+      user_id: request.client_id,
+      kind: 'status',
+      actor_id: actorId,
+      request_id: request.id,
+      title: request.title,
+      body: status,
+    });
+    return ok({ ...request });
+  },
+
+  async listEvents(requestId) {
+    const request = store.requests.find((r) => r.id === requestId);
+    const rows = store.requestEvents
+      .filter((e) => e.request_id === requestId && request && canReadRequest(store, request))
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+    return ok(rows.map((e) => ({ ...e })));
+  },
+});
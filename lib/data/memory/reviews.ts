@@ -0,0 +1,128 @@
+// lib/data/memory/reviews.ts
+import { fail, ok } from '../errors';
+import type { ReviewsRepository } from '../repositories';
+import {
+  canEditReview,
+  canReviewRequest,
+  ratingSummaryOf,
+  validateReviewInput,
+  validateReviewReply,
+} from '../reviews';
+import { pushNotification } from './notifications';
+import { byNewest, newId, nowIso, type MemoryStore } from './store';
+
+export const createMemoryReviewsRepository = (store: MemoryStore): ReviewsRepository => ({
+  async listForRequest(requestId) {
+    const rows = store.reviews
+      .filter((r) => r.request_id === requestId)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+    return ok(rows.map((r) => ({ ...r })));
+  },
+
+  async listForReviewee(userId, limit = 20) {
+    const rows = store.reviews.filter((r) => r.reviewee_id === userId).sort(byNewest);
+    return ok(rows.slice(0, limit).map((r) => ({ ...r })));
+  },
+
+  async getSummary(userId) {
+    return ok(
+      ratingSummaryOf(store.reviews.filter((r) => r.reviewee_id === userId).map((r) => r.rating))
+    );
+  },
+
+  // submit_review と同じチェック
+  async submit(input) {
+    if (store.sessionUserId !== input.reviewer_id) {
+      return fail('forbidden', '他のユーザーとしてレビューは書けません');
+    }
+
+    const request = store.requests.find((r) => r.id === input.request_id);
+    if (!request) return fail('not_found', '依頼が見つかりません');
+    if (input.reviewer_id !== request.creator_id && input.reviewer_id !== request.client_id) {
+      return fail('forbidden', 'この依頼の参加者ではありません');
+    }
+    if (!canReviewRequest(request, input.reviewer_id)) {
+      return fail('invalid', 'レビューはクローズした依頼にだけ書けます');
+    }
+
+    const invalid = validateReviewInput(input);
+    if (invalid) return fail('invalid', invalid);
+
+    const now = nowIso();
+    const existing = store.reviews.find(
+      (r) => r.request_id === request.id && r.reviewer_id === input.reviewer_id
+    );
+
+    if (existing) {
+      if (!canEditReview(existing)) return fail('invalid', '編集できる期間を過ぎています');
+
+      existing.rating = input.rating;
+      existing.body = input.body.trim();
+      existing.updated_at = now;
+      return ok({ ...existing });
+    }
+
+    const reviewee =
+      input.reviewer_id === request.creator_id ? request.client_id : request.creator_id;
+    const review = {
+      id: newId(),
+      request_id: request.id,
+      reviewer_id: input.reviewer_id,
+      reviewee_id: reviewee,
+      rating: input.rating,
+      body: input.body.trim(),
+      reply: null,
+      replied_at: null,
+      created_at: now,
+      updated_at: now,
+    };
+    store.reviews.push(review);
+
+    pushNotification(store, {
+      user_id: reviewee,
+      kind: 'review',
+      actor_id: input.reviewer_id,
+      request_id: request.id,
+      title: request.title,
+      body: 'posted',
+    });
+
+    return ok({ ...review });
+  },
+
+  // reply_to_review と同じチェック
+  async reply(reviewId, replierId, reply) {
+    if (store.sessionUserId !== replierId) {
+      return fail('forbidden', '他のユーザーとして返信はできません');
+    }
+
+    const review = store.reviews.find((r) => r.id === reviewId);
+    if (!review) return fail('not_found', 'レビューが見つかりません');
+
+    const request = store.requests.find((r) => r.id === review.request_id);
+    if (replierId !== review.reviewee_id || replierId !== request?.creator_id) {
+      return fail('forbidden', '返信できるのは評価されたクリエイターだけです');
+    }
+
+    const invalid = validateReviewReply(reply);
+    if (invalid) return fail('invalid', invalid);
+
+    const firstReply = review.reply === null;
+    review.reply = reply.trim();
+    review.replied_at = nowIso();
+
+    if (firstReply) {
+      pushNotification(store, {
+        user_id: review.reviewer_id,
+        kind: 'review',
+        actor_id: replierId,
+        request_id: review.request_id,
+        title: request.title,
+        body: 'replied',
+      });
+    }
+
+    return ok({ ...review });
+  },
+});
@@ -0,0 +1,102 @@
+// lib/data/memory/seed.ts
+// インメモリバックエンドで起動したときのデモデータ
+import type { MemorySeed } from './store';
+
+const CREATOR_ID = '00000000-0000-4000-8000-000000000001';
+const CLIENT_ID = '00000000-0000-4000-8000-000000000002';
+const WORK_ID = '00000000-0000-4000-8000-000000000101';
+
+const TAG_NAMES = ['ヘア', 'ミディアム', '作品撮り'];
+const tagId = (index: number) =>
+  `00000000-0000-4000-8000-0000000002${String(index + 1).padStart(2, '0')}`;
+
+export const demoSeed: MemorySeed = {
+  users: [
+    {
+      id: CREATOR_ID,
+      email: 'creator@example.com',
+      password: 'password',
+      email_confirmed_at: '2025-01-01T00:00:00.000Z',
+      metadata: null,
+    },
+    {
+      id: CLIENT_ID,
+      email: 'client@example.com',
+      password: 'password',
+      email_confirmed_at: '2025-01-01T00:00:00.000Z',
+      metadata: null,
+    },
+  ],
+  profiles: [
+    {
+      id: CREATOR_ID,
+      display_name: 'デモクリエイター',
+      roles: ['creator'],
+      role: 'creator',
+      bio: '都内でヘアメイクと作品撮りをしています。',
+      genre: 'ヘアメイク',
+      area: '東京都',
+      genre_slugs: ['hair-makeup'],
+      area_codes: ['13'],
+      avatar_url: null,
+      cover_url: null,
+      links: [{ kind: 'instagram', url: 'https://www.instagram.com/example' }],
+      skills: ['ブライダルヘア', '作品撮り'],
+      price_menu: [
+        { label: 'ヘアメイク（1 名）', min_price: 8000, max_price: 15000 },
+        { label: '作品撮り（撮影込み）', min_price: 20000, max_price: null },
+      ],
+      turnaround_days: 7,
+      availability: 'open',
+      pause_reason: null,
+      resumes_on: null,
+    },
+    {
+      id: CLIENT_ID,
+      display_name: 'デモ依頼者',
+      roles: ['client'],
+      role: 'client',
+      bio: null,
+      genre: null,
+      area: null,
+      genre_slugs: [],
+      area_codes: [],
+      avatar_url: null,
+      cover_url: null,
+      links: [],
+      skills: [],
+      price_menu: [],
+      turnaround_days: null,
+      availability: 'open',
+      pause_reason: null,
+      resumes_on: null,
+    },
+  ],
+  works: [
+    {
+      id: WORK_ID,
+      creator_id: CREATOR_ID,
+      title: 'ミディアムレイヤー × オレンジブラウン',
+      description: '顔まわりにレイヤーを入れて軽さを出したスタイルです。',
+      image_url: null,
+      image_meta: null,
+      tags: TAG_NAMES.join(','),
+      is_public: true,
+      accepting_requests: true,
+      archived_at: null,
+      deleted_at: null,
+      created_at: '2025-01-10T10:00:00.000Z',
+    },
+  ],
+  tags: TAG_NAMES.map((name, index) => ({
+    id: tagId(index),
+    slug: name,
+    name,
+    created_at: '2025-01-10T10:00:00.000Z',
+  })),
+  workTags: TAG_NAMES.map((_, index) => ({
+    work_id: WORK_ID,
+    tag_id: tagId(index),
+    position: index,
+  })),
+};
@@ -0,0 +1,49 @@
+// lib/data/memory/storage.ts
+import { fail, ok } from '../errors';
+import type { StorageRepository } from '../repositories';
+import type { MemoryStore } from './store';
+
+export const createMemoryStorageRepository = (store: MemoryStore): StorageRepository => {
+  const getPublicUrl: StorageRepository['getPublicUrl'] = (bucket, path) =>
+    store.files[`${bucket}/${path}`] ?? `memory://${bucket}/${path}`;
+
+  return {
+    async upload(bucket, path, file, options = {}) {
+      if (!options.upsert && store.files[`${bucket}/${path}`]) {
+        return fail('conflict', 'The resource already exists');
+      }
+
+      // ブラウザ上ではそのままプレビューできるよう Object URL を公開 URL にする
+      store.files[`${bucket}/${path}`] =
+        typeof URL.createObjectURL === 'function'
+          ? URL.createObjectURL(file)
+          : `memory://${bucket}/${path}`;
+
+      return ok({ path, publicUrl: getPublicUrl(bucket, path) });
+    },
+
+    getPublicUrl,
+
+    async createSignedUrl(bucket, path) {
+      const url = store.files[`${bucket}/${path}`];
+      if (!url) return fail('not_found', 'Object not found');
+      return ok(url);
+    },
+
+    async createSignedUrls(bucket, paths) {
+      const urls: Record<string, string> = {};
+      paths.forEach((path) => {
+        const url = store.files[`${bucket}/${path}`];
+        if (url) urls[path] = url;
+      });
+      return ok(urls);
+    },
+
+    async remove(bucket, paths) {
+      paths.forEach((path) => {
+        delete store.files[`${bucket}/${path}`];
+      });
+      return ok(null);
+    },
+  };
+};
@@ -0,0 +1,133 @@
+// lib/data/memory/store.ts
+// インメモリバックエンドが保持するテーブル群
+import type {
+  AuthUser,
+  MessageReadRow,
+  MessageRow,
+  MilestoneRow,
+  NotificationRow,
+  ProfileRow,
+  QuoteRow,
+  RequestEventRow,
+  RequestRow,
+  ReviewRow,
+  SignUpProfile,
+  TagRow,
+  WorkImageRow,
+  WorkLikeRow,
+  WorkRow,
+} from '../types';
+
+// work_tags の行（画面には出さないのでここだけで定義）
+export type WorkTagRow = {
+  work_id: string;
+  tag_id: string;
+  position: number;
+};
+
+export type MemoryUser = AuthUser & {
+  password: string;
+  // null のうちはログインできない（プロフィールもまだない）
+  email_confirmed_at: string | null;
+  // 登録時に預けたプロフィール（auth.users の raw_user_meta_data）
+  metadata: SignUpProfile | null;
+};
+
+// 送ったメール（ローカル Supabase の Inbucket の代わり。/auth/inbox で見る）
+export type MemoryMail = {
+  id: string;
+  user_id: string;
+  to: string;
+  kind: 'signup' | 'magiclink' | 'recovery';
+  subject: string;
+  // redirectTo に ?code= を付けたもの
+  link: string;
+  code: string;
+  // 6 桁のコード（signup・magiclink のメールだけ）
+  otp: string | null;
+  created_at: string;
+  used_at: string | null;
+};
+
+// リアルタイム購読の代わりに使う同一プロセス内のイベントバス
+export type MemoryBus = {
+  on(topic: string, listener: (payload: unknown) => void): () => void;
+  emit(topic: string, payload: unknown): void;
+};
+
+const createMemoryBus = (): MemoryBus => {
+  const listeners = new Map<string, Set<(payload: unknown) => void>>();
+
+  return {
+    on(topic, listener) {
+      const set = listeners.get(topic) ?? new Set();
+      set.add(listener);
+      listeners.set(topic, set);
+      return () => {
+        set.delete(listener);
+      };
+    },
+    emit(topic, payload) {
+      listeners.get(topic)?.forEach((listener) => listener(payload));
+    },
+  };
+};
+
+export type MemoryStore = {
+  users: MemoryUser[];
+  profiles: ProfileRow[];
+  works: WorkRow[];
+  workImages: WorkImageRow[];
+  tags: TagRow[];
+  workTags: WorkTagRow[];
+  requests: RequestRow[];
+  requestEvents: RequestEventRow[];
+  messages: MessageRow[];
+  messageReads: MessageReadRow[];
+  quotes: QuoteRow[];
+  milestones: MilestoneRow[];
+  reviews: ReviewRow[];
+  workLikes: WorkLikeRow[];
+  notifications: NotificationRow[];
+  outbox: MemoryMail[];
+  // `${bucket}/${path}` → 公開 URL
+  files: Record<string, string>;
+  // ログイン中ユーザー
+  sessionUserId: string | null;
+  // requestId → スレッドを開いているユーザー
+  presence: Record<string, string[]>;
+  bus: MemoryBus;
+};
+
+export type MemorySeed = Partial<Omit<MemoryStore, 'presence' | 'bus'>>;
+
+export const createMemoryStore = (seed: MemorySeed = {}): MemoryStore => ({
+  users: [...(seed.users ?? [])],
+  profiles: [...(seed.profiles ?? [])],
+  works: [...(seed.works ?? [])],
+  workImages: [...(seed.workImages ?? [])],
+  tags: [...(seed.tags ?? [])],
+  workTags: [...(seed.workTags ?? [])],
+  requests: [...(seed.requests ?? [])],
+  requestEvents: [...(seed.requestEvents ?? [])],
+  messages: [...(seed.messages ?? [])],
+  messageReads: [...(seed.messageReads ?? [])],
+  quotes: [...(seed.quotes ?? [])],
+  milestones: [...(seed.milestones ?? [])],
+  reviews: [...(seed.reviews ?? [])],
+  workLikes: [...(seed.workLikes ?? [])],
+  notifications: [...(seed.notifications ?? [])],
+  outbox: [...(seed.outbox ?? [])],
+  files: { ...(seed.files ?? {}) },
+  sessionUserId: seed.sessionUserId ?? null,
+  presence: {},
+  bus: createMemoryBus(),
+});
+
+export const newId = () => globalThis.crypto.randomUUID();
+
+export const nowIso = () => new Date().toISOString();
+
+// 新しい順
+export const byNewest = <T extends { created_at: string }>(a: T, b: T) =>
+  b.created_at.localeCompare(a.created_at);
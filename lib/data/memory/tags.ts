@@ -0,0 +1,91 @@
+// lib/data/memory/tags.ts
+import { fail, ok } from '../errors';
+import type { TagsRepository } from '../repositories';
+import { normalizeTagName, TAG_MAX_LENGTH, tagSlug, WORK_MAX_TAGS } from '../tags';
+import type { TagRow, TagWithCount } from '../types';
+import { newId, nowIso, type MemoryStore } from './store';
+import { toGalleryWorks } from './works';
+
+// tag_stats と同じく公開作品だけを数える
+const withCounts = (store: MemoryStore): TagWithCount[] => {
+  const publicIds = new Set(toGalleryWorks(store).map((w) => w.id));
+
+  return store.tags.map((tag) => ({
+    ...tag,
+    works_count: store.workTags.filter(
+      (wt) => wt.tag_id === tag.id && publicIds.has(wt.work_id)
+    ).length,
+  }));
+};
+
+const tagsOfWork = (store: MemoryStore, workId: string): TagRow[] =>
+  store.workTags
+    .filter((wt) => wt.work_id === workId)
+    .sort((a, b) => a.position - b.position)
+    .flatMap((wt) => {
+      const tag = store.tags.find((t) => t.id === wt.tag_id);
+      return tag ? [{ ...tag }] : [];
+    });
+
+export const createMemoryTagsRepository = (store: MemoryStore): TagsRepository => ({
+  async list(options = {}) {
+    const q = tagSlug(options.q ?? '');
+    const limit = Math.min(Math.max(options.limit ?? 20, 1), 100);
+
+    // list_tags と同じ並び（前方一致 → 作品数 → 名前）
+    const rank = (tag: TagWithCount) => (q && tag.slug.startsWith(q) ? 0 : 1);
+    const rows = withCounts(store)
+      .filter((tag) => tag.works_count > 0)
+      .filter((tag) => !q || tag.slug.includes(q))
+      .sort(
+        (a, b) =>
+          rank(a) - rank(b) || b.works_count - a.works_count || a.name.localeCompare(b.name)
+      );
+
+    return ok(rows.slice(0, limit));
+  },
+
+  async getBySlug(slug) {
+    const tag = withCounts(store).find((t) => t.slug === slug);
+    if (!tag) return fail('not_found', 'タグが見つかりません');
+    return ok(tag);
+  },
+
+  async listForWork(workId) {
+    return ok(tagsOfWork(store, workId));
+  },
+
+  async setForWork(workId, names) {
+    // set_work_tags と同じチェック
+    const work = store.works.find((w) => w.id === workId);
+    if (!work) return fail('not_found', '作品が見つかりません');
+    if (store.sessionUserId !== work.creator_id) {
+      return fail('forbidden', '作品のオーナーではありません');
+    }
+
+    const unique = new Map<string, string>();
+    names.forEach((name) => {
+      const slug = tagSlug(name);
+      if (slug && !unique.has(slug)) unique.set(slug, normalizeTagName(name));
+    });
+    if (unique.size > WORK_MAX_TAGS) return fail('invalid', 'too many tags');
+    if (Array.from(unique.keys()).some((slug) => slug.length > TAG_MAX_LENGTH)) {
+      return fail('invalid', 'tag is too long');
+    }
+
+    store.workTags = store.workTags.filter((wt) => wt.work_id !== workId);
+    Array.from(unique.entries()).forEach(([slug, name], position) => {
+      let tag = store.tags.find((t) => t.slug === slug);
+      if (!tag) {
+        tag = { id: newId(), slug, name, created_at: nowIso() };
+        store.tags.push(tag);
+      }
+      store.workTags.push({ work_id: workId, tag_id: tag.id, position });
+    });
+
+    const tags = tagsOfWork(store, workId);
+    work.tags = tags.length > 0 ? tags.map((t) => t.name).join(',') : null;
+
+    return ok(tags);
+  },
+});
@@ -0,0 +1,348 @@
+// lib/data/memory/works.ts
+import { workAcceptsRequests } from '../creatorProfile';
+import {
+  clampGalleryLimit,
+  decodeCursor,
+  galleryCursorOf,
+  type GalleryCursor,
+} from '../cursor';
+import { fail, ok } from '../errors';
+import type { WorksRepository } from '../repositories';
+import { ratingSummaryOf } from '../reviews';
+import { hasRole } from '../roles';
+import { searchRank, searchTerms, WORK_SEARCH_WEIGHTS } from '../search';
+import type {
+  GallerySort,
+  GalleryWork,
+  ImageMeta,
+  ImageVariantSize,
+  WorkImageInput,
+  WorkImageRow,
+  WorkRow,
+} from '../types';
+import { AREAS, GENRES, matchesArea } from '../vocabularies';
+import {
+  IMAGE_VARIANT_WIDTHS,
+  isValidImageMeta,
+  isWorkImageDirOf,
+  WORK_MAX_IMAGES,
+  workImageVariantPath,
+} from '../workImages';
+import { canRestoreWork, isWorkAvailable } from '../workStatus';
+import { canReadWork } from './policies';
+import { byNewest, newId, nowIso, type MemoryStore } from './store';
+
+type GallerySortKey = Pick<GalleryWork, 'created_at' | 'id'> & {
+  likes_count?: number;
+  search_rank?: number;
+};
+
+// list_gallery_works と同じ並び順（降順）で比較する
+const compareGallery = (sort: GallerySort, a: GallerySortKey, b: GallerySortKey) => {
+  if (sort === 'popular' && a.likes_count !== b.likes_count) {
+    return (b.likes_count ?? 0) - (a.likes_count ?? 0);
+  }
+  if (sort === 'relevance' && a.search_rank !== b.search_rank) {
+    return (b.search_rank ?? 0) - (a.search_rank ?? 0);
+  }
+  if (a.created_at !== b.created_at) return b.created_at.localeCompare(a.created_at);
+  return b.id.localeCompare(a.id);
+};
+
+export const toGalleryWorks = (store: MemoryStore): GalleryWork[] =>
+  store.works
+    .filter((w) => w.is_public === true && isWorkAvailable(w))
+    .flatMap((w) => {
+      const profile = store.profiles.find((p) => p.id === w.creator_id);
+      if (!profile) return [];
+      const rating = ratingSummaryOf(
+        store.reviews.filter((r) => r.reviewee_id === profile.id).map((r) => r.rating)
+      );
+      return [
+        {
+          ...w,
+          creator_name: profile.display_name,
+          creator_genre: profile.genre,
+          creator_area: profile.area,
+          creator_bio: profile.bio,
+          creator_avatar_url: profile.avatar_url,
+          requests_open: workAcceptsRequests(w, profile),
+          creator_rating_avg: rating.average,
+          creator_rating_count: rating.count,
+          likes_count: store.workLikes.filter((l) => l.work_id === w.id).length,
+          search_rank: 0,
+        },
+      ];
+    });
+
+// set_work_images と同じ：付いたままの画像は保存済みの行から取り直し、
+//   新しい画像は本人のフォルダにアップロードしたものだけ（URL は置いたファイルから組み立て、
+//   幅・高さ・ぼかし画像は is_valid_work_image_meta と同じく確かめる）
+const resolveWorkImage = (
+  store: MemoryStore,
+  work: WorkRow,
+  image: WorkImageInput
+): WorkImageInput | null => {
+  const current = store.workImages.filter((row) => row.work_id === work.id);
+  const kept = current.find((row) =>
+    row.storage_path
+      ? row.storage_path === image.storage_path
+      : !image.storage_path && row.url === image.url
+  );
+  if (kept) return { storage_path: kept.storage_path, url: kept.url, meta: kept.meta };
+
+  if (current.length === 0 && work.image_url && work.image_url === image.url) {
+    return { storage_path: null, url: work.image_url, meta: work.image_meta };
+  }
+
+  const dir = image.storage_path;
+  if (!dir || !store.sessionUserId || !isWorkImageDirOf(store.sessionUserId, dir)) return null;
+  if (!image.meta) return null;
+
+  const fileOf = (size: ImageVariantSize, format: 'avif' | 'webp') =>
+    store.files[`works/${workImageVariantPath(dir, size, format)}`];
+  const url = fileOf('large', 'webp');
+  if (!url) return null;
+
+  const variants = Object.fromEntries(
+    (Object.keys(IMAGE_VARIANT_WIDTHS) as ImageVariantSize[]).map((size) => [
+      size,
+      {
+        width: image.meta?.variants[size]?.width,
+        height: image.meta?.variants[size]?.height,
+        avif: fileOf(size, 'avif'),
+        webp: fileOf(size, 'webp'),
+      },
+    ])
+  ) as ImageMeta['variants'];
+
+  const meta: ImageMeta = { ...image.meta, variants };
+  return isValidImageMeta(meta) ? { storage_path: dir, url, meta } : null;
+};
+
+// 20261020150000_work_column_privileges.sql の列の権限と同じ
+const WORK_INSERT_COLUMNS = [
+  'creator_id',
+  'title',
+  'description',
+  'is_public',
+  'accepting_requests',
+];
+const WORK_UPDATE_COLUMNS = ['title', 'description', 'is_public', 'accepting_requests'];
+
+const hasOnlyColumns = (values: object, columns: string[]) =>
+  Object.keys(values).every((key) => columns.includes(key));
+
+export const createMemoryWorksRepository = (store: MemoryStore): WorksRepository => ({
+  async list(options = {}) {
+    const rows = store.works
+      .filter((w) => !options.creatorId || w.creator_id === options.creatorId)
+      .filter((w) => !options.publicOnly || (w.is_public === true && isWorkAvailable(w)))
+      .filter((w) => canReadWork(store, w))
+      .sort(byNewest);
+
+    return ok(rows.map((w) => ({ ...w })));
+  },
+
+  async getById(id) {
+    const work = store.works.find((w) => w.id === id);
+    if (!work || !canReadWork(store, work)) return fail('not_found', '作品が見つかりません');
+    return ok({ ...work });
+  },
+
+  async listByIds(ids) {
+    const rows = store.works.filter((w) => ids.includes(w.id) && canReadWork(store, w));
+    return ok(rows.map((w) => ({ ...w })));
+  },
+
+  async create(input) {
+    // works の insert ポリシーと同じ
+    const creator = store.profiles.find((p) => p.id === store.sessionUserId) ?? null;
+    if (input.creator_id !== store.sessionUserId || !hasRole(creator, 'creator')) {
+      return fail('forbidden', '作品を投稿できるのはクリエイターだけです');
+    }
+    if (!hasOnlyColumns(input, WORK_INSERT_COLUMNS)) {
+      return fail('forbidden', 'この列は直接書き込めません');
+    }
+
+    const work: WorkRow = {
+      id: newId(),
+      description: null,
+      image_url: null,
+      image_meta: null,
+      tags: null,
+      is_public: true,
+      accepting_requests: true,
+      archived_at: null,
+      deleted_at: null,
+      created_at: nowIso(),
+      ...input,
+    };
+    store.works.push(work);
+    return ok({ ...work });
+  },
+
+  async update(id, patch) {
+    const work = store.works.find((w) => w.id === id);
+    if (!work) return fail('not_found', '作品が見つかりません');
+    if (store.sessionUserId !== work.creator_id) {
+      return fail('forbidden', '作品を編集できるのはオーナーだけです');
+    }
+    if (!hasOnlyColumns(patch, WORK_UPDATE_COLUMNS)) {
+      return fail('forbidden', 'この列は直接書き込めません');
+    }
+
+    Object.assign(work, patch);
+    return ok({ ...work });
+  },
+
+  async listImages(workId) {
+    const rows = store.workImages
+      .filter((image) => image.work_id === workId)
+      .sort((a, b) => a.position - b.position);
+
+    return ok(rows.map((image) => ({ ...image })));
+  },
+
+  async setImages(workId, images, coverIndex) {
+    // set_work_images と同じチェック
+    const work = store.works.find((w) => w.id === workId);
+    if (!work) return fail('not_found', '作品が見つかりません');
+    if (store.sessionUserId !== work.creator_id) {
+      return fail('forbidden', '作品のオーナーではありません');
+    }
+    if (images.length < 1 || images.length > WORK_MAX_IMAGES) {
+      return fail('invalid', 'invalid image count');
+    }
+    if (!Number.isInteger(coverIndex) || coverIndex < 0 || coverIndex >= images.length) {
+      return fail('invalid', 'invalid cover index');
+    }
+    const resolved = images.map((image) => resolveWorkImage(store, work, image));
+    if (resolved.some((image) => !image)) {
+      return fail('invalid', 'invalid image');
+    }
+
+    const createdAt = nowIso();
+    const rows: WorkImageRow[] = (resolved as WorkImageInput[]).map((image, index) => ({
+      id: newId(),
+      work_id: workId,
+      storage_path: image.storage_path,
+      url: image.url,
+      meta: image.meta,
+      position: index,
+      is_cover: index === coverIndex,
+      created_at: createdAt,
+    }));
+
+    store.workImages = [...store.workImages.filter((image) => image.work_id !== workId), ...rows];
+    work.image_url = rows[coverIndex].url;
+    work.image_meta = rows[coverIndex].meta;
+
+    return ok(rows.map((image) => ({ ...image })));
+  },
+
+  async setArchived(id, archived) {
+    // set_work_archived と同じチェック
+    const work = store.works.find((w) => w.id === id);
+    if (!work) return fail('not_found', '作品が見つかりません');
+    if (store.sessionUserId !== work.creator_id) {
+      return fail('forbidden', '作品のオーナーではありません');
+    }
+    if (work.deleted_at) return fail('invalid', 'work is deleted');
+
+    work.archived_at = archived ? work.archived_at ?? nowIso() : null;
+    return ok({ ...work });
+  },
+
+  async remove(id) {
+    const work = store.works.find((w) => w.id === id);
+    if (!work) return fail('not_found', '作品が見つかりません');
+    if (store.sessionUserId !== work.creator_id) {
+      return fail('forbidden', '作品のオーナーではありません');
+    }
+
+    work.deleted_at = work.deleted_at ?? nowIso();
+    return ok({ ...work });
+  },
+
+  async restore(id) {
+    const work = store.works.find((w) => w.id === id);
+    if (!work) return fail('not_found', '作品が見つかりません');
+    if (store.sessionUserId !== work.creator_id) {
+      return fail('forbidden', '作品のオーナーではありません');
+    }
+    if (work.deleted_at && !canRestoreWork(work)) {
+      return fail('invalid', 'the undo window has passed');
+    }
+
+    work.deleted_at = null;
+    return ok({ ...work });
+  },
+
+  async listGallery(query) {
+    const sort = query.sort ?? 'newest';
+    const limit = clampGalleryLimit(query.limit);
+    const cursor = decodeCursor<GalleryCursor>(query.cursor);
+    const terms = searchTerms(query.q);
+    const tag = query.tag ? store.tags.find((t) => t.slug === query.tag) : null;
+    if (query.tag && !tag) return ok({ items: [], nextCursor: null });
+
+    const rows = toGalleryWorks(store)
+      .map((w) => ({
+        ...w,
+        search_rank: searchRank(
+          [
+            [w.title, WORK_SEARCH_WEIGHTS.title],
+            [w.tags, WORK_SEARCH_WEIGHTS.tags],
+            [w.creator_name, WORK_SEARCH_WEIGHTS.creator_name],
+            [w.creator_genre, WORK_SEARCH_WEIGHTS.creator_genre],
+            [w.description, WORK_SEARCH_WEIGHTS.description],
+            [w.creator_bio, WORK_SEARCH_WEIGHTS.creator_bio],
+          ],
+          terms
+        ),
+      }))
+      .filter((w) => {
+        const creator = store.profiles.find((p) => p.id === w.creator_id);
+        if (query.genre && !creator?.genre_slugs.includes(query.genre)) return false;
+        if (query.area && !matchesArea(creator?.area_codes ?? [], query.area)) return false;
+        if (tag && !store.workTags.some((wt) => wt.work_id === w.id && wt.tag_id === tag.id)) {
+          return false;
+        }
+        if (terms.length > 0 && w.search_rank === 0) return false;
+        // カーソルより後ろ（並び順で後）のものだけ
+        return !cursor || compareGallery(sort, cursor, w) < 0;
+      })
+      .sort((a, b) => compareGallery(sort, a, b));
+
+    const items = rows.slice(0, limit);
+    const nextCursor =
+      rows.length > limit ? galleryCursorOf(items[items.length - 1], sort) : null;
+
+    return ok({ items, nextCursor });
+  },
+
+  // list_gallery_facets と同じ（公開作品のあるジャンル・エリアと作品数）
+  async listGalleryFacets() {
+    // 公開作品 1 件ごとの作者のジャンル・エリア
+    const creators = toGalleryWorks(store).map((w) => {
+      const creator = store.profiles.find((p) => p.id === w.creator_id);
+      return { genreSlugs: creator?.genre_slugs ?? [], areaCodes: creator?.area_codes ?? [] };
+    });
+
+    const genres = GENRES.map((genre) => ({
+      value: genre.slug,
+      works_count: creators.filter((c) => c.genreSlugs.includes(genre.slug)).length,
+    }));
+    const areas = AREAS.map((area) => ({
+      value: area.code,
+      works_count: creators.filter((c) => matchesArea(c.areaCodes, area.code)).length,
+    }));
+
+    const byValue = (a: { value: string }, b: { value: string }) => a.value.localeCompare(b.value);
+    return ok({
+      genres: genres.filter((f) => f.works_count > 0).sort(byValue),
+      areas: areas.filter((f) => f.works_count > 0).sort(byValue),
+    });
+  },
+});
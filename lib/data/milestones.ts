@@ -0,0 +1,16 @@
+// lib/data/milestones.ts
+// マイルストーン・成果物の共通ルール
+import type { MilestoneRow } from './types';
+
+// deliverables バケットの file_size_limit と同じ
+export const DELIVERABLE_MAX_BYTES = 50 * 1024 * 1024;
+
+// 0 件なら true（マイルストーンを使わない依頼はそのままクローズできる）
+export const allMilestonesApproved = (milestones: Pick<MilestoneRow, 'status'>[]) =>
+  milestones.every((m) => m.status === 'approved');
+
+// {request_id}/{milestone_id}/{uuid}-{ファイル名}（先頭のフォルダでアクセス権を判定する）
+export const deliverablePath = (requestId: string, milestoneId: string, fileName: string) => {
+  const safeName = fileName.replace(/[^\w.\-]+/g, '_').slice(-100) || 'file';
+  return `${requestId}/${milestoneId}/${globalThis.crypto.randomUUID()}-${safeName}`;
+};
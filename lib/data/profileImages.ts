@@ -0,0 +1,51 @@
+// lib/data/profileImages.ts
+// プロフィールのアイコン・カバー画像の共通ルール（profiles バケット・profiles の制約と同じ）
+//   切り抜き・縮小は画面（canvas）で済ませてから、profiles バケットの {user_id}/ 以下に置く。
+//   作品画像とは別のバケットなので、/api/maintenance/storage の回収対象にはならない
+
+export type ProfileImageKind = 'avatar' | 'cover';
+
+// 選べる元画像の上限（切り抜いたあとの画像はずっと小さい）
+export const PROFILE_IMAGE_MAX_BYTES = 10 * 1024 * 1024;
+
+// profiles バケットの allowed_mime_types と同じ
+export const PROFILE_IMAGE_TYPES = ['image/webp', 'image/jpeg', 'image/png'];
+
+// 書き出すサイズ（アイコンは正方形、カバーは 3:1）
+export const PROFILE_IMAGE_SIZES: Record<ProfileImageKind, { width: number; height: number }> = {
+  avatar: { width: 400, height: 400 },
+  cover: { width: 1500, height: 500 },
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/webp': 'webp',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+};
+
+// {user_id}/{kind}-{uuid}.{ext}（差し替えるたびに URL が変わるので、長くキャッシュさせられる）
+export const profileImagePath = (userId: string, kind: ProfileImageKind, contentType: string) =>
+  `${userId}/${kind}-${globalThis.crypto.randomUUID()}.${EXTENSIONS[contentType] ?? 'webp'}`;
+
+// DB（profiles.avatar_url / cover_url）にはこの形のバケット内のパスだけを持つ（外部の画像を指せないように）。
+// 画面には公開 URL で渡す（Supabase のリポジトリが読み書きのときに変換する）
+const PROFILE_IMAGE_FILE_NAME = /^[0-9a-f-]{36}\.(webp|jpg|png)$/;
+
+export const isProfileImagePath = (userId: string, kind: ProfileImageKind, path: string) =>
+  path.startsWith(`${userId}/${kind}-`) &&
+  PROFILE_IMAGE_FILE_NAME.test(path.slice(`${userId}/${kind}-`.length));
+
+// 公開 URL（…/storage/v1/object/public/profiles/{path}）からバケット内のパスを取り出す
+export const profileImagePathOf = (url: string | null) => {
+  const match = url?.match(/\/storage\/v1\/object\/public\/profiles\/([^?#]+)/);
+  return match ? decodeURIComponent(match[1]) : null;
+};
+
+// 問題があればメッセージ、なければ null
+export const validateProfileImageFile = (file: Pick<File, 'size' | 'type'>): string | null => {
+  if (!file.type.startsWith('image/')) return '画像ファイルを選んでください。';
+  if (file.size > PROFILE_IMAGE_MAX_BYTES) {
+    return `画像は ${PROFILE_IMAGE_MAX_BYTES / 1024 / 1024} MB までです。`;
+  }
+  return null;
+};
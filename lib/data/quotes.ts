@@ -0,0 +1,50 @@
+// lib/data/quotes.ts
+// 見積もりの計算と入力チェック（DB の create_quote と同じルール）
+import type { QuoteInsert, QuoteItem, QuoteRow } from './types';
+
+export const QUOTE_MAX_ITEMS = 20;
+
+export const quoteTotal = (items: QuoteItem[]) =>
+  items.reduce((sum, item) => sum + item.quantity * item.unit_price, 0);
+
+// 日本時間の今日（YYYY-MM-DD）
+export const todayInTokyo = () =>
+  new Date().toLocaleDateString('sv-SE', { timeZone: 'Asia/Tokyo' });
+
+// 回答待ちのまま有効期限を過ぎた見積もり
+export const isQuoteExpired = (
+  quote: Pick<QuoteRow, 'status' | 'valid_until'>,
+  today = todayInTokyo()
+) => quote.status === 'pending' && quote.valid_until < today;
+
+// 問題があればメッセージ、なければ null
+export const validateQuoteInput = (
+  input: Pick<QuoteInsert, 'items' | 'delivery_date' | 'valid_until'>,
+  today = todayInTokyo()
+): string | null => {
+  if (input.items.length === 0) return '明細を 1 行以上入力してください。';
+  if (input.items.length > QUOTE_MAX_ITEMS) {
+    return `明細は ${QUOTE_MAX_ITEMS} 行までです。`;
+  }
+
+  const invalidItem = input.items.find(
+    (item) =>
+      !item.description.trim() ||
+      !Number.isInteger(item.quantity) ||
+      item.quantity < 1 ||
+      !Number.isInteger(item.unit_price) ||
+      item.unit_price < 0
+  );
+  if (invalidItem) {
+    return '明細の内容・数量（1 以上）・単価（0 円以上の整数）を確認してください。';
+  }
+
+  if (!input.delivery_date || input.delivery_date < today) {
+    return '納期は今日以降の日付を指定してください。';
+  }
+  if (!input.valid_until || input.valid_until < today) {
+    return '有効期限は今日以降の日付を指定してください。';
+  }
+
+  return null;
+};
@@ -0,0 +1,322 @@
+// lib/data/repositories.ts
+// バックエンド（Supabase / インメモリ）に依存しないリポジトリのインターフェース
+import type { DataResult } from './errors';
+import type {
+  AuthUser,
+  CreatorDirectoryQuery,
+  CreatorPage,
+  CreatorSearchHit,
+  DeliverableInsert,
+  DeliverableRow,
+  GalleryFacets,
+  GalleryPage,
+  GalleryQuery,
+  MessageInsert,
+  MessageReadRow,
+  MessageRow,
+  MilestoneInsert,
+  MilestoneRow,
+  NotificationRow,
+  ProfileInsert,
+  ProfileRow,
+  ProfileUpdate,
+  QuoteInsert,
+  QuoteRow,
+  RatingSummary,
+  RequestEventRow,
+  RequestInsert,
+  RequestRow,
+  RequestStatus,
+  ReviewInput,
+  ReviewRow,
+  SignUpProfile,
+  SignUpResult,
+  TagRow,
+  TagWithCount,
+  WorkImageInput,
+  WorkImageRow,
+  WorkInsert,
+  WorkLikeRow,
+  WorkRow,
+  WorkUpdate,
+} from './types';
+
+// redirectTo はメールのリンクで戻ってくる URL（lib/authRoutes.ts の authCallbackUrl）
+export type AuthRepository = {
+  // 未ログインなら data: null
+  getUser(): Promise<DataResult<AuthUser | null>>;
+  // メールアドレスの確認が済んでいなければ unconfirmed
+  signInWithPassword(email: string, password: string): Promise<DataResult<AuthUser>>;
+  // プロフィールは確認が済んだときに作られる（自分で profiles.create しない）
+  signUp(
+    email: string,
+    password: string,
+    profile: SignUpProfile,
+    redirectTo: string
+  ): Promise<DataResult<SignUpResult>>;
+  resendConfirmation(email: string, redirectTo: string): Promise<DataResult<null>>;
+  // ログイン用のリンクと 6 桁のコードを送る。登録済みかどうかは返さない
+  sendMagicLink(email: string, redirectTo: string): Promise<DataResult<null>>;
+  verifyEmailOtp(email: string, token: string): Promise<DataResult<AuthUser>>;
+  // パスワード再設定のリンクを送る。登録済みかどうかは返さない
+  sendPasswordReset(email: string, redirectTo: string): Promise<DataResult<null>>;
+  // メールのリンク（?code=）を開いたブラウザでログインする
+  exchangeCode(code: string): Promise<DataResult<AuthUser>>;
+  // ログイン中のユーザーのパスワードを変える（再設定のリンクから来たとき）
+  updatePassword(password: string): Promise<DataResult<null>>;
+  signOut(): Promise<DataResult<null>>;
+};
+
+export type ProfilesRepository = {
+  getById(id: string): Promise<DataResult<ProfileRow>>;
+  listByIds(ids: string[]): Promise<DataResult<ProfileRow[]>>;
+  create(input: ProfileInsert): Promise<DataResult<ProfileRow>>;
+  update(id: string, patch: ProfileUpdate): Promise<DataResult<ProfileRow>>;
+  // クリエイターを名前・ジャンル・エリア・自己紹介から探す（関連度順）
+  searchCreators(q: string, limit?: number): Promise<DataResult<CreatorSearchHit[]>>;
+  // クリエイター一覧（絞り込み・検索・並び替え・カーソルのページング）
+  listCreators(query: CreatorDirectoryQuery): Promise<DataResult<CreatorPage>>;
+};
+
+export type WorkListOptions = {
+  creatorId?: string;
+  // 公開中のもの（アーカイブ・削除済みを除く）だけ
+  publicOnly?: boolean;
+};
+
+export type WorksRepository = {
+  // 新着順
+  list(options?: WorkListOptions): Promise<DataResult<WorkRow[]>>;
+  getById(id: string): Promise<DataResult<WorkRow>>;
+  listByIds(ids: string[]): Promise<DataResult<WorkRow[]>>;
+  create(input: WorkInsert): Promise<DataResult<WorkRow>>;
+  update(id: string, patch: WorkUpdate): Promise<DataResult<WorkRow>>;
+  // position 順
+  listImages(workId: string): Promise<DataResult<WorkImageRow[]>>;
+  // 画像一式を並び順どおりに置き換え、coverIndex 番目をカバー（works.image_url）にする。
+  // 作品のオーナーだけ（それ以外は forbidden）、1〜WORK_MAX_IMAGES 枚（それ以外は invalid）
+  setImages(
+    workId: string,
+    images: WorkImageInput[],
+    coverIndex: number
+  ): Promise<DataResult<WorkImageRow[]>>;
+  // アーカイブ / 解除。オーナーだけ（それ以外は forbidden）、削除済みは invalid
+  setArchived(id: string, archived: boolean): Promise<DataResult<WorkRow>>;
+  // 削除（deleted_at を入れるだけ。WORK_DELETE_UNDO_DAYS を過ぎると行ごと消える）。オーナーだけ
+  remove(id: string): Promise<DataResult<WorkRow>>;
+  // 削除を取り消す。オーナーだけ、期限を過ぎていれば invalid
+  restore(id: string): Promise<DataResult<WorkRow>>;
+  // 公開作品ギャラリー（絞り込み・並び替え・いいね数の集計は DB 側）
+  listGallery(query: GalleryQuery): Promise<DataResult<GalleryPage>>;
+  listGalleryFacets(): Promise<DataResult<GalleryFacets>>;
+};
+
+export type TagListOptions = {
+  // 入力中の文字列（補完）。なければ人気順
+  q?: string;
+  limit?: number;
+};
+
+export type TagsRepository = {
+  // 公開作品が 1 件以上あるタグ（前方一致 → 作品数の多い順）
+  list(options?: TagListOptions): Promise<DataResult<TagWithCount[]>>;
+  getBySlug(slug: string): Promise<DataResult<TagWithCount>>;
+  // 並び順どおり
+  listForWork(workId: string): Promise<DataResult<TagRow[]>>;
+  // タグ名（表記ゆれは正規化、同じ slug は先のものだけ）で置き換える。
+  // 作品のオーナーだけ（それ以外は forbidden）、WORK_MAX_TAGS 個・TAG_MAX_LENGTH 文字まで（それ以外は invalid）
+  setForWork(workId: string, names: string[]): Promise<DataResult<TagRow[]>>;
+};
+
+export type RequestSide = 'creator' | 'client';
+
+export type RequestsRepository = {
+  getById(id: string): Promise<DataResult<RequestRow>>;
+  // side = 'creator' なら受けた依頼、'client' なら送った依頼（更新の新しい順）
+  listForUser(userId: string, side: RequestSide): Promise<DataResult<RequestRow[]>>;
+  // creator / client どちらかとして関わっている依頼
+  listForParticipant(userId: string): Promise<DataResult<RequestRow[]>>;
+  create(input: RequestInsert): Promise<DataResult<RequestRow>>;
+  // ログイン中のクリエイターだけが、許可された遷移（requestStatus.ts）でのみ変更できる。
+  // 権限がなければ forbidden、遷移できなければ invalid
+  updateStatus(id: string, status: RequestStatus): Promise<DataResult<RequestRow>>;
+  // 古い順
+  listEvents(requestId: string): Promise<DataResult<RequestEventRow[]>>;
+};
+
+// 購読解除
+export type Unsubscribe = () => void;
+
+export type MessageChangeHandlers = {
+  onInsert?: (message: MessageRow) => void;
+  // 既読状態の変化など
+  onUpdate?: (message: MessageRow) => void;
+};
+
+export type MessagesRepository = {
+  // 古い順
+  listForRequest(requestId: string): Promise<DataResult<MessageRow[]>>;
+  create(input: MessageInsert): Promise<DataResult<MessageRow>>;
+  // 相手から届いたメッセージのうち messageId（画面に表示された最新）までを既読にし、
+  // 既読カーソルを進める。新しく既読になった件数を返す
+  markReadUpTo(
+    requestId: string,
+    readerId: string,
+    messageId: string
+  ): Promise<DataResult<number>>;
+  // まだ何も読んでいなければ data: null
+  getReadCursor(requestId: string, userId: string): Promise<DataResult<MessageReadRow | null>>;
+  // 自分が関係する依頼で、相手から届いた未読メッセージ数
+  countUnreadForUser(userId: string): Promise<DataResult<number>>;
+  // request_id ごとの未読数（0 件の依頼はキーなし）
+  countUnreadByRequest(userId: string): Promise<DataResult<Record<string, number>>>;
+  // 依頼スレッドのメッセージ追加・更新をリアルタイムで受け取る
+  subscribeToRequest(requestId: string, handlers: MessageChangeHandlers): Unsubscribe;
+};
+
+export type ThreadPresenceHandlers = {
+  // スレッドを開いているユーザー（自分を含む）
+  onPresenceChange?: (onlineUserIds: string[]) => void;
+  // 相手が入力中（自分の入力は通知されない）
+  onTyping?: (userId: string) => void;
+};
+
+export type ThreadChannel = {
+  sendTyping(): void;
+  leave(): void;
+};
+
+export type PresenceRepository = {
+  // 自分はログイン中のユーザー。依頼の当事者でなければ入れない
+  joinThread(requestId: string, handlers: ThreadPresenceHandlers): ThreadChannel;
+};
+
+export type LikesRepository = {
+  listForWork(workId: string): Promise<DataResult<WorkLikeRow[]>>;
+  // work_id ごとのいいね数（0 件の作品はキーなし）
+  countByWorkIds(workIds: string[]): Promise<DataResult<Record<string, number>>>;
+  add(workId: string, userId: string): Promise<DataResult<null>>;
+  remove(workId: string, userId: string): Promise<DataResult<null>>;
+};
+
+export type QuoteResponse = 'accept' | 'decline';
+
+export type QuotesRepository = {
+  // 古い順（明細つき）
+  listForRequest(requestId: string): Promise<DataResult<QuoteRow[]>>;
+  // parent_id があれば、その見積もりへのカウンター
+  create(input: QuoteInsert): Promise<DataResult<QuoteRow>>;
+  // 承諾すると条件が依頼（agreed_*）に固定される
+  respond(
+    quoteId: string,
+    responderId: string,
+    response: QuoteResponse
+  ): Promise<DataResult<QuoteRow>>;
+  // 見積もりの追加・回答をリアルタイムで受け取る（明細は含まれないので再取得する）
+  subscribeToRequest(requestId: string, onChange: () => void): Unsubscribe;
+};
+
+// submit：クリエイターが確認を依頼 / approve・request_revision：依頼者の確認
+export type MilestoneAction = 'submit' | 'approve' | 'request_revision';
+
+export type MilestonesRepository = {
+  // position 順（成果物つき・成果物は古い順）
+  listForRequest(requestId: string): Promise<DataResult<MilestoneRow[]>>;
+  create(input: MilestoneInsert): Promise<DataResult<MilestoneRow>>;
+  // 未提出（open）のものだけ
+  remove(id: string): Promise<DataResult<null>>;
+  // ファイル本体は先に storage（deliverables バケット）へアップロードしておく
+  addDeliverable(input: DeliverableInsert): Promise<DataResult<DeliverableRow>>;
+  removeDeliverable(id: string): Promise<DataResult<null>>;
+  updateStatus(
+    milestoneId: string,
+    actorId: string,
+    action: MilestoneAction,
+    note?: string
+  ): Promise<DataResult<MilestoneRow>>;
+  // マイルストーン・成果物の変更をリアルタイムで受け取る
+  subscribeToRequest(requestId: string, onChange: () => void): Unsubscribe;
+};
+
+export type ReviewsRepository = {
+  // 依頼のレビュー（参加者 2 人分まで・古い順）
+  listForRequest(requestId: string): Promise<DataResult<ReviewRow[]>>;
+  // そのユーザーが受けたレビュー（新しい順）
+  listForReviewee(userId: string, limit?: number): Promise<DataResult<ReviewRow[]>>;
+  getSummary(userId: string): Promise<DataResult<RatingSummary>>;
+  // まだ書いていなければ作成、書いていれば更新（REVIEW_EDIT_DAYS 以内だけ）。
+  // クローズした依頼の参加者だけ（それ以外は forbidden）、期限切れ・入力が不正なら invalid
+  submit(input: ReviewInput): Promise<DataResult<ReviewRow>>;
+  // 評価されたクリエイターだけが返信できる（書き直しも可）
+  reply(reviewId: string, replierId: string, reply: string): Promise<DataResult<ReviewRow>>;
+};
+
+export type NotificationChangeHandlers = {
+  onInsert?: (notification: NotificationRow) => void;
+  onUpdate?: (notification: NotificationRow) => void;
+};
+
+export type NotificationsRepository = {
+  // 新しい順
+  listForUser(userId: string, limit?: number): Promise<DataResult<NotificationRow[]>>;
+  countUnread(userId: string): Promise<DataResult<number>>;
+  markRead(id: string): Promise<DataResult<null>>;
+  markAllRead(userId: string): Promise<DataResult<null>>;
+  subscribe(userId: string, handlers: NotificationChangeHandlers): Unsubscribe;
+};
+
+// works は公開バケット、deliverables・attachments は依頼の参加者だけが読める非公開バケット
+export type StorageBucket = 'works' | 'deliverables' | 'attachments' | 'profiles';
+
+export type UploadOptions = {
+  upsert?: boolean;
+  cacheControl?: string;
+  contentType?: string;
+};
+
+export type StorageRepository = {
+  upload(
+    bucket: StorageBucket,
+    path: string,
+    file: File | Blob,
+    options?: UploadOptions
+  ): Promise<DataResult<{ path: string; publicUrl: string }>>;
+  getPublicUrl(bucket: StorageBucket, path: string): string;
+  // 非公開バケット用の期限つき URL
+  createSignedUrl(
+    bucket: StorageBucket,
+    path: string,
+    expiresInSeconds: number
+  ): Promise<DataResult<string>>;
+  // まとめて発行（path ごと。発行できなかったものはキーなし）
+  createSignedUrls(
+    bucket: StorageBucket,
+    paths: string[],
+    expiresInSeconds: number
+  ): Promise<DataResult<Record<string, string>>>;
+  remove(bucket: StorageBucket, paths: string[]): Promise<DataResult<null>>;
+};
+
+// アップロード画像の処理（メタデータ除去・リサイズ・AVIF / WebP 化）
+export type MediaRepository = {
+  // ログイン中ユーザーのフォルダに派生画像一式を置き、setImages にそのまま渡せる形で返す。
+  // 画像でない・大きすぎるファイルは invalid
+  processWorkImage(file: File | Blob): Promise<DataResult<WorkImageInput>>;
+};
+
+export type DataBackend = {
+  auth: AuthRepository;
+  profiles: ProfilesRepository;
+  works: WorksRepository;
+  tags: TagsRepository;
+  requests: RequestsRepository;
+  messages: MessagesRepository;
+  likes: LikesRepository;
+  storage: StorageRepository;
+  media: MediaRepository;
+  presence: PresenceRepository;
+  notifications: NotificationsRepository;
+  quotes: QuotesRepository;
+  milestones: MilestonesRepository;
+  reviews: ReviewsRepository;
+};
@@ -0,0 +1,13 @@
+// lib/data/requestStatus.ts
+// 依頼ステータスの状態遷移（DB の is_request_status_transition_allowed と同じ表）
+import type { RequestStatus } from './types';
+
+export const REQUEST_STATUS_TRANSITIONS: Record<RequestStatus, RequestStatus[]> = {
+  pending: ['accepted', 'rejected'],
+  accepted: ['closed'],
+  rejected: [],
+  closed: [],
+};
+
+export const canTransitionRequestStatus = (from: RequestStatus, to: RequestStatus) =>
+  REQUEST_STATUS_TRANSITIONS[from].includes(to);
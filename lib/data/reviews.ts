@@ -0,0 +1,60 @@
+// lib/data/reviews.ts
+// レビューの共通ルール（DB の submit_review / reply_to_review と同じ）
+import type { RatingSummary, RequestRow, ReviewRow } from './types';
+
+export const REVIEW_MIN_RATING = 1;
+export const REVIEW_MAX_RATING = 5;
+export const REVIEW_BODY_MAX_LENGTH = 1000;
+export const REVIEW_REPLY_MAX_LENGTH = 500;
+// 書いてから編集できる日数
+export const REVIEW_EDIT_DAYS = 14;
+
+// クローズした依頼の参加者だけが書ける
+export const canReviewRequest = (
+  request: Pick<RequestRow, 'status' | 'creator_id' | 'client_id'>,
+  userId: string
+) => request.status === 'closed' && (userId === request.creator_id || userId === request.client_id);
+
+export const reviewEditDeadline = (review: Pick<ReviewRow, 'created_at'>) =>
+  new Date(new Date(review.created_at).getTime() + REVIEW_EDIT_DAYS * 24 * 60 * 60 * 1000);
+
+export const canEditReview = (review: Pick<ReviewRow, 'created_at'>, now = new Date()) =>
+  reviewEditDeadline(review).getTime() > now.getTime();
+
+// 問題があればメッセージ、なければ null
+export const validateReviewInput = (input: Pick<ReviewRow, 'rating' | 'body'>) => {
+  if (
+    !Number.isInteger(input.rating) ||
+    input.rating < REVIEW_MIN_RATING ||
+    input.rating > REVIEW_MAX_RATING
+  ) {
+    return `評価は ${REVIEW_MIN_RATING}〜${REVIEW_MAX_RATING} の星で選んでください。`;
+  }
+  const body = input.body.trim();
+  if (!body) return 'レビューの本文を入力してください。';
+  if (body.length > REVIEW_BODY_MAX_LENGTH) {
+    return `レビューは ${REVIEW_BODY_MAX_LENGTH} 文字までです。`;
+  }
+  return null;
+};
+
+export const validateReviewReply = (reply: string) => {
+  const body = reply.trim();
+  if (!body) return '返信を入力してください。';
+  if (body.length > REVIEW_REPLY_MAX_LENGTH) {
+    return `返信は ${REVIEW_REPLY_MAX_LENGTH} 文字までです。`;
+  }
+  return null;
+};
+
+// 平均は小数第 2 位まで（DB の rating_stats と同じ）
+export const ratingSummaryOf = (ratings: number[]): RatingSummary => ({
+  average:
+    ratings.length > 0
+      ? Math.round((ratings.reduce((sum, r) => sum + r, 0) / ratings.length) * 100) / 100
+      : null,
+  count: ratings.length,
+});
+
+// 4.25 → 4.3
+export const formatRating = (average: number) => average.toFixed(1);
@@ -0,0 +1,35 @@
+// lib/data/roles.ts
+// ロールの共通ルール（DB の profiles_normalize_roles トリガーと同じ）
+//   roles はできること（クリエイター・依頼者の両方を持てる）。判定は必ず roles で行い、
+//   role は今どちらとして使っているか（表示の既定値）にだけ使う
+import type { ProfileRow, Role } from './types';
+
+// 並び順もこの順にそろえる
+export const ROLES: Role[] = ['creator', 'client'];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  creator: 'クリエイター',
+  client: '依頼者',
+};
+
+export const isRole = (value: string): value is Role => (ROLES as string[]).includes(value);
+
+export const hasRole = (profile: Pick<ProfileRow, 'roles'> | null, role: Role) =>
+  profile !== null && profile.roles.includes(role);
+
+// 重複を除いて ROLES の順に並べる
+export const normalizeRoles = (roles: Role[]): Role[] => ROLES.filter((r) => roles.includes(r));
+
+// 切り替え中のロール。持っていないロールなら先頭のものにする
+export const activeRoleOf = (roles: Role[], role: Role | null): Role | null =>
+  role !== null && roles.includes(role) ? role : (roles[0] ?? null);
+
+// 「クリエイター・依頼者」など（ロールがなければ「ユーザー」）
+export const rolesLabel = (roles: Role[]) =>
+  roles.length > 0 ? normalizeRoles(roles).map((r) => ROLE_LABELS[r]).join('・') : 'ユーザー';
+
+// role に切り替える更新内容（持っていなければ roles にも足す）
+export const switchRolePatch = (profile: Pick<ProfileRow, 'roles'>, role: Role) => ({
+  role,
+  roles: normalizeRoles([...profile.roles, role]),
+});
@@ -0,0 +1,119 @@
+// lib/data/search.ts
+// キーワード検索の共通ルール（DB の search_fold / search_terms / *_search_rank と同じ）
+
+export const SEARCH_MAX_TERMS = 5;
+
+// 項目ごとの重み（作品）。タイトル・タグに当たったものほど上に出す
+export const WORK_SEARCH_WEIGHTS = {
+  title: 8,
+  tags: 5,
+  creator_name: 4,
+  creator_genre: 3,
+  description: 2,
+  creator_bio: 1,
+} as const;
+
+// 項目ごとの重み（クリエイター）
+export const CREATOR_SEARCH_WEIGHTS = {
+  display_name: 8,
+  genre: 4,
+  area: 3,
+  bio: 2,
+} as const;
+
+// 全角 / 半角（NFKC）・大文字 / 小文字・カタカナ / ひらがなの違いをそろえる
+export const foldSearchText = (text: string | null | undefined) =>
+  (text || '')
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[ァ-ヶ]/g, (ch) => String.fromCharCode(ch.charCodeAt(0) - 0x60));
+
+// 空白区切りの語（重複を除いて先頭から SEARCH_MAX_TERMS 個）。すべて含むものだけヒットする
+export const searchTerms = (q: string | null | undefined) =>
+  Array.from(new Set(foldSearchText(q).split(/\s+/).filter(Boolean))).slice(
+    0,
+    SEARCH_MAX_TERMS
+  );
+
+// 一致度（含まない語が 1 つでもあれば 0）。語ごとに、含んでいる項目の重みを足す
+export const searchRank = (
+  fields: [text: string | null | undefined, weight: number][],
+  terms: string[]
+) => {
+  if (terms.length === 0) return 0;
+
+  const folded = fields.map(([text, weight]) => [foldSearchText(text), weight] as const);
+  let rank = 0;
+
+  for (const term of terms) {
+    const score = folded.reduce(
+      (sum, [text, weight]) => (text.includes(term) ? sum + weight : sum),
+      0
+    );
+    if (score === 0) return 0;
+    rank += score;
+  }
+
+  return rank;
+};
+
+export type HighlightSegment = {
+  text: string;
+  match: boolean;
+};
+
+// 元の表記のまま、検索語に当たった部分を切り出す（表示側で <mark> にする）
+export const highlightSegments = (text: string, terms: string[]): HighlightSegment[] => {
+  if (!text) return [];
+  if (terms.length === 0) return [{ text, match: false }];
+
+  // 1 文字ずつ畳み込み、畳み込んだ位置 → 元の文字の範囲を覚えておく
+  const chars = Array.from(text);
+  const starts: number[] = [];
+  const ends: number[] = [];
+  let folded = '';
+  let offset = 0;
+
+  for (const ch of chars) {
+    const piece = foldSearchText(ch);
+    for (let i = 0; i < piece.length; i++) {
+      starts.push(offset);
+      ends.push(offset + ch.length);
+    }
+    folded += piece;
+    offset += ch.length;
+  }
+
+  const marked = new Array<boolean>(text.length).fill(false);
+  for (const term of terms) {
+    let from = folded.indexOf(term);
+    while (from >= 0) {
+      const to = from + term.length - 1;
+      marked.fill(true, starts[from], ends[to]);
+      from = folded.indexOf(term, from + 1);
+    }
+  }
+
+  const segments: HighlightSegment[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const last = segments[segments.length - 1];
+    if (last && last.match === marked[i]) {
+      last.text += text[i];
+    } else {
+      segments.push({ text: text[i], match: marked[i] });
+    }
+  }
+  return segments;
+};
+
+// 長い文章（説明・自己紹介）は最初に当たった箇所の前後だけ見せる
+export const searchSnippet = (text: string, terms: string[], radius = 40) => {
+  const segments = highlightSegments(text, terms);
+  const index = segments.findIndex((segment) => segment.match);
+  if (index < 0) return text;
+
+  const before = segments.slice(0, index).reduce((sum, segment) => sum + segment.text.length, 0);
+  if (before <= radius) return text;
+
+  return `…${text.slice(before - radius)}`;
+};
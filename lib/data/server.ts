@@ -0,0 +1,12 @@
+// lib/data/server.ts
+// サーバーコンポーネントから「ログイン中のユーザーとして」読むときの入口（RLS がそのまま効く）
+//   lib/data/index.ts から re-export しない（next/headers を使うのでクライアントに含められない）
+import { createSupabaseServerClient } from '@/lib/supabaseServer';
+import type { DataBackend } from './repositories';
+import { createSupabaseBackend } from './supabase';
+
+// インメモリバックエンドはセッションがブラウザの中にしかないので null（画面側のチェックに任せる）
+export const getServerDb = async (): Promise<DataBackend | null> => {
+  if (process.env.NEXT_PUBLIC_DATA_BACKEND === 'memory') return null;
+  return createSupabaseBackend(await createSupabaseServerClient());
+};
@@ -0,0 +1,98 @@
+// lib/data/supabase/auth.ts
+import type { SupabaseClient, User } from '@supabase/supabase-js';
+import { fail, ok } from '../errors';
+import type { AuthRepository } from '../repositories';
+import type { AuthUser } from '../types';
+import { fromSupabaseError } from './errors';
+
+const toAuthUser = (user: User): AuthUser => ({
+  id: user.id,
+  email: user.email ?? null,
+});
+
+export const createSupabaseAuthRepository = (client: SupabaseClient): AuthRepository => ({
+  async getUser() {
+    const {
+      data: { user },
+      error,
+    } = await client.auth.getUser();
+
+    // 未ログイン時の「セッションなし」はエラー扱いにしない
+    if (error && error.name !== 'AuthSessionMissingError') {
+      return fromSupabaseError(error);
+    }
+
+    return ok(user ? toAuthUser(user) : null);
+  },
+
+  async signInWithPassword(email, password) {
+    const { data, error } = await client.auth.signInWithPassword({ email, password });
+    if (error) return fromSupabaseError(error);
+    return ok(toAuthUser(data.user));
+  },
+
+  async signUp(email, password, profile, redirectTo) {
+    const { data, error } = await client.auth.signUp({
+      email,
+      password,
+      // プロフィールは create_profile_for_confirmed_user トリガーが確認後に作る
+      options: { emailRedirectTo: redirectTo, data: profile },
+    });
+    if (error) return fromSupabaseError(error);
+    if (!data.user) return fail('backend', '登録に失敗しました');
+    // 確認が必要な設定ではセッションが返らない
+    return ok({ user: toAuthUser(data.user), needsConfirmation: data.session === null });
+  },
+
+  async resendConfirmation(email, redirectTo) {
+    const { error } = await client.auth.resend({
+      type: 'signup',
+      email,
+      options: { emailRedirectTo: redirectTo },
+    });
+    if (error) return fromSupabaseError(error);
+    return ok(null);
+  },
+
+  async sendMagicLink(email, redirectTo) {
+    const { error } = await client.auth.signInWithOtp({
+      email,
+      // ここでは登録させない（プロフィールの情報がないため）
+      options: { shouldCreateUser: false, emailRedirectTo: redirectTo },
+    });
+    // 未登録のアドレスでも送ったことにする（登録済みかどうかを漏らさない）
+    if (error && error.code !== 'otp_disabled') return fromSupabaseError(error);
+    return ok(null);
+  },
+
+  async verifyEmailOtp(email, token) {
+    const { data, error } = await client.auth.verifyOtp({ email, token, type: 'email' });
+    if (error) return fromSupabaseError(error);
+    if (!data.user) return fail('invalid', 'コードが正しくないか、有効期限が切れています');
+    return ok(toAuthUser(data.user));
+  },
+
+  async sendPasswordReset(email, redirectTo) {
+    const { error } = await client.auth.resetPasswordForEmail(email, { redirectTo });
+    if (error) return fromSupabaseError(error);
+    return ok(null);
+  },
+
+  async exchangeCode(code) {
+    const { data, error } = await client.auth.exchangeCodeForSession(code);
+    if (error) return fromSupabaseError(error);
+    return ok(toAuthUser(data.user));
+  },
+
+  async updatePassword(password) {
+    const { error } = await client.auth.updateUser({ password });
+    if (error) return fromSupabaseError(error);
+    return ok(null);
+  },
+
+  async signOut() {
+    const { error } = await client.auth.signOut();
+    if (error) return fromSupabaseError(error);
+    return ok(null);
+  },
+});
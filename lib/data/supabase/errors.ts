@@ -0,0 +1,47 @@
+// lib/data/supabase/errors.ts
+import { fail, type DataErrorCode, type DataResult } from '../errors';
+
+type SupabaseLikeError = {
+  message: string;
+  code?: string;
+};
+
+// PostgREST / Postgres・Supabase Auth のエラーコードを DataErrorCode に寄せる
+const codeOf = (error: SupabaseLikeError): DataErrorCode => {
+  switch (error.code) {
+    case 'PGRST116': // .single() で 0 行
+    case 'P0002': // no_data_found（RPC 内の raise）
+    case 'user_not_found':
+      return 'not_found';
+    case '23505': // unique_violation
+    case 'user_already_exists':
+    case 'email_exists':
+      return 'conflict';
+    case '42501': // insufficient_privilege（RLS）
+      return 'forbidden';
+    case 'invalid_credentials':
+    case 'session_not_found':
+      return 'unauthorized';
+    case 'email_not_confirmed':
+      return 'unconfirmed';
+    case '22P02': // invalid_text_representation（uuid 不正など）
+    case '22023': // invalid_parameter_value（RPC の引数不正）
+    case '23502': // not_null_violation
+    case '23514': // check_violation
+    case 'validation_failed':
+    case 'weak_password':
+    case 'same_password':
+    case 'otp_expired': // メールのリンク・コードが期限切れか使用済み
+    case 'pkce_code_verifier_not_found': // 別の端末・ブラウザでリンクを開いた
+    case 'flow_state_not_found': // リンクがもう使われている
+    case 'flow_state_expired':
+    case 'bad_code_verifier':
+      return 'invalid';
+    default:
+      return 'backend';
+  }
+};
+
+export const fromSupabaseError = <T = never>(
+  error: SupabaseLikeError
+): DataResult<T> => fail<T>(codeOf(error), error.message, error);
@@ -0,0 +1,34 @@
+// lib/data/supabase/index.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { DataBackend } from '../repositories';
+import { createSupabaseAuthRepository } from './auth';
+import { createSupabaseLikesRepository } from './likes';
+import { createSupabaseMediaRepository } from './media';
+import { createSupabaseMessagesRepository } from './messages';
+import { createSupabaseMilestonesRepository } from './milestones';
+import { createSupabaseNotificationsRepository } from './notifications';
+import { createSupabasePresenceRepository } from './presence';
+import { createSupabaseProfilesRepository } from './profiles';
+import { createSupabaseQuotesRepository } from './quotes';
+import { createSupabaseRequestsRepository } from './requests';
+import { createSupabaseReviewsRepository } from './reviews';
+import { createSupabaseStorageRepository } from './storage';
+import { createSupabaseTagsRepository } from './tags';
+import { createSupabaseWorksRepository } from './works';
+
+export const createSupabaseBackend = (client: SupabaseClient): DataBackend => ({
+  auth: createSupabaseAuthRepository(client),
+  profiles: createSupabaseProfilesRepository(client),
+  works: createSupabaseWorksRepository(client),
+  tags: createSupabaseTagsRepository(client),
+  requests: createSupabaseRequestsRepository(client),
+  messages: createSupabaseMessagesRepository(client),
+  likes: createSupabaseLikesRepository(client),
+  storage: createSupabaseStorageRepository(client),
+  media: createSupabaseMediaRepository(client),
+  presence: createSupabasePresenceRepository(client),
+  notifications: createSupabaseNotificationsRepository(client),
+  quotes: createSupabaseQuotesRepository(client),
+  milestones: createSupabaseMilestonesRepository(client),
+  reviews: createSupabaseReviewsRepository(client),
+});
@@ -0,0 +1,56 @@
+// lib/data/supabase/likes.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ok } from '../errors';
+import type { LikesRepository } from '../repositories';
+import type { WorkLikeRow } from '../types';
+import { fromSupabaseError } from './errors';
+
+export const createSupabaseLikesRepository = (client: SupabaseClient): LikesRepository => ({
+  async listForWork(workId) {
+    const { data, error } = await client
+      .from('work_likes')
+      .select('work_id, user_id, created_at')
+      .eq('work_id', workId);
+
+    if (error) return fromSupabaseError(error);
+    return ok((data || []) as WorkLikeRow[]);
+  },
+
+  async countByWorkIds(workIds) {
+    if (workIds.length === 0) return ok({});
+
+    const { data, error } = await client
+      .from('work_likes')
+      .select('work_id')
+      .in('work_id', workIds);
+
+    if (error) return fromSupabaseError(error);
+
+    const counts: Record<string, number> = {};
+    (data || []).forEach((l) => {
+      const wid = (l as { work_id: string }).work_id;
+      counts[wid] = (counts[wid] ?? 0) + 1;
+    });
+    return ok(counts);
+  },
+
+  async add(workId, userId) {
+    const { error } = await client
+      .from('work_likes')
+      .insert({ work_id: workId, user_id: userId });
+
+    if (error) return fromSupabaseError(error);
+    return ok(null);
+  },
+
+  async remove(workId, userId) {
+    const { error } = await client
+      .from('work_likes')
+      .delete()
+      .eq('work_id', workId)
+      .eq('user_id', userId);
+
+    if (error) return fromSupabaseError(error);
+    return ok(null);
+  },
+});
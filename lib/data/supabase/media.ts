@@ -0,0 +1,40 @@
+// lib/data/supabase/media.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { fail, ok, type DataErrorCode } from '../errors';
+import type { MediaRepository } from '../repositories';
+import type { WorkImageInput } from '../types';
+
+// app/api/works/images/route.ts
+const WORK_IMAGE_ENDPOINT = '/api/works/images';
+
+type ApiResponse =
+  | { data: WorkImageInput; error?: undefined }
+  | { data?: undefined; error: { code: DataErrorCode; message: string } };
+
+export const createSupabaseMediaRepository = (client: SupabaseClient): MediaRepository => ({
+  async processWorkImage(file) {
+    // 変換はサーバー（sharp）側。アップロードはユーザーの権限で行うのでトークンを渡す
+    const { data: sessionData, error: sessionError } = await client.auth.getSession();
+    if (sessionError) return fail('backend', sessionError.message, sessionError);
+    if (!sessionData.session) return fail('unauthorized', 'ログインしていません');
+
+    const body = new FormData();
+    body.append('file', file);
+
+    let res: Response;
+    try {
+      res = await fetch(WORK_IMAGE_ENDPOINT, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${sessionData.session.access_token}` },
+        body,
+      });
+    } catch (err) {
+      return fail('backend', 'Failed to reach the image endpoint', err);
+    }
+
+    const json = (await res.json().catch(() => null)) as ApiResponse | null;
+    if (!json) return fail('backend', `Unexpected response (HTTP ${res.status})`);
+    if (json.error) return fail(json.error.code, json.error.message);
+    return ok(json.data);
+  },
+});
@@ -0,0 +1,113 @@
+// lib/data/supabase/messages.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ok } from '../errors';
+import type { MessagesRepository } from '../repositories';
+import type { MessageReadRow, MessageRow } from '../types';
+import { fromSupabaseError } from './errors';
+
+const MESSAGE_COLUMNS =
+  'id, request_id, sender_id, body, attachments, read_at, created_at';
+
+const MESSAGE_READ_COLUMNS =
+  'request_id, user_id, last_read_message_id, last_read_at, updated_at';
+
+type UnreadCountRow = {
+  request_id: string;
+  unread: number;
+};
+
+export const createSupabaseMessagesRepository = (
+  client: SupabaseClient
+): MessagesRepository => ({
+  async listForRequest(requestId) {
+    const { data, error } = await client
+      .from('messages')
+      .select(MESSAGE_COLUMNS)
+      .eq('request_id', requestId)
+      .order('created_at', { ascending: true });
+
+    if (error) return fromSupabaseError(error);
+    return ok((data || []) as MessageRow[]);
+  },
+
+  async create(input) {
+    const { data, error } = await client
+      .from('messages')
+      .insert(input) // read_at は受け手が読んだときに RPC 側で入る
+      .select(MESSAGE_COLUMNS)
+      .single();
+
+    if (error) return fromSupabaseError(error);
+    return ok(data as MessageRow);
+  },
+
+  async markReadUpTo(requestId, readerId, messageId) {
+    const { data, error } = await client.rpc('mark_messages_read', {
+      p_request_id: requestId,
+      p_reader_id: readerId,
+      p_message_id: messageId,
+    });
+
+    if (error) return fromSupabaseError(error);
+    return ok((data as number | null) ?? 0);
+  },
+
+  async getReadCursor(requestId, userId) {
+    const { data, error } = await client
+      .from('message_reads')
+      .select(MESSAGE_READ_COLUMNS)
+      .eq('request_id', requestId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) return fromSupabaseError(error);
+    return ok(data as MessageReadRow | null);
+  },
+
+  async countUnreadForUser(userId) {
+    const { data, error } = await client.rpc('count_unread_messages', {
+      p_user_id: userId,
+    });
+
+    if (error) return fromSupabaseError(error);
+    return ok(
+      ((data || []) as UnreadCountRow[]).reduce((sum, row) => sum + Number(row.unread), 0)
+    );
+  },
+
+  async countUnreadByRequest(userId) {
+    const { data, error } = await client.rpc('count_unread_messages', {
+      p_user_id: userId,
+    });
+
+    if (error) return fromSupabaseError(error);
+
+    const counts: Record<string, number> = {};
+    ((data || []) as UnreadCountRow[]).forEach((row) => {
+      counts[row.request_id] = Number(row.unread);
+    });
+    return ok(counts);
+  },
+
+  subscribeToRequest(requestId, handlers) {
+    const filter = `request_id=eq.${requestId}`;
+
+    const channel = client
+      .channel(`messages:${requestId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'messages', filter },
+        (payload) => handlers.onInsert?.(payload.new as MessageRow)
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'messages', filter },
+        (payload) => handlers.onUpdate?.(payload.new as MessageRow)
+      )
+      .subscribe();
+
+    return () => {
+      void client.removeChannel(channel);
+    };
+  },
+});
@@ -0,0 +1,129 @@
+// lib/data/supabase/milestones.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ok, type DataResult } from '../errors';
+import type { MilestonesRepository } from '../repositories';
+import type { DeliverableRow, MilestoneRow } from '../types';
+import { fromSupabaseError } from './errors';
+
+const DELIVERABLE_COLUMNS =
+  'id, milestone_id, request_id, uploader_id, file_path, file_name, content_type, size_bytes, note, created_at';
+
+const MILESTONE_COLUMNS = `id, request_id, position, title, description, due_date, status, revision_note, submitted_at, approved_at, created_at, updated_at, deliverables(${DELIVERABLE_COLUMNS})`;
+
+// 成果物は古い順に並べる
+const toMilestoneRow = (row: MilestoneRow): MilestoneRow => ({
+  ...row,
+  deliverables: [...(row.deliverables || [])].sort((a, b) =>
+    a.created_at.localeCompare(b.created_at)
+  ),
+});
+
+export const createSupabaseMilestonesRepository = (
+  client: SupabaseClient
+): MilestonesRepository => {
+  const getById = async (id: string): Promise<DataResult<MilestoneRow>> => {
+    const { data, error } = await client
+      .from('milestones')
+      .select(MILESTONE_COLUMNS)
+      .eq('id', id)
+      .single();
+
+    if (error) return fromSupabaseError(error);
+    return ok(toMilestoneRow(data as MilestoneRow));
+  };
+
+  return {
+    async listForRequest(requestId) {
+      const { data, error } = await client
+        .from('milestones')
+        .select(MILESTONE_COLUMNS)
+        .eq('request_id', requestId)
+        .order('position', { ascending: true });
+
+      if (error) return fromSupabaseError(error);
+      return ok(((data || []) as MilestoneRow[]).map(toMilestoneRow));
+    },
+
+    async create(input) {
+      // 末尾に追加
+      const { data: last, error: lastError } = await client
+        .from('milestones')
+        .select('position')
+        .eq('request_id', input.request_id)
+        .order('position', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (lastError) return fromSupabaseError(lastError);
+
+      const { data, error } = await client
+        .from('milestones')
+        .insert({ ...input, position: ((last?.position as number | undefined) ?? 0) + 1 })
+        .select(MILESTONE_COLUMNS)
+        .single();
+
+      if (error) return fromSupabaseError(error);
+      return ok(toMilestoneRow(data as MilestoneRow));
+    },
+
+    async remove(id) {
+      const { error } = await client.from('milestones').delete().eq('id', id);
+
+      if (error) return fromSupabaseError(error);
+      return ok(null);
+    },
+
+    async addDeliverable(input) {
+      const { data, error } = await client
+        .from('deliverables')
+        .insert(input)
+        .select(DELIVERABLE_COLUMNS)
+        .single();
+
+      if (error) return fromSupabaseError(error);
+      return ok(data as DeliverableRow);
+    },
+
+    async removeDeliverable(id) {
+      const { error } = await client.from('deliverables').delete().eq('id', id);
+
+      if (error) return fromSupabaseError(error);
+      return ok(null);
+    },
+
+    async updateStatus(milestoneId, actorId, action, note) {
+      // 権限・状態のチェックと通知は RPC 側
+      const { error } = await client.rpc('update_milestone_status', {
+        p_milestone_id: milestoneId,
+        p_actor_id: actorId,
+        p_action: action,
+        p_note: note ?? null,
+      });
+
+      if (error) return fromSupabaseError(error);
+      return getById(milestoneId);
+    },
+
+    subscribeToRequest(requestId, onChange) {
+      const filter = `request_id=eq.${requestId}`;
+
+      const channel = client
+        .channel(`milestones:${requestId}`)
+        .on(
+          'postgres_changes',
+          { event: '*', schema: 'public', table: 'milestones', filter },
+          () => onChange()
+        )
+        .on(
+          'postgres_changes',
+          { event: '*', schema: 'public', table: 'deliverables', filter },
+          () => onChange()
+        )
+        .subscribe();
+
+      return () => {
+        void client.removeChannel(channel);
+      };
+    },
+  };
+};
@@ -0,0 +1,81 @@
+// lib/data/supabase/notifications.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ok } from '../errors';
+import type { NotificationsRepository } from '../repositories';
+import type { NotificationRow } from '../types';
+import { fromSupabaseError } from './errors';
+
+const NOTIFICATION_COLUMNS =
+  'id, user_id, kind, actor_id, request_id, work_id, message_id, title, body, read_at, created_at';
+
+export const createSupabaseNotificationsRepository = (
+  client: SupabaseClient
+): NotificationsRepository => ({
+  async listForUser(userId, limit = 20) {
+    const { data, error } = await client
+      .from('notifications')
+      .select(NOTIFICATION_COLUMNS)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) return fromSupabaseError(error);
+    return ok((data || []) as NotificationRow[]);
+  },
+
+  async countUnread(userId) {
+    const { count, error } = await client
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .is('read_at', null);
+
+    if (error) return fromSupabaseError(error);
+    return ok(count ?? 0);
+  },
+
+  async markRead(id) {
+    const { error } = await client
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('id', id)
+      .is('read_at', null);
+
+    if (error) return fromSupabaseError(error);
+    return ok(null);
+  },
+
+  async markAllRead(userId) {
+    const { error } = await client
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .is('read_at', null);
+
+    if (error) return fromSupabaseError(error);
+    return ok(null);
+  },
+
+  subscribe(userId, handlers) {
+    const filter = `user_id=eq.${userId}`;
+
+    // 同じユーザーで複数箇所から購読してもチャンネル名が衝突しないようにする
+    const channel = client
+      .channel(`notifications:${userId}:${globalThis.crypto.randomUUID()}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'notifications', filter },
+        (payload) => handlers.onInsert?.(payload.new as NotificationRow)
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'notifications', filter },
+        (payload) => handlers.onUpdate?.(payload.new as NotificationRow)
+      )
+      .subscribe();
+
+    return () => {
+      void client.removeChannel(channel);
+    };
+  },
+});
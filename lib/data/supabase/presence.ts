@@ -0,0 +1,59 @@
+// lib/data/supabase/presence.ts
+import type { RealtimeChannel, SupabaseClient } from '@supabase/supabase-js';
+import type { PresenceRepository } from '../repositories';
+
+// Realtime の Presence（オンライン状態）と Broadcast（入力中）を 1 チャンネルで扱う
+//   private チャンネルなので、入れるのは依頼の当事者だけ
+//   （supabase/migrations/20261020180000_thread_presence_channel.sql）
+export const createSupabasePresenceRepository = (
+  client: SupabaseClient
+): PresenceRepository => ({
+  joinThread(requestId, handlers) {
+    let channel: RealtimeChannel | null = null;
+    let left = false;
+
+    const join = async () => {
+      // Presence のキーは確かめたセッションのユーザー ID
+      const {
+        data: { user },
+      } = await client.auth.getUser();
+      if (!user || left) return;
+      await client.realtime.setAuth();
+      if (left) return;
+
+      const userId = user.id;
+      const joined = client.channel(`thread:${requestId}`, {
+        config: { private: true, presence: { key: userId } },
+      });
+      channel = joined;
+
+      joined
+        .on('presence', { event: 'sync' }, () => {
+          handlers.onPresenceChange?.(Object.keys(joined.presenceState()));
+        })
+        .on('broadcast', { event: 'typing' }, () => {
+          // payload の user_id は送り手が自由に書けるので使わない。
+          // 自分の送信は届かず、チャンネルにいるのは当事者 2 人だけなので、自分以外が入力中
+          for (const onlineUserId of Object.keys(joined.presenceState())) {
+            if (onlineUserId !== userId) handlers.onTyping?.(onlineUserId);
+          }
+        })
+        .subscribe((status) => {
+          if (status === 'SUBSCRIBED') {
+            void joined.track({ online_at: new Date().toISOString() });
+          }
+        });
+    };
+    void join();
+
+    return {
+      sendTyping() {
+        void channel?.send({ type: 'broadcast', event: 'typing', payload: {} });
+      },
+      leave() {
+        left = true;
+        if (channel) void client.removeChannel(channel);
+      },
+    };
+  },
+});
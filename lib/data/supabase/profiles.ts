@@ -0,0 +1,153 @@
+// lib/data/supabase/profiles.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  clampGalleryLimit,
+  creatorCursorOf,
+  decodeCursor,
+  type CreatorCursor,
+} from '../cursor';
+import { fail, ok, type DataResult } from '../errors';
+import { isProfileImagePath, profileImagePathOf, type ProfileImageKind } from '../profileImages';
+import type { ProfilesRepository } from '../repositories';
+import type {
+  CreatorSearchHit,
+  CreatorSummary,
+  ProfileInsert,
+  ProfileRow,
+  ProfileUpdate,
+} from '../types';
+import { fromSupabaseError } from './errors';
+
+const PROFILE_COLUMNS =
+  'id, display_name, roles, role, bio, genre, area, genre_slugs, area_codes, avatar_url, cover_url, links, skills, price_menu, turnaround_days, availability, pause_reason, resumes_on';
+
+const IMAGE_FIELDS: Record<ProfileImageKind, 'avatar_url' | 'cover_url'> = {
+  avatar: 'avatar_url',
+  cover: 'cover_url',
+};
+
+// profiles.avatar_url / cover_url はバケット内のパス。画面にはこのプロジェクトの公開 URL で返す
+export const profileImageUrlOf = (client: SupabaseClient, path: string | null) =>
+  path ? client.storage.from('profiles').getPublicUrl(path).data.publicUrl : null;
+
+const withImageUrls = <T extends { avatar_url: string | null; cover_url?: string | null }>(
+  client: SupabaseClient,
+  row: T
+): T => ({
+  ...row,
+  avatar_url: profileImageUrlOf(client, row.avatar_url),
+  ...(row.cover_url !== undefined && { cover_url: profileImageUrlOf(client, row.cover_url) }),
+});
+
+// 画面から渡された公開 URL を、本人のフォルダのパスに直して保存する
+const withImagePaths = <T extends ProfileInsert | ProfileUpdate>(
+  id: string,
+  values: T
+): DataResult<T> => {
+  const converted = { ...values };
+
+  for (const kind of ['avatar', 'cover'] as const) {
+    const field = IMAGE_FIELDS[kind];
+    const url = values[field];
+    if (!url) continue;
+
+    const path = profileImagePathOf(url);
+    if (!path || !isProfileImagePath(id, kind, path)) {
+      return fail('invalid', 'プロフィール画像はアップロードした画像だけを使えます');
+    }
+    converted[field] = path;
+  }
+
+  return ok(converted);
+};
+
+export const createSupabaseProfilesRepository = (
+  client: SupabaseClient
+): ProfilesRepository => ({
+  async getById(id) {
+    const { data, error } = await client
+      .from('profiles')
+      .select(PROFILE_COLUMNS)
+      .eq('id', id)
+      .single();
+
+    if (error) return fromSupabaseError(error);
+    return ok(withImageUrls(client, data as ProfileRow));
+  },
+
+  async listByIds(ids) {
+    if (ids.length === 0) return ok([]);
+
+    const { data, error } = await client
+      .from('profiles')
+      .select(PROFILE_COLUMNS)
+      .in('id', ids);
+
+    if (error) return fromSupabaseError(error);
+    return ok(((data || []) as ProfileRow[]).map((row) => withImageUrls(client, row)));
+  },
+
+  async create(input) {
+    const values = withImagePaths(input.id, input);
+    if (values.error) return values;
+
+    const { data, error } = await client
+      .from('profiles')
+      .insert(values.data)
+      .select(PROFILE_COLUMNS)
+      .single();
+
+    if (error) return fromSupabaseError(error);
+    return ok(withImageUrls(client, data as ProfileRow));
+  },
+
+  async update(id, patch) {
+    const values = withImagePaths(id, patch);
+    if (values.error) return values;
+
+    const { data, error } = await client
+      .from('profiles')
+      .update(values.data)
+      .eq('id', id)
+      .select(PROFILE_COLUMNS)
+      .single();
+
+    if (error) return fromSupabaseError(error);
+    return ok(withImageUrls(client, data as ProfileRow));
+  },
+
+  async searchCreators(q, limit) {
+    const { data, error } = await client.rpc('search_creators', {
+      p_q: q.trim(),
+      p_limit: limit ?? null,
+    });
+
+    if (error) return fromSupabaseError(error);
+    return ok(((data || []) as CreatorSearchHit[]).map((row) => withImageUrls(client, row)));
+  },
+
+  async listCreators(query) {
+    const sort = query.sort ?? 'works';
+    const limit = clampGalleryLimit(query.limit);
+    const cursor = decodeCursor<CreatorCursor>(query.cursor);
+
+    // 1 件多く取って「次があるか」を判定する
+    const { data, error } = await client.rpc('list_creators', {
+      p_q: query.q?.trim() || null,
+      p_genre: query.genre || null,
+      p_area: query.area || null,
+      p_sort: sort,
+      p_cursor_value: cursor?.value ?? null,
+      p_cursor_id: cursor?.id ?? null,
+      p_limit: limit + 1,
+    });
+
+    if (error) return fromSupabaseError(error);
+
+    const rows = ((data || []) as CreatorSummary[]).map((row) => withImageUrls(client, row));
+    const items = rows.slice(0, limit);
+    const nextCursor = rows.length > limit ? creatorCursorOf(items[items.length - 1], sort) : null;
+
+    return ok({ items, nextCursor });
+  },
+});
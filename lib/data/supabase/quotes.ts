@@ -0,0 +1,94 @@
+// lib/data/supabase/quotes.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ok, type DataResult } from '../errors';
+import type { QuotesRepository } from '../repositories';
+import type { QuoteItem, QuoteRow } from '../types';
+import { fromSupabaseError } from './errors';
+
+const QUOTE_COLUMNS =
+  'id, request_id, author_id, parent_id, status, currency, total_amount, delivery_date, valid_until, note, created_at, responded_at, items:quote_items(position, description, quantity, unit_price)';
+
+type QuoteRecord = Omit<QuoteRow, 'items'> & {
+  items: (QuoteItem & { position: number })[] | null;
+};
+
+// 明細は position 順に並べ、position 自体は画面に出さない
+const toQuoteRow = ({ items, ...quote }: QuoteRecord): QuoteRow => ({
+  ...quote,
+  items: [...(items || [])]
+    .sort((a, b) => a.position - b.position)
+    .map(({ description, quantity, unit_price }) => ({ description, quantity, unit_price })),
+});
+
+export const createSupabaseQuotesRepository = (client: SupabaseClient): QuotesRepository => {
+  const getById = async (id: string): Promise<DataResult<QuoteRow>> => {
+    const { data, error } = await client
+      .from('quotes')
+      .select(QUOTE_COLUMNS)
+      .eq('id', id)
+      .single();
+
+    if (error) return fromSupabaseError(error);
+    return ok(toQuoteRow(data as unknown as QuoteRecord));
+  };
+
+  return {
+    async listForRequest(requestId) {
+      const { data, error } = await client
+        .from('quotes')
+        .select(QUOTE_COLUMNS)
+        .eq('request_id', requestId)
+        .order('created_at', { ascending: true });
+
+      if (error) return fromSupabaseError(error);
+      return ok(((data || []) as unknown as QuoteRecord[]).map(toQuoteRow));
+    },
+
+    async create(input) {
+      // 合計の計算・カウンター元の更新・通知は RPC 側
+      const { data: id, error } = await client.rpc('create_quote', {
+        p_request_id: input.request_id,
+        p_author_id: input.author_id,
+        p_parent_id: input.parent_id ?? null,
+        p_items: input.items,
+        p_delivery_date: input.delivery_date,
+        p_valid_until: input.valid_until,
+        p_note: input.note ?? null,
+      });
+
+      if (error) return fromSupabaseError(error);
+      return getById(id as string);
+    },
+
+    async respond(quoteId, responderId, response) {
+      const { error } = await client.rpc('respond_to_quote', {
+        p_quote_id: quoteId,
+        p_responder_id: responderId,
+        p_action: response,
+      });
+
+      if (error) return fromSupabaseError(error);
+      return getById(quoteId);
+    },
+
+    subscribeToRequest(requestId, onChange) {
+      const channel = client
+        .channel(`quotes:${requestId}`)
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'quotes',
+            filter: `request_id=eq.${requestId}`,
+          },
+          () => onChange()
+        )
+        .subscribe();
+
+      return () => {
+        void client.removeChannel(channel);
+      };
+    },
+  };
+};
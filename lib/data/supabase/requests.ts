@@ -0,0 +1,81 @@
+// lib/data/supabase/requests.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ok } from '../errors';
+import type { RequestsRepository } from '../repositories';
+import type { RequestEventRow, RequestRow } from '../types';
+import { fromSupabaseError } from './errors';
+
+const REQUEST_COLUMNS =
+  'id, creator_id, client_id, work_id, work_deleted_at, title, message, status, preferred_date, budget, agreed_quote_id, agreed_total, agreed_delivery_date, agreed_at, created_at, updated_at';
+
+const REQUEST_EVENT_COLUMNS =
+  'id, request_id, actor_id, kind, from_status, to_status, created_at';
+
+export const createSupabaseRequestsRepository = (
+  client: SupabaseClient
+): RequestsRepository => ({
+  async getById(id) {
+    const { data, error } = await client
+      .from('requests')
+      .select(REQUEST_COLUMNS)
+      .eq('id', id)
+      .single();
+
+    if (error) return fromSupabaseError(error);
+    return ok(data as RequestRow);
+  },
+
+  async listForUser(userId, side) {
+    const { data, error } = await client
+      .from('requests')
+      .select(REQUEST_COLUMNS)
+      .eq(side === 'creator' ? 'creator_id' : 'client_id', userId)
+      .order('updated_at', { ascending: false });
+
+    if (error) return fromSupabaseError(error);
+    return ok((data || []) as RequestRow[]);
+  },
+
+  async listForParticipant(userId) {
+    const { data, error } = await client
+      .from('requests')
+      .select(REQUEST_COLUMNS)
+      .or(`creator_id.eq.${userId},client_id.eq.${userId}`)
+      .order('updated_at', { ascending: false });
+
+    if (error) return fromSupabaseError(error);
+    return ok((data || []) as RequestRow[]);
+  },
+
+  async create(input) {
+    const { data, error } = await client
+      .from('requests')
+      .insert(input)
+      .select(REQUEST_COLUMNS)
+      .single();
+
+    if (error) return fromSupabaseError(error);
+    return ok(data as RequestRow);
+  },
+
+  async updateStatus(id, status) {
+    // 遷移チェック・権限チェック・履歴の記録は RPC 側
+    const { data, error } = await client
+      .rpc('transition_request_status', { p_request_id: id, p_status: status })
+      .single();
+
+    if (error) return fromSupabaseError(error);
+    return ok(data as RequestRow);
+  },
+
+  async listEvents(requestId) {
+    const { data, error } = await client
+      .from('request_events')
+      .select(REQUEST_EVENT_COLUMNS)
+      .eq('request_id', requestId)
+      .order('created_at', { ascending: true });
+
+    if (error) return fromSupabaseError(error);
+    return ok((data || []) as RequestEventRow[]);
+  },
+});
@@ -0,0 +1,86 @@
+// lib/data/supabase/reviews.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ok, type DataResult } from '../errors';
+import type { ReviewsRepository } from '../repositories';
+import type { ReviewRow } from '../types';
+import { fromSupabaseError } from './errors';
+
+const REVIEW_COLUMNS =
+  'id, request_id, reviewer_id, reviewee_id, rating, body, reply, replied_at, created_at, updated_at';
+
+export const createSupabaseReviewsRepository = (client: SupabaseClient): ReviewsRepository => {
+  const getById = async (id: string): Promise<DataResult<ReviewRow>> => {
+    const { data, error } = await client
+      .from('reviews')
+      .select(REVIEW_COLUMNS)
+      .eq('id', id)
+      .single();
+
+    if (error) return fromSupabaseError(error);
+    return ok(data as ReviewRow);
+  };
+
+  return {
+    async listForRequest(requestId) {
+      const { data, error } = await client
+        .from('reviews')
+        .select(REVIEW_COLUMNS)
+        .eq('request_id', requestId)
+        .order('created_at', { ascending: true });
+
+      if (error) return fromSupabaseError(error);
+      return ok((data || []) as ReviewRow[]);
+    },
+
+    async listForReviewee(userId, limit = 20) {
+      const { data, error } = await client
+        .from('reviews')
+        .select(REVIEW_COLUMNS)
+        .eq('reviewee_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) return fromSupabaseError(error);
+      return ok((data || []) as ReviewRow[]);
+    },
+
+    async getSummary(userId) {
+      const { data, error } = await client
+        .from('rating_stats')
+        .select('rating_avg, rating_count')
+        .eq('reviewee_id', userId)
+        .maybeSingle();
+
+      if (error) return fromSupabaseError(error);
+      // レビューがなければ行がない
+      return ok({
+        average: data ? Number(data.rating_avg) : null,
+        count: data?.rating_count ?? 0,
+      });
+    },
+
+    async submit(input) {
+      // 作成か更新か・編集期限・通知は RPC 側
+      const { data: id, error } = await client.rpc('submit_review', {
+        p_request_id: input.request_id,
+        p_reviewer_id: input.reviewer_id,
+        p_rating: input.rating,
+        p_body: input.body,
+      });
+
+      if (error) return fromSupabaseError(error);
+      return getById(id as string);
+    },
+
+    async reply(reviewId, replierId, reply) {
+      const { error } = await client.rpc('reply_to_review', {
+        p_review_id: reviewId,
+        p_replier_id: replierId,
+        p_reply: reply,
+      });
+
+      if (error) return fromSupabaseError(error);
+      return getById(reviewId);
+    },
+  };
+};
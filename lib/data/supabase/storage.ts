@@ -0,0 +1,61 @@
+// lib/data/supabase/storage.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ok } from '../errors';
+import type { StorageRepository } from '../repositories';
+import { fromSupabaseError } from './errors';
+
+export const createSupabaseStorageRepository = (
+  client: SupabaseClient
+): StorageRepository => {
+  const getPublicUrl: StorageRepository['getPublicUrl'] = (bucket, path) =>
+    client.storage.from(bucket).getPublicUrl(path).data.publicUrl;
+
+  return {
+    async upload(bucket, path, file, options = {}) {
+      const { error } = await client.storage.from(bucket).upload(path, file, {
+        cacheControl: options.cacheControl ?? '3600',
+        upsert: options.upsert ?? false,
+        contentType: options.contentType,
+      });
+
+      if (error) return fromSupabaseError(error);
+      return ok({ path, publicUrl: getPublicUrl(bucket, path) });
+    },
+
+    getPublicUrl,
+
+    async createSignedUrl(bucket, path, expiresInSeconds) {
+      const { data, error } = await client.storage
+        .from(bucket)
+        .createSignedUrl(path, expiresInSeconds);
+
+      if (error) return fromSupabaseError(error);
+      return ok(data.signedUrl);
+    },
+
+    async createSignedUrls(bucket, paths, expiresInSeconds) {
+      if (paths.length === 0) return ok({});
+
+      const { data, error } = await client.storage
+        .from(bucket)
+        .createSignedUrls(paths, expiresInSeconds);
+
+      if (error) return fromSupabaseError(error);
+
+      const urls: Record<string, string> = {};
+      data.forEach((item) => {
+        if (item.path && item.signedUrl && !item.error) urls[item.path] = item.signedUrl;
+      });
+      return ok(urls);
+    },
+
+    async remove(bucket, paths) {
+      if (paths.length === 0) return ok(null);
+
+      const { error } = await client.storage.from(bucket).remove(paths);
+
+      if (error) return fromSupabaseError(error);
+      return ok(null);
+    },
+  };
+};
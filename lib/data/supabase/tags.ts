@@ -0,0 +1,54 @@
+// lib/data/supabase/tags.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ok } from '../errors';
+import type { TagsRepository } from '../repositories';
+import type { TagRow, TagWithCount } from '../types';
+import { fromSupabaseError } from './errors';
+
+const TAG_STATS_COLUMNS = 'id, slug, name, created_at, works_count';
+
+export const createSupabaseTagsRepository = (client: SupabaseClient): TagsRepository => ({
+  async list(options = {}) {
+    const { data, error } = await client.rpc('list_tags', {
+      p_q: options.q?.trim() || null,
+      p_limit: options.limit ?? 20,
+    });
+
+    if (error) return fromSupabaseError(error);
+    return ok((data || []) as TagWithCount[]);
+  },
+
+  async getBySlug(slug) {
+    const { data, error } = await client
+      .from('tag_stats')
+      .select(TAG_STATS_COLUMNS)
+      .eq('slug', slug)
+      .single();
+
+    if (error) return fromSupabaseError(error);
+    return ok(data as TagWithCount);
+  },
+
+  async listForWork(workId) {
+    const { data, error } = await client
+      .from('work_tags')
+      .select('position, tags (id, slug, name, created_at)')
+      .eq('work_id', workId)
+      .order('position', { ascending: true });
+
+    if (error) return fromSupabaseError(error);
+
+    const rows = (data || []) as unknown as { tags: TagRow | null }[];
+    return ok(rows.flatMap((row) => (row.tags ? [row.tags] : [])));
+  },
+
+  async setForWork(workId, names) {
+    const { data, error } = await client.rpc('set_work_tags', {
+      p_work_id: workId,
+      p_names: names,
+    });
+
+    if (error) return fromSupabaseError(error);
+    return ok((data || []) as TagRow[]);
+  },
+});
@@ -0,0 +1,205 @@
+// lib/data/supabase/works.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  clampGalleryLimit,
+  decodeCursor,
+  galleryCursorOf,
+  type GalleryCursor,
+} from '../cursor';
+import { ok } from '../errors';
+import type { WorksRepository } from '../repositories';
+import type { GalleryWork, ImageMeta, WorkImageRow, WorkRow } from '../types';
+import { isWorkStoragePath } from '../workImages';
+import { fromSupabaseError } from './errors';
+import { profileImageUrlOf } from './profiles';
+
+const WORK_COLUMNS =
+  'id, creator_id, title, description, image_url, image_meta, tags, is_public, accepting_requests, archived_at, deleted_at, created_at';
+
+const WORK_IMAGE_COLUMNS =
+  'id, work_id, storage_path, url, meta, position, is_cover, created_at';
+
+// DB は works バケット内のパスで持つので、公開 URL に直して返す（バケット外の古い画像の URL はそのまま）
+const workImageUrlOf = (client: SupabaseClient, value: string) =>
+  isWorkStoragePath(value) ? client.storage.from('works').getPublicUrl(value).data.publicUrl : value;
+
+const withMetaUrls = (client: SupabaseClient, meta: ImageMeta | null): ImageMeta | null =>
+  meta && {
+    ...meta,
+    variants: Object.fromEntries(
+      Object.entries(meta.variants).map(([size, variant]) => [
+        size,
+        {
+          ...variant,
+          avif: workImageUrlOf(client, variant.avif),
+          webp: workImageUrlOf(client, variant.webp),
+        },
+      ])
+    ) as ImageMeta['variants'],
+  };
+
+const withCoverUrls = <T extends Pick<WorkRow, 'image_url' | 'image_meta'>>(
+  client: SupabaseClient,
+  row: T
+): T => ({
+  ...row,
+  image_url: row.image_url && workImageUrlOf(client, row.image_url),
+  image_meta: withMetaUrls(client, row.image_meta),
+});
+
+const withImageUrls = (client: SupabaseClient, row: WorkImageRow): WorkImageRow => ({
+  ...row,
+  url: workImageUrlOf(client, row.url),
+  meta: withMetaUrls(client, row.meta),
+});
+
+export const createSupabaseWorksRepository = (client: SupabaseClient): WorksRepository => ({
+  async list(options = {}) {
+    let query = client.from('works').select(WORK_COLUMNS);
+
+    if (options.creatorId) query = query.eq('creator_id', options.creatorId);
+    if (options.publicOnly) {
+      query = query.eq('is_public', true).is('archived_at', null).is('deleted_at', null);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false });
+
+    if (error) return fromSupabaseError(error);
+    return ok(((data || []) as WorkRow[]).map((row) => withCoverUrls(client, row)));
+  },
+
+  async getById(id) {
+    const { data, error } = await client
+      .from('works')
+      .select(WORK_COLUMNS)
+      .eq('id', id)
+      .single();
+
+    if (error) return fromSupabaseError(error);
+    return ok(withCoverUrls(client, data as WorkRow));
+  },
+
+  async listByIds(ids) {
+    if (ids.length === 0) return ok([]);
+
+    const { data, error } = await client.from('works').select(WORK_COLUMNS).in('id', ids);
+
+    if (error) return fromSupabaseError(error);
+    return ok(((data || []) as WorkRow[]).map((row) => withCoverUrls(client, row)));
+  },
+
+  async create(input) {
+    const { data, error } = await client
+      .from('works')
+      .insert(input)
+      .select(WORK_COLUMNS)
+      .single();
+
+    if (error) return fromSupabaseError(error);
+    return ok(withCoverUrls(client, data as WorkRow));
+  },
+
+  async update(id, patch) {
+    const { data, error } = await client
+      .from('works')
+      .update(patch)
+      .eq('id', id)
+      .select(WORK_COLUMNS)
+      .single();
+
+    if (error) return fromSupabaseError(error);
+    return ok(withCoverUrls(client, data as WorkRow));
+  },
+
+  async listImages(workId) {
+    const { data, error } = await client
+      .from('work_images')
+      .select(WORK_IMAGE_COLUMNS)
+      .eq('work_id', workId)
+      .order('position', { ascending: true });
+
+    if (error) return fromSupabaseError(error);
+    return ok(((data || []) as WorkImageRow[]).map((row) => withImageUrls(client, row)));
+  },
+
+  async setImages(workId, images, coverIndex) {
+    // 置き換え・カバーの反映・オーナーチェックは RPC 側（1 トランザクション）
+    const { data, error } = await client.rpc('set_work_images', {
+      p_work_id: workId,
+      p_images: images,
+      p_cover_index: coverIndex,
+    });
+
+    if (error) return fromSupabaseError(error);
+    return ok(((data || []) as WorkImageRow[]).map((row) => withImageUrls(client, row)));
+  },
+
+  async setArchived(id, archived) {
+    const { data, error } = await client
+      .rpc('set_work_archived', { p_work_id: id, p_archived: archived })
+      .single();
+
+    if (error) return fromSupabaseError(error);
+    return ok(withCoverUrls(client, data as WorkRow));
+  },
+
+  async remove(id) {
+    const { data, error } = await client.rpc('delete_work', { p_work_id: id }).single();
+
+    if (error) return fromSupabaseError(error);
+    return ok(withCoverUrls(client, data as WorkRow));
+  },
+
+  async restore(id) {
+    const { data, error } = await client.rpc('restore_work', { p_work_id: id }).single();
+
+    if (error) return fromSupabaseError(error);
+    return ok(withCoverUrls(client, data as WorkRow));
+  },
+
+  async listGallery(query) {
+    const sort = query.sort ?? 'newest';
+    const limit = clampGalleryLimit(query.limit);
+    const cursor = decodeCursor<GalleryCursor>(query.cursor);
+
+    // 1 件多く取って「次があるか」を判定する
+    const { data, error } = await client.rpc('list_gallery_works', {
+      p_q: query.q?.trim() || null,
+      p_genre: query.genre || null,
+      p_area: query.area || null,
+      p_sort: sort,
+      p_cursor_likes: cursor?.likes_count ?? null,
+      p_cursor_created_at: cursor?.created_at ?? null,
+      p_cursor_id: cursor?.id ?? null,
+      p_limit: limit + 1,
+      p_tag: query.tag || null,
+      p_cursor_rank: cursor?.search_rank ?? null,
+    });
+
+    if (error) return fromSupabaseError(error);
+
+    const rows = ((data || []) as GalleryWork[]).map((row) => ({
+      ...withCoverUrls(client, row),
+      creator_avatar_url: profileImageUrlOf(client, row.creator_avatar_url),
+    }));
+    const items = rows.slice(0, limit);
+    const nextCursor =
+      rows.length > limit ? galleryCursorOf(items[items.length - 1], sort) : null;
+
+    return ok({ items, nextCursor });
+  },
+
+  async listGalleryFacets() {
+    const { data, error } = await client.rpc('list_gallery_facets');
+
+    if (error) return fromSupabaseError(error);
+
+    const rows = (data || []) as { kind: 'genre' | 'area'; value: string; works_count: number }[];
+    const pick = (kind: 'genre' | 'area') =>
+      rows
+        .filter((r) => r.kind === kind)
+        .map((r) => ({ value: r.value, works_count: r.works_count }));
+
+    return ok({ genres: pick('genre'), areas: pick('area') });
+  },
+});
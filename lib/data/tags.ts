@@ -0,0 +1,33 @@
+// lib/data/tags.ts
+// 作品タグの共通ルール（DB の tag_display_name / tag_slug / set_work_tags と同じ）
+
+export const WORK_MAX_TAGS = 10;
+export const TAG_MAX_LENGTH = 30;
+
+// 表記ゆれをそろえる（全角英数・全角スペース → 半角、先頭の # を除く、空白は 1 つに）
+export const normalizeTagName = (name: string) =>
+  name
+    .normalize('NFKC')
+    .replace(/^\s*#+/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// 同じタグかどうかの判定・URL（/tags/{slug}）に使う
+export const tagSlug = (name: string) => normalizeTagName(name).replace(/ /g, '-').toLowerCase();
+
+// works.tags（タグ名のカンマ区切りキャッシュ）→ タグ名の配列
+export const splitTagNames = (tags: string | null) =>
+  (tags || '')
+    .split(',')
+    .map(normalizeTagName)
+    .filter((name) => name.length > 0);
+
+// 入力欄のエラー（問題なければ null）
+export const validateTagName = (name: string, current: string[]) => {
+  const slug = tagSlug(name);
+  if (!slug) return 'タグを入力してください。';
+  if (slug.length > TAG_MAX_LENGTH) return `タグは ${TAG_MAX_LENGTH} 文字までです。`;
+  if (current.some((existing) => tagSlug(existing) === slug)) return '同じタグが追加されています。';
+  if (current.length >= WORK_MAX_TAGS) return `タグは ${WORK_MAX_TAGS} 個までです。`;
+  return null;
+};
@@ -0,0 +1,462 @@
+// lib/data/types.ts
+// DB テーブルに対応する行の型（画面ごとに再定義せず、ここを唯一の定義にする）
+
+export type Role = 'creator' | 'client';
+
+export type RequestStatus = 'pending' | 'accepted' | 'rejected' | 'closed';
+
+// プロフィールの外部リンク（ルールは lib/data/creatorProfile.ts）
+export type ProfileLinkKind = 'instagram' | 'x' | 'pixiv' | 'behance' | 'website';
+
+export type ProfileLink = {
+  kind: ProfileLinkKind;
+  url: string;
+};
+
+// 料金メニューの 1 行（円。max_price が null なら「〜」）
+export type PriceMenuItem = {
+  label: string;
+  min_price: number;
+  max_price: number | null;
+};
+
+// 依頼の受付状況（paused のあいだは新しい依頼を作れない。再開予定日が来たら受付中に戻る）
+export type Availability = 'open' | 'paused';
+
+export type ProfileRow = {
+  id: string;
+  display_name: string | null;
+  // できること（クリエイター・依頼者の両方を持てる。ルールは lib/data/roles.ts）
+  roles: Role[];
+  // 今どちらとして使っているか（roles のうち 1 つ）。画面の既定値にだけ使い、権限の判定には使わない
+  role: Role | null;
+  bio: string | null;
+  // genre_slugs / area_codes から DB が作る表示・検索用のキャッシュ（「ヘアメイク、撮影」など）
+  genre: string | null;
+  area: string | null;
+  // マスタ（lib/data/vocabularies.ts）の slug / code。選んだ順
+  genre_slugs: string[];
+  area_codes: string[];
+  // profiles バケットの公開 URL（lib/data/profileImages.ts）。なければ頭文字のアイコン・グラデーション
+  avatar_url: string | null;
+  cover_url: string | null;
+  // ここから下はクリエイター向けの項目（依頼者は空のまま）
+  links: ProfileLink[];
+  skills: string[];
+  price_menu: PriceMenuItem[];
+  // 納期の目安（日数）
+  turnaround_days: number | null;
+  availability: Availability;
+  // 停止中の理由と再開予定日（YYYY-MM-DD・日本時間）。受付中のときは null
+  pause_reason: string | null;
+  resumes_on: string | null;
+};
+
+export type ImageVariantSize = 'thumb' | 'medium' | 'large';
+
+// 1 サイズ分の派生画像（公開 URL）
+export type ImageVariant = {
+  width: number;
+  height: number;
+  avif: string;
+  webp: string;
+};
+
+// アップロード時に生成した派生画像一式（メタデータは除去済み）
+export type ImageMeta = {
+  // 向きを補正したあとの元画像のサイズ
+  width: number;
+  height: number;
+  // 読み込み中に敷くぼかし画像（data URL）
+  placeholder: string | null;
+  variants: Record<ImageVariantSize, ImageVariant>;
+};
+
+export type WorkRow = {
+  id: string;
+  creator_id: string;
+  title: string;
+  description: string | null;
+  // カバー画像（work_images の is_cover）の URL と派生画像
+  image_url: string | null;
+  image_meta: ImageMeta | null;
+  // タグ名のカンマ区切り（表示・キーワード検索用のキャッシュ。正は work_tags、書き込みは tags.setForWork）
+  tags: string | null;
+  is_public: boolean | null;
+  // false ならこの作品からは依頼できない（クリエイター全体の受付状況とは別）
+  accepting_requests: boolean;
+  // アーカイブ中（一覧・プロフィールに出さない。オーナーはいつでも戻せる）
+  archived_at: string | null;
+  // 削除済み（WORK_DELETE_UNDO_DAYS のあいだは元に戻せる。過ぎると行ごと消える）
+  deleted_at: string | null;
+  created_at: string;
+};
+
+// 作品の画像（position 順。is_cover のものが works.image_url＝一覧のサムネイルになる）
+export type WorkImageRow = {
+  id: string;
+  work_id: string;
+  // works バケット内のパス（派生画像を生成したものはそのフォルダ。バケット外の画像なら null）
+  storage_path: string | null;
+  url: string;
+  // 派生画像を生成する前にアップロードされた画像は null
+  meta: ImageMeta | null;
+  position: number;
+  is_cover: boolean;
+  created_at: string;
+};
+
+export type RequestRow = {
+  id: string;
+  creator_id: string;
+  client_id: string;
+  work_id: string | null;
+  // 対象作品が完全に削除された日時（work_id は null になる）
+  work_deleted_at: string | null;
+  title: string;
+  message: string;
+  status: RequestStatus;
+  preferred_date: string | null;
+  budget: string | null;
+  // 承諾された見積もりで確定した条件（見積もりを承諾するまでは null）
+  agreed_quote_id: string | null;
+  agreed_total: number | null;
+  agreed_delivery_date: string | null;
+  agreed_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type RequestEventKind = 'created' | 'status_changed' | 'quote_accepted';
+
+// 依頼の変更履歴（誰が・いつ・どのステータスにしたか）
+export type RequestEventRow = {
+  id: string;
+  request_id: string;
+  actor_id: string | null;
+  kind: RequestEventKind;
+  from_status: RequestStatus | null;
+  to_status: RequestStatus | null;
+  created_at: string;
+};
+
+export type QuoteStatus = 'pending' | 'accepted' | 'declined' | 'countered' | 'withdrawn';
+
+export type QuoteItem = {
+  description: string;
+  quantity: number;
+  // 税込・円
+  unit_price: number;
+};
+
+export type QuoteRow = {
+  id: string;
+  request_id: string;
+  author_id: string | null;
+  // カウンターの場合、元になった見積もり
+  parent_id: string | null;
+  status: QuoteStatus;
+  currency: 'JPY';
+  items: QuoteItem[];
+  total_amount: number;
+  // YYYY-MM-DD
+  delivery_date: string;
+  valid_until: string;
+  note: string | null;
+  created_at: string;
+  responded_at: string | null;
+};
+
+export type MilestoneStatus = 'open' | 'submitted' | 'revision_requested' | 'approved';
+
+export type DeliverableRow = {
+  id: string;
+  milestone_id: string;
+  request_id: string;
+  uploader_id: string | null;
+  // deliverables バケット内のパス
+  file_path: string;
+  file_name: string;
+  content_type: string | null;
+  size_bytes: number;
+  note: string | null;
+  created_at: string;
+};
+
+export type MilestoneRow = {
+  id: string;
+  request_id: string;
+  position: number;
+  title: string;
+  description: string | null;
+  // YYYY-MM-DD
+  due_date: string | null;
+  status: MilestoneStatus;
+  // 直近の修正依頼の内容
+  revision_note: string | null;
+  submitted_at: string | null;
+  approved_at: string | null;
+  created_at: string;
+  updated_at: string;
+  deliverables: DeliverableRow[];
+};
+
+// attachments バケットに置いたファイル（パスは {request_id}/ で始まる）
+export type MessageAttachment = {
+  path: string;
+  name: string;
+  content_type: string;
+  size_bytes: number;
+};
+
+export type MessageRow = {
+  id: string;
+  request_id: string;
+  sender_id: string;
+  body: string;
+  // 添付のみのメッセージは body が空文字
+  attachments: MessageAttachment[];
+  // 受け手（送信者ではない方の参加者）が読んだ日時。未読なら null
+  read_at: string | null;
+  created_at: string;
+};
+
+// 参加者ごとのスレッド既読カーソル
+export type MessageReadRow = {
+  request_id: string;
+  user_id: string;
+  last_read_message_id: string | null;
+  // 最後に読んだメッセージの created_at
+  last_read_at: string;
+  updated_at: string;
+};
+
+export type WorkLikeRow = {
+  work_id: string;
+  user_id: string;
+  created_at: string;
+};
+
+// クローズした依頼のレビュー（参加者が相手を評価する。1 依頼につき 1 人 1 件）
+export type ReviewRow = {
+  id: string;
+  request_id: string;
+  reviewer_id: string;
+  // 評価される側（依頼のもう一方の参加者）
+  reviewee_id: string;
+  // 1〜5
+  rating: number;
+  body: string;
+  // 評価されたクリエイターからの返信
+  reply: string | null;
+  replied_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+// 受けたレビューの集計（0 件なら average は null）
+export type RatingSummary = {
+  average: number | null;
+  count: number;
+};
+
+export type NotificationKind =
+  | 'message'
+  | 'request'
+  | 'status'
+  | 'like'
+  | 'quote'
+  | 'milestone'
+  | 'review';
+
+export type NotificationRow = {
+  id: string;
+  // 受け取る人
+  user_id: string;
+  kind: NotificationKind;
+  actor_id: string | null;
+  request_id: string | null;
+  work_id: string | null;
+  message_id: string | null;
+  // 通知時点の依頼タイトル / 作品タイトル
+  title: string | null;
+  // メッセージ本文の抜粋 / 変更後のステータス / 見積もり・マイルストーン・レビューの動き
+  body: string | null;
+  read_at: string | null;
+  created_at: string;
+};
+
+export type TagRow = {
+  id: string;
+  // 正規化した名前（同じタグの判定と /tags/{slug} に使う）
+  slug: string;
+  // 最初に使われたときの表記
+  name: string;
+  created_at: string;
+};
+
+// タグ（tag_stats ビュー）の 1 行。works_count は公開中の作品数
+export type TagWithCount = TagRow & {
+  works_count: number;
+};
+
+// 作品ギャラリー（work_gallery ビュー）の 1 行
+export type GalleryWork = WorkRow & {
+  creator_name: string | null;
+  creator_genre: string | null;
+  creator_area: string | null;
+  creator_bio: string | null;
+  creator_avatar_url: string | null;
+  // 作品とクリエイターの両方が受付中なら true（カードの「依頼受付中」表示）
+  requests_open: boolean;
+  // クリエイターが受けたレビューの平均（0 件なら null）と件数
+  creator_rating_avg: number | null;
+  creator_rating_count: number;
+  likes_count: number;
+  // キーワード検索の一致度（q がなければ 0）
+  search_rank: number;
+};
+
+// relevance（関連度順）は q があるときだけ
+export type GallerySort = 'newest' | 'popular' | 'relevance';
+
+export type GalleryQuery = {
+  q?: string | null;
+  // ジャンルの slug
+  genre?: string | null;
+  // エリアの code（都道府県なら市区も含む）
+  area?: string | null;
+  // タグの slug
+  tag?: string | null;
+  sort?: GallerySort;
+  cursor?: string | null;
+  limit?: number;
+};
+
+export type GalleryPage = {
+  items: GalleryWork[];
+  // 次のページがなければ null
+  nextCursor: string | null;
+};
+
+// クリエイター検索（search_creators）の 1 件。works_count は公開中の作品数
+export type CreatorSearchHit = Pick<
+  ProfileRow,
+  | 'id'
+  | 'display_name'
+  | 'role'
+  | 'bio'
+  | 'genre'
+  | 'area'
+  | 'genre_slugs'
+  | 'area_codes'
+  | 'avatar_url'
+> & {
+  works_count: number;
+  search_rank: number;
+};
+
+// 絞り込み候補の 1 つ（value はジャンルの slug / エリアの code）。works_count は公開作品数
+export type GalleryFacetCount = {
+  value: string;
+  works_count: number;
+};
+
+// クリエイター一覧（/creators）の並び順。relevance（関連度順）は q があるときだけ
+export type CreatorSort = 'works' | 'likes' | 'acceptance' | 'relevance';
+
+export type CreatorDirectoryQuery = {
+  q?: string | null;
+  // ジャンルの slug
+  genre?: string | null;
+  // エリアの code（都道府県なら市区も含む）
+  area?: string | null;
+  sort?: CreatorSort;
+  cursor?: string | null;
+  limit?: number;
+};
+
+// クリエイター一覧（list_creators）の 1 件
+export type CreatorSummary = Pick<
+  ProfileRow,
+  'id' | 'display_name' | 'bio' | 'genre' | 'area' | 'genre_slugs' | 'area_codes' | 'avatar_url'
+> & {
+  // 公開中の作品数・そのいいね合計
+  works_count: number;
+  likes_total: number;
+  // 返答済み（承諾・完了・お断り）の依頼数と、そのうち承諾した割合（0〜1。返答済みがなければ null）
+  requests_decided: number;
+  acceptance_rate: number | null;
+  // キーワード検索の一致度（q がなければ 0）
+  search_rank: number;
+};
+
+export type CreatorPage = {
+  items: CreatorSummary[];
+  // 次のページがなければ null
+  nextCursor: string | null;
+};
+
+export type GalleryFacets = {
+  genres: GalleryFacetCount[];
+  areas: GalleryFacetCount[];
+};
+
+// 認証ユーザー（auth.users のうち画面で使う項目だけ）
+export type AuthUser = {
+  id: string;
+  email: string | null;
+};
+
+// 登録時に user_metadata に預けるプロフィール（メールアドレスの確認が済んだら profiles に作る）
+export type SignUpProfile = Pick<ProfileRow, 'display_name' | 'role' | 'roles'>;
+
+export type SignUpResult = {
+  user: AuthUser;
+  // 確認メールのリンクを開くまでログインできない（プロフィールもまだない）
+  needsConfirmation: boolean;
+};
+
+// メールのリンク（/auth/callback）の種類
+export type AuthLinkType = 'signup' | 'magiclink' | 'recovery';
+
+// insert / update 用の入力型
+export type ProfileInsert = Pick<ProfileRow, 'id' | 'display_name' | 'role'> &
+  Partial<Omit<ProfileRow, 'id' | 'display_name' | 'role' | 'genre' | 'area'>>;
+
+export type ProfileUpdate = Partial<Omit<ProfileRow, 'id' | 'genre' | 'area'>>;
+
+// works に直接書ける列だけ（画像・アーカイブ・削除・タグは RPC 経由）
+export type WorkInsert = Pick<WorkRow, 'creator_id' | 'title'> &
+  Partial<Pick<WorkRow, 'description' | 'is_public' | 'accepting_requests'>>;
+
+export type WorkUpdate = Partial<
+  Pick<WorkRow, 'title' | 'description' | 'is_public' | 'accepting_requests'>
+>;
+
+export type WorkImageInput = Pick<WorkImageRow, 'storage_path' | 'url' | 'meta'>;
+
+export type RequestInsert = Pick<
+  RequestRow,
+  'creator_id' | 'client_id' | 'title' | 'message'
+> &
+  Partial<Pick<RequestRow, 'work_id' | 'status' | 'preferred_date' | 'budget'>>;
+
+export type MessageInsert = Pick<MessageRow, 'request_id' | 'sender_id' | 'body'> &
+  Partial<Pick<MessageRow, 'attachments'>>;
+
+export type MilestoneInsert = Pick<MilestoneRow, 'request_id' | 'title'> &
+  Partial<Pick<MilestoneRow, 'description' | 'due_date'>>;
+
+export type DeliverableInsert = Pick<
+  DeliverableRow,
+  'milestone_id' | 'request_id' | 'file_path' | 'file_name' | 'content_type' | 'size_bytes'
+> &
+  Partial<Pick<DeliverableRow, 'note'>> & { uploader_id: string };
+
+// 評価される側は依頼から決まる（もう一方の参加者）
+export type ReviewInput = Pick<ReviewRow, 'request_id' | 'reviewer_id' | 'rating' | 'body'>;
+
+// 合計金額はサーバー側で明細から計算する
+export type QuoteInsert = Pick<QuoteRow, 'request_id' | 'items' | 'delivery_date' | 'valid_until'> &
+  Partial<Pick<QuoteRow, 'parent_id' | 'note'>> & { author_id: string };
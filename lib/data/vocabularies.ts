@@ -0,0 +1,109 @@
+// lib/data/vocabularies.ts
+// ジャンル・活動エリアのマスタ（DB の genres / areas と同じ内容）と、プロフィールでの使い方のルール
+
+export type Genre = {
+  slug: string;
+  name: string;
+};
+
+// 都道府県（parent_code が null）→ 市区
+export type Area = {
+  code: string;
+  name: string;
+  parent_code: string | null;
+};
+
+export const PROFILE_MAX_GENRES = 5;
+export const PROFILE_MAX_AREAS = 5;
+
+export const GENRES: Genre[] = [
+  { slug: 'hair-makeup', name: 'ヘアメイク' },
+  { slug: 'nail', name: 'ネイル' },
+  { slug: 'styling', name: 'スタイリング' },
+  { slug: 'photo', name: '撮影' },
+  { slug: 'video', name: '映像' },
+  { slug: 'illustration', name: 'イラスト' },
+  { slug: 'design', name: 'デザイン' },
+  { slug: 'music', name: '音楽' },
+  { slug: 'writing', name: 'ライティング' },
+  { slug: 'handmade', name: 'ハンドメイド' },
+  { slug: 'other', name: 'その他' },
+];
+
+// 都道府県コード順（code は 2 桁）
+const PREFECTURE_NAMES = [
+  '北海道', '青森県', '岩手県', '宮城県', '秋田県', '山形県', '福島県', '茨城県', '栃木県', '群馬県', '埼玉県', '千葉県', '東京都', '神奈川県',
+  '新潟県', '富山県', '石川県', '福井県', '山梨県', '長野県', '岐阜県', '静岡県', '愛知県', '三重県', '滋賀県', '京都府', '大阪府', '兵庫県',
+  '奈良県', '和歌山県', '鳥取県', '島根県', '岡山県', '広島県', '山口県', '徳島県', '香川県', '愛媛県', '高知県', '福岡県', '佐賀県', '長崎県',
+  '熊本県', '大分県', '宮崎県', '鹿児島県', '沖縄県',
+];
+
+// 政令指定都市と東京 23 区（code は全国地方公共団体コードの上 5 桁）
+const CITY_ROWS: [code: string, name: string][] = [
+  ['01100', '札幌市'], ['04100', '仙台市'], ['11100', 'さいたま市'], ['12100', '千葉市'], ['13101', '千代田区'],
+  ['13102', '中央区'], ['13103', '港区'], ['13104', '新宿区'], ['13105', '文京区'], ['13106', '台東区'],
+  ['13107', '墨田区'], ['13108', '江東区'], ['13109', '品川区'], ['13110', '目黒区'], ['13111', '大田区'],
+  ['13112', '世田谷区'], ['13113', '渋谷区'], ['13114', '中野区'], ['13115', '杉並区'], ['13116', '豊島区'],
+  ['13117', '北区'], ['13118', '荒川区'], ['13119', '板橋区'], ['13120', '練馬区'], ['13121', '足立区'],
+  ['13122', '葛飾区'], ['13123', '江戸川区'], ['14100', '横浜市'], ['14130', '川崎市'], ['14150', '相模原市'],
+  ['15100', '新潟市'], ['22100', '静岡市'], ['22130', '浜松市'], ['23100', '名古屋市'], ['26100', '京都市'],
+  ['27100', '大阪市'], ['27140', '堺市'], ['28100', '神戸市'], ['33100', '岡山市'], ['34100', '広島市'],
+  ['40100', '北九州市'], ['40130', '福岡市'], ['43100', '熊本市'],
+];
+
+// 場所を問わない（リモート・郵送など）
+export const ONLINE_AREA_CODE = 'online';
+
+export const AREAS: Area[] = [
+  ...PREFECTURE_NAMES.map((name, index) => ({
+    code: String(index + 1).padStart(2, '0'),
+    name,
+    parent_code: null,
+  })),
+  { code: ONLINE_AREA_CODE, name: 'オンライン', parent_code: null },
+  ...CITY_ROWS.map(([code, name]) => ({ code, name, parent_code: code.slice(0, 2) })),
+];
+
+export const TOP_LEVEL_AREAS = AREAS.filter((area) => area.parent_code === null);
+
+export const findGenre = (slug: string) => GENRES.find((genre) => genre.slug === slug) ?? null;
+
+export const findArea = (code: string) => AREAS.find((area) => area.code === code) ?? null;
+
+export const citiesOf = (code: string) => AREAS.filter((area) => area.parent_code === code);
+
+// 表示名（市区は「東京都渋谷区」のように都道府県を付ける）
+export const areaLabel = (code: string) => {
+  const area = findArea(code);
+  if (!area) return code;
+  const parent = area.parent_code ? findArea(area.parent_code) : null;
+  return parent ? `${parent.name}${area.name}` : area.name;
+};
+
+// profiles.genre / profiles.area（表示・検索用のキャッシュ）と同じ形
+export const genreCacheOf = (slugs: string[]) =>
+  slugs.map((slug) => findGenre(slug)?.name ?? slug).join('、') || null;
+
+export const areaCacheOf = (codes: string[]) => codes.map(areaLabel).join('、') || null;
+
+// 絞り込みの判定。都道府県を選んだらその市区も含める。
+// 市区を選んだら、都道府県ごと（全域）を活動エリアにしている人も含める
+export const matchesArea = (codes: string[], filter: string) => {
+  const filterParent = findArea(filter)?.parent_code ?? null;
+  return codes.some(
+    (code) => code === filter || findArea(code)?.parent_code === filter || code === filterParent
+  );
+};
+
+// 保存前のチェック（問題なければ null）
+export const validateVocabularies = (genreSlugs: string[], areaCodes: string[]) => {
+  if (genreSlugs.length > PROFILE_MAX_GENRES) {
+    return `ジャンルは ${PROFILE_MAX_GENRES} 個まで選べます。`;
+  }
+  if (areaCodes.length > PROFILE_MAX_AREAS) {
+    return `活動エリアは ${PROFILE_MAX_AREAS} 個まで選べます。`;
+  }
+  if (genreSlugs.some((slug) => !findGenre(slug))) return '選べないジャンルが含まれています。';
+  if (areaCodes.some((code) => !findArea(code))) return '選べない活動エリアが含まれています。';
+  return null;
+};
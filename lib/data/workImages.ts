@@ -0,0 +1,93 @@
+// lib/data/workImages.ts
+// 作品画像の共通ルール（DB の set_work_images・/api/works/images と同じ）
+import type { ImageMeta, ImageVariantSize, WorkImageRow } from './types';
+
+export const WORK_MAX_IMAGES = 10;
+export const WORK_IMAGE_MAX_BYTES = 10 * 1024 * 1024;
+
+// 長辺ではなく横幅の上限（元画像より大きくはしない）
+export const IMAGE_VARIANT_WIDTHS: Record<ImageVariantSize, number> = {
+  thumb: 320,
+  medium: 960,
+  large: 1920,
+};
+
+export const IMAGE_VARIANT_FORMATS = ['avif', 'webp'] as const;
+
+// 1 枚ごとのフォルダ：images/{user_id}/{uuid}/{size}.{format}
+export const workImageDir = (userId: string) =>
+  `images/${userId}/${globalThis.crypto.randomUUID()}`;
+
+// set_work_images が新しい画像として受け付けるフォルダ（本人の images/{user_id}/{uuid}）
+export const isWorkImageDirOf = (userId: string, path: string) =>
+  new RegExp(`^images/${userId}/[0-9a-f-]{36}$`).test(path);
+
+// ユーザーのフォルダ（images/{user_id}/ 以下）のファイルか。消すのはこれだけにする
+export const isWorkImagePathOf = (userId: string, path: string) =>
+  path.startsWith(`images/${userId}/`) && !path.split('/').includes('..');
+
+// DB の値がバケット内のパスか（バケット外の URL のまま残っている古い画像は false）
+export const isWorkStoragePath = (value: string) => !/^[a-z][a-z0-9+.-]*:/i.test(value);
+
+export const workImageVariantPath = (
+  dir: string,
+  size: ImageVariantSize,
+  format: (typeof IMAGE_VARIANT_FORMATS)[number]
+) => `${dir}/${size}.${format}`;
+
+// ぼかし画像は /api/works/images が作る小さな data URL だけ
+export const IMAGE_PLACEHOLDER_MAX_LENGTH = 2048;
+
+const isImageDimension = (value: unknown) =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= 100000;
+
+// meta の幅・高さ・ぼかし画像が正しいか（DB の is_valid_work_image_meta と同じ）
+export const isValidImageMeta = (meta: ImageMeta | null) =>
+  !!meta &&
+  isImageDimension(meta.width) &&
+  isImageDimension(meta.height) &&
+  (meta.placeholder === null ||
+    meta.placeholder === undefined ||
+    (meta.placeholder.length <= IMAGE_PLACEHOLDER_MAX_LENGTH &&
+      /^data:image\/(webp|jpeg|png);base64,[A-Za-z0-9+/]+=*$/.test(meta.placeholder))) &&
+  (Object.keys(IMAGE_VARIANT_WIDTHS) as ImageVariantSize[]).every(
+    (size) =>
+      isImageDimension(meta.variants?.[size]?.width) &&
+      isImageDimension(meta.variants?.[size]?.height)
+  );
+
+// <source srcSet> 用（"url 320w, url 960w, ..."）。欠けているサイズは飛ばす
+export const imageSrcSet = (meta: ImageMeta, format: (typeof IMAGE_VARIANT_FORMATS)[number]) =>
+  (Object.keys(IMAGE_VARIANT_WIDTHS) as ImageVariantSize[])
+    .map((size) => meta.variants?.[size])
+    .filter((variant) => variant?.[format] && variant.width)
+    .map((variant) => `${variant[format]} ${variant.width}w`)
+    .join(', ');
+
+// 派生画像がなければ元の URL
+export const imageUrlOf = (
+  image: { url: string | null; meta: ImageMeta | null },
+  size: ImageVariantSize
+) => image.meta?.variants?.[size]?.webp ?? image.url;
+
+// カバーがなければ先頭の画像
+export const coverImageOf = <T extends Pick<WorkImageRow, 'is_cover'>>(images: T[]) =>
+  images.find((image) => image.is_cover) ?? images[0] ?? null;
+
+// 画像 1 枚ぶんの works バケット内のファイル（差し替え・削除のときに消す）
+//   派生画像があればフォルダ内の全サイズ、古い画像は storage_path そのもの、外部 URL は何もない
+export const workImageFilePaths = (image: Pick<WorkImageRow, 'storage_path' | 'meta'>) => {
+  if (!image.storage_path) return [];
+  if (!image.meta) return [image.storage_path];
+
+  const dir = image.storage_path;
+  return (Object.keys(IMAGE_VARIANT_WIDTHS) as ImageVariantSize[]).flatMap((size) =>
+    IMAGE_VARIANT_FORMATS.map((format) => workImageVariantPath(dir, size, format))
+  );
+};
+
+// 公開 URL（…/storage/v1/object/public/works/{path}）からバケット内のパスを取り出す
+export const workStoragePathOf = (url: string | null) => {
+  const match = url?.match(/\/storage\/v1\/object\/public\/works\/([^?#]+)/);
+  return match ? decodeURIComponent(match[1]) : null;
+};
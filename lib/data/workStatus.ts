@@ -0,0 +1,22 @@
+// lib/data/workStatus.ts
+// 作品のアーカイブ・削除の共通ルール（DB の restore_work / purge_deleted_works と同じ）
+import type { WorkRow } from './types';
+
+// 削除してから元に戻せる日数
+export const WORK_DELETE_UNDO_DAYS = 7;
+
+type WorkState = Pick<WorkRow, 'archived_at' | 'deleted_at'>;
+
+// いいね・依頼を受け付けられる状態か（アーカイブ・削除済みは不可）
+export const isWorkAvailable = (work: WorkState) => !work.archived_at && !work.deleted_at;
+
+// 元に戻せる期限（削除されていなければ null）
+export const workRestoreDeadline = (work: WorkState) =>
+  work.deleted_at
+    ? new Date(new Date(work.deleted_at).getTime() + WORK_DELETE_UNDO_DAYS * 24 * 60 * 60 * 1000)
+    : null;
+
+export const canRestoreWork = (work: WorkState, now = new Date()) => {
+  const deadline = workRestoreDeadline(work);
+  return deadline !== null && deadline.getTime() > now.getTime();
+};
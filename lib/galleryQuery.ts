@@ -0,0 +1,56 @@
+// lib/galleryQuery.ts
+// 作品ギャラリーの URL クエリ（?q=&genre=&area=&sort=&cursor=）の読み書き
+//   sort は既定（q があれば relevance、なければ newest）なら付けない
+//   タグで絞り込んだギャラリーは /tags/{slug}（同じクエリが使える）
+import type { GalleryQuery, GallerySort } from '@/lib/data';
+
+export type SearchParams = Record<string, string | string[] | undefined>;
+
+const first = (value: string | string[] | undefined) =>
+  (Array.isArray(value) ? value[0] : value)?.trim() || null;
+
+// 並び順の既定（キーワードがあれば関連度順）
+const defaultSort = (q: string | null | undefined): GallerySort => (q ? 'relevance' : 'newest');
+
+const parseSort = (value: string | null, q: string | null): GallerySort =>
+  value === 'popular' || value === 'newest' ? value : defaultSort(q);
+
+// tag はパス（/tags/[slug]）から渡す
+export const parseGalleryQuery = (
+  params: SearchParams,
+  tag: string | null = null
+): GalleryQuery => {
+  const q = first(params.q);
+  return {
+    q,
+    genre: first(params.genre),
+    area: first(params.area),
+    sort: parseSort(first(params.sort), q),
+    cursor: first(params.cursor),
+    tag,
+  };
+};
+
+export const tagHref = (slug: string) => `/tags/${encodeURIComponent(slug)}`;
+
+export const galleryHref = (
+  query: GalleryQuery,
+  overrides: Partial<Record<'q' | 'genre' | 'area' | 'cursor' | 'tag', string | null>> & {
+    sort?: GallerySort;
+  } = {}
+) => {
+  const merged = { ...query, ...overrides };
+  const params = new URLSearchParams();
+
+  if (merged.q) params.set('q', merged.q);
+  if (merged.genre) params.set('genre', merged.genre);
+  if (merged.area) params.set('area', merged.area);
+  // 関連度順はキーワードがあるときだけ
+  const sort = merged.sort === 'relevance' && !merged.q ? 'newest' : merged.sort;
+  if (sort && sort !== defaultSort(merged.q)) params.set('sort', sort);
+  if (merged.cursor) params.set('cursor', merged.cursor);
+
+  const path = merged.tag ? tagHref(merged.tag) : '/works';
+  const qs = params.toString();
+  return qs ? `${path}?${qs}` : path;
+};
@@ -0,0 +1,81 @@
+// lib/imagePipeline.ts
+// 作品画像の変換（サーバー専用）
+//   EXIF の向きを反映してからメタデータ（位置情報・撮影機材など）をすべて落とし、
+//   サイズごとに AVIF / WebP を作る。ぼかし用の小さな画像も data URL で返す
+import sharp from 'sharp';
+import type { ImageVariantSize } from '@/lib/data/types';
+import { IMAGE_VARIANT_FORMATS, IMAGE_VARIANT_WIDTHS } from '@/lib/data/workImages';
+
+type VariantFormat = (typeof IMAGE_VARIANT_FORMATS)[number];
+
+export type ProcessedVariantFile = {
+  size: ImageVariantSize;
+  format: VariantFormat;
+  width: number;
+  height: number;
+  contentType: string;
+  buffer: Buffer;
+};
+
+export type ProcessedImage = {
+  width: number;
+  height: number;
+  placeholder: string;
+  files: ProcessedVariantFile[];
+};
+
+const CONTENT_TYPES: Record<VariantFormat, string> = {
+  avif: 'image/avif',
+  webp: 'image/webp',
+};
+
+// 見た目と容量のバランス（AVIF は同じ画質でも数値が低め）
+const QUALITY: Record<VariantFormat, number> = {
+  avif: 50,
+  webp: 78,
+};
+
+const PLACEHOLDER_WIDTH = 16;
+
+// 画像として読めなければ例外（呼び出し側で invalid として扱う）
+export const processImage = async (input: Buffer): Promise<ProcessedImage> => {
+  // autoOrient()：EXIF の向きを画素に反映する。
+  // sharp は keepMetadata() / withMetadata() しない限りメタデータを書き出さないので、出力には残らない
+  const source = () => sharp(input, { failOn: 'error' }).autoOrient();
+
+  const metadata = await sharp(input, { failOn: 'error' }).metadata();
+  const { width, height } = metadata.autoOrient;
+
+  // 大きな写真でもメモリを食いすぎないよう 1 枚ずつ作る
+  const files: ProcessedVariantFile[] = [];
+  for (const size of Object.keys(IMAGE_VARIANT_WIDTHS) as ImageVariantSize[]) {
+    for (const format of IMAGE_VARIANT_FORMATS) {
+      const { data, info } = await source()
+        .resize({ width: IMAGE_VARIANT_WIDTHS[size], withoutEnlargement: true })
+        .toFormat(format, { quality: QUALITY[format] })
+        .toBuffer({ resolveWithObject: true });
+
+      files.push({
+        size,
+        format,
+        width: info.width,
+        height: info.height,
+        contentType: CONTENT_TYPES[format],
+        buffer: data,
+      });
+    }
+  }
+
+  const placeholderBuffer = await source()
+    .resize({ width: PLACEHOLDER_WIDTH })
+    .blur()
+    .webp({ quality: 40 })
+    .toBuffer();
+
+  return {
+    width,
+    height,
+    placeholder: `data:image/webp;base64,${placeholderBuffer.toString('base64')}`,
+    files,
+  };
+};
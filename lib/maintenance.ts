@@ -0,0 +1,24 @@
+// lib/maintenance.ts
+// /api/maintenance/* の共通処理（サーバー専用）
+import { createClient } from '@supabase/supabase-js';
+import type { DataErrorCode } from '@/lib/data/errors';
+
+export const errorResponse = (status: number, code: DataErrorCode, message: string) =>
+  Response.json({ error: { code, message } }, { status });
+
+// Authorization: Bearer ${CRON_SECRET} が付いているか（未設定なら常に拒否）
+export const isMaintenanceRequest = (request: Request) => {
+  const secret = process.env.CRON_SECRET;
+  const token = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '');
+  return !!secret && token === secret;
+};
+
+// 全ユーザーのデータを扱うので RLS を通さない service role で接続する（キーがなければ null）
+export const createServiceClient = () => {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceRoleKey) return null;
+
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+};
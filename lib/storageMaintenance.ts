@@ -0,0 +1,172 @@
+// lib/storageMaintenance.ts
+// works バケットの棚卸し（サーバー専用・service role で呼ぶ）
+//   work_images.storage_path / works.image_url から参照されていないファイルを孤児とみなして消す
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ImageMeta } from '@/lib/data/types';
+import {
+  isWorkImagePathOf,
+  isWorkStoragePath,
+  workImageFilePaths,
+  workStoragePathOf,
+} from '@/lib/data/workImages';
+import { WORK_DELETE_UNDO_DAYS } from '@/lib/data/workStatus';
+
+const BUCKET = 'works';
+const PAGE_SIZE = 1000;
+const REMOVE_CHUNK = 100;
+
+// アップロード直後で、まだ set_work_images されていないファイルは残す
+export const ORPHAN_GRACE_HOURS = 24;
+
+type StoredFile = {
+  path: string;
+  createdAt: string | null;
+};
+
+export type OrphanReport = {
+  scanned: number;
+  orphans: string[];
+  removed: number;
+};
+
+// フォルダをたどって全ファイルを集める（list() は 1 階層ずつしか返さない）
+const listAllFiles = async (client: SupabaseClient, prefix = ''): Promise<StoredFile[]> => {
+  const files: StoredFile[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await client.storage.from(BUCKET).list(prefix, {
+      limit: PAGE_SIZE,
+      offset,
+      sortBy: { column: 'name', order: 'asc' },
+    });
+    if (error) throw new Error(`list ${prefix || '/'}: ${error.message}`);
+
+    for (const entry of data) {
+      const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+      // id がないのはフォルダ
+      if (entry.id === null) {
+        files.push(...(await listAllFiles(client, path)));
+      } else {
+        files.push({ path, createdAt: entry.created_at ?? null });
+      }
+    }
+
+    if (data.length < PAGE_SIZE) break;
+  }
+
+  return files;
+};
+
+const selectAll = async <T>(client: SupabaseClient, table: string, columns: string) => {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await client
+      .from(table)
+      .select(columns)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`select ${table}: ${error.message}`);
+
+    rows.push(...(data as T[]));
+    if (data.length < PAGE_SIZE) break;
+  }
+
+  return rows;
+};
+
+// DB の url / image_url が指すファイル（パスならそのまま、古い公開 URL ならパスを取り出す）
+const referencedPathOf = (value: string | null) =>
+  value && isWorkStoragePath(value) ? value : workStoragePathOf(value);
+
+// 参照されているパス（派生画像はフォルダごと）
+const listReferencedPaths = async (client: SupabaseClient) => {
+  const images = await selectAll<{ storage_path: string | null; url: string }>(
+    client,
+    'work_images',
+    'id, storage_path, url'
+  );
+  const works = await selectAll<{ image_url: string | null }>(client, 'works', 'id, image_url');
+
+  const paths = new Set<string>();
+  images.forEach((image) => {
+    if (image.storage_path) paths.add(image.storage_path);
+    const fromUrl = referencedPathOf(image.url);
+    if (fromUrl) paths.add(fromUrl);
+  });
+  works.forEach((work) => {
+    const fromUrl = referencedPathOf(work.image_url);
+    if (fromUrl) paths.add(fromUrl);
+  });
+
+  return paths;
+};
+
+const isReferenced = (path: string, referenced: Set<string>) => {
+  if (referenced.has(path)) return true;
+
+  // images/{uid}/{uuid}/large.webp → images/{uid}/{uuid} が参照されていれば使用中
+  const segments = path.split('/');
+  for (let i = segments.length - 1; i > 0; i--) {
+    if (referenced.has(segments.slice(0, i).join('/'))) return true;
+  }
+  return false;
+};
+
+const removeFiles = async (client: SupabaseClient, paths: string[]) => {
+  for (let i = 0; i < paths.length; i += REMOVE_CHUNK) {
+    const { error } = await client.storage.from(BUCKET).remove(paths.slice(i, i + REMOVE_CHUNK));
+    if (error) throw new Error(`remove: ${error.message}`);
+  }
+};
+
+// dryRun なら消さずに一覧だけ返す
+export const purgeOrphanedWorkFiles = async (
+  client: SupabaseClient,
+  options: { dryRun?: boolean; now?: Date } = {}
+): Promise<OrphanReport> => {
+  const now = options.now ?? new Date();
+  const threshold = now.getTime() - ORPHAN_GRACE_HOURS * 60 * 60 * 1000;
+
+  const referenced = await listReferencedPaths(client);
+  const files = await listAllFiles(client);
+
+  const orphans = files
+    .filter((file) => !isReferenced(file.path, referenced))
+    .filter((file) => file.createdAt !== null && new Date(file.createdAt).getTime() < threshold)
+    .map((file) => file.path);
+
+  if (!options.dryRun) await removeFiles(client, orphans);
+
+  return { scanned: files.length, orphans, removed: options.dryRun ? 0 : orphans.length };
+};
+
+export type PurgedWorksReport = {
+  works: string[];
+  removed: number;
+};
+
+// 元に戻せる期間を過ぎた削除済み作品を行ごと消し、画像ファイルも消す
+//   ファイルの削除に失敗しても行は消えているので、残りは purgeOrphanedWorkFiles で回収される
+//   消すのは作品のオーナーのフォルダ（images/{creator_id}/）のファイルだけ
+export const purgeDeletedWorks = async (client: SupabaseClient): Promise<PurgedWorksReport> => {
+  const { data, error } = await client.rpc('purge_deleted_works', {
+    p_undo_window: `${WORK_DELETE_UNDO_DAYS} days`,
+  });
+  if (error) throw new Error(`purge_deleted_works: ${error.message}`);
+
+  const rows = (data || []) as {
+    work_id: string;
+    creator_id: string;
+    storage_path: string | null;
+    meta: ImageMeta | null;
+  }[];
+
+  const paths = rows.flatMap((row) =>
+    workImageFilePaths(row).filter((path) => isWorkImagePathOf(row.creator_id, path))
+  );
+
+  await removeFiles(client, paths);
+
+  return { works: Array.from(new Set(rows.map((row) => row.work_id))), removed: paths.length };
+};
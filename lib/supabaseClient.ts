@@ -1,7 +1,24 @@
 // lib/supabaseClient.ts
-import { createClient } from '@supabase/supabase-js';
+import { createBrowserClient } from '@supabase/ssr';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
 
-export const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
-);
\ No newline at end of file
+let client: SupabaseClient | null = null;
+
+// インメモリバックエンドで動かすときは環境変数なしでも import できるよう遅延生成する。
+// ブラウザではセッションを Cookie に置き、proxy.ts・サーバーコンポーネントからも読めるようにする。
+// サーバーでは（ギャラリーなど公開データ用に）匿名で接続する。ログイン中のユーザーとして
+// 読むときは lib/supabaseServer.ts を使う。
+// メールのリンクの ?code= は /auth/callback で db.auth.exchangeCode に渡すので、自動では読ませない
+export const getSupabaseClient = (): SupabaseClient => {
+  if (!client) {
+    const url = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+    const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+    client =
+      typeof window === 'undefined'
+        ? createClient(url, anonKey, {
+            auth: { persistSession: false, autoRefreshToken: false },
+          })
+        : createBrowserClient(url, anonKey, { auth: { detectSessionInUrl: false } });
+  }
+  return client;
+};
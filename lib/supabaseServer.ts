@@ -0,0 +1,27 @@
+// lib/supabaseServer.ts
+// サーバーコンポーネント・Route Handler 用（リクエストごとに Cookie のセッションで接続する）
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+
+export const createSupabaseServerClient = async () => {
+  const cookieStore = await cookies();
+
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll: () => cookieStore.getAll(),
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            );
+          } catch {
+            // サーバーコンポーネントからは書けない（セッションの更新は proxy.ts が行う）
+          }
+        },
+      },
+    }
+  );
+};
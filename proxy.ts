@@ -0,0 +1,51 @@
+// proxy.ts
+// 描画の前に Supabase のセッション（Cookie）を更新し、ログインが必要なページは未ログインならログイン画面へ回す。
+// 見せてよいデータかどうかは RLS（supabase/migrations/20261020070000_row_level_security.sql）で決める
+import { createServerClient } from '@supabase/ssr';
+import { NextResponse, type NextRequest } from 'next/server';
+import { isProtectedPath, loginHref } from '@/lib/authRoutes';
+
+export async function proxy(request: NextRequest) {
+  // インメモリバックエンドはセッションがブラウザの中にしかないので、画面側のチェックに任せる
+  if (process.env.NEXT_PUBLIC_DATA_BACKEND === 'memory') return NextResponse.next();
+
+  let response = NextResponse.next({ request });
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll: () => request.cookies.getAll(),
+        // 更新したトークンは、この後のサーバーコンポーネントとブラウザの両方に渡す
+        setAll(cookiesToSet, headers) {
+          cookiesToSet.forEach(({ name, value }) => request.cookies.set(name, value));
+          response = NextResponse.next({ request });
+          cookiesToSet.forEach(({ name, value, options }) =>
+            response.cookies.set(name, value, options)
+          );
+          Object.entries(headers).forEach(([key, value]) => response.headers.set(key, value));
+        },
+      },
+    }
+  );
+
+  // getSession は Cookie の中身を検証しないので getUser で確かめる
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const { pathname, search } = request.nextUrl;
+  if (!user && isProtectedPath(pathname)) {
+    const redirect = NextResponse.redirect(new URL(loginHref(`${pathname}${search}`), request.url));
+    response.cookies.getAll().forEach((cookie) => redirect.cookies.set(cookie));
+    return redirect;
+  }
+
+  return response;
+}
+
+export const config = {
+  // 静的ファイル・画像・API（API は Authorization ヘッダーで確かめる）は除く
+  matcher: ['/((?!_next/static|_next/image|favicon.ico|api/|.*\\.(?:svg|png|jpg|jpeg|gif|webp|avif)$).*)'],
+};
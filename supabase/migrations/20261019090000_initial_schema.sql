@@ -0,0 +1,79 @@
+-- supabase/migrations/20261019090000_initial_schema.sql
+-- 既存テーブルの定義（アプリのコードから参照している列に合わせたもの）
+
+create table if not exists public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  display_name text,
+  role text check (role in ('creator', 'client')),
+  bio text,
+  genre text,
+  area text,
+  instagram_url text,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.works (
+  id uuid primary key default gen_random_uuid(),
+  creator_id uuid not null references public.profiles (id) on delete cascade,
+  title text not null,
+  description text,
+  image_url text,
+  tags text,
+  is_public boolean default true,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists works_creator_id_idx on public.works (creator_id);
+
+create table if not exists public.requests (
+  id uuid primary key default gen_random_uuid(),
+  creator_id uuid not null references public.profiles (id) on delete cascade,
+  client_id uuid not null references public.profiles (id) on delete cascade,
+  work_id uuid references public.works (id) on delete set null,
+  title text not null,
+  message text not null,
+  status text not null default 'pending'
+    check (status in ('pending', 'accepted', 'rejected', 'closed')),
+  preferred_date text,
+  budget text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists requests_creator_id_idx on public.requests (creator_id);
+create index if not exists requests_client_id_idx on public.requests (client_id);
+
+create or replace function public.set_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists requests_set_updated_at on public.requests;
+create trigger requests_set_updated_at
+  before update on public.requests
+  for each row execute function public.set_updated_at();
+
+create table if not exists public.messages (
+  id uuid primary key default gen_random_uuid(),
+  request_id uuid not null references public.requests (id) on delete cascade,
+  sender_id uuid not null references public.profiles (id) on delete cascade,
+  body text not null,
+  is_read boolean default false,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists messages_request_id_idx on public.messages (request_id, created_at);
+
+create table if not exists public.work_likes (
+  work_id uuid not null references public.works (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (work_id, user_id)
+);
+
+create index if not exists work_likes_user_id_idx on public.work_likes (user_id);
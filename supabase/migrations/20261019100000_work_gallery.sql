@@ -0,0 +1,92 @@
+-- supabase/migrations/20261019100000_work_gallery.sql
+-- 作品ギャラリー：公開作品 + クリエイター情報 + いいね数 を DB 側で集計する
+
+create index if not exists works_public_created_at_idx
+  on public.works (created_at desc, id desc)
+  where is_public = true;
+
+create or replace view public.work_gallery
+with (security_invoker = true)
+as
+select
+  w.id,
+  w.creator_id,
+  w.title,
+  w.description,
+  w.image_url,
+  w.tags,
+  w.is_public,
+  w.created_at,
+  p.display_name as creator_name,
+  p.genre as creator_genre,
+  p.area as creator_area,
+  coalesce(l.likes_count, 0)::integer as likes_count
+from public.works w
+join public.profiles p on p.id = w.creator_id
+left join (
+  select work_id, count(*) as likes_count
+  from public.work_likes
+  group by work_id
+) l on l.work_id = w.id
+where w.is_public = true;
+
+-- キーワード・ジャンル・エリアで絞り込み、(並び順のキー, id) のキーセットでページングする
+create or replace function public.list_gallery_works(
+  p_q text default null,
+  p_genre text default null,
+  p_area text default null,
+  p_sort text default 'newest',
+  p_cursor_likes integer default null,
+  p_cursor_created_at timestamptz default null,
+  p_cursor_id uuid default null,
+  p_limit integer default 24
+)
+returns setof public.work_gallery
+language sql
+stable
+as $$
+  select g.*
+  from public.work_gallery g
+  where (
+      p_q is null
+      or strpos(
+        lower(concat_ws(' ', g.title, g.description, g.tags, g.creator_name)),
+        lower(p_q)
+      ) > 0
+    )
+    and (p_genre is null or g.creator_genre = p_genre)
+    and (p_area is null or g.creator_area = p_area)
+    and (
+      p_cursor_id is null
+      or (
+        p_sort = 'popular'
+        and (g.likes_count, g.created_at, g.id)
+          < (p_cursor_likes, p_cursor_created_at, p_cursor_id)
+      )
+      or (
+        p_sort <> 'popular'
+        and (g.created_at, g.id) < (p_cursor_created_at, p_cursor_id)
+      )
+    )
+  order by
+    case when p_sort = 'popular' then g.likes_count end desc nulls last,
+    g.created_at desc,
+    g.id desc
+  limit least(greatest(coalesce(p_limit, 24), 1), 100);
+$$;
+
+-- 絞り込みプルダウンの候補（公開作品を持つクリエイターのジャンル・エリア）
+create or replace function public.list_gallery_facets()
+returns table (kind text, value text)
+language sql
+stable
+as $$
+  select distinct 'genre'::text, g.creator_genre
+  from public.work_gallery g
+  where nullif(btrim(g.creator_genre), '') is not null
+  union
+  select distinct 'area'::text, g.creator_area
+  from public.work_gallery g
+  where nullif(btrim(g.creator_area), '') is not null
+  order by 1, 2;
+$$;
@@ -0,0 +1,4 @@
+-- supabase/migrations/20261019110000_messages_realtime.sql
+-- 依頼スレッドのメッセージ追加・既読更新を Realtime で配信する
+
+alter publication supabase_realtime add table public.messages;
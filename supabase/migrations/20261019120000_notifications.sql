@@ -0,0 +1,181 @@
+-- supabase/migrations/20261019120000_notifications.sql
+-- 通知センター：メッセージ・新しい依頼・ステータス変更・いいね をトリガーで通知化する
+
+create table if not exists public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  kind text not null check (kind in ('message', 'request', 'status', 'like')),
+  actor_id uuid references public.profiles (id) on delete set null,
+  request_id uuid references public.requests (id) on delete cascade,
+  work_id uuid references public.works (id) on delete cascade,
+  message_id uuid references public.messages (id) on delete cascade,
+  -- 通知時点の依頼タイトル / 作品タイトル
+  title text,
+  -- メッセージ本文の抜粋 / 変更後のステータス
+  body text,
+  read_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists notifications_user_created_idx
+  on public.notifications (user_id, created_at desc);
+create index if not exists notifications_user_unread_idx
+  on public.notifications (user_id)
+  where read_at is null;
+
+alter table public.notifications enable row level security;
+
+create policy "notifications: recipient can read"
+  on public.notifications for select
+  using (user_id = auth.uid());
+
+create policy "notifications: recipient can mark read"
+  on public.notifications for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+alter publication supabase_realtime add table public.notifications;
+
+-- メッセージ → 相手へ（依頼作成時の最初のメッセージは「新しい依頼」通知でカバーする）
+create or replace function public.notify_on_message()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r public.requests;
+begin
+  select * into r from public.requests where id = new.request_id;
+  if r.id is null then
+    return new;
+  end if;
+
+  if not exists (
+    select 1 from public.messages m where m.request_id = new.request_id and m.id <> new.id
+  ) then
+    return new;
+  end if;
+
+  insert into public.notifications (user_id, kind, actor_id, request_id, message_id, title, body)
+  values (
+    case when new.sender_id = r.creator_id then r.client_id else r.creator_id end,
+    'message',
+    new.sender_id,
+    r.id,
+    new.id,
+    r.title,
+    left(new.body, 140)
+  );
+
+  return new;
+end;
+$$;
+
+drop trigger if exists messages_notify on public.messages;
+create trigger messages_notify
+  after insert on public.messages
+  for each row execute function public.notify_on_message();
+
+-- メッセージが既読になったら、そのメッセージの通知も既読にする
+create or replace function public.read_message_notifications()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.is_read and not coalesce(old.is_read, false) then
+    update public.notifications
+    set read_at = now()
+    where message_id = new.id and read_at is null;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists messages_read_notifications on public.messages;
+create trigger messages_read_notifications
+  after update of is_read on public.messages
+  for each row execute function public.read_message_notifications();
+
+-- 新しい依頼 → クリエイターへ
+create or replace function public.notify_on_request()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.notifications (user_id, kind, actor_id, request_id, title, body)
+  values (new.creator_id, 'request', new.client_id, new.id, new.title, left(new.message, 140));
+
+  return new;
+end;
+$$;
+
+drop trigger if exists requests_notify on public.requests;
+create trigger requests_notify
+  after insert on public.requests
+  for each row execute function public.notify_on_request();
+
+-- ステータス変更 → 変更した人ではない方の参加者へ
+create or replace function public.notify_on_request_status()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  actor uuid := coalesce(auth.uid(), new.creator_id);
+begin
+  if new.status is not distinct from old.status then
+    return new;
+  end if;
+
+  insert into public.notifications (user_id, kind, actor_id, request_id, title, body)
+  values (
+    case when actor = new.client_id then new.creator_id else new.client_id end,
+    'status',
+    actor,
+    new.id,
+    new.title,
+    new.status
+  );
+
+  return new;
+end;
+$$;
+
+drop trigger if exists requests_notify_status on public.requests;
+create trigger requests_notify_status
+  after update of status on public.requests
+  for each row execute function public.notify_on_request_status();
+
+-- いいね → 作品のクリエイターへ（自分の作品は除く）
+create or replace function public.notify_on_like()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  w public.works;
+begin
+  select * into w from public.works where id = new.work_id;
+  if w.id is null or w.creator_id = new.user_id then
+    return new;
+  end if;
+
+  insert into public.notifications (user_id, kind, actor_id, work_id, title)
+  values (w.creator_id, 'like', new.user_id, w.id, w.title);
+
+  return new;
+end;
+$$;
+
+drop trigger if exists work_likes_notify on public.work_likes;
+create trigger work_likes_notify
+  after insert on public.work_likes
+  for each row execute function public.notify_on_like();
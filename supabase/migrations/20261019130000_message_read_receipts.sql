@@ -0,0 +1,143 @@
+-- supabase/migrations/20261019130000_message_read_receipts.sql
+-- 既読管理：messages.is_read（フラグ）→ 受け手の既読日時 read_at ＋ 参加者ごとの既読カーソル
+
+-- 1. メッセージごとの既読日時（スレッドは 2 者なので、受け手 = 送信者ではない方の参加者）
+alter table public.messages add column if not exists read_at timestamptz;
+
+-- 既存の既読メッセージは読んだ日時が分からないので送信日時で埋める
+update public.messages
+set read_at = created_at
+where is_read and read_at is null;
+
+create index if not exists messages_unread_idx
+  on public.messages (request_id)
+  where read_at is null;
+
+-- 2. スレッドごとの既読カーソル（どのメッセージまで読んだか）
+create table if not exists public.message_reads (
+  request_id uuid not null references public.requests (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  last_read_message_id uuid references public.messages (id) on delete set null,
+  -- 最後に読んだメッセージの created_at（カーソル位置）
+  last_read_at timestamptz not null,
+  updated_at timestamptz not null default now(),
+  primary key (request_id, user_id)
+);
+
+insert into public.message_reads (request_id, user_id, last_read_message_id, last_read_at)
+select distinct on (m.request_id, recipient)
+  m.request_id,
+  recipient,
+  m.id,
+  m.created_at
+from (
+  select
+    m.*,
+    case when m.sender_id = r.creator_id then r.client_id else r.creator_id end as recipient
+  from public.messages m
+  join public.requests r on r.id = m.request_id
+  where m.read_at is not null
+) m
+order by m.request_id, recipient, m.created_at desc
+on conflict (request_id, user_id) do nothing;
+
+alter table public.message_reads enable row level security;
+
+create policy "message_reads: owner can read"
+  on public.message_reads for select
+  using (user_id = auth.uid());
+
+-- 3. 通知の既読連動を read_at に付け替えてから is_read を落とす
+drop trigger if exists messages_read_notifications on public.messages;
+
+create or replace function public.read_message_notifications()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.read_at is not null and old.read_at is null then
+    update public.notifications
+    set read_at = new.read_at
+    where message_id = new.id and read_at is null;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger messages_read_notifications
+  after update of read_at on public.messages
+  for each row execute function public.read_message_notifications();
+
+alter table public.messages drop column if exists is_read;
+
+-- 4. 画面に表示されたメッセージ（p_message_id）までを既読にしてカーソルを進める
+create or replace function public.mark_messages_read(
+  p_request_id uuid,
+  p_reader_id uuid,
+  p_message_id uuid
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r public.requests;
+  v_created_at timestamptz;
+  v_count integer;
+begin
+  if auth.uid() is distinct from p_reader_id then
+    raise exception 'cannot mark messages read for another user' using errcode = '42501';
+  end if;
+
+  select * into r from public.requests where id = p_request_id;
+  if r.id is null or p_reader_id not in (r.creator_id, r.client_id) then
+    raise exception 'not a participant of this request' using errcode = '42501';
+  end if;
+
+  select created_at into v_created_at
+  from public.messages
+  where id = p_message_id and request_id = p_request_id;
+
+  if v_created_at is null then
+    raise exception 'message not found' using errcode = 'P0002';
+  end if;
+
+  -- カーソルは後ろに戻さない
+  insert into public.message_reads (request_id, user_id, last_read_message_id, last_read_at)
+  values (p_request_id, p_reader_id, p_message_id, v_created_at)
+  on conflict (request_id, user_id) do update
+    set last_read_message_id = excluded.last_read_message_id,
+        last_read_at = excluded.last_read_at,
+        updated_at = now()
+    where public.message_reads.last_read_at < excluded.last_read_at;
+
+  update public.messages
+  set read_at = now()
+  where request_id = p_request_id
+    and sender_id <> p_reader_id
+    and read_at is null
+    and created_at <= v_created_at;
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+-- 5. 依頼ごとの未読数（相手から届いた read_at is null のメッセージ）
+create or replace function public.count_unread_messages(p_user_id uuid)
+returns table (request_id uuid, unread bigint)
+language sql
+stable
+as $$
+  select m.request_id, count(*) as unread
+  from public.messages m
+  join public.requests r on r.id = m.request_id
+  where (r.creator_id = p_user_id or r.client_id = p_user_id)
+    and m.sender_id <> p_user_id
+    and m.read_at is null
+  group by m.request_id;
+$$;
@@ -0,0 +1,154 @@
+-- supabase/migrations/20261019140000_request_status_machine.sql
+-- 依頼ステータスの状態遷移をサーバー側で強制し、変更履歴を request_events に残す
+--   pending  → accepted / rejected
+--   accepted → closed
+--   変更できるのはクリエイターのみ
+
+create table if not exists public.request_events (
+  id uuid primary key default gen_random_uuid(),
+  request_id uuid not null references public.requests (id) on delete cascade,
+  actor_id uuid references public.profiles (id) on delete set null,
+  kind text not null check (kind in ('created', 'status_changed')),
+  from_status text,
+  to_status text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists request_events_request_idx
+  on public.request_events (request_id, created_at);
+
+alter table public.request_events enable row level security;
+
+create policy "request_events: participants can read"
+  on public.request_events for select
+  using (
+    exists (
+      select 1 from public.requests r
+      where r.id = request_id
+        and auth.uid() in (r.creator_id, r.client_id)
+    )
+  );
+
+-- 既存の依頼にも「作成」イベントを入れておく
+insert into public.request_events (request_id, actor_id, kind, to_status, created_at)
+select r.id, r.client_id, 'created', 'pending', r.created_at
+from public.requests r
+where not exists (
+  select 1 from public.request_events e where e.request_id = r.id and e.kind = 'created'
+);
+
+-- 許可された遷移か
+create or replace function public.is_request_status_transition_allowed(
+  p_from text,
+  p_to text
+)
+returns boolean
+language sql
+immutable
+as $$
+  select (p_from, p_to) in (
+    ('pending', 'accepted'),
+    ('pending', 'rejected'),
+    ('accepted', 'closed')
+  );
+$$;
+
+-- requests.status への直接の書き込みを防ぐ（transition_request_status 経由のみ）
+create or replace function public.guard_request_status()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    if new.status <> 'pending' then
+      raise exception 'new requests must start as pending' using errcode = '23514';
+    end if;
+    return new;
+  end if;
+
+  if new.status is distinct from old.status
+    and coalesce(current_setting('app.request_status_transition', true), '') <> 'on' then
+    raise exception 'request status must be changed via transition_request_status'
+      using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists requests_guard_status on public.requests;
+create trigger requests_guard_status
+  before insert or update of status on public.requests
+  for each row execute function public.guard_request_status();
+
+-- 依頼作成時のイベント
+create or replace function public.record_request_created()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.request_events (request_id, actor_id, kind, to_status)
+  values (new.id, new.client_id, 'created', new.status);
+
+  return new;
+end;
+$$;
+
+drop trigger if exists requests_record_created on public.requests;
+create trigger requests_record_created
+  after insert on public.requests
+  for each row execute function public.record_request_created();
+
+-- ステータス変更の唯一の入口
+create or replace function public.transition_request_status(
+  p_request_id uuid,
+  p_status text
+)
+returns public.requests
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r public.requests;
+  v_actor uuid := auth.uid();
+  v_from text;
+begin
+  if v_actor is null then
+    raise exception 'not authenticated' using errcode = '42501';
+  end if;
+
+  select * into r from public.requests where id = p_request_id for update;
+
+  if r.id is null then
+    raise exception 'request not found' using errcode = 'P0002';
+  end if;
+
+  if r.creator_id <> v_actor then
+    raise exception 'only the creator can change the request status' using errcode = '42501';
+  end if;
+
+  if not public.is_request_status_transition_allowed(r.status, p_status) then
+    raise exception 'cannot change request status from % to %', r.status, p_status
+      using errcode = '23514';
+  end if;
+
+  v_from := r.status;
+
+  perform set_config('app.request_status_transition', 'on', true);
+
+  update public.requests
+  set status = p_status
+  where id = p_request_id
+  returning * into r;
+
+  perform set_config('app.request_status_transition', 'off', true);
+
+  insert into public.request_events (request_id, actor_id, kind, from_status, to_status)
+  values (r.id, v_actor, 'status_changed', v_from, p_status);
+
+  return r;
+end;
+$$;
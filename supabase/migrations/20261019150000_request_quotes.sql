@@ -0,0 +1,309 @@
+-- supabase/migrations/20261019150000_request_quotes.sql
+-- 見積もり：明細・合計（JPY）・納期・有効期限。相手は 承諾 / 辞退 / 条件変更の提案（カウンター）ができる
+-- 承諾された見積もりの条件は requests に確定条件として固定する
+
+create table if not exists public.quotes (
+  id uuid primary key default gen_random_uuid(),
+  request_id uuid not null references public.requests (id) on delete cascade,
+  author_id uuid references public.profiles (id) on delete set null,
+  -- カウンターの場合、元になった見積もり
+  parent_id uuid references public.quotes (id) on delete set null,
+  status text not null default 'pending'
+    check (status in ('pending', 'accepted', 'declined', 'countered', 'withdrawn')),
+  currency text not null default 'JPY' check (currency = 'JPY'),
+  total_amount integer not null check (total_amount >= 0),
+  delivery_date date not null,
+  valid_until date not null,
+  note text,
+  created_at timestamptz not null default now(),
+  responded_at timestamptz
+);
+
+create index if not exists quotes_request_idx on public.quotes (request_id, created_at);
+
+-- 回答待ちの見積もりは 1 依頼につき 1 件だけ
+create unique index if not exists quotes_one_pending_per_request
+  on public.quotes (request_id)
+  where status = 'pending';
+
+create table if not exists public.quote_items (
+  id uuid primary key default gen_random_uuid(),
+  quote_id uuid not null references public.quotes (id) on delete cascade,
+  position integer not null,
+  description text not null check (length(trim(description)) > 0),
+  quantity integer not null check (quantity > 0),
+  unit_price integer not null check (unit_price >= 0),
+  unique (quote_id, position)
+);
+
+-- 確定した条件
+alter table public.requests
+  add column if not exists agreed_quote_id uuid references public.quotes (id) on delete set null,
+  add column if not exists agreed_total integer,
+  add column if not exists agreed_delivery_date date,
+  add column if not exists agreed_at timestamptz;
+
+alter table public.quotes enable row level security;
+alter table public.quote_items enable row level security;
+
+create policy "quotes: participants can read"
+  on public.quotes for select
+  using (
+    exists (
+      select 1 from public.requests r
+      where r.id = request_id
+        and auth.uid() in (r.creator_id, r.client_id)
+    )
+  );
+
+create policy "quote_items: participants can read"
+  on public.quote_items for select
+  using (
+    exists (
+      select 1 from public.quotes q
+      join public.requests r on r.id = q.request_id
+      where q.id = quote_id
+        and auth.uid() in (r.creator_id, r.client_id)
+    )
+  );
+
+alter publication supabase_realtime add table public.quotes;
+
+-- 履歴・通知の種類を追加
+alter table public.request_events drop constraint if exists request_events_kind_check;
+alter table public.request_events add constraint request_events_kind_check
+  check (kind in ('created', 'status_changed', 'quote_accepted'));
+
+alter table public.notifications drop constraint if exists notifications_kind_check;
+alter table public.notifications add constraint notifications_kind_check
+  check (kind in ('message', 'request', 'status', 'like', 'quote'));
+
+-- 確定条件は respond_to_quote 経由でしか書き換えられない
+create or replace function public.guard_request_terms()
+returns trigger
+language plpgsql
+as $$
+begin
+  if (new.agreed_quote_id, new.agreed_total, new.agreed_delivery_date, new.agreed_at)
+      is distinct from
+     (old.agreed_quote_id, old.agreed_total, old.agreed_delivery_date, old.agreed_at)
+    and coalesce(current_setting('app.request_terms_lock', true), '') <> 'on' then
+    raise exception 'agreed terms can only be set by accepting a quote' using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists requests_guard_terms on public.requests;
+create trigger requests_guard_terms
+  before update on public.requests
+  for each row execute function public.guard_request_terms();
+
+-- 見積もりの作成（p_parent_id があればカウンター）。作成した見積もりの id を返す
+create or replace function public.create_quote(
+  p_request_id uuid,
+  p_author_id uuid,
+  p_parent_id uuid,
+  p_items jsonb,
+  p_delivery_date date,
+  p_valid_until date,
+  p_note text
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r public.requests;
+  parent public.quotes;
+  v_id uuid;
+  v_total integer;
+  v_count integer;
+  v_today date := (now() at time zone 'Asia/Tokyo')::date;
+begin
+  if auth.uid() is distinct from p_author_id then
+    raise exception 'cannot create a quote for another user' using errcode = '42501';
+  end if;
+
+  select * into r from public.requests where id = p_request_id for update;
+  if r.id is null then
+    raise exception 'request not found' using errcode = 'P0002';
+  end if;
+
+  if p_author_id not in (r.creator_id, r.client_id) then
+    raise exception 'not a participant of this request' using errcode = '42501';
+  end if;
+
+  if r.status not in ('pending', 'accepted') or r.agreed_quote_id is not null then
+    raise exception 'this request no longer accepts quotes' using errcode = '23514';
+  end if;
+
+  if jsonb_typeof(p_items) is distinct from 'array' then
+    raise exception 'items must be an array' using errcode = '22023';
+  end if;
+
+  v_count := jsonb_array_length(p_items);
+  if v_count = 0 or v_count > 20 then
+    raise exception 'a quote needs 1 to 20 items' using errcode = '23514';
+  end if;
+
+  if p_delivery_date < v_today or p_valid_until < v_today then
+    raise exception 'dates must not be in the past' using errcode = '23514';
+  end if;
+
+  if p_parent_id is null then
+    if p_author_id <> r.creator_id then
+      raise exception 'only the creator can send a new quote' using errcode = '42501';
+    end if;
+
+    -- 新しい見積もりを出したら、回答待ちの古い見積もりは取り下げ扱い
+    update public.quotes
+    set status = 'withdrawn', responded_at = now()
+    where request_id = p_request_id and status = 'pending';
+  else
+    select * into parent
+    from public.quotes
+    where id = p_parent_id and request_id = p_request_id
+    for update;
+
+    if parent.id is null then
+      raise exception 'quote not found' using errcode = 'P0002';
+    end if;
+
+    if parent.status <> 'pending' then
+      raise exception 'this quote has already been answered' using errcode = '23514';
+    end if;
+
+    if parent.author_id = p_author_id then
+      raise exception 'cannot counter your own quote' using errcode = '42501';
+    end if;
+
+    update public.quotes
+    set status = 'countered', responded_at = now()
+    where id = parent.id;
+  end if;
+
+  select coalesce(sum((i ->> 'quantity')::integer * (i ->> 'unit_price')::integer), 0)
+  into v_total
+  from jsonb_array_elements(p_items) as i;
+
+  insert into public.quotes (
+    request_id, author_id, parent_id, total_amount, delivery_date, valid_until, note
+  )
+  values (
+    p_request_id, p_author_id, p_parent_id, v_total, p_delivery_date, p_valid_until,
+    nullif(trim(p_note), '')
+  )
+  returning id into v_id;
+
+  insert into public.quote_items (quote_id, position, description, quantity, unit_price)
+  select
+    v_id,
+    t.ord::integer,
+    trim(t.i ->> 'description'),
+    (t.i ->> 'quantity')::integer,
+    (t.i ->> 'unit_price')::integer
+  from jsonb_array_elements(p_items) with ordinality as t (i, ord);
+
+  insert into public.notifications (user_id, kind, actor_id, request_id, title, body)
+  values (
+    case when p_author_id = r.creator_id then r.client_id else r.creator_id end,
+    'quote',
+    p_author_id,
+    r.id,
+    r.title,
+    case when p_parent_id is null then 'sent' else 'countered' end
+  );
+
+  return v_id;
+end;
+$$;
+
+-- 見積もりへの回答（'accept' / 'decline'）。承諾したら条件を依頼に固定する
+create or replace function public.respond_to_quote(
+  p_quote_id uuid,
+  p_responder_id uuid,
+  p_action text
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  q public.quotes;
+  r public.requests;
+  v_today date := (now() at time zone 'Asia/Tokyo')::date;
+begin
+  if auth.uid() is distinct from p_responder_id then
+    raise exception 'cannot respond for another user' using errcode = '42501';
+  end if;
+
+  if p_action not in ('accept', 'decline') then
+    raise exception 'unknown action: %', p_action using errcode = '22023';
+  end if;
+
+  select * into q from public.quotes where id = p_quote_id for update;
+  if q.id is null then
+    raise exception 'quote not found' using errcode = 'P0002';
+  end if;
+
+  select * into r from public.requests where id = q.request_id for update;
+
+  if p_responder_id not in (r.creator_id, r.client_id) or q.author_id = p_responder_id then
+    raise exception 'only the other participant can respond to this quote' using errcode = '42501';
+  end if;
+
+  if q.status <> 'pending' then
+    raise exception 'this quote has already been answered' using errcode = '23514';
+  end if;
+
+  if p_action = 'decline' then
+    update public.quotes
+    set status = 'declined', responded_at = now()
+    where id = q.id;
+  else
+    if q.valid_until < v_today then
+      raise exception 'this quote has expired' using errcode = '23514';
+    end if;
+
+    if r.status not in ('pending', 'accepted') or r.agreed_quote_id is not null then
+      raise exception 'this request no longer accepts quotes' using errcode = '23514';
+    end if;
+
+    update public.quotes
+    set status = 'accepted', responded_at = now()
+    where id = q.id;
+
+    perform set_config('app.request_terms_lock', 'on', true);
+
+    update public.requests
+    set agreed_quote_id = q.id,
+        agreed_total = q.total_amount,
+        agreed_delivery_date = q.delivery_date,
+        agreed_at = now()
+    where id = r.id;
+
+    perform set_config('app.request_terms_lock', 'off', true);
+
+    insert into public.request_events (request_id, actor_id, kind)
+    values (r.id, p_responder_id, 'quote_accepted');
+  end if;
+
+  if q.author_id is not null then
+    insert into public.notifications (user_id, kind, actor_id, request_id, title, body)
+    values (
+      q.author_id,
+      'quote',
+      p_responder_id,
+      r.id,
+      r.title,
+      case when p_action = 'accept' then 'accepted' else 'declined' end
+    );
+  end if;
+
+  return q.id;
+end;
+$$;
@@ -0,0 +1,311 @@
+-- supabase/migrations/20261019160000_request_milestones.sql
+-- 受けた依頼のマイルストーンと成果物
+--   クリエイター：マイルストーンを作成し、成果物をアップロードして確認を依頼する
+--   依頼者　　　：承認する / 修正を依頼する
+--   すべてのマイルストーンが承認されるまで依頼はクローズできない
+
+create table if not exists public.milestones (
+  id uuid primary key default gen_random_uuid(),
+  request_id uuid not null references public.requests (id) on delete cascade,
+  position integer not null,
+  title text not null check (length(trim(title)) > 0),
+  description text,
+  due_date date,
+  status text not null default 'open'
+    check (status in ('open', 'submitted', 'revision_requested', 'approved')),
+  -- 直近の修正依頼の内容
+  revision_note text,
+  submitted_at timestamptz,
+  approved_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists milestones_request_idx on public.milestones (request_id, position);
+
+drop trigger if exists milestones_set_updated_at on public.milestones;
+create trigger milestones_set_updated_at
+  before update on public.milestones
+  for each row execute function public.set_updated_at();
+
+create table if not exists public.deliverables (
+  id uuid primary key default gen_random_uuid(),
+  milestone_id uuid not null references public.milestones (id) on delete cascade,
+  request_id uuid not null references public.requests (id) on delete cascade,
+  uploader_id uuid references public.profiles (id) on delete set null,
+  -- deliverables バケット内のパス：{request_id}/{milestone_id}/{uuid}-{ファイル名}
+  file_path text not null unique,
+  file_name text not null,
+  content_type text,
+  size_bytes bigint not null check (size_bytes >= 0),
+  note text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists deliverables_milestone_idx
+  on public.deliverables (milestone_id, created_at);
+
+alter table public.milestones enable row level security;
+alter table public.deliverables enable row level security;
+
+create policy "milestones: participants can read"
+  on public.milestones for select
+  using (
+    exists (
+      select 1 from public.requests r
+      where r.id = request_id
+        and auth.uid() in (r.creator_id, r.client_id)
+    )
+  );
+
+create policy "milestones: creator can add to accepted requests"
+  on public.milestones for insert
+  with check (
+    status = 'open'
+    and exists (
+      select 1 from public.requests r
+      where r.id = request_id
+        and r.creator_id = auth.uid()
+        and r.status = 'accepted'
+    )
+  );
+
+create policy "milestones: creator can delete open milestones"
+  on public.milestones for delete
+  using (
+    status = 'open'
+    and exists (
+      select 1 from public.requests r
+      where r.id = request_id
+        and r.creator_id = auth.uid()
+        and r.status = 'accepted'
+    )
+  );
+
+create policy "deliverables: participants can read"
+  on public.deliverables for select
+  using (
+    exists (
+      select 1 from public.requests r
+      where r.id = request_id
+        and auth.uid() in (r.creator_id, r.client_id)
+    )
+  );
+
+create policy "deliverables: creator can upload while in progress"
+  on public.deliverables for insert
+  with check (
+    uploader_id = auth.uid()
+    and exists (
+      select 1
+      from public.milestones m
+      join public.requests r on r.id = m.request_id
+      where m.id = milestone_id
+        and m.request_id = request_id
+        and m.status in ('open', 'revision_requested')
+        and r.creator_id = auth.uid()
+        and r.status = 'accepted'
+    )
+  );
+
+create policy "deliverables: uploader can delete while in progress"
+  on public.deliverables for delete
+  using (
+    uploader_id = auth.uid()
+    and exists (
+      select 1 from public.milestones m
+      where m.id = milestone_id
+        and m.status in ('open', 'revision_requested')
+    )
+  );
+
+alter publication supabase_realtime add table public.milestones;
+alter publication supabase_realtime add table public.deliverables;
+
+-- 成果物ファイル（非公開バケット）
+insert into storage.buckets (id, name, public, file_size_limit)
+values ('deliverables', 'deliverables', false, 52428800)
+on conflict (id) do nothing;
+
+create policy "deliverables bucket: participants can read"
+  on storage.objects for select
+  using (
+    bucket_id = 'deliverables'
+    and exists (
+      select 1 from public.requests r
+      where r.id::text = (storage.foldername(name))[1]
+        and auth.uid() in (r.creator_id, r.client_id)
+    )
+  );
+
+create policy "deliverables bucket: creator can upload"
+  on storage.objects for insert
+  with check (
+    bucket_id = 'deliverables'
+    and exists (
+      select 1 from public.requests r
+      where r.id::text = (storage.foldername(name))[1]
+        and r.creator_id = auth.uid()
+        and r.status = 'accepted'
+    )
+  );
+
+create policy "deliverables bucket: creator can delete"
+  on storage.objects for delete
+  using (
+    bucket_id = 'deliverables'
+    and exists (
+      select 1 from public.requests r
+      where r.id::text = (storage.foldername(name))[1]
+        and r.creator_id = auth.uid()
+    )
+  );
+
+alter table public.notifications drop constraint if exists notifications_kind_check;
+alter table public.notifications add constraint notifications_kind_check
+  check (kind in ('message', 'request', 'status', 'like', 'quote', 'milestone'));
+
+-- マイルストーンの状態変更（'submit' / 'approve' / 'request_revision'）
+create or replace function public.update_milestone_status(
+  p_milestone_id uuid,
+  p_actor_id uuid,
+  p_action text,
+  p_note text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  m public.milestones;
+  r public.requests;
+begin
+  if auth.uid() is distinct from p_actor_id then
+    raise exception 'cannot update milestones for another user' using errcode = '42501';
+  end if;
+
+  select * into m from public.milestones where id = p_milestone_id for update;
+  if m.id is null then
+    raise exception 'milestone not found' using errcode = 'P0002';
+  end if;
+
+  select * into r from public.requests where id = m.request_id;
+
+  if r.status <> 'accepted' then
+    raise exception 'the request is not in progress' using errcode = '23514';
+  end if;
+
+  if p_action = 'submit' then
+    if p_actor_id <> r.creator_id then
+      raise exception 'only the creator can submit deliverables' using errcode = '42501';
+    end if;
+    if m.status not in ('open', 'revision_requested') then
+      raise exception 'this milestone cannot be submitted now' using errcode = '23514';
+    end if;
+    if not exists (select 1 from public.deliverables d where d.milestone_id = m.id) then
+      raise exception 'upload at least one deliverable before submitting' using errcode = '23514';
+    end if;
+
+    update public.milestones
+    set status = 'submitted', submitted_at = now()
+    where id = m.id;
+  elsif p_action in ('approve', 'request_revision') then
+    if p_actor_id <> r.client_id then
+      raise exception 'only the client can review deliverables' using errcode = '42501';
+    end if;
+    if m.status <> 'submitted' then
+      raise exception 'this milestone is not waiting for review' using errcode = '23514';
+    end if;
+
+    if p_action = 'approve' then
+      update public.milestones
+      set status = 'approved', approved_at = now()
+      where id = m.id;
+    else
+      if nullif(trim(p_note), '') is null then
+        raise exception 'describe what should be revised' using errcode = '23514';
+      end if;
+
+      update public.milestones
+      set status = 'revision_requested', revision_note = trim(p_note)
+      where id = m.id;
+    end if;
+  else
+    raise exception 'unknown action: %', p_action using errcode = '22023';
+  end if;
+
+  insert into public.notifications (user_id, kind, actor_id, request_id, title, body)
+  values (
+    case when p_actor_id = r.creator_id then r.client_id else r.creator_id end,
+    'milestone',
+    p_actor_id,
+    r.id,
+    r.title,
+    case p_action
+      when 'submit' then 'submitted'
+      when 'approve' then 'approved'
+      else 'revision_requested'
+    end
+  );
+end;
+$$;
+
+-- クローズはすべてのマイルストーンが承認されてから
+create or replace function public.transition_request_status(
+  p_request_id uuid,
+  p_status text
+)
+returns public.requests
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r public.requests;
+  v_actor uuid := auth.uid();
+  v_from text;
+begin
+  if v_actor is null then
+    raise exception 'not authenticated' using errcode = '42501';
+  end if;
+
+  select * into r from public.requests where id = p_request_id for update;
+
+  if r.id is null then
+    raise exception 'request not found' using errcode = 'P0002';
+  end if;
+
+  if r.creator_id <> v_actor then
+    raise exception 'only the creator can change the request status' using errcode = '42501';
+  end if;
+
+  if not public.is_request_status_transition_allowed(r.status, p_status) then
+    raise exception 'cannot change request status from % to %', r.status, p_status
+      using errcode = '23514';
+  end if;
+
+  if p_status = 'closed' and exists (
+    select 1 from public.milestones m
+    where m.request_id = r.id and m.status <> 'approved'
+  ) then
+    raise exception 'all milestones must be approved before closing' using errcode = '23514';
+  end if;
+
+  v_from := r.status;
+
+  perform set_config('app.request_status_transition', 'on', true);
+
+  update public.requests
+  set status = p_status
+  where id = p_request_id
+  returning * into r;
+
+  perform set_config('app.request_status_transition', 'off', true);
+
+  insert into public.request_events (request_id, actor_id, kind, from_status, to_status)
+  values (r.id, v_actor, 'status_changed', v_from, p_status);
+
+  return r;
+end;
+$$;
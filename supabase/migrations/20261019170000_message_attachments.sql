@@ -0,0 +1,134 @@
+-- supabase/migrations/20261019170000_message_attachments.sql
+-- 依頼メッセージの添付ファイル（参考写真・ラフ・PDF など）
+--   ファイル本体は非公開の attachments バケットの {request_id}/ 以下に置き、
+--   メッセージには添付のメタデータだけを持たせる（Realtime でそのまま届くように jsonb で持つ）
+
+alter table public.messages
+  add column if not exists attachments jsonb not null default '[]'::jsonb;
+
+-- lib/data/attachments.ts と同じルール
+create or replace function public.validate_message_attachments()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  a jsonb;
+begin
+  if jsonb_typeof(new.attachments) <> 'array' then
+    raise exception 'attachments must be an array' using errcode = '22023';
+  end if;
+
+  if jsonb_array_length(new.attachments) > 5 then
+    raise exception 'too many attachments' using errcode = '23514';
+  end if;
+
+  if length(trim(new.body)) = 0 and jsonb_array_length(new.attachments) = 0 then
+    raise exception 'message is empty' using errcode = '23514';
+  end if;
+
+  for a in select * from jsonb_array_elements(new.attachments) loop
+    if coalesce(a->>'path', '') not like new.request_id::text || '/%'
+      or coalesce(length(trim(a->>'name')), 0) = 0
+      or coalesce(a->>'content_type', '') not in (
+        'image/jpeg', 'image/png', 'image/webp', 'image/gif', 'application/pdf'
+      )
+      or coalesce((a->>'size_bytes')::bigint, -1) not between 0 and 10485760
+    then
+      raise exception 'invalid attachment' using errcode = '23514';
+    end if;
+  end loop;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists messages_validate_attachments on public.messages;
+create trigger messages_validate_attachments
+  before insert or update of body, attachments on public.messages
+  for each row execute function public.validate_message_attachments();
+
+-- 添付のみのメッセージは通知の本文を「添付ファイル」にする
+create or replace function public.notify_on_message()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r public.requests;
+begin
+  select * into r from public.requests where id = new.request_id;
+  if r.id is null then
+    return new;
+  end if;
+
+  if not exists (
+    select 1 from public.messages m where m.request_id = new.request_id and m.id <> new.id
+  ) then
+    return new;
+  end if;
+
+  insert into public.notifications (user_id, kind, actor_id, request_id, message_id, title, body)
+  values (
+    case when new.sender_id = r.creator_id then r.client_id else r.creator_id end,
+    'message',
+    new.sender_id,
+    r.id,
+    new.id,
+    r.title,
+    case
+      when length(trim(new.body)) = 0 then '📎 添付ファイル'
+      else left(new.body, 140)
+    end
+  );
+
+  return new;
+end;
+$$;
+
+-- ---------------------------------------------------------------
+-- Storage：依頼の参加者だけが読み書きできる非公開バケット
+-- ---------------------------------------------------------------
+
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values (
+  'attachments',
+  'attachments',
+  false,
+  10485760,
+  array['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'application/pdf']
+)
+on conflict (id) do nothing;
+
+create policy "attachments bucket: participants can read"
+  on storage.objects for select
+  using (
+    bucket_id = 'attachments'
+    and exists (
+      select 1 from public.requests r
+      where r.id::text = (storage.foldername(name))[1]
+        and auth.uid() in (r.creator_id, r.client_id)
+    )
+  );
+
+-- 辞退・クローズ済みの依頼にはメッセージを送れないので、添付も受け付けない
+create policy "attachments bucket: participants can upload"
+  on storage.objects for insert
+  with check (
+    bucket_id = 'attachments'
+    and exists (
+      select 1 from public.requests r
+      where r.id::text = (storage.foldername(name))[1]
+        and auth.uid() in (r.creator_id, r.client_id)
+        and r.status in ('pending', 'accepted')
+    )
+  );
+
+-- 送信に失敗したときの後片付け用（自分がアップロードしたものだけ）
+create policy "attachments bucket: uploader can delete"
+  on storage.objects for delete
+  using (
+    bucket_id = 'attachments'
+    and owner = auth.uid()
+  );
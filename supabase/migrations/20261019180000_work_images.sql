@@ -0,0 +1,114 @@
+-- supabase/migrations/20261019180000_work_images.sql
+-- 作品の複数画像（並び順 + カバー）
+--   カバー画像の URL は works.image_url にも持たせる（一覧のサムネイル・既存の画面はそのまま使える）
+--   画像一式の置き換えは set_work_images でまとめて行う
+
+create table if not exists public.work_images (
+  id uuid primary key default gen_random_uuid(),
+  work_id uuid not null references public.works (id) on delete cascade,
+  -- works バケット内のパス（バケット外の画像なら null）
+  storage_path text,
+  url text not null check (length(trim(url)) > 0),
+  position integer not null,
+  is_cover boolean not null default false,
+  created_at timestamptz not null default now(),
+  unique (work_id, position)
+);
+
+create unique index if not exists work_images_one_cover_idx
+  on public.work_images (work_id)
+  where is_cover;
+
+-- 既存の 1 枚画像をカバーとして移す
+insert into public.work_images (work_id, storage_path, url, position, is_cover)
+select
+  w.id,
+  substring(w.image_url from '/storage/v1/object/public/works/(.+)$'),
+  w.image_url,
+  0,
+  true
+from public.works w
+where w.image_url is not null
+  and not exists (select 1 from public.work_images i where i.work_id = w.id);
+
+alter table public.work_images enable row level security;
+
+-- 作品本体と同じ見え方（公開作品は誰でも、非公開はオーナーだけ）
+create policy "work_images: readable with the work"
+  on public.work_images for select
+  using (
+    exists (
+      select 1 from public.works w
+      where w.id = work_id
+        and (w.is_public = true or w.creator_id = auth.uid())
+    )
+  );
+
+-- 追加・並び替え・削除は set_work_images からのみ
+
+-- p_images: [{ "storage_path": text | null, "url": text }, ...]（この順に並ぶ）
+create or replace function public.set_work_images(
+  p_work_id uuid,
+  p_images jsonb,
+  p_cover_index integer
+)
+returns setof public.work_images
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  w public.works;
+  v_count integer;
+begin
+  select * into w from public.works where id = p_work_id for update;
+  if w.id is null then
+    raise exception 'work not found' using errcode = 'P0002';
+  end if;
+
+  if auth.uid() is distinct from w.creator_id then
+    raise exception 'only the owner can change work images' using errcode = '42501';
+  end if;
+
+  if jsonb_typeof(p_images) <> 'array' then
+    raise exception 'images must be an array' using errcode = '22023';
+  end if;
+
+  -- lib/data/workImages.ts の WORK_MAX_IMAGES と同じ
+  v_count := jsonb_array_length(p_images);
+  if v_count < 1 or v_count > 10 then
+    raise exception 'a work needs 1 to 10 images' using errcode = '23514';
+  end if;
+
+  if p_cover_index is null or p_cover_index < 0 or p_cover_index >= v_count then
+    raise exception 'invalid cover index' using errcode = '23514';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_images) e
+    where length(trim(coalesce(e->>'url', ''))) = 0
+  ) then
+    raise exception 'invalid image' using errcode = '23514';
+  end if;
+
+  delete from public.work_images where work_id = p_work_id;
+
+  insert into public.work_images (work_id, storage_path, url, position, is_cover)
+  select
+    p_work_id,
+    nullif(e.value->>'storage_path', ''),
+    e.value->>'url',
+    (e.ordinality - 1)::integer,
+    (e.ordinality - 1) = p_cover_index
+  from jsonb_array_elements(p_images) with ordinality as e(value, ordinality);
+
+  update public.works
+  set image_url = (p_images -> p_cover_index) ->> 'url'
+  where id = p_work_id;
+
+  return query
+    select * from public.work_images
+    where work_id = p_work_id
+    order by position;
+end;
+$$;
@@ -0,0 +1,114 @@
+-- supabase/migrations/20261019190000_image_variants.sql
+-- 作品画像の派生画像（サムネイル / 中 / 大 × AVIF / WebP）とサイズ・ぼかし画像
+--   変換は /api/works/images（sharp）で行い、結果の URL 一式を meta（jsonb）に持つ
+--   カバー画像の meta は works.image_meta にも持たせ、一覧ではサムネイルを出す
+--   meta の形：{ width, height, placeholder, variants: { thumb|medium|large: { width, height, avif, webp } } }
+
+alter table public.work_images
+  add column if not exists meta jsonb;
+
+alter table public.works
+  add column if not exists image_meta jsonb;
+
+-- ギャラリーにも載せる（列は末尾に足す）
+create or replace view public.work_gallery
+with (security_invoker = true)
+as
+select
+  w.id,
+  w.creator_id,
+  w.title,
+  w.description,
+  w.image_url,
+  w.tags,
+  w.is_public,
+  w.created_at,
+  p.display_name as creator_name,
+  p.genre as creator_genre,
+  p.area as creator_area,
+  coalesce(l.likes_count, 0)::integer as likes_count,
+  w.image_meta
+from public.works w
+join public.profiles p on p.id = w.creator_id
+left join (
+  select work_id, count(*) as likes_count
+  from public.work_likes
+  group by work_id
+) l on l.work_id = w.id
+where w.is_public = true;
+
+-- p_images: [{ "storage_path": text | null, "url": text, "meta": jsonb | null }, ...]
+create or replace function public.set_work_images(
+  p_work_id uuid,
+  p_images jsonb,
+  p_cover_index integer
+)
+returns setof public.work_images
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  w public.works;
+  v_count integer;
+begin
+  select * into w from public.works where id = p_work_id for update;
+  if w.id is null then
+    raise exception 'work not found' using errcode = 'P0002';
+  end if;
+
+  if auth.uid() is distinct from w.creator_id then
+    raise exception 'only the owner can change work images' using errcode = '42501';
+  end if;
+
+  if jsonb_typeof(p_images) <> 'array' then
+    raise exception 'images must be an array' using errcode = '22023';
+  end if;
+
+  v_count := jsonb_array_length(p_images);
+  if v_count < 1 or v_count > 10 then
+    raise exception 'a work needs 1 to 10 images' using errcode = '23514';
+  end if;
+
+  if p_cover_index is null or p_cover_index < 0 or p_cover_index >= v_count then
+    raise exception 'invalid cover index' using errcode = '23514';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_images) e
+    where length(trim(coalesce(e->>'url', ''))) = 0
+      or (
+        jsonb_typeof(e->'meta') = 'object'
+        and jsonb_typeof(e->'meta'->'variants') is distinct from 'object'
+      )
+  ) then
+    raise exception 'invalid image' using errcode = '23514';
+  end if;
+
+  delete from public.work_images where work_id = p_work_id;
+
+  insert into public.work_images (work_id, storage_path, url, meta, position, is_cover)
+  select
+    p_work_id,
+    nullif(e.value->>'storage_path', ''),
+    e.value->>'url',
+    case when jsonb_typeof(e.value->'meta') = 'object' then e.value->'meta' end,
+    (e.ordinality - 1)::integer,
+    (e.ordinality - 1) = p_cover_index
+  from jsonb_array_elements(p_images) with ordinality as e(value, ordinality);
+
+  update public.works
+  set
+    image_url = (p_images -> p_cover_index) ->> 'url',
+    image_meta = case
+      when jsonb_typeof((p_images -> p_cover_index) -> 'meta') = 'object'
+        then (p_images -> p_cover_index) -> 'meta'
+    end
+  where id = p_work_id;
+
+  return query
+    select * from public.work_images
+    where work_id = p_work_id
+    order by position;
+end;
+$$;
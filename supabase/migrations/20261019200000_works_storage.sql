@@ -0,0 +1,47 @@
+-- supabase/migrations/20261019200000_works_storage.sql
+-- 作品画像（works バケット）の置き場所と権限
+--   パスは images/{user_id}/{uuid}/{size}.{format} に統一（/api/works/images がユーザーの権限で置く）
+--   差し替え・削除された画像は画面側で消し、取りこぼしは /api/maintenance/storage で回収する
+--   以前の画面がバケット直下（{work_id}-{timestamp}.{ext}）に置いたファイルは、アップロードした本人だけが消せる
+
+insert into storage.buckets (id, name, public)
+values ('works', 'works', true)
+on conflict (id) do nothing;
+
+drop policy if exists "works bucket: owner can upload" on storage.objects;
+create policy "works bucket: owner can upload"
+  on storage.objects for insert
+  with check (
+    bucket_id = 'works'
+    and (storage.foldername(name))[1] = 'images'
+    and (storage.foldername(name))[2] = auth.uid()::text
+  );
+
+-- remove() は select と delete の両方の権限が要る
+drop policy if exists "works bucket: owner can read" on storage.objects;
+create policy "works bucket: owner can read"
+  on storage.objects for select
+  using (
+    bucket_id = 'works'
+    and (
+      (
+        (storage.foldername(name))[1] = 'images'
+        and (storage.foldername(name))[2] = auth.uid()::text
+      )
+      or owner = auth.uid()
+    )
+  );
+
+drop policy if exists "works bucket: owner can delete" on storage.objects;
+create policy "works bucket: owner can delete"
+  on storage.objects for delete
+  using (
+    bucket_id = 'works'
+    and (
+      (
+        (storage.foldername(name))[1] = 'images'
+        and (storage.foldername(name))[2] = auth.uid()::text
+      )
+      or owner = auth.uid()
+    )
+  );
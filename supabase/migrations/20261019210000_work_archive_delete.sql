@@ -0,0 +1,235 @@
+-- supabase/migrations/20261019210000_work_archive_delete.sql
+-- 作品のアーカイブと削除
+--   アーカイブ：一覧・プロフィールから外す（オーナーはいつでも戻せる）
+--   削除：deleted_at を入れて 7 日間は元に戻せる。過ぎたものは purge_deleted_works（/api/maintenance/works）で
+--         行ごと消す（work_likes・work_images・通知は外部キーで一緒に消え、依頼は残して work_deleted_at を入れる）
+
+alter table public.works
+  add column if not exists archived_at timestamptz,
+  add column if not exists deleted_at timestamptz;
+
+create index if not exists works_deleted_at_idx
+  on public.works (deleted_at)
+  where deleted_at is not null;
+
+-- 作品が消えたあとも「作品は削除されました」と出せるように
+alter table public.requests
+  add column if not exists work_deleted_at timestamptz;
+
+-- ギャラリーからアーカイブ・削除済みを外す
+create or replace view public.work_gallery
+with (security_invoker = true)
+as
+select
+  w.id,
+  w.creator_id,
+  w.title,
+  w.description,
+  w.image_url,
+  w.tags,
+  w.is_public,
+  w.created_at,
+  p.display_name as creator_name,
+  p.genre as creator_genre,
+  p.area as creator_area,
+  coalesce(l.likes_count, 0)::integer as likes_count,
+  w.image_meta
+from public.works w
+join public.profiles p on p.id = w.creator_id
+left join (
+  select work_id, count(*) as likes_count
+  from public.work_likes
+  group by work_id
+) l on l.work_id = w.id
+where w.is_public = true
+  and w.archived_at is null
+  and w.deleted_at is null;
+
+-- アーカイブ / 解除（オーナーだけ）
+create or replace function public.set_work_archived(p_work_id uuid, p_archived boolean)
+returns public.works
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  w public.works;
+begin
+  select * into w from public.works where id = p_work_id for update;
+  if w.id is null then
+    raise exception 'work not found' using errcode = 'P0002';
+  end if;
+
+  if auth.uid() is distinct from w.creator_id then
+    raise exception 'only the owner can archive the work' using errcode = '42501';
+  end if;
+
+  if w.deleted_at is not null then
+    raise exception 'work is deleted' using errcode = '22023';
+  end if;
+
+  update public.works
+  set archived_at = case when p_archived then coalesce(w.archived_at, now()) end
+  where id = p_work_id
+  returning * into w;
+
+  return w;
+end;
+$$;
+
+-- 削除（元に戻せる期間つき）
+create or replace function public.delete_work(p_work_id uuid)
+returns public.works
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  w public.works;
+begin
+  select * into w from public.works where id = p_work_id for update;
+  if w.id is null then
+    raise exception 'work not found' using errcode = 'P0002';
+  end if;
+
+  if auth.uid() is distinct from w.creator_id then
+    raise exception 'only the owner can delete the work' using errcode = '42501';
+  end if;
+
+  update public.works
+  set deleted_at = coalesce(w.deleted_at, now())
+  where id = p_work_id
+  returning * into w;
+
+  return w;
+end;
+$$;
+
+-- 元に戻す（lib/data/workStatus.ts の WORK_DELETE_UNDO_DAYS と同じ 7 日）
+create or replace function public.restore_work(p_work_id uuid)
+returns public.works
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  w public.works;
+begin
+  select * into w from public.works where id = p_work_id for update;
+  if w.id is null then
+    raise exception 'work not found' using errcode = 'P0002';
+  end if;
+
+  if auth.uid() is distinct from w.creator_id then
+    raise exception 'only the owner can restore the work' using errcode = '42501';
+  end if;
+
+  if w.deleted_at is null then
+    return w;
+  end if;
+
+  if w.deleted_at < now() - interval '7 days' then
+    raise exception 'the undo window has passed' using errcode = '22023';
+  end if;
+
+  update public.works
+  set deleted_at = null
+  where id = p_work_id
+  returning * into w;
+
+  return w;
+end;
+$$;
+
+-- アーカイブ・削除済みの作品には、いいね・依頼を付けられない
+create or replace function public.guard_work_available()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.work_id is null then
+    return new;
+  end if;
+
+  if exists (
+    select 1 from public.works w
+    where w.id = new.work_id
+      and (w.archived_at is not null or w.deleted_at is not null)
+  ) then
+    raise exception 'work is not available' using errcode = '23514';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists work_likes_guard_work on public.work_likes;
+create trigger work_likes_guard_work
+  before insert on public.work_likes
+  for each row execute function public.guard_work_available();
+
+drop trigger if exists requests_guard_work on public.requests;
+create trigger requests_guard_work
+  before insert on public.requests
+  for each row execute function public.guard_work_available();
+
+-- 行を消す前に、参照している依頼へ削除日時を残す（work_id は外部キーで null になる）
+create or replace function public.mark_requests_work_deleted()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.requests
+  set work_deleted_at = coalesce(old.deleted_at, now())
+  where work_id = old.id;
+
+  return old;
+end;
+$$;
+
+drop trigger if exists works_mark_requests_deleted on public.works;
+create trigger works_mark_requests_deleted
+  before delete on public.works
+  for each row execute function public.mark_requests_work_deleted();
+
+-- 元に戻せる期間を過ぎた作品を消し、ストレージから消すファイルを返す（service role 専用）
+create or replace function public.purge_deleted_works(p_undo_window interval default interval '7 days')
+returns table (work_id uuid, storage_path text, meta jsonb, image_url text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_ids uuid[];
+begin
+  select array_agg(w.id) into v_ids
+  from public.works w
+  where w.deleted_at is not null
+    and w.deleted_at < now() - p_undo_window;
+
+  if v_ids is null then
+    return;
+  end if;
+
+  return query
+    select i.work_id, i.storage_path, i.meta, i.url
+    from public.work_images i
+    where i.work_id = any (v_ids)
+    union all
+    -- work_images がない古い作品は image_url の 1 枚だけ
+    select w.id, null::text, null::jsonb, w.image_url
+    from public.works w
+    where w.id = any (v_ids)
+      and w.image_url is not null
+      and not exists (select 1 from public.work_images i where i.work_id = w.id);
+
+  delete from public.works w where w.id = any (v_ids);
+end;
+$$;
+
+revoke all on function public.purge_deleted_works(interval) from public, anon, authenticated;
+grant execute on function public.purge_deleted_works(interval) to service_role;
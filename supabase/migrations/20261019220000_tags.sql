@@ -0,0 +1,270 @@
+-- supabase/migrations/20261019220000_tags.sql
+-- 作品タグの正規化（tags ＋ work_tags）
+--   同じタグかどうかは slug（NFKC・先頭の # を除く・小文字・空白は -）で判定する（lib/data/tags.ts と同じ）
+--   works.tags は表示・キーワード検索用のキャッシュ（タグ名のカンマ区切り）。書き込むのは set_work_tags だけ
+
+create or replace function public.tag_display_name(p_name text)
+returns text
+language sql
+immutable
+as $$
+  select btrim(regexp_replace(
+    regexp_replace(normalize(coalesce(p_name, ''), NFKC), '^\s*#+', ''),
+    '\s+', ' ', 'g'
+  ));
+$$;
+
+create or replace function public.tag_slug(p_name text)
+returns text
+language sql
+immutable
+as $$
+  select lower(replace(public.tag_display_name(p_name), ' ', '-'));
+$$;
+
+create table if not exists public.tags (
+  id uuid primary key default gen_random_uuid(),
+  slug text not null unique check (length(slug) between 1 and 30),
+  -- 最初に使われたときの表記
+  name text not null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.work_tags (
+  work_id uuid not null references public.works (id) on delete cascade,
+  tag_id uuid not null references public.tags (id) on delete cascade,
+  position integer not null default 0,
+  primary key (work_id, tag_id)
+);
+
+create index if not exists work_tags_tag_id_idx on public.work_tags (tag_id);
+
+alter table public.tags enable row level security;
+alter table public.work_tags enable row level security;
+
+drop policy if exists "tags: anyone can read" on public.tags;
+create policy "tags: anyone can read"
+  on public.tags for select
+  using (true);
+
+-- 非公開・アーカイブ・削除済みの作品のタグはオーナーだけ
+drop policy if exists "work_tags: visible with the work" on public.work_tags;
+create policy "work_tags: visible with the work"
+  on public.work_tags for select
+  using (
+    exists (
+      select 1 from public.works w
+      where w.id = work_id
+        and (
+          (w.is_public = true and w.archived_at is null and w.deleted_at is null)
+          or w.creator_id = auth.uid()
+        )
+    )
+  );
+
+-- 既存の works.tags（カンマ区切り）を移す
+insert into public.tags (slug, name)
+select distinct on (public.tag_slug(t.name)) public.tag_slug(t.name), public.tag_display_name(t.name)
+from public.works w
+cross join lateral regexp_split_to_table(coalesce(w.tags, ''), ',') as t(name)
+where length(public.tag_slug(t.name)) between 1 and 30
+order by public.tag_slug(t.name), w.created_at
+on conflict (slug) do nothing;
+
+insert into public.work_tags (work_id, tag_id, position)
+select s.work_id, tg.id, s.position
+from (
+  select distinct on (w.id, public.tag_slug(t.name))
+    w.id as work_id,
+    public.tag_slug(t.name) as slug,
+    (t.ordinality - 1)::integer as position
+  from public.works w
+  cross join lateral regexp_split_to_table(coalesce(w.tags, ''), ',')
+    with ordinality as t(name, ordinality)
+  where length(public.tag_slug(t.name)) between 1 and 30
+  order by w.id, public.tag_slug(t.name), t.ordinality
+) s
+join public.tags tg on tg.slug = s.slug
+on conflict do nothing;
+
+update public.works w
+set tags = (
+  select string_agg(tg.name, ',' order by wt.position)
+  from public.work_tags wt
+  join public.tags tg on tg.id = wt.tag_id
+  where wt.work_id = w.id
+);
+
+-- タグごとの公開作品数（発見用。work_gallery と同じ条件で数える）
+create or replace view public.tag_stats
+with (security_invoker = true)
+as
+select
+  t.id,
+  t.slug,
+  t.name,
+  t.created_at,
+  count(g.id)::integer as works_count
+from public.tags t
+left join public.work_tags wt on wt.tag_id = t.id
+left join public.work_gallery g on g.id = wt.work_id
+group by t.id;
+
+-- 補完・人気タグ（公開作品が 1 件以上あるもの。前方一致 → 作品数の多い順）
+create or replace function public.list_tags(p_q text default null, p_limit integer default 20)
+returns setof public.tag_stats
+language sql
+stable
+as $$
+  select s.*
+  from public.tag_stats s
+  where s.works_count > 0
+    and (
+      nullif(public.tag_slug(p_q), '') is null
+      or strpos(s.slug, public.tag_slug(p_q)) > 0
+    )
+  order by
+    case
+      when nullif(public.tag_slug(p_q), '') is not null
+        and left(s.slug, length(public.tag_slug(p_q))) = public.tag_slug(p_q)
+        then 0
+      else 1
+    end,
+    s.works_count desc,
+    s.name
+  limit least(greatest(coalesce(p_limit, 20), 1), 100);
+$$;
+
+-- 作品のタグを並び順どおりに置き換える（最大 10 個・1 つ 30 文字まで。同じ slug は先のものを残す）
+create or replace function public.set_work_tags(p_work_id uuid, p_names text[])
+returns setof public.tags
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  w public.works;
+  v_slugs text[];
+  v_names text[];
+begin
+  select * into w from public.works where id = p_work_id for update;
+  if w.id is null then
+    raise exception 'work not found' using errcode = 'P0002';
+  end if;
+
+  if auth.uid() is distinct from w.creator_id then
+    raise exception 'only the owner can change work tags' using errcode = '42501';
+  end if;
+
+  select
+    coalesce(array_agg(d.slug order by d.position), '{}'),
+    coalesce(array_agg(d.name order by d.position), '{}')
+  into v_slugs, v_names
+  from (
+    select distinct on (public.tag_slug(n.name))
+      public.tag_slug(n.name) as slug,
+      public.tag_display_name(n.name) as name,
+      n.ordinality as position
+    from unnest(coalesce(p_names, '{}'::text[])) with ordinality as n(name, ordinality)
+    where length(public.tag_slug(n.name)) > 0
+    order by public.tag_slug(n.name), n.ordinality
+  ) d;
+
+  if cardinality(v_slugs) > 10 then
+    raise exception 'a work can have up to 10 tags' using errcode = '23514';
+  end if;
+
+  if exists (select 1 from unnest(v_slugs) as s(slug) where length(s.slug) > 30) then
+    raise exception 'tag is too long' using errcode = '23514';
+  end if;
+
+  insert into public.tags (slug, name)
+  select s.slug, s.name
+  from unnest(v_slugs, v_names) as s(slug, name)
+  on conflict (slug) do nothing;
+
+  delete from public.work_tags where work_id = p_work_id;
+
+  insert into public.work_tags (work_id, tag_id, position)
+  select p_work_id, t.id, (s.ordinality - 1)::integer
+  from unnest(v_slugs) with ordinality as s(slug, ordinality)
+  join public.tags t on t.slug = s.slug;
+
+  update public.works
+  set tags = nullif(array_to_string(
+    array(
+      select t.name
+      from public.work_tags wt
+      join public.tags t on t.id = wt.tag_id
+      where wt.work_id = p_work_id
+      order by wt.position
+    ),
+    ','
+  ), '')
+  where id = p_work_id;
+
+  return query
+    select t.*
+    from public.work_tags wt
+    join public.tags t on t.id = wt.tag_id
+    where wt.work_id = p_work_id
+    order by wt.position;
+end;
+$$;
+
+-- ギャラリーにタグ（slug）の絞り込みを足す（引数が変わるので作り直す）
+drop function if exists public.list_gallery_works(text, text, text, text, integer, timestamptz, uuid, integer);
+
+create or replace function public.list_gallery_works(
+  p_q text default null,
+  p_genre text default null,
+  p_area text default null,
+  p_sort text default 'newest',
+  p_cursor_likes integer default null,
+  p_cursor_created_at timestamptz default null,
+  p_cursor_id uuid default null,
+  p_limit integer default 24,
+  p_tag text default null
+)
+returns setof public.work_gallery
+language sql
+stable
+as $$
+  select g.*
+  from public.work_gallery g
+  where (
+      p_q is null
+      or strpos(
+        lower(concat_ws(' ', g.title, g.description, g.tags, g.creator_name)),
+        lower(p_q)
+      ) > 0
+    )
+    and (p_genre is null or g.creator_genre = p_genre)
+    and (p_area is null or g.creator_area = p_area)
+    and (
+      p_tag is null
+      or exists (
+        select 1
+        from public.work_tags wt
+        join public.tags t on t.id = wt.tag_id
+        where wt.work_id = g.id and t.slug = p_tag
+      )
+    )
+    and (
+      p_cursor_id is null
+      or (
+        p_sort = 'popular'
+        and (g.likes_count, g.created_at, g.id)
+          < (p_cursor_likes, p_cursor_created_at, p_cursor_id)
+      )
+      or (
+        p_sort <> 'popular'
+        and (g.created_at, g.id) < (p_cursor_created_at, p_cursor_id)
+      )
+    )
+  order by
+    case when p_sort = 'popular' then g.likes_count end desc nulls last,
+    g.created_at desc,
+    g.id desc
+  limit least(greatest(coalesce(p_limit, 24), 1), 100);
+$$;
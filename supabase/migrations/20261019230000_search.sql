@@ -0,0 +1,216 @@
+-- supabase/migrations/20261019230000_search.sql
+-- 日本語のキーワード検索（作品・クリエイター）
+--   全角 / 半角（NFKC）・大文字 / 小文字・カタカナ / ひらがなの違いをそろえて部分一致で探す（lib/data/search.ts と同じ）
+--   空白区切りの語はすべて含むものだけ。項目ごとの重みを足した search_rank で関連度順に並べる
+
+create or replace function public.search_fold(p_text text)
+returns text
+language sql
+immutable
+as $$
+  select translate(
+    lower(normalize(coalesce(p_text, ''), NFKC)),
+    'ァアィイゥウェエォオカガキギクグケゲコゴサザシジスズセゼソゾタダチヂッツヅテデトドナニヌネノハバパヒビピフブプヘベペホボポマミムメモャヤュユョヨラリルレロヮワヰヱヲンヴヵヶ',
+    'ぁあぃいぅうぇえぉおかがきぎくぐけげこごさざしじすずせぜそぞただちぢっつづてでとどなにぬねのはばぱひびぴふぶぷへべぺほぼぽまみむめもゃやゅゆょよらりるれろゎわゐゑをんゔゕゖ'
+  );
+$$;
+
+-- 空白区切りの語（重複を除いて先頭から 5 個）
+create or replace function public.search_terms(p_q text)
+returns text[]
+language sql
+immutable
+as $$
+  select coalesce((array_agg(s.term order by s.first_pos))[1:5], '{}')
+  from (
+    select t.term, min(t.pos) as first_pos
+    from regexp_split_to_table(public.search_fold(p_q), '\s+') with ordinality as t(term, pos)
+    where t.term <> ''
+    group by t.term
+  ) s;
+$$;
+
+-- 一覧にクリエイターの自己紹介を足す（検索対象。列は末尾に追加）
+create or replace view public.work_gallery
+with (security_invoker = true)
+as
+select
+  w.id,
+  w.creator_id,
+  w.title,
+  w.description,
+  w.image_url,
+  w.tags,
+  w.is_public,
+  w.created_at,
+  p.display_name as creator_name,
+  p.genre as creator_genre,
+  p.area as creator_area,
+  coalesce(l.likes_count, 0)::integer as likes_count,
+  w.image_meta,
+  p.bio as creator_bio
+from public.works w
+join public.profiles p on p.id = w.creator_id
+left join (
+  select work_id, count(*) as likes_count
+  from public.work_likes
+  group by work_id
+) l on l.work_id = w.id
+where w.is_public = true
+  and w.archived_at is null
+  and w.deleted_at is null;
+
+-- 作品の一致度（含まない語が 1 つでもあれば 0）
+--   タイトル 8・タグ 5・クリエイター名 4・ジャンル 3・説明 2・自己紹介 1
+create or replace function public.work_search_rank(g public.work_gallery, p_terms text[])
+returns integer
+language sql
+immutable
+as $$
+  select case when bool_and(m.score > 0) then sum(m.score)::integer else 0 end
+  from (
+    select
+      (case when strpos(public.search_fold(g.title), t.term) > 0 then 8 else 0 end)
+      + (case when strpos(public.search_fold(g.tags), t.term) > 0 then 5 else 0 end)
+      + (case when strpos(public.search_fold(g.creator_name), t.term) > 0 then 4 else 0 end)
+      + (case when strpos(public.search_fold(g.creator_genre), t.term) > 0 then 3 else 0 end)
+      + (case when strpos(public.search_fold(g.description), t.term) > 0 then 2 else 0 end)
+      + (case when strpos(public.search_fold(g.creator_bio), t.term) > 0 then 1 else 0 end)
+      as score
+    from unnest(p_terms) as t(term)
+  ) m;
+$$;
+
+-- 関連度順（p_sort = 'relevance'）を足し、search_rank も返す（戻り値が変わるので作り直す）
+drop function if exists public.list_gallery_works(
+  text, text, text, text, integer, timestamptz, uuid, integer, text
+);
+
+create or replace function public.list_gallery_works(
+  p_q text default null,
+  p_genre text default null,
+  p_area text default null,
+  p_sort text default 'newest',
+  p_cursor_likes integer default null,
+  p_cursor_created_at timestamptz default null,
+  p_cursor_id uuid default null,
+  p_limit integer default 24,
+  p_tag text default null,
+  p_cursor_rank integer default null
+)
+returns table (
+  id uuid,
+  creator_id uuid,
+  title text,
+  description text,
+  image_url text,
+  tags text,
+  is_public boolean,
+  created_at timestamptz,
+  creator_name text,
+  creator_genre text,
+  creator_area text,
+  likes_count integer,
+  image_meta jsonb,
+  creator_bio text,
+  search_rank integer
+)
+language sql
+stable
+as $$
+  with hits as (
+    select
+      g.*,
+      case
+        when cardinality(public.search_terms(p_q)) > 0
+          then public.work_search_rank(g, public.search_terms(p_q))
+        else 0
+      end as search_rank
+    from public.work_gallery g
+    where (p_genre is null or g.creator_genre = p_genre)
+      and (p_area is null or g.creator_area = p_area)
+      and (
+        p_tag is null
+        or exists (
+          select 1
+          from public.work_tags wt
+          join public.tags t on t.id = wt.tag_id
+          where wt.work_id = g.id and t.slug = p_tag
+        )
+      )
+  )
+  select h.*
+  from hits h
+  where (cardinality(public.search_terms(p_q)) = 0 or h.search_rank > 0)
+    and (
+      p_cursor_id is null
+      or (
+        p_sort = 'popular'
+        and (h.likes_count, h.created_at, h.id)
+          < (p_cursor_likes, p_cursor_created_at, p_cursor_id)
+      )
+      or (
+        p_sort = 'relevance'
+        and (h.search_rank, h.created_at, h.id)
+          < (p_cursor_rank, p_cursor_created_at, p_cursor_id)
+      )
+      or (
+        p_sort not in ('popular', 'relevance')
+        and (h.created_at, h.id) < (p_cursor_created_at, p_cursor_id)
+      )
+    )
+  order by
+    case when p_sort = 'popular' then h.likes_count end desc nulls last,
+    case when p_sort = 'relevance' then h.search_rank end desc nulls last,
+    h.created_at desc,
+    h.id desc
+  limit least(greatest(coalesce(p_limit, 24), 1), 100);
+$$;
+
+-- クリエイターの検索（名前 8・ジャンル 4・エリア 3・自己紹介 2）。works_count は公開中の作品数
+create or replace function public.search_creators(p_q text, p_limit integer default 10)
+returns table (
+  id uuid,
+  display_name text,
+  role text,
+  bio text,
+  genre text,
+  area text,
+  instagram_url text,
+  works_count integer,
+  search_rank integer
+)
+language sql
+stable
+as $$
+  select *
+  from (
+    select
+      p.id,
+      p.display_name,
+      p.role,
+      p.bio,
+      p.genre,
+      p.area,
+      p.instagram_url,
+      (select count(*) from public.work_gallery g where g.creator_id = p.id)::integer
+        as works_count,
+      (
+        select case when bool_and(m.score > 0) then sum(m.score)::integer else 0 end
+        from (
+          select
+            (case when strpos(public.search_fold(p.display_name), t.term) > 0 then 8 else 0 end)
+            + (case when strpos(public.search_fold(p.genre), t.term) > 0 then 4 else 0 end)
+            + (case when strpos(public.search_fold(p.area), t.term) > 0 then 3 else 0 end)
+            + (case when strpos(public.search_fold(p.bio), t.term) > 0 then 2 else 0 end)
+            as score
+          from unnest(public.search_terms(p_q)) as t(term)
+        ) m
+      ) as search_rank
+    from public.profiles p
+    where p.role = 'creator'
+  ) c
+  where c.search_rank > 0
+  order by c.search_rank desc, c.works_count desc, c.display_name
+  limit least(greatest(coalesce(p_limit, 10), 1), 50);
+$$;
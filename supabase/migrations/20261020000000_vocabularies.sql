@@ -0,0 +1,459 @@
+-- supabase/migrations/20261020000000_vocabularies.sql
+-- ジャンル・活動エリアのマスタ（lib/data/vocabularies.ts と同じ内容）
+--   プロフィールは genre_slugs / area_codes（複数選択）で持つ。profiles.genre / area は表示・検索用のキャッシュで、
+--   トリガーがマスタの名前から作り直す（「東京」「東京都」「Tokyo」が別の絞り込みにならないように）
+
+create table if not exists public.genres (
+  slug text primary key,
+  name text not null,
+  position integer not null default 0
+);
+
+-- 都道府県（parent_code が null）→ 市区
+create table if not exists public.areas (
+  code text primary key,
+  name text not null,
+  parent_code text references public.areas (code),
+  position integer not null default 0
+);
+
+alter table public.genres enable row level security;
+alter table public.areas enable row level security;
+
+drop policy if exists "genres: anyone can read" on public.genres;
+create policy "genres: anyone can read"
+  on public.genres for select
+  using (true);
+
+drop policy if exists "areas: anyone can read" on public.areas;
+create policy "areas: anyone can read"
+  on public.areas for select
+  using (true);
+
+insert into public.genres (slug, name, position) values
+  ('hair-makeup', 'ヘアメイク', 0),
+  ('nail', 'ネイル', 1),
+  ('styling', 'スタイリング', 2),
+  ('photo', '撮影', 3),
+  ('video', '映像', 4),
+  ('illustration', 'イラスト', 5),
+  ('design', 'デザイン', 6),
+  ('music', '音楽', 7),
+  ('writing', 'ライティング', 8),
+  ('handmade', 'ハンドメイド', 9),
+  ('other', 'その他', 10)
+on conflict (slug) do update set name = excluded.name, position = excluded.position;
+
+-- 都道府県コード順 ＋ オンライン、市区は政令指定都市と東京 23 区（全国地方公共団体コードの上 5 桁）
+insert into public.areas (code, name, parent_code, position) values
+  ('01', '北海道', null, 0),
+  ('02', '青森県', null, 1),
+  ('03', '岩手県', null, 2),
+  ('04', '宮城県', null, 3),
+  ('05', '秋田県', null, 4),
+  ('06', '山形県', null, 5),
+  ('07', '福島県', null, 6),
+  ('08', '茨城県', null, 7),
+  ('09', '栃木県', null, 8),
+  ('10', '群馬県', null, 9),
+  ('11', '埼玉県', null, 10),
+  ('12', '千葉県', null, 11),
+  ('13', '東京都', null, 12),
+  ('14', '神奈川県', null, 13),
+  ('15', '新潟県', null, 14),
+  ('16', '富山県', null, 15),
+  ('17', '石川県', null, 16),
+  ('18', '福井県', null, 17),
+  ('19', '山梨県', null, 18),
+  ('20', '長野県', null, 19),
+  ('21', '岐阜県', null, 20),
+  ('22', '静岡県', null, 21),
+  ('23', '愛知県', null, 22),
+  ('24', '三重県', null, 23),
+  ('25', '滋賀県', null, 24),
+  ('26', '京都府', null, 25),
+  ('27', '大阪府', null, 26),
+  ('28', '兵庫県', null, 27),
+  ('29', '奈良県', null, 28),
+  ('30', '和歌山県', null, 29),
+  ('31', '鳥取県', null, 30),
+  ('32', '島根県', null, 31),
+  ('33', '岡山県', null, 32),
+  ('34', '広島県', null, 33),
+  ('35', '山口県', null, 34),
+  ('36', '徳島県', null, 35),
+  ('37', '香川県', null, 36),
+  ('38', '愛媛県', null, 37),
+  ('39', '高知県', null, 38),
+  ('40', '福岡県', null, 39),
+  ('41', '佐賀県', null, 40),
+  ('42', '長崎県', null, 41),
+  ('43', '熊本県', null, 42),
+  ('44', '大分県', null, 43),
+  ('45', '宮崎県', null, 44),
+  ('46', '鹿児島県', null, 45),
+  ('47', '沖縄県', null, 46),
+  ('online', 'オンライン', null, 47),
+  ('01100', '札幌市', '01', 0),
+  ('04100', '仙台市', '04', 1),
+  ('11100', 'さいたま市', '11', 2),
+  ('12100', '千葉市', '12', 3),
+  ('13101', '千代田区', '13', 4),
+  ('13102', '中央区', '13', 5),
+  ('13103', '港区', '13', 6),
+  ('13104', '新宿区', '13', 7),
+  ('13105', '文京区', '13', 8),
+  ('13106', '台東区', '13', 9),
+  ('13107', '墨田区', '13', 10),
+  ('13108', '江東区', '13', 11),
+  ('13109', '品川区', '13', 12),
+  ('13110', '目黒区', '13', 13),
+  ('13111', '大田区', '13', 14),
+  ('13112', '世田谷区', '13', 15),
+  ('13113', '渋谷区', '13', 16),
+  ('13114', '中野区', '13', 17),
+  ('13115', '杉並区', '13', 18),
+  ('13116', '豊島区', '13', 19),
+  ('13117', '北区', '13', 20),
+  ('13118', '荒川区', '13', 21),
+  ('13119', '板橋区', '13', 22),
+  ('13120', '練馬区', '13', 23),
+  ('13121', '足立区', '13', 24),
+  ('13122', '葛飾区', '13', 25),
+  ('13123', '江戸川区', '13', 26),
+  ('14100', '横浜市', '14', 27),
+  ('14130', '川崎市', '14', 28),
+  ('14150', '相模原市', '14', 29),
+  ('15100', '新潟市', '15', 30),
+  ('22100', '静岡市', '22', 31),
+  ('22130', '浜松市', '22', 32),
+  ('23100', '名古屋市', '23', 33),
+  ('26100', '京都市', '26', 34),
+  ('27100', '大阪市', '27', 35),
+  ('27140', '堺市', '27', 36),
+  ('28100', '神戸市', '28', 37),
+  ('33100', '岡山市', '33', 38),
+  ('34100', '広島市', '34', 39),
+  ('40100', '北九州市', '40', 40),
+  ('40130', '福岡市', '40', 41),
+  ('43100', '熊本市', '43', 42)
+on conflict (code) do update
+  set name = excluded.name, parent_code = excluded.parent_code, position = excluded.position;
+
+alter table public.profiles
+  add column if not exists genre_slugs text[] not null default '{}',
+  add column if not exists area_codes text[] not null default '{}';
+
+-- 表示名（市区は「東京都渋谷区」のように都道府県を付ける）
+create or replace function public.area_label(p_code text)
+returns text
+language sql
+stable
+as $$
+  select coalesce(parent.name, '') || a.name
+  from public.areas a
+  left join public.areas parent on parent.code = a.parent_code
+  where a.code = p_code;
+$$;
+
+-- 重複を除いてマスタにあるか・個数（5 個まで）を確かめ、変わった方のキャッシュを作り直す
+create or replace function public.profiles_apply_vocabularies()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.genre_slugs := array(
+    select u.slug
+    from unnest(coalesce(new.genre_slugs, '{}')) with ordinality as u(slug, pos)
+    group by u.slug
+    order by min(u.pos)
+  );
+  new.area_codes := array(
+    select u.code
+    from unnest(coalesce(new.area_codes, '{}')) with ordinality as u(code, pos)
+    group by u.code
+    order by min(u.pos)
+  );
+
+  if cardinality(new.genre_slugs) > 5 then
+    raise exception 'a profile can have up to 5 genres' using errcode = '23514';
+  end if;
+  if cardinality(new.area_codes) > 5 then
+    raise exception 'a profile can have up to 5 areas' using errcode = '23514';
+  end if;
+
+  if exists (
+    select 1 from unnest(new.genre_slugs) as u(slug)
+    where not exists (select 1 from public.genres g where g.slug = u.slug)
+  ) then
+    raise exception 'unknown genre' using errcode = '23514';
+  end if;
+  if exists (
+    select 1 from unnest(new.area_codes) as u(code)
+    where not exists (select 1 from public.areas a where a.code = u.code)
+  ) then
+    raise exception 'unknown area' using errcode = '23514';
+  end if;
+
+  if tg_op = 'INSERT' or new.genre_slugs is distinct from old.genre_slugs then
+    new.genre := nullif(array_to_string(array(
+      select g.name
+      from unnest(new.genre_slugs) with ordinality as u(slug, pos)
+      join public.genres g on g.slug = u.slug
+      order by u.pos
+    ), '、'), '');
+  end if;
+
+  if tg_op = 'INSERT' or new.area_codes is distinct from old.area_codes then
+    new.area := nullif(array_to_string(array(
+      select public.area_label(u.code)
+      from unnest(new.area_codes) with ordinality as u(code, pos)
+      order by u.pos
+    ), '、'), '');
+  end if;
+
+  return new;
+end;
+$$;
+
+-- 既存の自由入力をマスタに寄せる（書かれている順に 5 個まで）。当てはまらないものはそのまま残す。
+-- トリガーを作る前に流すので、genre / area の自由入力は書き換わらない（本人が次に保存したときにマスタの名前になる）
+update public.profiles p
+set genre_slugs = m.slugs
+from (
+  select
+    p2.id,
+    array(
+      select g.slug
+      from public.genres g
+      where strpos(public.search_fold(p2.genre), public.search_fold(g.name)) > 0
+      order by strpos(public.search_fold(p2.genre), public.search_fold(g.name)), g.position
+      limit 5
+    ) as slugs
+  from public.profiles p2
+  where p2.genre is not null
+) m
+where m.id = p.id
+  and cardinality(m.slugs) > 0;
+
+-- 都道府県は「都・府・県」を省いた書き方（東京・大阪など）も拾う（「京都」は「東京都」にも含まれるので省かない）。
+-- 中央区・北区・港区はほかの政令指定都市にもある（「札幌市北区」「横浜市港北区」にも含まれる）ので、
+-- 「東京」とも書かれているときだけ東京都の区にする
+update public.profiles p
+set area_codes = m.codes
+from (
+  select
+    p2.id,
+    array(
+      select x.code
+      from (
+        select
+          a.code,
+          a.name,
+          a.position,
+          strpos(
+            public.search_fold(p2.area),
+            public.search_fold(
+              case
+                when a.parent_code is null and a.name ~ '.[都府県]$' and a.name <> '京都府'
+                  then left(a.name, -1)
+                else a.name
+              end
+            )
+          ) as pos
+        from public.areas a
+      ) x
+      where x.pos > 0
+        and (
+          x.name not in ('中央区', '北区', '港区')
+          or strpos(public.search_fold(p2.area), public.search_fold('東京')) > 0
+        )
+      order by x.pos, x.position
+      limit 5
+    ) as codes
+  from public.profiles p2
+  where p2.area is not null
+) m
+where m.id = p.id
+  and cardinality(m.codes) > 0;
+
+drop trigger if exists profiles_apply_vocabularies on public.profiles;
+create trigger profiles_apply_vocabularies
+  before insert or update of genre_slugs, area_codes on public.profiles
+  for each row execute function public.profiles_apply_vocabularies();
+
+-- 絞り込みの判定（lib/data/vocabularies.ts の matchesArea と同じ）
+--   都道府県を選んだらその市区も含める。市区を選んだら、都道府県ごと（全域）を活動エリアにしている人も含める
+create or replace function public.area_matches(p_codes text[], p_filter text)
+returns boolean
+language sql
+stable
+as $$
+  select exists (
+    select 1
+    from unnest(p_codes) as u(code)
+    join public.areas a on a.code = u.code
+    where a.code = p_filter
+      or a.parent_code = p_filter
+      or a.code = (select f.parent_code from public.areas f where f.code = p_filter)
+  );
+$$;
+
+-- ジャンル（slug）・活動エリア（code、階層つき）で絞り込む
+create or replace function public.list_gallery_works(
+  p_q text default null,
+  p_genre text default null,
+  p_area text default null,
+  p_sort text default 'newest',
+  p_cursor_likes integer default null,
+  p_cursor_created_at timestamptz default null,
+  p_cursor_id uuid default null,
+  p_limit integer default 24,
+  p_tag text default null,
+  p_cursor_rank integer default null
+)
+returns table (
+  id uuid,
+  creator_id uuid,
+  title text,
+  description text,
+  image_url text,
+  tags text,
+  is_public boolean,
+  created_at timestamptz,
+  creator_name text,
+  creator_genre text,
+  creator_area text,
+  likes_count integer,
+  image_meta jsonb,
+  creator_bio text,
+  search_rank integer
+)
+language sql
+stable
+as $$
+  with hits as (
+    select
+      g.*,
+      case
+        when cardinality(public.search_terms(p_q)) > 0
+          then public.work_search_rank(g, public.search_terms(p_q))
+        else 0
+      end as search_rank
+    from public.work_gallery g
+    join public.profiles p on p.id = g.creator_id
+    where (p_genre is null or p_genre = any (p.genre_slugs))
+      and (p_area is null or public.area_matches(p.area_codes, p_area))
+      and (
+        p_tag is null
+        or exists (
+          select 1
+          from public.work_tags wt
+          join public.tags t on t.id = wt.tag_id
+          where wt.work_id = g.id and t.slug = p_tag
+        )
+      )
+  )
+  select h.*
+  from hits h
+  where (cardinality(public.search_terms(p_q)) = 0 or h.search_rank > 0)
+    and (
+      p_cursor_id is null
+      or (
+        p_sort = 'popular'
+        and (h.likes_count, h.created_at, h.id)
+          < (p_cursor_likes, p_cursor_created_at, p_cursor_id)
+      )
+      or (
+        p_sort = 'relevance'
+        and (h.search_rank, h.created_at, h.id)
+          < (p_cursor_rank, p_cursor_created_at, p_cursor_id)
+      )
+      or (
+        p_sort not in ('popular', 'relevance')
+        and (h.created_at, h.id) < (p_cursor_created_at, p_cursor_id)
+      )
+    )
+  order by
+    case when p_sort = 'popular' then h.likes_count end desc nulls last,
+    case when p_sort = 'relevance' then h.search_rank end desc nulls last,
+    h.created_at desc,
+    h.id desc
+  limit least(greatest(coalesce(p_limit, 24), 1), 100);
+$$;
+
+-- 絞り込み候補：公開作品のあるジャンル・エリアと作品数（エリアは list_gallery_works と同じ数え方）
+drop function if exists public.list_gallery_facets();
+
+create or replace function public.list_gallery_facets()
+returns table (kind text, value text, works_count integer)
+language sql
+stable
+as $$
+  select 'genre'::text, gr.slug, count(distinct g.id)::integer
+  from public.genres gr
+  join public.profiles p on gr.slug = any (p.genre_slugs)
+  join public.work_gallery g on g.creator_id = p.id
+  group by gr.slug
+  union all
+  select 'area'::text, a.code, count(distinct g.id)::integer
+  from public.areas a
+  join public.profiles p on public.area_matches(p.area_codes, a.code)
+  join public.work_gallery g on g.creator_id = p.id
+  group by a.code
+  order by 1, 2;
+$$;
+
+-- 検索結果にも genre_slugs / area_codes を返す（戻り値が変わるので作り直す）
+drop function if exists public.search_creators(text, integer);
+
+create or replace function public.search_creators(p_q text, p_limit integer default 10)
+returns table (
+  id uuid,
+  display_name text,
+  role text,
+  bio text,
+  genre text,
+  area text,
+  instagram_url text,
+  genre_slugs text[],
+  area_codes text[],
+  works_count integer,
+  search_rank integer
+)
+language sql
+stable
+as $$
+  select *
+  from (
+    select
+      p.id,
+      p.display_name,
+      p.role,
+      p.bio,
+      p.genre,
+      p.area,
+      p.instagram_url,
+      p.genre_slugs,
+      p.area_codes,
+      (select count(*) from public.work_gallery g where g.creator_id = p.id)::integer
+        as works_count,
+      (
+        select case when bool_and(m.score > 0) then sum(m.score)::integer else 0 end
+        from (
+          select
+            (case when strpos(public.search_fold(p.display_name), t.term) > 0 then 8 else 0 end)
+            + (case when strpos(public.search_fold(p.genre), t.term) > 0 then 4 else 0 end)
+            + (case when strpos(public.search_fold(p.area), t.term) > 0 then 3 else 0 end)
+            + (case when strpos(public.search_fold(p.bio), t.term) > 0 then 2 else 0 end)
+            as score
+          from unnest(public.search_terms(p_q)) as t(term)
+        ) m
+      ) as search_rank
+    from public.profiles p
+    where p.role = 'creator'
+  ) c
+  where c.search_rank > 0
+  order by c.search_rank desc, c.works_count desc, c.display_name
+  limit least(greatest(coalesce(p_limit, 10), 1), 50);
+$$;
@@ -0,0 +1,151 @@
+-- supabase/migrations/20261020010000_creator_directory.sql
+-- クリエイター一覧（/creators）
+--   依頼は当事者しか読めない（RLS）ので承諾率は security definer で集計し、集計値だけを返す
+
+-- クリエイターの一致度（search_creators と同じ重み：名前 8・ジャンル 4・エリア 3・自己紹介 2）
+create or replace function public.creator_search_rank(p public.profiles, p_terms text[])
+returns integer
+language sql
+immutable
+as $$
+  select case when bool_and(m.score > 0) then sum(m.score)::integer else 0 end
+  from (
+    select
+      (case when strpos(public.search_fold(p.display_name), t.term) > 0 then 8 else 0 end)
+      + (case when strpos(public.search_fold(p.genre), t.term) > 0 then 4 else 0 end)
+      + (case when strpos(public.search_fold(p.area), t.term) > 0 then 3 else 0 end)
+      + (case when strpos(public.search_fold(p.bio), t.term) > 0 then 2 else 0 end)
+      as score
+    from unnest(p_terms) as t(term)
+  ) m;
+$$;
+
+create or replace function public.search_creators(p_q text, p_limit integer default 10)
+returns table (
+  id uuid,
+  display_name text,
+  role text,
+  bio text,
+  genre text,
+  area text,
+  instagram_url text,
+  genre_slugs text[],
+  area_codes text[],
+  works_count integer,
+  search_rank integer
+)
+language sql
+stable
+as $$
+  select *
+  from (
+    select
+      p.id,
+      p.display_name,
+      p.role,
+      p.bio,
+      p.genre,
+      p.area,
+      p.instagram_url,
+      p.genre_slugs,
+      p.area_codes,
+      (select count(*) from public.work_gallery g where g.creator_id = p.id)::integer
+        as works_count,
+      public.creator_search_rank(p, public.search_terms(p_q)) as search_rank
+    from public.profiles p
+    where p.role = 'creator'
+  ) c
+  where c.search_rank > 0
+  order by c.search_rank desc, c.works_count desc, c.display_name
+  limit least(greatest(coalesce(p_limit, 10), 1), 50);
+$$;
+
+-- 一覧（絞り込み・検索・並び替え）
+--   p_sort: works（公開作品数）/ likes（いいね合計）/ acceptance（承諾率）/ relevance（関連度、q があるとき）
+--   承諾率 = 承諾（accepted・closed）÷ 返答済み（accepted・closed・rejected）。返答済みがなければ null（並びは最後）
+--   カーソルは (sort_value, id)
+create or replace function public.list_creators(
+  p_q text default null,
+  p_genre text default null,
+  p_area text default null,
+  p_sort text default 'works',
+  p_cursor_value numeric default null,
+  p_cursor_id uuid default null,
+  p_limit integer default 24
+)
+returns table (
+  id uuid,
+  display_name text,
+  bio text,
+  genre text,
+  area text,
+  genre_slugs text[],
+  area_codes text[],
+  works_count integer,
+  likes_total integer,
+  requests_decided integer,
+  acceptance_rate numeric,
+  search_rank integer,
+  sort_value numeric
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with stats as (
+    select
+      p.id,
+      p.display_name,
+      p.bio,
+      p.genre,
+      p.area,
+      p.genre_slugs,
+      p.area_codes,
+      coalesce(w.works_count, 0)::integer as works_count,
+      coalesce(w.likes_total, 0)::integer as likes_total,
+      coalesce(r.decided, 0)::integer as requests_decided,
+      round(r.accepted::numeric / nullif(r.decided, 0), 4) as acceptance_rate,
+      case
+        when cardinality(public.search_terms(p_q)) > 0
+          then public.creator_search_rank(p, public.search_terms(p_q))
+        else 0
+      end as search_rank
+    from public.profiles p
+    left join (
+      select g.creator_id, count(*) as works_count, sum(g.likes_count) as likes_total
+      from public.work_gallery g
+      group by g.creator_id
+    ) w on w.creator_id = p.id
+    left join (
+      select
+        rq.creator_id,
+        count(*) filter (where rq.status in ('accepted', 'closed', 'rejected')) as decided,
+        count(*) filter (where rq.status in ('accepted', 'closed')) as accepted
+      from public.requests rq
+      group by rq.creator_id
+    ) r on r.creator_id = p.id
+    where p.role = 'creator'
+      and (p_genre is null or p_genre = any (p.genre_slugs))
+      and (p_area is null or public.area_matches(p.area_codes, p_area))
+  ),
+  ranked as (
+    select
+      s.*,
+      (
+        case p_sort
+          when 'likes' then s.likes_total
+          when 'acceptance' then coalesce(s.acceptance_rate, -1)
+          when 'relevance' then s.search_rank
+          else s.works_count
+        end
+      )::numeric as sort_value
+    from stats s
+    where cardinality(public.search_terms(p_q)) = 0 or s.search_rank > 0
+  )
+  select *
+  from ranked k
+  where p_cursor_id is null or (k.sort_value, k.id) < (p_cursor_value, p_cursor_id)
+  order by k.sort_value desc, k.id desc
+  limit least(greatest(coalesce(p_limit, 24), 1), 100);
+$$;
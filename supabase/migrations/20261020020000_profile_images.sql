@@ -0,0 +1,310 @@
+-- supabase/migrations/20261020020000_profile_images.sql
+-- プロフィールのアイコン・カバー画像
+--   画面で切り抜き・縮小した画像を公開の profiles バケットの {user_id}/ 以下に置き、公開 URL を profiles に持つ。
+--   works バケットとは分ける（/api/maintenance/storage は works バケットの孤立ファイルを消すため）
+
+alter table public.profiles
+  add column if not exists avatar_url text,
+  add column if not exists cover_url text;
+
+-- 自分のフォルダに置いた画像しか指せない（外部 URL は不可）
+alter table public.profiles drop constraint if exists profiles_avatar_url_check;
+alter table public.profiles add constraint profiles_avatar_url_check
+  check (
+    avatar_url is null
+    or strpos(avatar_url, '/storage/v1/object/public/profiles/' || id::text || '/') > 0
+  );
+
+alter table public.profiles drop constraint if exists profiles_cover_url_check;
+alter table public.profiles add constraint profiles_cover_url_check
+  check (
+    cover_url is null
+    or strpos(cover_url, '/storage/v1/object/public/profiles/' || id::text || '/') > 0
+  );
+
+-- lib/data/profileImages.ts と同じ（切り抜いたあとの画像なので上限は小さめ）
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values ('profiles', 'profiles', true, 5242880, array['image/webp', 'image/jpeg', 'image/png'])
+on conflict (id) do nothing;
+
+drop policy if exists "profiles bucket: owner can upload" on storage.objects;
+create policy "profiles bucket: owner can upload"
+  on storage.objects for insert
+  with check (
+    bucket_id = 'profiles'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- remove() は select と delete の両方の権限が要る（表示は公開 URL なので select は本人だけでよい）
+drop policy if exists "profiles bucket: owner can read" on storage.objects;
+create policy "profiles bucket: owner can read"
+  on storage.objects for select
+  using (
+    bucket_id = 'profiles'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+drop policy if exists "profiles bucket: owner can delete" on storage.objects;
+create policy "profiles bucket: owner can delete"
+  on storage.objects for delete
+  using (
+    bucket_id = 'profiles'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- 作品カードに出すクリエイターのアイコン（列は末尾に足す）
+create or replace view public.work_gallery
+with (security_invoker = true)
+as
+select
+  w.id,
+  w.creator_id,
+  w.title,
+  w.description,
+  w.image_url,
+  w.tags,
+  w.is_public,
+  w.created_at,
+  p.display_name as creator_name,
+  p.genre as creator_genre,
+  p.area as creator_area,
+  coalesce(l.likes_count, 0)::integer as likes_count,
+  w.image_meta,
+  p.bio as creator_bio,
+  p.avatar_url as creator_avatar_url
+from public.works w
+join public.profiles p on p.id = w.creator_id
+left join (
+  select work_id, count(*) as likes_count
+  from public.work_likes
+  group by work_id
+) l on l.work_id = w.id
+where w.is_public = true
+  and w.archived_at is null
+  and w.deleted_at is null;
+
+-- 戻り値に creator_avatar_url が増えるので作り直す（中身は 20261020000000_vocabularies.sql と同じ）
+drop function if exists public.list_gallery_works(
+  text, text, text, text, integer, timestamptz, uuid, integer, text, integer
+);
+
+create or replace function public.list_gallery_works(
+  p_q text default null,
+  p_genre text default null,
+  p_area text default null,
+  p_sort text default 'newest',
+  p_cursor_likes integer default null,
+  p_cursor_created_at timestamptz default null,
+  p_cursor_id uuid default null,
+  p_limit integer default 24,
+  p_tag text default null,
+  p_cursor_rank integer default null
+)
+returns table (
+  id uuid,
+  creator_id uuid,
+  title text,
+  description text,
+  image_url text,
+  tags text,
+  is_public boolean,
+  created_at timestamptz,
+  creator_name text,
+  creator_genre text,
+  creator_area text,
+  likes_count integer,
+  image_meta jsonb,
+  creator_bio text,
+  creator_avatar_url text,
+  search_rank integer
+)
+language sql
+stable
+as $$
+  with hits as (
+    select
+      g.*,
+      case
+        when cardinality(public.search_terms(p_q)) > 0
+          then public.work_search_rank(g, public.search_terms(p_q))
+        else 0
+      end as search_rank
+    from public.work_gallery g
+    join public.profiles p on p.id = g.creator_id
+    where (p_genre is null or p_genre = any (p.genre_slugs))
+      and (p_area is null or public.area_matches(p.area_codes, p_area))
+      and (
+        p_tag is null
+        or exists (
+          select 1
+          from public.work_tags wt
+          join public.tags t on t.id = wt.tag_id
+          where wt.work_id = g.id and t.slug = p_tag
+        )
+      )
+  )
+  select h.*
+  from hits h
+  where (cardinality(public.search_terms(p_q)) = 0 or h.search_rank > 0)
+    and (
+      p_cursor_id is null
+      or (
+        p_sort = 'popular'
+        and (h.likes_count, h.created_at, h.id)
+          < (p_cursor_likes, p_cursor_created_at, p_cursor_id)
+      )
+      or (
+        p_sort = 'relevance'
+        and (h.search_rank, h.created_at, h.id)
+          < (p_cursor_rank, p_cursor_created_at, p_cursor_id)
+      )
+      or (
+        p_sort not in ('popular', 'relevance')
+        and (h.created_at, h.id) < (p_cursor_created_at, p_cursor_id)
+      )
+    )
+  order by
+    case when p_sort = 'popular' then h.likes_count end desc nulls last,
+    case when p_sort = 'relevance' then h.search_rank end desc nulls last,
+    h.created_at desc,
+    h.id desc
+  limit least(greatest(coalesce(p_limit, 24), 1), 100);
+$$;
+
+-- 検索結果もプロフィールと同じ列にする（戻り値が変わるので作り直す）
+drop function if exists public.search_creators(text, integer);
+
+create or replace function public.search_creators(p_q text, p_limit integer default 10)
+returns table (
+  id uuid,
+  display_name text,
+  role text,
+  bio text,
+  genre text,
+  area text,
+  instagram_url text,
+  genre_slugs text[],
+  area_codes text[],
+  avatar_url text,
+  cover_url text,
+  works_count integer,
+  search_rank integer
+)
+language sql
+stable
+as $$
+  select *
+  from (
+    select
+      p.id,
+      p.display_name,
+      p.role,
+      p.bio,
+      p.genre,
+      p.area,
+      p.instagram_url,
+      p.genre_slugs,
+      p.area_codes,
+      p.avatar_url,
+      p.cover_url,
+      (select count(*) from public.work_gallery g where g.creator_id = p.id)::integer
+        as works_count,
+      public.creator_search_rank(p, public.search_terms(p_q)) as search_rank
+    from public.profiles p
+    where p.role = 'creator'
+  ) c
+  where c.search_rank > 0
+  order by c.search_rank desc, c.works_count desc, c.display_name
+  limit least(greatest(coalesce(p_limit, 10), 1), 50);
+$$;
+
+-- 一覧のカードにもアイコンを出す（中身は 20261020010000_creator_directory.sql と同じ）
+drop function if exists public.list_creators(text, text, text, text, numeric, uuid, integer);
+
+create or replace function public.list_creators(
+  p_q text default null,
+  p_genre text default null,
+  p_area text default null,
+  p_sort text default 'works',
+  p_cursor_value numeric default null,
+  p_cursor_id uuid default null,
+  p_limit integer default 24
+)
+returns table (
+  id uuid,
+  display_name text,
+  bio text,
+  genre text,
+  area text,
+  genre_slugs text[],
+  area_codes text[],
+  avatar_url text,
+  works_count integer,
+  likes_total integer,
+  requests_decided integer,
+  acceptance_rate numeric,
+  search_rank integer,
+  sort_value numeric
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with stats as (
+    select
+      p.id,
+      p.display_name,
+      p.bio,
+      p.genre,
+      p.area,
+      p.genre_slugs,
+      p.area_codes,
+      p.avatar_url,
+      coalesce(w.works_count, 0)::integer as works_count,
+      coalesce(w.likes_total, 0)::integer as likes_total,
+      coalesce(r.decided, 0)::integer as requests_decided,
+      round(r.accepted::numeric / nullif(r.decided, 0), 4) as acceptance_rate,
+      case
+        when cardinality(public.search_terms(p_q)) > 0
+          then public.creator_search_rank(p, public.search_terms(p_q))
+        else 0
+      end as search_rank
+    from public.profiles p
+    left join (
+      select g.creator_id, count(*) as works_count, sum(g.likes_count) as likes_total
+      from public.work_gallery g
+      group by g.creator_id
+    ) w on w.creator_id = p.id
+    left join (
+      select
+        rq.creator_id,
+        count(*) filter (where rq.status in ('accepted', 'closed', 'rejected')) as decided,
+        count(*) filter (where rq.status in ('accepted', 'closed')) as accepted
+      from public.requests rq
+      group by rq.creator_id
+    ) r on r.creator_id = p.id
+    where p.role = 'creator'
+      and (p_genre is null or p_genre = any (p.genre_slugs))
+      and (p_area is null or public.area_matches(p.area_codes, p_area))
+  ),
+  ranked as (
+    select
+      s.*,
+      (
+        case p_sort
+          when 'likes' then s.likes_total
+          when 'acceptance' then coalesce(s.acceptance_rate, -1)
+          when 'relevance' then s.search_rank
+          else s.works_count
+        end
+      )::numeric as sort_value
+    from stats s
+    where cardinality(public.search_terms(p_q)) = 0 or s.search_rank > 0
+  )
+  select *
+  from ranked k
+  where p_cursor_id is null or (k.sort_value, k.id) < (p_cursor_value, p_cursor_id)
+  order by k.sort_value desc, k.id desc
+  limit least(greatest(coalesce(p_limit, 24), 1), 100);
+$$;
@@ -0,0 +1,260 @@
+-- supabase/migrations/20261020030000_creator_profile_details.sql
+-- クリエイタープロフィールの項目：外部リンク（複数）・スキル・料金メニュー・納期の目安・受付状況
+--   ルールは lib/data/creatorProfile.ts と同じ。instagram_url は links に移して削除する
+
+alter table public.profiles
+  add column if not exists links jsonb not null default '[]'::jsonb,
+  add column if not exists skills text[] not null default '{}',
+  add column if not exists price_menu jsonb not null default '[]'::jsonb,
+  add column if not exists turnaround_days integer,
+  add column if not exists availability text not null default 'open';
+
+alter table public.profiles drop constraint if exists profiles_turnaround_days_check;
+alter table public.profiles add constraint profiles_turnaround_days_check
+  check (turnaround_days is null or turnaround_days between 1 and 365);
+
+alter table public.profiles drop constraint if exists profiles_availability_check;
+alter table public.profiles add constraint profiles_availability_check
+  check (availability in ('open', 'paused'));
+
+-- http(s) の URL のホスト名（小文字）。URL でなければ null
+create or replace function public.url_host(p_url text)
+returns text
+language sql
+immutable
+as $$
+  select substring(lower(btrim(p_url)) from '^https?://(?:[^/?#@]*@)?([^/?#:]+)');
+$$;
+
+-- 種類ごとに許すドメイン（サブドメインも可）。website は空 = どこでもよい、知らない種類は null
+create or replace function public.profile_link_domains(p_kind text)
+returns text[]
+language sql
+immutable
+as $$
+  select case p_kind
+    when 'instagram' then array['instagram.com']
+    when 'x' then array['x.com', 'twitter.com']
+    when 'pixiv' then array['pixiv.net']
+    when 'behance' then array['behance.net']
+    when 'website' then array[]::text[]
+  end;
+$$;
+
+create or replace function public.host_matches(p_host text, p_domains text[])
+returns boolean
+language sql
+immutable
+as $$
+  select exists (
+    select 1 from unnest(p_domains) as d(domain)
+    where p_host = d.domain or right(p_host, length(d.domain) + 1) = '.' || d.domain
+  );
+$$;
+
+-- 形をそろえて（余分なキーは落とす・前後の空白を除く・スキルは重複を除く）から確かめる
+create or replace function public.profiles_validate_details()
+returns trigger
+language plpgsql
+as $$
+declare
+  item jsonb;
+  domains text[];
+  min_price numeric;
+  max_price numeric;
+begin
+  if jsonb_typeof(new.links) <> 'array' or jsonb_typeof(new.price_menu) <> 'array' then
+    raise exception 'links and price_menu must be arrays' using errcode = '22023';
+  end if;
+
+  new.links := (
+    select coalesce(
+      jsonb_agg(
+        jsonb_build_object('kind', t.e->>'kind', 'url', btrim(t.e->>'url')) order by t.pos
+      ),
+      '[]'::jsonb
+    )
+    from jsonb_array_elements(new.links) with ordinality as t(e, pos)
+  );
+
+  if jsonb_array_length(new.links) > 8 then
+    raise exception 'a profile can have up to 8 links' using errcode = '23514';
+  end if;
+
+  for item in select * from jsonb_array_elements(new.links) loop
+    domains := public.profile_link_domains(item->>'kind');
+    if domains is null
+      or public.url_host(item->>'url') is null
+      or char_length(item->>'url') > 500
+      or (
+        cardinality(domains) > 0
+        and not public.host_matches(public.url_host(item->>'url'), domains)
+      )
+    then
+      raise exception 'invalid link' using errcode = '23514';
+    end if;
+  end loop;
+
+  -- 全角英数 → 半角・空白は 1 つに。大文字 / 小文字の違いだけのものは先に書いた方を残す
+  new.skills := array(
+    select d.skill
+    from (
+      select distinct on (lower(n.skill)) n.skill, n.pos
+      from (
+        select btrim(regexp_replace(normalize(u.skill, NFKC), '\s+', ' ', 'g')) as skill, u.pos
+        from unnest(coalesce(new.skills, '{}')) with ordinality as u(skill, pos)
+      ) n
+      where n.skill <> ''
+      order by lower(n.skill), n.pos
+    ) d
+    order by d.pos
+  );
+
+  if cardinality(new.skills) > 10 then
+    raise exception 'a profile can have up to 10 skills' using errcode = '23514';
+  end if;
+  if exists (select 1 from unnest(new.skills) as s(skill) where char_length(s.skill) > 20) then
+    raise exception 'skill is too long' using errcode = '23514';
+  end if;
+
+  if jsonb_array_length(new.price_menu) > 10 then
+    raise exception 'a price menu can have up to 10 items' using errcode = '23514';
+  end if;
+
+  -- 型を確かめてから数値にする（OR の評価順は決まっていないので分けて書く）
+  for item in select * from jsonb_array_elements(new.price_menu) loop
+    if char_length(btrim(coalesce(item->>'label', ''))) not between 1 and 40
+      or jsonb_typeof(item->'min_price') is distinct from 'number'
+      or coalesce(jsonb_typeof(item->'max_price'), 'null') not in ('number', 'null')
+    then
+      raise exception 'invalid price menu item' using errcode = '23514';
+    end if;
+
+    min_price := (item->>'min_price')::numeric;
+    max_price := (item->>'max_price')::numeric;
+    if min_price <> trunc(min_price)
+      or min_price not between 0 and 10000000
+      or (
+        max_price is not null
+        and (max_price <> trunc(max_price) or max_price not between min_price and 10000000)
+      )
+    then
+      raise exception 'invalid price menu item' using errcode = '23514';
+    end if;
+  end loop;
+
+  new.price_menu := (
+    select coalesce(
+      jsonb_agg(
+        jsonb_build_object(
+          'label', btrim(t.e->>'label'),
+          'min_price', t.e->'min_price',
+          'max_price', t.e->'max_price'
+        )
+        order by t.pos
+      ),
+      '[]'::jsonb
+    )
+    from jsonb_array_elements(new.price_menu) with ordinality as t(e, pos)
+  );
+
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_validate_details on public.profiles;
+create trigger profiles_validate_details
+  before insert or update of links, skills, price_menu on public.profiles
+  for each row execute function public.profiles_validate_details();
+
+-- 以前の 1 本だけのリンク（Instagram かポートフォリオ）を links に移す。URL として読めないものは捨てる
+update public.profiles p
+set links = jsonb_build_array(
+  jsonb_build_object(
+    'kind',
+    case
+      when public.host_matches(public.url_host(p.instagram_url), array['instagram.com'])
+        then 'instagram'
+      when public.host_matches(public.url_host(p.instagram_url), array['x.com', 'twitter.com'])
+        then 'x'
+      when public.host_matches(public.url_host(p.instagram_url), array['pixiv.net']) then 'pixiv'
+      when public.host_matches(public.url_host(p.instagram_url), array['behance.net'])
+        then 'behance'
+      else 'website'
+    end,
+    'url',
+    btrim(p.instagram_url)
+  )
+)
+where public.url_host(p.instagram_url) is not null
+  and char_length(btrim(p.instagram_url)) <= 500
+  and p.links = '[]'::jsonb;
+
+-- 受付を止めているクリエイターには依頼を作れない
+create or replace function public.guard_creator_accepting_requests()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if exists (
+    select 1 from public.profiles p
+    where p.id = new.creator_id and p.availability <> 'open'
+  ) then
+    raise exception 'creator is not accepting requests' using errcode = '23514';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists requests_guard_creator_availability on public.requests;
+create trigger requests_guard_creator_availability
+  before insert on public.requests
+  for each row execute function public.guard_creator_accepting_requests();
+
+-- instagram_url を返していた検索は作り直してから列を消す（返すのは一覧に出す項目だけ）
+drop function if exists public.search_creators(text, integer);
+
+create or replace function public.search_creators(p_q text, p_limit integer default 10)
+returns table (
+  id uuid,
+  display_name text,
+  role text,
+  bio text,
+  genre text,
+  area text,
+  genre_slugs text[],
+  area_codes text[],
+  avatar_url text,
+  works_count integer,
+  search_rank integer
+)
+language sql
+stable
+as $$
+  select *
+  from (
+    select
+      p.id,
+      p.display_name,
+      p.role,
+      p.bio,
+      p.genre,
+      p.area,
+      p.genre_slugs,
+      p.area_codes,
+      p.avatar_url,
+      (select count(*) from public.work_gallery g where g.creator_id = p.id)::integer
+        as works_count,
+      public.creator_search_rank(p, public.search_terms(p_q)) as search_rank
+    from public.profiles p
+    where p.role = 'creator'
+  ) c
+  where c.search_rank > 0
+  order by c.search_rank desc, c.works_count desc, c.display_name
+  limit least(greatest(coalesce(p_limit, 10), 1), 50);
+$$;
+
+alter table public.profiles drop column if exists instagram_url;
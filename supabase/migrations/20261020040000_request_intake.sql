@@ -0,0 +1,195 @@
+-- supabase/migrations/20261020040000_request_intake.sql
+-- 依頼の受付停止：クリエイター全体（理由・再開予定日つき）と作品ごと
+--   判定は lib/data/creatorProfile.ts の isAcceptingRequests / workAcceptsRequests と同じ
+
+alter table public.profiles
+  add column if not exists pause_reason text,
+  add column if not exists resumes_on date;
+
+alter table public.profiles drop constraint if exists profiles_pause_reason_check;
+alter table public.profiles add constraint profiles_pause_reason_check
+  check (pause_reason is null or char_length(pause_reason) <= 200);
+
+alter table public.works
+  add column if not exists accepting_requests boolean not null default true;
+
+-- 受付中に戻したら理由・再開予定日は消す。理由は前後の空白を除き、空なら null
+create or replace function public.profiles_normalize_availability()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.availability = 'open' then
+    new.pause_reason := null;
+    new.resumes_on := null;
+  else
+    new.pause_reason := nullif(btrim(new.pause_reason), '');
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_normalize_availability on public.profiles;
+create trigger profiles_normalize_availability
+  before insert or update of availability, pause_reason, resumes_on on public.profiles
+  for each row execute function public.profiles_normalize_availability();
+
+-- 停止中でも再開予定日（日本時間）が来ていれば受付中
+create or replace function public.creator_accepting_requests(p public.profiles)
+returns boolean
+language sql
+stable
+as $$
+  select p.availability = 'open'
+    or (p.resumes_on is not null and p.resumes_on <= (now() at time zone 'Asia/Tokyo')::date);
+$$;
+
+-- クリエイター全体の停止に加えて、作品ごとの停止も見る
+create or replace function public.guard_creator_accepting_requests()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if exists (
+    select 1 from public.profiles p
+    where p.id = new.creator_id and not public.creator_accepting_requests(p)
+  ) then
+    raise exception 'creator is not accepting requests' using errcode = '23514';
+  end if;
+
+  if new.work_id is not null and exists (
+    select 1 from public.works w
+    where w.id = new.work_id and not w.accepting_requests
+  ) then
+    raise exception 'work is not accepting requests' using errcode = '23514';
+  end if;
+
+  return new;
+end;
+$$;
+
+-- 作品カードの「依頼受付中」はここで決める（列は末尾に足す）
+create or replace view public.work_gallery
+with (security_invoker = true)
+as
+select
+  w.id,
+  w.creator_id,
+  w.title,
+  w.description,
+  w.image_url,
+  w.tags,
+  w.is_public,
+  w.created_at,
+  p.display_name as creator_name,
+  p.genre as creator_genre,
+  p.area as creator_area,
+  coalesce(l.likes_count, 0)::integer as likes_count,
+  w.image_meta,
+  p.bio as creator_bio,
+  p.avatar_url as creator_avatar_url,
+  w.accepting_requests,
+  (w.accepting_requests and public.creator_accepting_requests(p)) as requests_open
+from public.works w
+join public.profiles p on p.id = w.creator_id
+left join (
+  select work_id, count(*) as likes_count
+  from public.work_likes
+  group by work_id
+) l on l.work_id = w.id
+where w.is_public = true
+  and w.archived_at is null
+  and w.deleted_at is null;
+
+-- 戻り値に accepting_requests / requests_open が増えるので作り直す（中身は 20261020020000_profile_images.sql と同じ）
+drop function if exists public.list_gallery_works(
+  text, text, text, text, integer, timestamptz, uuid, integer, text, integer
+);
+
+create or replace function public.list_gallery_works(
+  p_q text default null,
+  p_genre text default null,
+  p_area text default null,
+  p_sort text default 'newest',
+  p_cursor_likes integer default null,
+  p_cursor_created_at timestamptz default null,
+  p_cursor_id uuid default null,
+  p_limit integer default 24,
+  p_tag text default null,
+  p_cursor_rank integer default null
+)
+returns table (
+  id uuid,
+  creator_id uuid,
+  title text,
+  description text,
+  image_url text,
+  tags text,
+  is_public boolean,
+  created_at timestamptz,
+  creator_name text,
+  creator_genre text,
+  creator_area text,
+  likes_count integer,
+  image_meta jsonb,
+  creator_bio text,
+  creator_avatar_url text,
+  accepting_requests boolean,
+  requests_open boolean,
+  search_rank integer
+)
+language sql
+stable
+as $$
+  with hits as (
+    select
+      g.*,
+      case
+        when cardinality(public.search_terms(p_q)) > 0
+          then public.work_search_rank(g, public.search_terms(p_q))
+        else 0
+      end as search_rank
+    from public.work_gallery g
+    join public.profiles p on p.id = g.creator_id
+    where (p_genre is null or p_genre = any (p.genre_slugs))
+      and (p_area is null or public.area_matches(p.area_codes, p_area))
+      and (
+        p_tag is null
+        or exists (
+          select 1
+          from public.work_tags wt
+          join public.tags t on t.id = wt.tag_id
+          where wt.work_id = g.id and t.slug = p_tag
+        )
+      )
+  )
+  select h.*
+  from hits h
+  where (cardinality(public.search_terms(p_q)) = 0 or h.search_rank > 0)
+    and (
+      p_cursor_id is null
+      or (
+        p_sort = 'popular'
+        and (h.likes_count, h.created_at, h.id)
+          < (p_cursor_likes, p_cursor_created_at, p_cursor_id)
+      )
+      or (
+        p_sort = 'relevance'
+        and (h.search_rank, h.created_at, h.id)
+          < (p_cursor_rank, p_cursor_created_at, p_cursor_id)
+      )
+      or (
+        p_sort not in ('popular', 'relevance')
+        and (h.created_at, h.id) < (p_cursor_created_at, p_cursor_id)
+      )
+    )
+  order by
+    case when p_sort = 'popular' then h.likes_count end desc nulls last,
+    case when p_sort = 'relevance' then h.search_rank end desc nulls last,
+    h.created_at desc,
+    h.id desc
+  limit least(greatest(coalesce(p_limit, 24), 1), 100);
+$$;
@@ -0,0 +1,283 @@
+-- supabase/migrations/20261020050000_reviews.sql
+-- レビュー：クローズした依頼の参加者が相手を 1〜5 の星と本文で評価する（1 依頼につき 1 人 1 件）
+--   書いてから 14 日間は編集できる。評価されたクリエイターは返信できる
+--   ルールは lib/data/reviews.ts と同じ。書き込みは submit_review / reply_to_review だけ
+
+create table if not exists public.reviews (
+  id uuid primary key default gen_random_uuid(),
+  request_id uuid not null references public.requests (id) on delete cascade,
+  reviewer_id uuid not null references public.profiles (id) on delete cascade,
+  reviewee_id uuid not null references public.profiles (id) on delete cascade,
+  rating integer not null check (rating between 1 and 5),
+  body text not null check (char_length(body) between 1 and 1000),
+  reply text check (reply is null or char_length(reply) between 1 and 500),
+  replied_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (request_id, reviewer_id)
+);
+
+create index if not exists reviews_reviewee_idx on public.reviews (reviewee_id, created_at desc);
+
+-- レビューは誰でも読める（依頼の中身は出さない）。直接の insert / update は許さない
+alter table public.reviews enable row level security;
+
+drop policy if exists "reviews: anyone can read" on public.reviews;
+create policy "reviews: anyone can read"
+  on public.reviews for select
+  using (true);
+
+-- 受けたレビューの集計（平均は小数第 2 位まで）
+create or replace view public.rating_stats
+with (security_invoker = true)
+as
+select
+  reviewee_id,
+  round(avg(rating), 2) as rating_avg,
+  count(*)::integer as rating_count
+from public.reviews
+group by reviewee_id;
+
+alter table public.notifications drop constraint if exists notifications_kind_check;
+alter table public.notifications add constraint notifications_kind_check
+  check (kind in ('message', 'request', 'status', 'like', 'quote', 'milestone', 'review'));
+
+-- レビューを書く（まだなければ作成、あれば編集期限内だけ更新）。レビューの id を返す
+create or replace function public.submit_review(
+  p_request_id uuid,
+  p_reviewer_id uuid,
+  p_rating integer,
+  p_body text
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r public.requests;
+  existing public.reviews;
+  v_id uuid;
+  v_reviewee uuid;
+begin
+  if auth.uid() is distinct from p_reviewer_id then
+    raise exception 'cannot review for another user' using errcode = '42501';
+  end if;
+
+  select * into r from public.requests where id = p_request_id;
+  if r.id is null then
+    raise exception 'request not found' using errcode = 'P0002';
+  end if;
+
+  if p_reviewer_id not in (r.creator_id, r.client_id) then
+    raise exception 'not a participant of this request' using errcode = '42501';
+  end if;
+
+  if r.status <> 'closed' then
+    raise exception 'reviews can be left only after the request is closed' using errcode = '23514';
+  end if;
+
+  select * into existing
+  from public.reviews
+  where request_id = r.id and reviewer_id = p_reviewer_id
+  for update;
+
+  if existing.id is not null then
+    if existing.created_at + interval '14 days' <= now() then
+      raise exception 'the edit window has passed' using errcode = '23514';
+    end if;
+
+    update public.reviews
+    set rating = p_rating, body = btrim(p_body), updated_at = now()
+    where id = existing.id;
+
+    return existing.id;
+  end if;
+
+  v_reviewee := case when p_reviewer_id = r.creator_id then r.client_id else r.creator_id end;
+
+  insert into public.reviews (request_id, reviewer_id, reviewee_id, rating, body)
+  values (r.id, p_reviewer_id, v_reviewee, p_rating, btrim(p_body))
+  returning id into v_id;
+
+  insert into public.notifications (user_id, kind, actor_id, request_id, title, body)
+  values (v_reviewee, 'review', p_reviewer_id, r.id, r.title, 'posted');
+
+  return v_id;
+end;
+$$;
+
+-- 評価されたクリエイターの返信（書き直しも可。通知は最初の返信だけ）
+create or replace function public.reply_to_review(
+  p_review_id uuid,
+  p_replier_id uuid,
+  p_reply text
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  rv public.reviews;
+  r public.requests;
+begin
+  if auth.uid() is distinct from p_replier_id then
+    raise exception 'cannot reply for another user' using errcode = '42501';
+  end if;
+
+  select * into rv from public.reviews where id = p_review_id for update;
+  if rv.id is null then
+    raise exception 'review not found' using errcode = 'P0002';
+  end if;
+
+  select * into r from public.requests where id = rv.request_id;
+
+  if p_replier_id <> rv.reviewee_id or p_replier_id <> r.creator_id then
+    raise exception 'only the reviewed creator can reply' using errcode = '42501';
+  end if;
+
+  if coalesce(btrim(p_reply), '') = '' then
+    raise exception 'reply must not be empty' using errcode = '23514';
+  end if;
+
+  update public.reviews
+  set reply = btrim(p_reply), replied_at = now()
+  where id = rv.id;
+
+  if rv.reply is null then
+    insert into public.notifications (user_id, kind, actor_id, request_id, title, body)
+    values (rv.reviewer_id, 'review', p_replier_id, r.id, r.title, 'replied');
+  end if;
+
+  return rv.id;
+end;
+$$;
+
+-- 作品カードにクリエイターの評価を出す（列は末尾に足す）
+create or replace view public.work_gallery
+with (security_invoker = true)
+as
+select
+  w.id,
+  w.creator_id,
+  w.title,
+  w.description,
+  w.image_url,
+  w.tags,
+  w.is_public,
+  w.created_at,
+  p.display_name as creator_name,
+  p.genre as creator_genre,
+  p.area as creator_area,
+  coalesce(l.likes_count, 0)::integer as likes_count,
+  w.image_meta,
+  p.bio as creator_bio,
+  p.avatar_url as creator_avatar_url,
+  w.accepting_requests,
+  (w.accepting_requests and public.creator_accepting_requests(p)) as requests_open,
+  s.rating_avg as creator_rating_avg,
+  coalesce(s.rating_count, 0) as creator_rating_count
+from public.works w
+join public.profiles p on p.id = w.creator_id
+left join public.rating_stats s on s.reviewee_id = w.creator_id
+left join (
+  select work_id, count(*) as likes_count
+  from public.work_likes
+  group by work_id
+) l on l.work_id = w.id
+where w.is_public = true
+  and w.archived_at is null
+  and w.deleted_at is null;
+
+-- 戻り値に creator_rating_avg / creator_rating_count が増えるので作り直す（中身は 20261020040000_request_intake.sql と同じ）
+drop function if exists public.list_gallery_works(
+  text, text, text, text, integer, timestamptz, uuid, integer, text, integer
+);
+
+create or replace function public.list_gallery_works(
+  p_q text default null,
+  p_genre text default null,
+  p_area text default null,
+  p_sort text default 'newest',
+  p_cursor_likes integer default null,
+  p_cursor_created_at timestamptz default null,
+  p_cursor_id uuid default null,
+  p_limit integer default 24,
+  p_tag text default null,
+  p_cursor_rank integer default null
+)
+returns table (
+  id uuid,
+  creator_id uuid,
+  title text,
+  description text,
+  image_url text,
+  tags text,
+  is_public boolean,
+  created_at timestamptz,
+  creator_name text,
+  creator_genre text,
+  creator_area text,
+  likes_count integer,
+  image_meta jsonb,
+  creator_bio text,
+  creator_avatar_url text,
+  accepting_requests boolean,
+  requests_open boolean,
+  creator_rating_avg numeric,
+  creator_rating_count integer,
+  search_rank integer
+)
+language sql
+stable
+as $$
+  with hits as (
+    select
+      g.*,
+      case
+        when cardinality(public.search_terms(p_q)) > 0
+          then public.work_search_rank(g, public.search_terms(p_q))
+        else 0
+      end as search_rank
+    from public.work_gallery g
+    join public.profiles p on p.id = g.creator_id
+    where (p_genre is null or p_genre = any (p.genre_slugs))
+      and (p_area is null or public.area_matches(p.area_codes, p_area))
+      and (
+        p_tag is null
+        or exists (
+          select 1
+          from public.work_tags wt
+          join public.tags t on t.id = wt.tag_id
+          where wt.work_id = g.id and t.slug = p_tag
+        )
+      )
+  )
+  select h.*
+  from hits h
+  where (cardinality(public.search_terms(p_q)) = 0 or h.search_rank > 0)
+    and (
+      p_cursor_id is null
+      or (
+        p_sort = 'popular'
+        and (h.likes_count, h.created_at, h.id)
+          < (p_cursor_likes, p_cursor_created_at, p_cursor_id)
+      )
+      or (
+        p_sort = 'relevance'
+        and (h.search_rank, h.created_at, h.id)
+          < (p_cursor_rank, p_cursor_created_at, p_cursor_id)
+      )
+      or (
+        p_sort not in ('popular', 'relevance')
+        and (h.created_at, h.id) < (p_cursor_created_at, p_cursor_id)
+      )
+    )
+  order by
+    case when p_sort = 'popular' then h.likes_count end desc nulls last,
+    case when p_sort = 'relevance' then h.search_rank end desc nulls last,
+    h.created_at desc,
+    h.id desc
+  limit least(greatest(coalesce(p_limit, 24), 1), 100);
+$$;
@@ -0,0 +1,216 @@
+-- supabase/migrations/20261020060000_dual_roles.sql
+-- 1 つのアカウントでクリエイターと依頼者の両方を使えるようにする
+--   roles はできること、role は今どちらとして使っているか（roles のうち 1 つ）。
+--   ルールは lib/data/roles.ts と同じ。権限の判定は roles だけで行う
+
+alter table public.profiles
+  add column if not exists roles text[] not null default '{}';
+
+alter table public.profiles drop constraint if exists profiles_roles_check;
+alter table public.profiles add constraint profiles_roles_check
+  check (roles <@ array['creator', 'client']::text[]);
+
+-- これまでのロールをそのまま引き継ぐ
+update public.profiles
+set roles = array[role]
+where role is not null and cardinality(roles) = 0;
+
+-- roles を creator, client の順にそろえ、role を roles の中のものにする。
+-- role だけで作られたプロフィール（以前の登録画面）はそのロールだけを持つ
+create or replace function public.profiles_normalize_roles()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' and cardinality(new.roles) = 0 and new.role is not null then
+    new.roles := array[new.role];
+  end if;
+
+  if not new.roles <@ array['creator', 'client']::text[] then
+    raise exception 'unknown role' using errcode = '23514';
+  end if;
+
+  new.roles := array(
+    select r
+    from unnest(array['creator', 'client']) with ordinality as t (r, n)
+    where r = any (new.roles)
+    order by n
+  );
+
+  if new.role is null or not (new.role = any (new.roles)) then
+    new.role := new.roles[1];
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_normalize_roles on public.profiles;
+create trigger profiles_normalize_roles
+  before insert or update of role, roles on public.profiles
+  for each row execute function public.profiles_normalize_roles();
+
+-- 依頼を受けられるのはクリエイター、送れるのは依頼者のロールを持つユーザーだけ（自分宛ては不可）
+create or replace function public.guard_request_roles()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.creator_id = new.client_id then
+    raise exception 'cannot request yourself' using errcode = '23514';
+  end if;
+
+  if not exists (
+    select 1 from public.profiles p
+    where p.id = new.creator_id and 'creator' = any (p.roles)
+  ) then
+    raise exception 'creator_id is not a creator' using errcode = '23514';
+  end if;
+
+  if not exists (
+    select 1 from public.profiles p
+    where p.id = new.client_id and 'client' = any (p.roles)
+  ) then
+    raise exception 'client_id is not a client' using errcode = '23514';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists requests_guard_roles on public.requests;
+create trigger requests_guard_roles
+  before insert on public.requests
+  for each row execute function public.guard_request_roles();
+
+-- クリエイターの一覧・検索は roles で絞る（中身は 20261020020000_profile_images.sql /
+-- 20261020030000_creator_profile_details.sql と同じ）
+create or replace function public.list_creators(
+  p_q text default null,
+  p_genre text default null,
+  p_area text default null,
+  p_sort text default 'works',
+  p_cursor_value numeric default null,
+  p_cursor_id uuid default null,
+  p_limit integer default 24
+)
+returns table (
+  id uuid,
+  display_name text,
+  bio text,
+  genre text,
+  area text,
+  genre_slugs text[],
+  area_codes text[],
+  avatar_url text,
+  works_count integer,
+  likes_total integer,
+  requests_decided integer,
+  acceptance_rate numeric,
+  search_rank integer,
+  sort_value numeric
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with stats as (
+    select
+      p.id,
+      p.display_name,
+      p.bio,
+      p.genre,
+      p.area,
+      p.genre_slugs,
+      p.area_codes,
+      p.avatar_url,
+      coalesce(w.works_count, 0)::integer as works_count,
+      coalesce(w.likes_total, 0)::integer as likes_total,
+      coalesce(r.decided, 0)::integer as requests_decided,
+      round(r.accepted::numeric / nullif(r.decided, 0), 4) as acceptance_rate,
+      case
+        when cardinality(public.search_terms(p_q)) > 0
+          then public.creator_search_rank(p, public.search_terms(p_q))
+        else 0
+      end as search_rank
+    from public.profiles p
+    left join (
+      select g.creator_id, count(*) as works_count, sum(g.likes_count) as likes_total
+      from public.work_gallery g
+      group by g.creator_id
+    ) w on w.creator_id = p.id
+    left join (
+      select
+        rq.creator_id,
+        count(*) filter (where rq.status in ('accepted', 'closed', 'rejected')) as decided,
+        count(*) filter (where rq.status in ('accepted', 'closed')) as accepted
+      from public.requests rq
+      group by rq.creator_id
+    ) r on r.creator_id = p.id
+    where 'creator' = any (p.roles)
+      and (p_genre is null or p_genre = any (p.genre_slugs))
+      and (p_area is null or public.area_matches(p.area_codes, p_area))
+  ),
+  ranked as (
+    select
+      s.*,
+      (
+        case p_sort
+          when 'likes' then s.likes_total
+          when 'acceptance' then coalesce(s.acceptance_rate, -1)
+          when 'relevance' then s.search_rank
+          else s.works_count
+        end
+      )::numeric as sort_value
+    from stats s
+    where cardinality(public.search_terms(p_q)) = 0 or s.search_rank > 0
+  )
+  select *
+  from ranked k
+  where p_cursor_id is null or (k.sort_value, k.id) < (p_cursor_value, p_cursor_id)
+  order by k.sort_value desc, k.id desc
+  limit least(greatest(coalesce(p_limit, 24), 1), 100);
+$$;
+
+create or replace function public.search_creators(p_q text, p_limit integer default 10)
+returns table (
+  id uuid,
+  display_name text,
+  role text,
+  bio text,
+  genre text,
+  area text,
+  genre_slugs text[],
+  area_codes text[],
+  avatar_url text,
+  works_count integer,
+  search_rank integer
+)
+language sql
+stable
+as $$
+  select *
+  from (
+    select
+      p.id,
+      p.display_name,
+      p.role,
+      p.bio,
+      p.genre,
+      p.area,
+      p.genre_slugs,
+      p.area_codes,
+      p.avatar_url,
+      (select count(*) from public.work_gallery g where g.creator_id = p.id)::integer
+        as works_count,
+      public.creator_search_rank(p, public.search_terms(p_q)) as search_rank
+    from public.profiles p
+    where 'creator' = any (p.roles)
+  ) c
+  where c.search_rank > 0
+  order by c.search_rank desc, c.works_count desc, c.display_name
+  limit least(greatest(coalesce(p_limit, 10), 1), 50);
+$$;
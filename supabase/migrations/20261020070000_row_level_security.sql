@@ -0,0 +1,103 @@
+-- supabase/migrations/20261020070000_row_level_security.sql
+-- works / requests / messages / work_likes の行レベルセキュリティ
+--   画面での権限チェックは表示のためだけで、見せてよいかはここで決める。
+--   インメモリバックエンドも同じ見え方にしている（lib/data/memory/policies.ts）
+--
+--   works      読む：公開中（非公開・アーカイブ・削除済みでない）は誰でも。それ以外はオーナーと、その作品への依頼の当事者
+--              書く：クリエイターのロールを持つ本人が自分の作品だけ（アーカイブ・削除・画像・タグは RPC 側で確かめる）
+--   requests   読む：当事者（クリエイター・依頼者）だけ
+--              書く：作成は依頼者本人だけ（ロール・受付状況はトリガー）。ステータスの変更は transition_request_status だけ
+--   messages   読む・送る：依頼の当事者だけ（送信者は本人）。既読は mark_messages_read だけ
+--   work_likes 読む：誰でも（作品カードのいいね数を work_gallery で数えるため）
+--              書く：本人のいいねだけ、見える作品にだけ付けられる
+
+alter table public.works enable row level security;
+alter table public.requests enable row level security;
+alter table public.messages enable row level security;
+alter table public.work_likes enable row level security;
+
+-- requests を読むポリシーから works を参照しないこと（works のポリシーが requests を読むので循環する）
+drop policy if exists "requests: participants can read" on public.requests;
+create policy "requests: participants can read"
+  on public.requests for select
+  using (auth.uid() in (creator_id, client_id));
+
+drop policy if exists "requests: client can create" on public.requests;
+create policy "requests: client can create"
+  on public.requests for insert
+  with check (client_id = auth.uid());
+
+drop policy if exists "works: readable when public, by the owner or by request participants"
+  on public.works;
+create policy "works: readable when public, by the owner or by request participants"
+  on public.works for select
+  using (
+    (is_public = true and archived_at is null and deleted_at is null)
+    or creator_id = auth.uid()
+    or exists (
+      select 1 from public.requests r
+      where r.work_id = works.id
+        and auth.uid() in (r.creator_id, r.client_id)
+    )
+  );
+
+drop policy if exists "works: creators can add their own" on public.works;
+create policy "works: creators can add their own"
+  on public.works for insert
+  with check (
+    creator_id = auth.uid()
+    and exists (
+      select 1 from public.profiles p
+      where p.id = auth.uid() and 'creator' = any (p.roles)
+    )
+  );
+
+drop policy if exists "works: owner can update" on public.works;
+create policy "works: owner can update"
+  on public.works for update
+  using (creator_id = auth.uid())
+  with check (creator_id = auth.uid());
+
+-- 行の削除は purge_deleted_works（service role）だけ
+
+drop policy if exists "messages: participants can read" on public.messages;
+create policy "messages: participants can read"
+  on public.messages for select
+  using (
+    exists (
+      select 1 from public.requests r
+      where r.id = request_id
+        and auth.uid() in (r.creator_id, r.client_id)
+    )
+  );
+
+drop policy if exists "messages: participants can send" on public.messages;
+create policy "messages: participants can send"
+  on public.messages for insert
+  with check (
+    sender_id = auth.uid()
+    and exists (
+      select 1 from public.requests r
+      where r.id = request_id
+        and auth.uid() in (r.creator_id, r.client_id)
+    )
+  );
+
+drop policy if exists "work_likes: anyone can read" on public.work_likes;
+create policy "work_likes: anyone can read"
+  on public.work_likes for select
+  using (true);
+
+-- 見えない作品（works のポリシー）には付けられない。アーカイブ・削除済みは guard_work_available で弾く
+drop policy if exists "work_likes: users can like visible works" on public.work_likes;
+create policy "work_likes: users can like visible works"
+  on public.work_likes for insert
+  with check (
+    user_id = auth.uid()
+    and exists (select 1 from public.works w where w.id = work_id)
+  );
+
+drop policy if exists "work_likes: users can unlike" on public.work_likes;
+create policy "work_likes: users can unlike"
+  on public.work_likes for delete
+  using (user_id = auth.uid());
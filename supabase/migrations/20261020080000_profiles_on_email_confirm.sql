@@ -0,0 +1,64 @@
+-- supabase/migrations/20261020080000_profiles_on_email_confirm.sql
+-- プロフィールはメールアドレスの確認が済んでから作る
+--   登録画面は表示名・ロールを signUp の user_metadata（display_name, role, roles）に預けるだけにし、
+--   確認が済んだ（確認なしの設定なら登録した）ときにここで profiles を作る。
+--   インメモリバックエンドも同じ（lib/data/memory/auth.ts）
+
+create or replace function public.create_profile_for_confirmed_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  meta jsonb := coalesce(new.raw_user_meta_data, '{}'::jsonb);
+  v_roles text[];
+begin
+  if new.email_confirmed_at is null then
+    return new;
+  end if;
+  if tg_op = 'UPDATE' and old.email_confirmed_at is not null then
+    return new;
+  end if;
+
+  -- 知らないロールは捨てる。何もなければ依頼者として始める
+  select coalesce(array_agg(r), '{}')
+  into v_roles
+  from jsonb_array_elements_text(
+    case when jsonb_typeof(meta -> 'roles') = 'array' then meta -> 'roles' else '[]'::jsonb end
+  ) as t (r)
+  where r in ('creator', 'client');
+
+  if cardinality(v_roles) = 0 then
+    v_roles := array['client'];
+  end if;
+
+  -- role・roles の並びは profiles_normalize_roles トリガーがそろえる
+  insert into public.profiles (id, display_name, role, roles)
+  values (
+    new.id,
+    coalesce(nullif(btrim(meta ->> 'display_name'), ''), new.email),
+    case when meta ->> 'role' = any (v_roles) then meta ->> 'role' end,
+    v_roles
+  )
+  on conflict (id) do nothing;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists create_profile_for_confirmed_user on auth.users;
+create trigger create_profile_for_confirmed_user
+  after insert or update of email_confirmed_at on auth.users
+  for each row execute function public.create_profile_for_confirmed_user();
+
+-- 以前の登録画面で確認前にプロフィールを作れなかったユーザーの分
+insert into public.profiles (id, display_name, role, roles)
+select
+  u.id,
+  coalesce(nullif(btrim(u.raw_user_meta_data ->> 'display_name'), ''), u.email),
+  'client',
+  array['client']
+from auth.users u
+where u.email_confirmed_at is not null
+  and not exists (select 1 from public.profiles p where p.id = u.id);
@@ -0,0 +1,29 @@
+-- supabase/migrations/20261020090000_strict_link_hosts.sql
+-- 外部リンクのホスト名の取り出しを、ブラウザが実際に開くホストとずれないようにする
+--   「https://evil.example\@instagram.com」はブラウザでは evil.example を開くのに、
+--   以前の url_host は instagram.com と読んでいた。ホスト名の部分（最初の / ? # まで）に
+--   \ ・@（ユーザー情報）・空白があれば URL として扱わない。ルールは lib/data/creatorProfile.ts と同じ
+
+create or replace function public.url_host(p_url text)
+returns text
+language sql
+immutable
+as $$
+  select case
+    when lower(btrim(p_url)) ~ '^https?://[^/?#]*[\\@[:space:][:cntrl:]]' then null
+    else substring(lower(btrim(p_url)) from '^https?://([^/?#:]+)')
+  end;
+$$;
+
+-- 保存済みのリンクのうち、新しいルールで URL でなくなったものは外す
+update public.profiles p
+set links = (
+  select coalesce(jsonb_agg(t.e order by t.pos), '[]'::jsonb)
+  from jsonb_array_elements(p.links) with ordinality as t(e, pos)
+  where public.url_host(t.e->>'url') is not null
+)
+where exists (
+  select 1
+  from jsonb_array_elements(p.links) as l(e)
+  where public.url_host(l.e->>'url') is null
+);
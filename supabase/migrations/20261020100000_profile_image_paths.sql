@@ -0,0 +1,38 @@
+-- supabase/migrations/20261020100000_profile_image_paths.sql
+-- プロフィールのアイコン・カバー画像は、公開 URL ではなく profiles バケット内のパスで持つ
+--   以前の制約は URL のどこかに「/storage/v1/object/public/profiles/{id}/」があればよく、
+--   「https://evil.example/x?/storage/v1/object/public/profiles/{id}/」のような外部の画像も通っていた。
+--   DB はプロジェクトのストレージの URL を知らないので、パス（{id}/{avatar|cover}-{uuid}.{ext}）だけを持ち、
+--   公開 URL にはアプリ側（lib/data/supabase/profiles.ts）で自分のプロジェクトのストレージから組み立てる。
+--   列名は avatar_url / cover_url のまま（ビュー・RPC の戻り値の creator_avatar_url / avatar_url もパスになる）。
+--   ルールは lib/data/profileImages.ts の isProfileImagePath と同じ
+
+alter table public.profiles drop constraint if exists profiles_avatar_url_check;
+alter table public.profiles drop constraint if exists profiles_cover_url_check;
+
+-- 保存済みの URL はパスに直す。自分のフォルダの画像でないものは外す
+update public.profiles
+set
+  avatar_url = substring(
+    avatar_url
+    from '/storage/v1/object/public/profiles/(' || id::text
+      || '/avatar-[0-9a-f-]{36}\.(?:webp|jpg|png))(?:[?#].*)?$'
+  ),
+  cover_url = substring(
+    cover_url
+    from '/storage/v1/object/public/profiles/(' || id::text
+      || '/cover-[0-9a-f-]{36}\.(?:webp|jpg|png))(?:[?#].*)?$'
+  )
+where avatar_url is not null or cover_url is not null;
+
+alter table public.profiles add constraint profiles_avatar_url_check
+  check (
+    avatar_url is null
+    or avatar_url ~ ('^' || id::text || '/avatar-[0-9a-f-]{36}\.(webp|jpg|png)$')
+  );
+
+alter table public.profiles add constraint profiles_cover_url_check
+  check (
+    cover_url is null
+    or cover_url ~ ('^' || id::text || '/cover-[0-9a-f-]{36}\.(webp|jpg|png)$')
+  );
@@ -0,0 +1,34 @@
+-- supabase/migrations/20261020110000_request_work_owner.sql
+-- 依頼に付ける作品は、その依頼のクリエイターの公開中の作品だけにする
+--   works のポリシーは「その作品への依頼の当事者」にも作品を見せるので、
+--   他人の非公開作品の id を work_id にした依頼を作ると中身が読めてしまっていた。
+--   アーカイブ・削除済みは guard_work_available が弾く。ルールは lib/data/memory/requests.ts と同じ
+
+create or replace function public.guard_request_work()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.work_id is null then
+    return new;
+  end if;
+
+  if not exists (
+    select 1 from public.works w
+    where w.id = new.work_id
+      and w.creator_id = new.creator_id
+      and w.is_public = true
+  ) then
+    raise exception 'work is not a public work of the creator' using errcode = '23514';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists requests_guard_request_work on public.requests;
+create trigger requests_guard_request_work
+  before insert on public.requests
+  for each row execute function public.guard_request_work();
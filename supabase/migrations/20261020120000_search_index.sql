@@ -0,0 +1,275 @@
+-- supabase/migrations/20261020120000_search_index.sql
+-- キーワード検索を索引で絞り込む
+--   以前は検索のたびに全作品・全クリエイターの各項目を search_fold してから部分一致を見ていた。
+--   そろえた（search_fold した）文字列を生成列 search_text に持ち、pg_trgm の GIN 索引を張る。
+--   RPC はまず一番長い語を LIKE で索引から引いて候補に絞り、その候補だけ今までどおり項目ごとの一致度を計算する
+--   （索引は候補を絞るだけなので、結果・並び順は変わらない）。
+--   2 文字以下の語は trigram が取れないので、その語だけの検索は索引では絞れない
+
+create extension if not exists pg_trgm with schema extensions;
+
+-- 索引で候補を引くためのパターン（一番長い語の部分一致。% _ \ はその文字として探す）。語がなければ null
+create or replace function public.search_index_pattern(p_terms text[])
+returns text
+language sql
+immutable
+as $$
+  select '%' || replace(replace(replace(t.term, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+  from unnest(p_terms) with ordinality as t(term, pos)
+  order by char_length(t.term) desc, t.pos
+  limit 1;
+$$;
+
+-- 作品：タイトル・タグ・説明（クリエイターの項目は profiles.search_text で見る）
+alter table public.works
+  add column if not exists search_text text
+    generated always as (
+      public.search_fold(title) || ' ' || public.search_fold(tags) || ' '
+        || public.search_fold(description)
+    ) stored;
+
+create index if not exists works_search_text_idx
+  on public.works using gin (search_text extensions.gin_trgm_ops);
+
+-- クリエイター：名前・ジャンル・エリア・自己紹介（genre / area はトリガーが作ったキャッシュ）
+alter table public.profiles
+  add column if not exists search_text text
+    generated always as (
+      public.search_fold(display_name) || ' ' || public.search_fold(genre) || ' '
+        || public.search_fold(area) || ' ' || public.search_fold(bio)
+    ) stored;
+
+create index if not exists profiles_search_text_idx
+  on public.profiles using gin (search_text extensions.gin_trgm_ops);
+
+-- 中身は 20261020050000_reviews.sql と同じ（キーワードがあるときの候補の絞り込みだけ足す）
+create or replace function public.list_gallery_works(
+  p_q text default null,
+  p_genre text default null,
+  p_area text default null,
+  p_sort text default 'newest',
+  p_cursor_likes integer default null,
+  p_cursor_created_at timestamptz default null,
+  p_cursor_id uuid default null,
+  p_limit integer default 24,
+  p_tag text default null,
+  p_cursor_rank integer default null
+)
+returns table (
+  id uuid,
+  creator_id uuid,
+  title text,
+  description text,
+  image_url text,
+  tags text,
+  is_public boolean,
+  created_at timestamptz,
+  creator_name text,
+  creator_genre text,
+  creator_area text,
+  likes_count integer,
+  image_meta jsonb,
+  creator_bio text,
+  creator_avatar_url text,
+  accepting_requests boolean,
+  requests_open boolean,
+  creator_rating_avg numeric,
+  creator_rating_count integer,
+  search_rank integer
+)
+language sql
+stable
+as $$
+  with hits as (
+    select
+      g.*,
+      case
+        when cardinality(public.search_terms(p_q)) > 0
+          then public.work_search_rank(g, public.search_terms(p_q))
+        else 0
+      end as search_rank
+    from public.work_gallery g
+    join public.profiles p on p.id = g.creator_id
+    where (p_genre is null or p_genre = any (p.genre_slugs))
+      and (p_area is null or public.area_matches(p.area_codes, p_area))
+      and (
+        p_tag is null
+        or exists (
+          select 1
+          from public.work_tags wt
+          join public.tags t on t.id = wt.tag_id
+          where wt.work_id = g.id and t.slug = p_tag
+        )
+      )
+      -- 一致度はキーワードの語を含みうる作品（作品かクリエイターの search_text に一番長い語がある）だけで計算する
+      and (
+        cardinality(public.search_terms(p_q)) = 0
+        or p.search_text like public.search_index_pattern(public.search_terms(p_q))
+        or g.id in (
+          select w.id
+          from public.works w
+          where w.search_text like public.search_index_pattern(public.search_terms(p_q))
+        )
+      )
+  )
+  select h.*
+  from hits h
+  where (cardinality(public.search_terms(p_q)) = 0 or h.search_rank > 0)
+    and (
+      p_cursor_id is null
+      or (
+        p_sort = 'popular'
+        and (h.likes_count, h.created_at, h.id)
+          < (p_cursor_likes, p_cursor_created_at, p_cursor_id)
+      )
+      or (
+        p_sort = 'relevance'
+        and (h.search_rank, h.created_at, h.id)
+          < (p_cursor_rank, p_cursor_created_at, p_cursor_id)
+      )
+      or (
+        p_sort not in ('popular', 'relevance')
+        and (h.created_at, h.id) < (p_cursor_created_at, p_cursor_id)
+      )
+    )
+  order by
+    case when p_sort = 'popular' then h.likes_count end desc nulls last,
+    case when p_sort = 'relevance' then h.search_rank end desc nulls last,
+    h.created_at desc,
+    h.id desc
+  limit least(greatest(coalesce(p_limit, 24), 1), 100);
+$$;
+
+-- 中身は 20261020060000_dual_roles.sql と同じ（キーワードがあるときの候補の絞り込みだけ足す）
+create or replace function public.list_creators(
+  p_q text default null,
+  p_genre text default null,
+  p_area text default null,
+  p_sort text default 'works',
+  p_cursor_value numeric default null,
+  p_cursor_id uuid default null,
+  p_limit integer default 24
+)
+returns table (
+  id uuid,
+  display_name text,
+  bio text,
+  genre text,
+  area text,
+  genre_slugs text[],
+  area_codes text[],
+  avatar_url text,
+  works_count integer,
+  likes_total integer,
+  requests_decided integer,
+  acceptance_rate numeric,
+  search_rank integer,
+  sort_value numeric
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with stats as (
+    select
+      p.id,
+      p.display_name,
+      p.bio,
+      p.genre,
+      p.area,
+      p.genre_slugs,
+      p.area_codes,
+      p.avatar_url,
+      coalesce(w.works_count, 0)::integer as works_count,
+      coalesce(w.likes_total, 0)::integer as likes_total,
+      coalesce(r.decided, 0)::integer as requests_decided,
+      round(r.accepted::numeric / nullif(r.decided, 0), 4) as acceptance_rate,
+      case
+        when cardinality(public.search_terms(p_q)) > 0
+          then public.creator_search_rank(p, public.search_terms(p_q))
+        else 0
+      end as search_rank
+    from public.profiles p
+    left join (
+      select g.creator_id, count(*) as works_count, sum(g.likes_count) as likes_total
+      from public.work_gallery g
+      group by g.creator_id
+    ) w on w.creator_id = p.id
+    left join (
+      select
+        rq.creator_id,
+        count(*) filter (where rq.status in ('accepted', 'closed', 'rejected')) as decided,
+        count(*) filter (where rq.status in ('accepted', 'closed')) as accepted
+      from public.requests rq
+      group by rq.creator_id
+    ) r on r.creator_id = p.id
+    where 'creator' = any (p.roles)
+      and (p_genre is null or p_genre = any (p.genre_slugs))
+      and (p_area is null or public.area_matches(p.area_codes, p_area))
+      and (
+        cardinality(public.search_terms(p_q)) = 0
+        or p.search_text like public.search_index_pattern(public.search_terms(p_q))
+      )
+  ),
+  ranked as (
+    select
+      s.*,
+      (
+        case p_sort
+          when 'likes' then s.likes_total
+          when 'acceptance' then coalesce(s.acceptance_rate, -1)
+          when 'relevance' then s.search_rank
+          else s.works_count
+        end
+      )::numeric as sort_value
+    from stats s
+    where cardinality(public.search_terms(p_q)) = 0 or s.search_rank > 0
+  )
+  select *
+  from ranked k
+  where p_cursor_id is null or (k.sort_value, k.id) < (p_cursor_value, p_cursor_id)
+  order by k.sort_value desc, k.id desc
+  limit least(greatest(coalesce(p_limit, 24), 1), 100);
+$$;
+
+create or replace function public.search_creators(p_q text, p_limit integer default 10)
+returns table (
+  id uuid,
+  display_name text,
+  role text,
+  bio text,
+  genre text,
+  area text,
+  genre_slugs text[],
+  area_codes text[],
+  avatar_url text,
+  works_count integer,
+  search_rank integer
+)
+language sql
+stable
+as $$
+  select *
+  from (
+    select
+      p.id,
+      p.display_name,
+      p.role,
+      p.bio,
+      p.genre,
+      p.area,
+      p.genre_slugs,
+      p.area_codes,
+      p.avatar_url,
+      (select count(*) from public.work_gallery g where g.creator_id = p.id)::integer
+        as works_count,
+      public.creator_search_rank(p, public.search_terms(p_q)) as search_rank
+    from public.profiles p
+    where 'creator' = any (p.roles)
+      and p.search_text like public.search_index_pattern(public.search_terms(p_q))
+  ) c
+  where c.search_rank > 0
+  order by c.search_rank desc, c.works_count desc, c.display_name
+  limit least(greatest(coalesce(p_limit, 10), 1), 50);
+$$;
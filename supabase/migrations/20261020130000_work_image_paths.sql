@@ -0,0 +1,241 @@
+-- supabase/migrations/20261020130000_work_image_paths.sql
+-- 作品画像は works バケット内のパスで持ち、新しく付けられるのはオーナー本人のフォルダの画像だけにする
+--   以前の set_work_images は storage_path・url・meta を画面から渡されたまま保存していた。
+--   他人のフォルダ（images/{別のユーザー}/...）を自分の作品に付けて削除すると、
+--   purge_deleted_works（service role）がその人の画像を消してしまい、url・派生画像も外部の画像を指せた。
+--   新しい画像：storage_path は images/{auth.uid()}/{uuid}（/api/works/images が作る形）だけ。
+--     url・派生画像は storage_path から組み立てる（{storage_path}/{size}.{format}）
+--   付いたままの画像：画面から渡された値は使わず、この作品の行（work_images がない古い作品は works.image_url）から取り直す
+--   公開 URL にはアプリ側（lib/data/supabase/works.ts）で組み立てる（プロフィール画像と同じ）。
+--   バケット外の URL のまま残っている古い画像は、そのまま返す
+
+-- 派生画像のパスを storage_path から組み立てる（サイズ・ぼかし画像は p_meta のまま）
+create or replace function public.work_image_meta(p_storage_path text, p_meta jsonb)
+returns jsonb
+language sql
+immutable
+as $$
+  select jsonb_build_object(
+    'width', p_meta->'width',
+    'height', p_meta->'height',
+    'placeholder', p_meta->'placeholder',
+    'variants', (
+      select jsonb_object_agg(
+        s.size,
+        jsonb_build_object(
+          'width', p_meta->'variants'->s.size->'width',
+          'height', p_meta->'variants'->s.size->'height',
+          'avif', p_storage_path || '/' || s.size || '.avif',
+          'webp', p_storage_path || '/' || s.size || '.webp'
+        )
+      )
+      from unnest(array['thumb', 'medium', 'large']) as s(size)
+    )
+  );
+$$;
+
+-- 他人のフォルダのパスは外す（ファイルは消さない）
+update public.work_images i
+set storage_path = null
+from public.works w
+where w.id = i.work_id
+  and i.storage_path is not null
+  and (
+    not starts_with(i.storage_path, 'images/' || w.creator_id::text || '/')
+    or i.storage_path ~ '(^|/)\.\.(/|$)'
+  );
+
+-- 保存済みの URL はパスに直す（派生画像はフォルダから、古い 1 枚画像は storage_path そのもの）
+update public.work_images
+set
+  url = case when meta is null then storage_path else storage_path || '/large.webp' end,
+  meta = case when meta is not null then public.work_image_meta(storage_path, meta) end
+where storage_path is not null;
+
+-- パスのない画像の派生画像は外部を指しているので外す（url の 1 枚だけ残す）
+update public.work_images
+set meta = null
+where storage_path is null and meta is not null;
+
+update public.works w
+set image_url = i.url, image_meta = i.meta
+from public.work_images i
+where i.work_id = w.id and i.is_cover;
+
+-- work_images がない古い作品は、本人のフォルダの公開 URL だけパスに直す
+update public.works w
+set image_url = coalesce(
+  substring(
+    w.image_url
+    from '/storage/v1/object/public/works/(images/' || w.creator_id::text || '/[^?#]+)'
+  ),
+  w.image_url
+)
+where w.image_url is not null
+  and not exists (select 1 from public.work_images i where i.work_id = w.id);
+
+-- p_images: [{ "storage_path": text | null, "url": text, "meta": jsonb | null }, ...]
+--   新しい画像は storage_path と meta のサイズ・ぼかし画像だけを使う
+create or replace function public.set_work_images(
+  p_work_id uuid,
+  p_images jsonb,
+  p_cover_index integer
+)
+returns setof public.work_images
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  w public.works;
+  v_count integer;
+  v_has_rows boolean;
+  v_image jsonb;
+  v_kept public.work_images;
+  v_path text;
+  v_url text;
+  v_meta jsonb;
+  v_rows jsonb := '[]'::jsonb;
+begin
+  select * into w from public.works where id = p_work_id for update;
+  if w.id is null then
+    raise exception 'work not found' using errcode = 'P0002';
+  end if;
+
+  if auth.uid() is distinct from w.creator_id then
+    raise exception 'only the owner can change work images' using errcode = '42501';
+  end if;
+
+  if jsonb_typeof(p_images) <> 'array' then
+    raise exception 'images must be an array' using errcode = '22023';
+  end if;
+
+  v_count := jsonb_array_length(p_images);
+  if v_count < 1 or v_count > 10 then
+    raise exception 'a work needs 1 to 10 images' using errcode = '23514';
+  end if;
+
+  if p_cover_index is null or p_cover_index < 0 or p_cover_index >= v_count then
+    raise exception 'invalid cover index' using errcode = '23514';
+  end if;
+
+  v_has_rows := exists (select 1 from public.work_images i where i.work_id = p_work_id);
+
+  for v_image in select e.value from jsonb_array_elements(p_images) e
+  loop
+    v_path := nullif(v_image->>'storage_path', '');
+    v_url := null;
+    v_meta := null;
+
+    -- この作品に付いたままの画像
+    select * into v_kept
+    from public.work_images i
+    where i.work_id = p_work_id
+      and (
+        i.storage_path = v_path
+        or (i.storage_path is null and v_path is null and i.url = v_image->>'url')
+      )
+    limit 1;
+
+    if v_kept.id is not null then
+      v_path := v_kept.storage_path;
+      v_url := v_kept.url;
+      v_meta := v_kept.meta;
+    end if;
+
+    -- work_images がない古い作品のカバー（image_url は本人のフォルダのパスか、バケット外の URL）
+    if v_url is null and not v_has_rows and w.image_url is not null
+      and (w.image_url = v_path or w.image_url = v_image->>'url') then
+      v_path := case
+        when w.image_url = v_path and starts_with(v_path, 'images/' || w.creator_id::text || '/')
+          then v_path
+      end;
+      v_url := w.image_url;
+      v_meta := w.image_meta;
+    end if;
+
+    -- 新しくアップロードした画像（本人のフォルダの 1 枚ごとのフォルダ）
+    if v_url is null then
+      if v_path is null
+        or v_path !~ ('^images/' || auth.uid()::text || '/[0-9a-f-]{36}$')
+        or jsonb_typeof(v_image->'meta') is distinct from 'object' then
+        raise exception 'invalid image' using errcode = '23514';
+      end if;
+
+      v_url := v_path || '/large.webp';
+      v_meta := public.work_image_meta(v_path, v_image->'meta');
+    end if;
+
+    v_rows := v_rows || jsonb_build_array(
+      jsonb_build_object('storage_path', v_path, 'url', v_url, 'meta', v_meta)
+    );
+  end loop;
+
+  delete from public.work_images where work_id = p_work_id;
+
+  insert into public.work_images (work_id, storage_path, url, meta, position, is_cover)
+  select
+    p_work_id,
+    e.value->>'storage_path',
+    e.value->>'url',
+    case when jsonb_typeof(e.value->'meta') = 'object' then e.value->'meta' end,
+    (e.ordinality - 1)::integer,
+    (e.ordinality - 1) = p_cover_index
+  from jsonb_array_elements(v_rows) with ordinality as e(value, ordinality);
+
+  update public.works
+  set
+    image_url = (v_rows -> p_cover_index) ->> 'url',
+    image_meta = case
+      when jsonb_typeof((v_rows -> p_cover_index) -> 'meta') = 'object'
+        then (v_rows -> p_cover_index) -> 'meta'
+    end
+  where id = p_work_id;
+
+  return query
+    select * from public.work_images
+    where work_id = p_work_id
+    order by position;
+end;
+$$;
+
+-- 消すファイルはオーナーのフォルダのものだけにできるよう creator_id も返す（戻り値が変わるので作り直す）
+--   work_images がない古い作品は、image_url がパスならそれを storage_path として返す
+drop function if exists public.purge_deleted_works(interval);
+
+create function public.purge_deleted_works(p_undo_window interval default interval '7 days')
+returns table (work_id uuid, creator_id uuid, storage_path text, meta jsonb)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_ids uuid[];
+begin
+  select array_agg(w.id) into v_ids
+  from public.works w
+  where w.deleted_at is not null
+    and w.deleted_at < now() - p_undo_window;
+
+  if v_ids is null then
+    return;
+  end if;
+
+  return query
+    select i.work_id, w.creator_id, i.storage_path, i.meta
+    from public.work_images i
+    join public.works w on w.id = i.work_id
+    where i.work_id = any (v_ids)
+    union all
+    select w.id, w.creator_id, w.image_url, w.image_meta
+    from public.works w
+    where w.id = any (v_ids)
+      and w.image_url !~ '^[a-z][a-z0-9+.-]*:'
+      and not exists (select 1 from public.work_images i where i.work_id = w.id);
+
+  delete from public.works w where w.id = any (v_ids);
+end;
+$$;
+
+revoke all on function public.purge_deleted_works(interval) from public, anon, authenticated;
+grant execute on function public.purge_deleted_works(interval) to service_role;
@@ -0,0 +1,89 @@
+-- supabase/migrations/20261020140000_work_image_meta_checks.sql
+-- 作品画像の meta の中身（幅・高さ・ぼかし画像）を確かめる
+--   以前は variants がオブジェクトかどうかしか見ておらず、{"variants": {}} のような meta を保存すると
+--   作品一覧の描画（imageSrcSet）が落ちていた。派生画像のパスは work_image_meta が組み立てるので、
+--   画面から受け取る値（元画像と各サイズの幅・高さ、ぼかし画像）をここで確かめる。
+--   ぼかし画像は /api/works/images が作る小さな data URL だけ（外部の画像は指せない）。
+--   ルールは lib/data/workImages.ts の isValidImageMeta と同じ
+
+create or replace function public.is_valid_work_image_meta(p_meta jsonb)
+returns boolean
+language sql
+immutable
+as $$
+  select
+    jsonb_typeof(p_meta) = 'object'
+    and jsonb_typeof(p_meta->'variants') = 'object'
+    and (
+      coalesce(jsonb_typeof(p_meta->'placeholder'), 'null') = 'null'
+      or (
+        jsonb_typeof(p_meta->'placeholder') = 'string'
+        and length(p_meta->>'placeholder') <= 2048
+        and p_meta->>'placeholder' ~ '^data:image/(webp|jpeg|png);base64,[A-Za-z0-9+/]+=*$'
+      )
+    )
+    and (
+      select bool_and(
+        case
+          when jsonb_typeof(d.value) = 'number'
+            then d.value::numeric = trunc(d.value::numeric) and d.value::numeric between 1 and 100000
+          else false
+        end
+      )
+      from (
+        select p_meta->'width'
+        union all
+        select p_meta->'height'
+        union all
+        select p_meta->'variants'->s.size->'width'
+        from unnest(array['thumb', 'medium', 'large']) as s(size)
+        union all
+        select p_meta->'variants'->s.size->'height'
+        from unnest(array['thumb', 'medium', 'large']) as s(size)
+      ) as d(value)
+    );
+$$;
+
+-- 組み立てた meta が正しくなければ set_work_images ごと弾く
+create or replace function public.work_image_meta(p_storage_path text, p_meta jsonb)
+returns jsonb
+language plpgsql
+immutable
+as $$
+declare
+  v_meta jsonb;
+begin
+  v_meta := jsonb_build_object(
+    'width', p_meta->'width',
+    'height', p_meta->'height',
+    'placeholder', p_meta->'placeholder',
+    'variants', (
+      select jsonb_object_agg(
+        s.size,
+        jsonb_build_object(
+          'width', p_meta->'variants'->s.size->'width',
+          'height', p_meta->'variants'->s.size->'height',
+          'avif', p_storage_path || '/' || s.size || '.avif',
+          'webp', p_storage_path || '/' || s.size || '.webp'
+        )
+      )
+      from unnest(array['thumb', 'medium', 'large']) as s(size)
+    )
+  );
+
+  if not public.is_valid_work_image_meta(v_meta) then
+    raise exception 'invalid image meta' using errcode = '23514';
+  end if;
+
+  return v_meta;
+end;
+$$;
+
+-- 保存済みの正しくない meta は外す（url の画像だけで表示する）
+update public.work_images
+set meta = null
+where meta is not null and not public.is_valid_work_image_meta(meta);
+
+update public.works
+set image_meta = null
+where image_meta is not null and not public.is_valid_work_image_meta(image_meta);
@@ -0,0 +1,15 @@
+-- supabase/migrations/20261020150000_work_column_privileges.sql
+-- 画面から works に直接書ける列を絞る
+--   "works: owner can update" は行しか見ないので、オーナーが deleted_at を過去にして 7 日間の猶予を飛ばしたり、
+--   image_url・archived_at・tags を RPC を通さずに書き換えたりできた。
+--   アーカイブ・削除・画像・タグは security definer の RPC（set_work_archived / delete_work / restore_work /
+--   set_work_images / set_work_tags）が所有者の権限で書くので、ここで絞っても影響しない。
+--   インメモリバックエンドも同じ列だけを受け付ける（lib/data/memory/works.ts）
+
+revoke insert, update on public.works from anon, authenticated;
+
+grant insert (creator_id, title, description, is_public, accepting_requests)
+  on public.works to authenticated;
+
+grant update (title, description, is_public, accepting_requests)
+  on public.works to authenticated;
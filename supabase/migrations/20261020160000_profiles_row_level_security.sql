@@ -0,0 +1,27 @@
+-- supabase/migrations/20261020160000_profiles_row_level_security.sql
+-- profiles の行レベルセキュリティ
+--   これまで RLS がなく、ログインしていれば他人の表示名・ロールも書き換えられた。
+--   roles は works の insert ポリシーと guard_request_roles の判定に使うので、本人だけが書けるようにする。
+--   プロフィールの作成は create_profile_for_confirmed_user（security definer）が行う。
+--   インメモリバックエンドも同じ（lib/data/memory/profiles.ts）
+--
+--   読む：誰でも（作品カード・クリエイター一覧・依頼の相手の表示）
+--   書く：本人の行だけ。削除はなし（auth.users と一緒に消える）
+
+alter table public.profiles enable row level security;
+
+drop policy if exists "profiles: anyone can read" on public.profiles;
+create policy "profiles: anyone can read"
+  on public.profiles for select
+  using (true);
+
+drop policy if exists "profiles: owner can insert" on public.profiles;
+create policy "profiles: owner can insert"
+  on public.profiles for insert
+  with check (id = auth.uid());
+
+drop policy if exists "profiles: owner can update" on public.profiles;
+create policy "profiles: owner can update"
+  on public.profiles for update
+  using (id = auth.uid())
+  with check (id = auth.uid());
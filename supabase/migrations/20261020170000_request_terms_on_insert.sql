@@ -0,0 +1,34 @@
+-- supabase/migrations/20261020170000_request_terms_on_insert.sql
+-- 確定条件（agreed_*）は依頼の作成時にも入れられないようにする
+--   requests_guard_terms は update だけを見ていたので、確定条件を入れたまま依頼を insert できた。
+--   インメモリバックエンドも同じ（lib/data/memory/requests.ts）
+
+create or replace function public.guard_request_terms()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    if num_nonnulls(
+        new.agreed_quote_id, new.agreed_total, new.agreed_delivery_date, new.agreed_at
+      ) > 0 then
+      raise exception 'agreed terms can only be set by accepting a quote' using errcode = '42501';
+    end if;
+    return new;
+  end if;
+
+  if (new.agreed_quote_id, new.agreed_total, new.agreed_delivery_date, new.agreed_at)
+      is distinct from
+     (old.agreed_quote_id, old.agreed_total, old.agreed_delivery_date, old.agreed_at)
+    and coalesce(current_setting('app.request_terms_lock', true), '') <> 'on' then
+    raise exception 'agreed terms can only be set by accepting a quote' using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists requests_guard_terms on public.requests;
+create trigger requests_guard_terms
+  before insert or update on public.requests
+  for each row execute function public.guard_request_terms();
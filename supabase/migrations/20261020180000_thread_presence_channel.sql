@@ -0,0 +1,37 @@
+-- supabase/migrations/20261020180000_thread_presence_channel.sql
+-- 依頼スレッドのオンライン状態・入力中（Realtime の Presence / Broadcast）を当事者だけに絞る
+--   これまでは公開チャンネル thread:<request_id> で、依頼 ID を知っていれば誰でも入れ、
+--   他人として入力中を送れた。チャンネルを private にし、realtime.messages の RLS で
+--   入れる（受け取る）・送るのを依頼の当事者だけにする。
+--   クライアントは lib/data/supabase/presence.ts
+
+-- p_topic が thread:<request_id> で、ログイン中のユーザーがその依頼の当事者か
+create or replace function public.is_thread_channel_participant(p_topic text)
+returns boolean
+language sql
+stable
+as $$
+  select exists (
+    select 1 from public.requests r
+    where p_topic = 'thread:' || r.id::text
+      and auth.uid() in (r.creator_id, r.client_id)
+  )
+$$;
+
+drop policy if exists "thread channel: participants can receive" on realtime.messages;
+create policy "thread channel: participants can receive"
+  on realtime.messages for select
+  to authenticated
+  using (
+    realtime.messages.extension in ('presence', 'broadcast')
+    and public.is_thread_channel_participant(realtime.topic())
+  );
+
+drop policy if exists "thread channel: participants can send" on realtime.messages;
+create policy "thread channel: participants can send"
+  on realtime.messages for insert
+  to authenticated
+  with check (
+    realtime.messages.extension in ('presence', 'broadcast')
+    and public.is_thread_channel_participant(realtime.topic())
+  );
@@ -0,0 +1,363 @@
+-- supabase/tests/row_level_security.test.sql
+-- works / requests / messages / work_likes / profiles の RLS
+--   （supabase/migrations/20261020070000_row_level_security.sql・20261020160000_profiles_row_level_security.sql・
+--    20261020180000_thread_presence_channel.sql）
+--   `supabase start` したローカルの DB に `npm run test:db`（supabase test db）で流す。全体を rollback するのでデータは残らない。
+--   ユーザーの切り替えは set local role authenticated と request.jwt.claims（auth.uid() が sub を読む）で行う
+--
+--   クリエイター A：公開・あとで非公開にした・アーカイブ・削除済みの作品を持つ
+--   依頼者 C：A の公開作品・あとで非公開になった作品に依頼している（当事者）
+--   依頼者 D：どの依頼の当事者でもない
+--   クリエイター B：A の作品に手を出そうとする別のクリエイター
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(39);
+
+-- 準備（postgres のまま入れるので RLS はかからない）。プロフィールは確認済みユーザーのトリガーが作る
+insert into auth.users (id, email, email_confirmed_at, raw_user_meta_data)
+values
+  ('aaaaaaaa-0000-4000-8000-000000000001', 'a@example.com', now(),
+    '{"display_name": "クリエイター A", "roles": ["creator"]}'),
+  ('bbbbbbbb-0000-4000-8000-000000000002', 'b@example.com', now(),
+    '{"display_name": "クリエイター B", "roles": ["creator", "client"]}'),
+  ('cccccccc-0000-4000-8000-000000000003', 'c@example.com', now(),
+    '{"display_name": "依頼者 C", "roles": ["client"]}'),
+  ('dddddddd-0000-4000-8000-000000000004', 'd@example.com', now(),
+    '{"display_name": "依頼者 D", "roles": ["client"]}');
+
+insert into public.works (id, creator_id, title, is_public, archived_at, deleted_at)
+values
+  ('a0000000-0000-4000-8000-000000000001', 'aaaaaaaa-0000-4000-8000-000000000001',
+    '公開', true, null, null),
+  ('a0000000-0000-4000-8000-000000000002', 'aaaaaaaa-0000-4000-8000-000000000001',
+    'あとで非公開', true, null, null),
+  ('a0000000-0000-4000-8000-000000000003', 'aaaaaaaa-0000-4000-8000-000000000001',
+    'アーカイブ', true, now(), null),
+  ('a0000000-0000-4000-8000-000000000004', 'aaaaaaaa-0000-4000-8000-000000000001',
+    '削除済み', true, null, now()),
+  ('a0000000-0000-4000-8000-000000000005', 'aaaaaaaa-0000-4000-8000-000000000001',
+    '非公開', false, null, null);
+
+insert into public.requests (id, creator_id, client_id, work_id, title, message)
+values
+  ('c0000000-0000-4000-8000-000000000001', 'aaaaaaaa-0000-4000-8000-000000000001',
+    'cccccccc-0000-4000-8000-000000000003', 'a0000000-0000-4000-8000-000000000001',
+    '公開作品への依頼', 'よろしくお願いします'),
+  ('c0000000-0000-4000-8000-000000000002', 'aaaaaaaa-0000-4000-8000-000000000001',
+    'cccccccc-0000-4000-8000-000000000003', 'a0000000-0000-4000-8000-000000000002',
+    'あとで非公開になる作品への依頼', 'よろしくお願いします');
+
+update public.works set is_public = false where id = 'a0000000-0000-4000-8000-000000000002';
+
+insert into public.messages (request_id, sender_id, body)
+values (
+  'c0000000-0000-4000-8000-000000000001', 'cccccccc-0000-4000-8000-000000000003', '最初のメッセージ'
+);
+
+insert into public.work_likes (work_id, user_id)
+values ('a0000000-0000-4000-8000-000000000001', 'dddddddd-0000-4000-8000-000000000004');
+
+-- 未ログイン
+set local role anon;
+set local request.jwt.claims to '{"role": "anon"}';
+
+select results_eq(
+  $$ select title from public.works
+     where creator_id = 'aaaaaaaa-0000-4000-8000-000000000001' order by title $$,
+  array['公開'],
+  '未ログインでは公開中の作品だけが見える'
+);
+
+select is_empty(
+  $$ select id from public.requests $$,
+  '未ログインでは依頼が見えない'
+);
+
+select results_eq(
+  $$ select display_name from public.profiles
+     where id = 'aaaaaaaa-0000-4000-8000-000000000001' $$,
+  array['クリエイター A'],
+  'プロフィールは未ログインでも読める'
+);
+
+set local role authenticated;
+
+-- オーナー（クリエイター A）
+set local request.jwt.claims to
+  '{"sub": "aaaaaaaa-0000-4000-8000-000000000001", "role": "authenticated"}';
+
+select results_eq(
+  $$ select title from public.works
+     where creator_id = 'aaaaaaaa-0000-4000-8000-000000000001' order by title $$,
+  array['あとで非公開', 'アーカイブ', '公開', '削除済み', '非公開'],
+  'オーナーには非公開・アーカイブ・削除済みも含めて自分の作品が全部見える'
+);
+
+select results_eq(
+  $$ update public.works set title = '公開（改題）'
+     where id = 'a0000000-0000-4000-8000-000000000001' returning title $$,
+  array['公開（改題）'],
+  'オーナーは自分の作品を更新できる'
+);
+
+select throws_ok(
+  $$ update public.works set deleted_at = now() - interval '30 days'
+     where id = 'a0000000-0000-4000-8000-000000000001' $$,
+  '42501',
+  null,
+  'オーナーでも deleted_at は直接書き換えられない（元に戻せる期間を飛ばせない）'
+);
+
+select throws_ok(
+  $$ update public.works set image_url = 'https://evil.example/a.png'
+     where id = 'a0000000-0000-4000-8000-000000000001' $$,
+  '42501',
+  null,
+  'オーナーでも画像は set_work_images を通さないと変えられない'
+);
+
+select results_eq(
+  $$ select count(*)::integer from public.messages
+     where request_id = 'c0000000-0000-4000-8000-000000000001' $$,
+  array[1],
+  '依頼を受けたクリエイターはメッセージを読める'
+);
+
+-- 当事者（依頼者 C）
+set local request.jwt.claims to
+  '{"sub": "cccccccc-0000-4000-8000-000000000003", "role": "authenticated"}';
+
+select results_eq(
+  $$ select title from public.works
+     where creator_id = 'aaaaaaaa-0000-4000-8000-000000000001' order by title $$,
+  array['あとで非公開', '公開（改題）'],
+  '依頼の当事者には、依頼した作品が非公開になっても見える（ほかの非公開・アーカイブ・削除済みは見えない）'
+);
+
+select results_eq(
+  $$ select title from public.requests order by title $$,
+  array['あとで非公開になる作品への依頼', '公開作品への依頼'],
+  '依頼者は自分の依頼を読める'
+);
+
+select results_eq(
+  $$ select body from public.messages
+     where request_id = 'c0000000-0000-4000-8000-000000000001' $$,
+  array['最初のメッセージ'],
+  '依頼者は自分の依頼のメッセージを読める'
+);
+
+select lives_ok(
+  $$ insert into public.messages (request_id, sender_id, body)
+     values ('c0000000-0000-4000-8000-000000000001',
+       'cccccccc-0000-4000-8000-000000000003', '追加のご相談') $$,
+  '当事者は本人としてメッセージを送れる'
+);
+
+select throws_ok(
+  $$ insert into public.messages (request_id, sender_id, body)
+     values ('c0000000-0000-4000-8000-000000000001',
+       'aaaaaaaa-0000-4000-8000-000000000001', 'なりすまし') $$,
+  '42501',
+  null,
+  '当事者でも相手になりすましてメッセージは送れない'
+);
+
+select is_empty(
+  $$ update public.works set title = '乗っ取り'
+     where id = 'a0000000-0000-4000-8000-000000000002' returning id $$,
+  '当事者でも依頼した作品は更新できない'
+);
+
+select is_empty(
+  $$ update public.requests set title = '書き換え'
+     where id = 'c0000000-0000-4000-8000-000000000001' returning id $$,
+  '依頼者でも依頼の行は直接書き換えられない'
+);
+
+select lives_ok(
+  $$ insert into public.requests (creator_id, client_id, work_id, title, message)
+     values ('aaaaaaaa-0000-4000-8000-000000000001', 'cccccccc-0000-4000-8000-000000000003',
+       'a0000000-0000-4000-8000-000000000001', '2 件目の依頼', 'またお願いします') $$,
+  '依頼者は本人として公開作品への依頼を作れる'
+);
+
+select throws_ok(
+  $$ insert into public.requests
+       (creator_id, client_id, title, message, agreed_total, agreed_at)
+     values ('aaaaaaaa-0000-4000-8000-000000000001', 'cccccccc-0000-4000-8000-000000000003',
+       '確定済みの依頼', 'よろしくお願いします', 1, now()) $$,
+  '42501',
+  null,
+  '確定条件を入れたまま依頼は作れない（見積もりの承諾でしか入らない）'
+);
+
+select ok(
+  public.is_thread_channel_participant('thread:c0000000-0000-4000-8000-000000000001'),
+  '当事者は依頼スレッドのチャンネル（オンライン状態・入力中）に入れる'
+);
+
+-- 当事者でない依頼者 D
+set local request.jwt.claims to
+  '{"sub": "dddddddd-0000-4000-8000-000000000004", "role": "authenticated"}';
+
+select ok(
+  not public.is_thread_channel_participant('thread:c0000000-0000-4000-8000-000000000001'),
+  '当事者でなければ依頼スレッドのチャンネルに入れない'
+);
+
+select results_eq(
+  $$ select title from public.works
+     where creator_id = 'aaaaaaaa-0000-4000-8000-000000000001' order by title $$,
+  array['公開（改題）'],
+  '当事者でなければ公開中の作品だけが見える'
+);
+
+select is_empty(
+  $$ select id from public.requests $$,
+  '当事者でなければ依頼は見えない'
+);
+
+select is_empty(
+  $$ select id from public.messages $$,
+  '当事者でなければメッセージは見えない'
+);
+
+select throws_ok(
+  $$ insert into public.messages (request_id, sender_id, body)
+     values ('c0000000-0000-4000-8000-000000000001',
+       'dddddddd-0000-4000-8000-000000000004', '割り込み') $$,
+  '42501',
+  null,
+  '当事者でなければメッセージを送れない'
+);
+
+select throws_ok(
+  $$ insert into public.requests (creator_id, client_id, title, message)
+     values ('aaaaaaaa-0000-4000-8000-000000000001', 'cccccccc-0000-4000-8000-000000000003',
+       'なりすまし', 'なりすまし') $$,
+  '42501',
+  null,
+  '他のユーザーを依頼者にした依頼は作れない'
+);
+
+select throws_ok(
+  $$ insert into public.requests (creator_id, client_id, work_id, title, message)
+     values ('aaaaaaaa-0000-4000-8000-000000000001', 'dddddddd-0000-4000-8000-000000000004',
+       'a0000000-0000-4000-8000-000000000005', '非公開作品への依頼', '中身を見たい') $$,
+  '23514',
+  null,
+  '非公開の作品を付けた依頼は作れない（作ると当事者として作品が読めてしまう）'
+);
+
+select throws_ok(
+  $$ insert into public.requests (creator_id, client_id, work_id, title, message)
+     values ('bbbbbbbb-0000-4000-8000-000000000002', 'dddddddd-0000-4000-8000-000000000004',
+       'a0000000-0000-4000-8000-000000000001', '別のクリエイターの作品', 'よろしく') $$,
+  '23514',
+  null,
+  '依頼先のクリエイターの作品でないものは付けられない'
+);
+
+select throws_ok(
+  $$ insert into public.requests (creator_id, client_id, work_id, title, message)
+     values ('aaaaaaaa-0000-4000-8000-000000000001', 'dddddddd-0000-4000-8000-000000000004',
+       'a0000000-0000-4000-8000-000000000003', 'アーカイブ作品への依頼', 'よろしく') $$,
+  '23514',
+  null,
+  'アーカイブした作品を付けた依頼は作れない'
+);
+
+select results_eq(
+  $$ select count(*)::integer from public.work_likes
+     where work_id = 'a0000000-0000-4000-8000-000000000001' $$,
+  array[1],
+  'いいねは誰でも読める（いいね数の集計のため）'
+);
+
+select throws_ok(
+  $$ insert into public.work_likes (work_id, user_id)
+     values ('a0000000-0000-4000-8000-000000000005', 'dddddddd-0000-4000-8000-000000000004') $$,
+  '42501',
+  null,
+  '見えない非公開作品にはいいねできない'
+);
+
+select throws_ok(
+  $$ insert into public.work_likes (work_id, user_id)
+     values ('a0000000-0000-4000-8000-000000000001', 'cccccccc-0000-4000-8000-000000000003') $$,
+  '42501',
+  null,
+  '他のユーザーとしていいねできない'
+);
+
+select is_empty(
+  $$ delete from public.work_likes where user_id <> 'dddddddd-0000-4000-8000-000000000004'
+     returning work_id $$,
+  '他のユーザーのいいねは外せない'
+);
+
+select is_empty(
+  $$ update public.works set title = '乗っ取り'
+     where creator_id = 'aaaaaaaa-0000-4000-8000-000000000001' returning id $$,
+  '他人の作品は更新できない'
+);
+
+select throws_ok(
+  $$ insert into public.works (creator_id, title)
+     values ('dddddddd-0000-4000-8000-000000000004', '依頼者の作品') $$,
+  '42501',
+  null,
+  'クリエイターのロールがなければ作品を追加できない'
+);
+
+select is_empty(
+  $$ update public.profiles set display_name = '乗っ取り', roles = array['client']
+     where id = 'aaaaaaaa-0000-4000-8000-000000000001' returning id $$,
+  '他人のプロフィール（表示名・ロール）は書き換えられない'
+);
+
+select results_eq(
+  $$ update public.profiles set display_name = '依頼者 D（改名）'
+     where id = 'dddddddd-0000-4000-8000-000000000004' returning display_name $$,
+  array['依頼者 D（改名）'],
+  '自分のプロフィールは書き換えられる'
+);
+
+-- 別のクリエイター B
+set local request.jwt.claims to
+  '{"sub": "bbbbbbbb-0000-4000-8000-000000000002", "role": "authenticated"}';
+
+select throws_ok(
+  $$ insert into public.works (creator_id, title)
+     values ('aaaaaaaa-0000-4000-8000-000000000001', 'なりすまし作品') $$,
+  '42501',
+  null,
+  '他のクリエイターとして作品を追加できない'
+);
+
+select lives_ok(
+  $$ insert into public.works (creator_id, title)
+     values ('bbbbbbbb-0000-4000-8000-000000000002', 'B の作品') $$,
+  'クリエイターは自分の作品を追加できる'
+);
+
+select throws_ok(
+  $$ insert into public.works (creator_id, title, archived_at, tags)
+     values ('bbbbbbbb-0000-4000-8000-000000000002', 'B の作品 2', now(), 'タグ') $$,
+  '42501',
+  null,
+  '作品の追加でもアーカイブ・タグなどの列は書けない'
+);
+
+select is_empty(
+  $$ select id from public.requests $$,
+  '依頼を受けていないクリエイターには依頼が見えない'
+);
+
+select * from finish();
+
+rollback;
@@ -0,0 +1,15 @@
+// vitest.config.mts
+// TypeScript のテスト（npm test）。DB のポリシーのテストは supabase/tests（npm run test:db）
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': fileURLToPath(new URL('.', import.meta.url)) },
+  },
+  test: {
+    include: ['**/*.test.ts'],
+    exclude: ['node_modules/**', '.next/**'],
+    environment: 'node',
+  },
+});